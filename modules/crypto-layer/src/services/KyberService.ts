@@ -1,12 +1,13 @@
-import { Kyber768 } from 'kyber-crystals';
+import { kyber } from 'kyber-crystals';
 import sodium from 'libsodium-wrappers';
 import type { IKyberService, KyberKeyPair } from '../types';
 
+// kyber-crystals экспортирует один асинхронный объект kyber (WebAssembly-сборка Kyber-1024)
 export class KyberService implements IKyberService {
-  private kyber: typeof Kyber768;
+  private kyber: typeof kyber;
 
   constructor() {
-    this.kyber = Kyber768;
+    this.kyber = kyber;
   }
 
   async initialize(): Promise<void> {
@@ -16,7 +17,7 @@ export class KyberService implements IKyberService {
   async generateKeyPair(): Promise<KyberKeyPair> {
     await this.initialize();
     
-    const keyPair = this.kyber.keypair();
+    const keyPair = await this.kyber.keyPair();
     
     return {
       publicKey: new Uint8Array(keyPair.publicKey),
@@ -28,16 +29,16 @@ export class KyberService implements IKyberService {
     sharedSecret: Uint8Array; 
     ciphertext: Uint8Array;
   }> {
-    const result = this.kyber.encapsulate(publicKey);
+    const result = await this.kyber.encrypt(publicKey);
     
     return {
-      sharedSecret: new Uint8Array(result.sharedSecret),
-      ciphertext: new Uint8Array(result.ciphertext),
+      sharedSecret: new Uint8Array(result.secret),
+      ciphertext: new Uint8Array(result.cyphertext),
     };
   }
 
   async decapsulate(ciphertext: Uint8Array, privateKey: Uint8Array): Promise<Uint8Array> {
-    const sharedSecret = this.kyber.decapsulate(ciphertext, privateKey);
+    const sharedSecret = await this.kyber.decrypt(ciphertext, privateKey);
     return new Uint8Array(sharedSecret);
   }
 
@@ -1,5 +1,6 @@
 export * from './services/DatabaseService';
 export * from './services/EncryptedStorage';
+export * from './services/SearchIndex';
 export * from './services/QueryBuilder';
 export * from './models';
 export * from './types';
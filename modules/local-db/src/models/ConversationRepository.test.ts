@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import { DatabaseService } from '../services/DatabaseService';
+import { ConversationRepository } from './ConversationRepository';
+import { MessageRepository } from './MessageRepository';
+import type { StoredConversation, StoredMessage } from '../types';
+
+function conversation(id: string, overrides: Partial<StoredConversation> = {}): StoredConversation {
+  return {
+    id,
+    type: 'group',
+    participants: ['alice', 'bob', 'carol'],
+    unreadCount: 0,
+    threadUnreadCounts: {},
+    isPinned: false,
+    isMuted: false,
+    createdAt: new Date(1000),
+    updatedAt: new Date(1000),
+    ...overrides,
+  };
+}
+
+function message(id: string, conversationId: string, timestamp: number): StoredMessage {
+  return { id, conversationId, senderId: 'bob', type: 'text', timestamp: new Date(timestamp) };
+}
+
+describe('ConversationRepository', () => {
+  let db: DatabaseService;
+  let conversations: ConversationRepository;
+  let messages: MessageRepository;
+
+  beforeEach(async () => {
+    await sodium.ready;
+    db = new DatabaseService();
+    await db.initialize({ inMemory: true, encryptionKey: sodium.randombytes_buf(32) });
+    conversations = new ConversationRepository(db);
+    await conversations.initialize();
+    messages = new MessageRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('keeps counters from addMessage when a stale conversation object is saved', async () => {
+    const stale = conversation('c1');
+    await conversations.saveConversation(stale);
+
+    await messages.addMessage(message('m1', 'c1', 2000), { unread: true });
+    await messages.addMessage({ ...message('m2', 'c1', 3000), threadId: 'm1' }, { unread: true });
+
+    // Закрепление со старым объектом без последнего сообщения и счётчиков
+    await conversations.saveConversation({
+      ...stale,
+      isPinned: true,
+      participants: ['alice', 'bob'],
+      updatedAt: new Date(4000),
+    });
+
+    const saved = await conversations.getConversation('c1');
+    expect(saved?.isPinned).toBe(true);
+    expect(saved?.participants).toEqual(['alice', 'bob']);
+    expect(saved?.unreadCount).toBe(1);
+    expect(saved?.threadUnreadCounts).toEqual({ m1: 1 });
+    expect(saved?.lastMessage?.id).toBe('m2');
+    expect(await conversations.findByParticipant('carol')).toHaveLength(0);
+  });
+
+  it('counts a repeated message once and resets counters on markAsRead', async () => {
+    await conversations.saveConversation(conversation('c1'));
+
+    await messages.addMessage(message('m1', 'c1', 2000), { unread: true });
+    await messages.addMessage(message('m1', 'c1', 2000), { unread: true });
+    await messages.addMessage(message('m2', 'c1', 3000), { unread: true });
+    await messages.addMessage({ ...message('m3', 'c1', 4000), threadId: 'm1' }, { unread: true });
+    expect((await conversations.getConversation('c1'))?.unreadCount).toBe(2);
+    expect(await conversations.getUnreadCount()).toBe(2);
+
+    await conversations.markAsRead('c1');
+    const read = await conversations.getConversation('c1');
+    expect(read?.unreadCount).toBe(0);
+    expect(read?.threadUnreadCounts).toEqual({ m1: 1 });
+
+    await conversations.markAsRead('c1', 'm1');
+    expect((await conversations.getConversation('c1'))?.threadUnreadCounts).toEqual({});
+
+    // Сообщение после прочтения снова считается, сохранение переписки его не сбрасывает
+    await messages.addMessage(message('m4', 'c1', 5000), { unread: true });
+    await conversations.saveConversation(conversation('c1', { isMuted: true }));
+    expect((await conversations.getConversation('c1'))?.unreadCount).toBe(1);
+    expect(await conversations.getUnreadCount()).toBe(0);
+  });
+
+  it('orders the list by activity and follows deleted last messages', async () => {
+    await conversations.saveConversation(conversation('c1'));
+    await conversations.saveConversation(conversation('c2'));
+
+    await messages.addMessage(message('a1', 'c1', 2000));
+    await messages.addMessage(message('b1', 'c2', 3000));
+    await messages.addMessage(message('a2', 'c1', 4000));
+    expect((await conversations.listByActivity()).map(c => c.id)).toEqual(['c1', 'c2']);
+
+    await messages.deleteMessages(['a2']);
+    expect((await conversations.listByActivity()).map(c => c.id)).toEqual(['c2', 'c1']);
+    expect((await conversations.getConversation('c1'))?.lastMessage?.id).toBe('a1');
+
+    // Более раннее сообщение после удаления последнего становится последним
+    await messages.addMessage(message('a0', 'c1', 2500));
+    expect((await conversations.getConversation('c1'))?.lastMessage?.id).toBe('a0');
+
+    await messages.deleteMessages(['a0', 'a1']);
+    const empty = await conversations.getConversation('c1');
+    expect(empty?.lastMessage).toBeUndefined();
+    expect((await conversations.listByActivity()).map(c => c.id)).toEqual(['c2', 'c1']);
+  });
+});
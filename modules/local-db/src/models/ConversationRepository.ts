@@ -0,0 +1,196 @@
+import sodium from 'libsodium-wrappers';
+import { MESSAGING_MIGRATIONS } from './MessagingSchema';
+import { MessageRepository } from './MessageRepository';
+import { RecordCodec } from './RecordCodec';
+import type { DatabaseService } from '../services/DatabaseService';
+import type { ConversationListQuery, StoredConversation, StoredMessage } from '../types';
+
+const DEFAULT_LIST_SIZE = 100;
+
+interface ConversationRow {
+  id: string;
+  unreadCount: number;
+  lastMessageId: string | null;
+  record: Uint8Array;
+  nonce: Uint8Array;
+}
+
+// Переписки с участниками и счётчиками непрочитанных. Последнее сообщение хранится ссылкой
+// на историю и обновляется MessageRepository.addMessage и deleteMessages вместе со счётчиками
+export class ConversationRepository<T extends StoredConversation = StoredConversation> {
+  private db: DatabaseService;
+  private messages: MessageRepository<StoredMessage>;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+    this.messages = new MessageRepository(db);
+  }
+
+  async initialize(): Promise<void> {
+    await sodium.ready;
+    await this.db.migrate(MESSAGING_MIGRATIONS);
+  }
+
+  // Счётчики непрочитанных и последнее сообщение берутся из объекта только для новой
+  // переписки; дальше их меняют addMessage, markAsRead и deleteMessages в своих транзакциях,
+  // поэтому сохранение устаревшего объекта (закрепление, переименование) их не откатывает
+  async saveConversation(conversation: T): Promise<void> {
+    const { lastMessage, unreadCount, threadUnreadCounts, ...rest } = conversation;
+    const storage = this.db.getEncryptedStorage();
+    const { value, nonce } = storage.seal(RecordCodec.encode(rest));
+    const activityAt = (lastMessage?.timestamp ?? conversation.updatedAt).getTime();
+
+    this.db.transaction(() => {
+      const exists = this.db.get<{ 1: number }>('SELECT 1 FROM conversations WHERE id = ?', [
+        conversation.id,
+      ]);
+
+      this.db.execute(
+        `INSERT INTO conversations
+           (id, type, is_pinned, is_muted, unread_count, last_message_id, last_activity_at,
+            created_at, updated_at, record, nonce)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           type = excluded.type,
+           is_pinned = excluded.is_pinned,
+           is_muted = excluded.is_muted,
+           updated_at = excluded.updated_at,
+           record = excluded.record,
+           nonce = excluded.nonce`,
+        [
+          conversation.id,
+          conversation.type,
+          conversation.isPinned ? 1 : 0,
+          conversation.isMuted ? 1 : 0,
+          unreadCount,
+          lastMessage?.id ?? null,
+          activityAt,
+          conversation.createdAt.getTime(),
+          conversation.updatedAt.getTime(),
+          value,
+          nonce,
+        ]
+      );
+
+      this.db.execute('DELETE FROM conversation_participants WHERE conversation_id = ?', [
+        conversation.id,
+      ]);
+      for (const userId of conversation.participants) {
+        this.db.execute(
+          `INSERT OR IGNORE INTO conversation_participants (conversation_id, user_key)
+           VALUES (?, ?)`,
+          [conversation.id, storage.hash('user', userId)]
+        );
+      }
+
+      if (exists) return;
+      for (const [threadId, count] of Object.entries(threadUnreadCounts)) {
+        if (count <= 0) continue;
+        this.db.execute(
+          `INSERT INTO thread_unread_counts (conversation_id, thread_id, unread_count)
+           VALUES (?, ?, ?)`,
+          [conversation.id, threadId, count]
+        );
+      }
+    });
+  }
+
+  async getConversation(id: string): Promise<T | null> {
+    const row = this.db.get<ConversationRow>(
+      `SELECT id, unread_count AS unreadCount, last_message_id AS lastMessageId, record, nonce
+       FROM conversations WHERE id = ?`,
+      [id]
+    );
+    return row ? this.readConversation(row) : null;
+  }
+
+  // Порядок ConversationModel.sortByActivity по индексу idx_conversations_activity
+  async listByActivity(query: ConversationListQuery = {}): Promise<T[]> {
+    const rows = this.db.query<ConversationRow>(
+      `SELECT id, unread_count AS unreadCount, last_message_id AS lastMessageId, record, nonce
+       FROM conversations
+       ORDER BY is_pinned DESC, last_activity_at DESC, id
+       LIMIT ? OFFSET ?`,
+      [query.limit ?? DEFAULT_LIST_SIZE, query.offset ?? 0]
+    );
+
+    const conversations: T[] = [];
+    for (const row of rows) {
+      conversations.push(await this.readConversation(row));
+    }
+    return conversations;
+  }
+
+  async findByParticipant(userId: string): Promise<T[]> {
+    const rows = this.db.query<ConversationRow>(
+      `SELECT c.id, c.unread_count AS unreadCount, c.last_message_id AS lastMessageId,
+              c.record, c.nonce
+       FROM conversations c
+       JOIN conversation_participants p ON p.conversation_id = c.id
+       WHERE p.user_key = ?
+       ORDER BY c.is_pinned DESC, c.last_activity_at DESC, c.id`,
+      [this.db.getEncryptedStorage().hash('user', userId)]
+    );
+
+    const conversations: T[] = [];
+    for (const row of rows) {
+      conversations.push(await this.readConversation(row));
+    }
+    return conversations;
+  }
+
+  // Без threadId обнуляется счётчик основной ленты, с threadId - счётчик ветки
+  async markAsRead(conversationId: string, threadId?: string): Promise<void> {
+    this.db.transaction(() => {
+      if (threadId) {
+        this.db.execute(
+          'DELETE FROM thread_unread_counts WHERE conversation_id = ? AND thread_id = ?',
+          [conversationId, threadId]
+        );
+      } else {
+        this.db.execute('UPDATE conversations SET unread_count = 0 WHERE id = ?', [conversationId]);
+      }
+    });
+  }
+
+  // Сумма непрочитанных без заглушённых переписок, как ConversationModel.getUnreadCount
+  async getUnreadCount(): Promise<number> {
+    const row = this.db.get<{ count: number | null }>(
+      'SELECT SUM(unread_count) AS count FROM conversations WHERE is_muted = 0'
+    );
+    return row?.count ?? 0;
+  }
+
+  // История, участники и счётчики удаляются каскадно
+  async deleteConversation(id: string): Promise<void> {
+    this.db.execute('DELETE FROM conversations WHERE id = ?', [id]);
+  }
+
+  // Вспомогательные методы
+
+  private async readConversation(row: ConversationRow): Promise<T> {
+    const conversation = RecordCodec.decode(
+      this.db.getEncryptedStorage().open<unknown>(row.record, row.nonce)
+    );
+
+    const threadUnreadCounts: Record<string, number> = {};
+    for (const thread of this.db.query<{ threadId: string; count: number }>(
+      `SELECT thread_id AS threadId, unread_count AS count FROM thread_unread_counts
+       WHERE conversation_id = ?`,
+      [row.id]
+    )) {
+      threadUnreadCounts[thread.threadId] = thread.count;
+    }
+
+    const lastMessage = row.lastMessageId
+      ? await this.messages.getMessage(row.lastMessageId)
+      : null;
+
+    return {
+      ...conversation,
+      ...(lastMessage ? { lastMessage } : {}),
+      unreadCount: row.unreadCount,
+      threadUnreadCounts,
+    } as T;
+  }
+}
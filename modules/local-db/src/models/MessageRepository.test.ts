@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import { DatabaseService } from '../services/DatabaseService';
+import { ConversationRepository } from './ConversationRepository';
+import { MessageRepository } from './MessageRepository';
+import type { StoredMessage } from '../types';
+
+function message(id: string, timestamp: number, threadId?: string): StoredMessage {
+  return {
+    id,
+    conversationId: 'c1',
+    senderId: 'alice',
+    type: 'text',
+    timestamp: new Date(timestamp),
+    threadId,
+  };
+}
+
+describe('MessageRepository', () => {
+  let db: DatabaseService;
+  let messages: MessageRepository;
+
+  beforeEach(async () => {
+    await sodium.ready;
+    db = new DatabaseService();
+    await db.initialize({ inMemory: true, encryptionKey: sodium.randombytes_buf(32) });
+    const conversations = new ConversationRepository(db);
+    await conversations.initialize();
+    await conversations.saveConversation({
+      id: 'c1',
+      type: 'direct',
+      participants: ['alice', 'bob'],
+      unreadCount: 0,
+      threadUnreadCounts: {},
+      isPinned: false,
+      isMuted: false,
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    });
+    messages = new MessageRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('pages through history in both directions without gaps on equal timestamps', async () => {
+    // m2 и m3 с одинаковым временем различаются по id
+    for (const [id, timestamp] of [
+      ['m1', 1000],
+      ['m2', 2000],
+      ['m3', 2000],
+      ['m4', 3000],
+      ['m5', 4000],
+    ] as const) {
+      await messages.addMessage(message(id, timestamp));
+    }
+    await messages.addMessage(message('t1', 2500, 'm2'));
+
+    const latest = await messages.getHistory('c1', { limit: 2 });
+    expect(latest.messages.map(m => m.id)).toEqual(['m4', 'm5']);
+    expect(latest.hasMore).toBe(true);
+
+    const middle = await messages.getHistory('c1', { limit: 2, before: latest.cursor });
+    expect(middle.messages.map(m => m.id)).toEqual(['m2', 'm3']);
+
+    const oldest = await messages.getHistory('c1', { limit: 2, before: middle.cursor });
+    expect(oldest.messages.map(m => m.id)).toEqual(['m1']);
+    expect(oldest.hasMore).toBe(false);
+
+    const newer = await messages.getHistory('c1', { limit: 2, after: oldest.cursor });
+    expect(newer.messages.map(m => m.id)).toEqual(['m2', 'm3']);
+    expect(newer.hasMore).toBe(true);
+    const newest = await messages.getHistory('c1', { limit: 2, after: newer.cursor });
+    expect(newest.messages.map(m => m.id)).toEqual(['m4', 'm5']);
+    expect(newest.hasMore).toBe(false);
+
+    const thread = await messages.getHistory('c1', { threadId: 'm2' });
+    expect(thread.messages.map(m => m.id)).toEqual(['m2', 't1']);
+  });
+
+  it('round-trips receipts, reactions and attachments and deletes them with the message', async () => {
+    await messages.addMessage({
+      ...message('m1', 1000),
+      attachment: { id: 'a1', mimeType: 'image/png', size: 10 },
+      readReceipts: [{ userId: 'bob', timestamp: new Date(1500), status: 'read' }],
+      reactions: [{ userId: 'bob', emoji: '👍', timestamp: new Date(1600), removed: false }],
+    });
+
+    const stored = await messages.getMessage('m1');
+    expect(stored?.senderId).toBe('alice');
+    expect(stored?.attachment).toEqual({ id: 'a1', mimeType: 'image/png', size: 10 });
+    expect(stored?.readReceipts).toEqual([
+      { userId: 'bob', timestamp: new Date(1500), status: 'read' },
+    ]);
+    expect(stored?.reactions?.map(reaction => reaction.userId)).toEqual(['bob']);
+
+    await messages.deleteMessages(['m1']);
+    expect(await messages.getMessage('m1')).toBeNull();
+    expect(db.query('SELECT 1 FROM message_receipts')).toHaveLength(0);
+    expect(db.query('SELECT 1 FROM message_reactions')).toHaveLength(0);
+    expect(db.query('SELECT 1 FROM message_attachments')).toHaveLength(0);
+  });
+
+  it('rejects messages for an unknown conversation', async () => {
+    await expect(
+      messages.addMessage({ ...message('m1', 1000), conversationId: 'missing' })
+    ).rejects.toThrow('Conversation not found');
+  });
+});
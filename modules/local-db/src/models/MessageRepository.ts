@@ -0,0 +1,337 @@
+import sodium from 'libsodium-wrappers';
+import { MESSAGING_MIGRATIONS } from './MessagingSchema';
+import { RecordCodec } from './RecordCodec';
+import type { DatabaseService } from '../services/DatabaseService';
+import type { HistoryPage, HistoryQuery, StoredMessage } from '../types';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+interface MessageRow {
+  id: string;
+  record: Uint8Array;
+  nonce: Uint8Array;
+}
+
+// История сообщений. Квитанции, реакции и вложение лежат в отдельных таблицах, остальные поля
+// сообщения - в зашифрованной записи. T - тип сообщения модуля, который пользуется хранилищем
+export class MessageRepository<T extends StoredMessage = StoredMessage> {
+  private db: DatabaseService;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+  }
+
+  async initialize(): Promise<void> {
+    await sodium.ready;
+    await this.db.migrate(MESSAGING_MIGRATIONS);
+  }
+
+  // Новое сообщение: запись, последнее сообщение и счётчик непрочитанных переписки меняются
+  // в одной транзакции. Повторно полученное сообщение счётчик не увеличивает
+  async addMessage(message: T, options: { unread?: boolean } = {}): Promise<void> {
+    this.db.transaction(() => {
+      const conversation = this.db.get<{ 1: number }>('SELECT 1 FROM conversations WHERE id = ?', [
+        message.conversationId,
+      ]);
+      if (!conversation) throw new Error('Conversation not found');
+
+      const exists = this.db.get<{ 1: number }>('SELECT 1 FROM messages WHERE id = ?', [
+        message.id,
+      ]);
+      this.writeMessage(message);
+      if (exists) return;
+
+      // Как в ConversationModel.sortByActivity: активность - время последнего сообщения
+      const timestamp = message.timestamp.getTime();
+      this.db.execute(
+        `UPDATE conversations SET
+           last_message_id = CASE
+             WHEN last_message_id IS NULL OR ? >= last_activity_at THEN ? ELSE last_message_id
+           END,
+           last_activity_at = CASE
+             WHEN last_message_id IS NULL OR ? >= last_activity_at THEN ? ELSE last_activity_at
+           END,
+           unread_count = unread_count + ?,
+           updated_at = ?
+         WHERE id = ?`,
+        [
+          timestamp,
+          message.id,
+          timestamp,
+          timestamp,
+          options.unread && !message.threadId ? 1 : 0,
+          Date.now(),
+          message.conversationId,
+        ]
+      );
+
+      if (options.unread && message.threadId) {
+        this.db.execute(
+          `INSERT INTO thread_unread_counts (conversation_id, thread_id, unread_count)
+           VALUES (?, ?, 1)
+           ON CONFLICT (conversation_id, thread_id)
+           DO UPDATE SET unread_count = unread_count + 1`,
+          [message.conversationId, message.threadId]
+        );
+      }
+    });
+  }
+
+  // Изменённое сообщение (правка, удаление у всех, квитанции, реакции); счётчики не меняются
+  async saveMessage(message: T): Promise<void> {
+    this.db.transaction(() => {
+      this.writeMessage(message);
+    });
+  }
+
+  async getMessage(id: string): Promise<T | null> {
+    const row = this.db.get<MessageRow>('SELECT id, record, nonce FROM messages WHERE id = ?', [
+      id,
+    ]);
+    if (!row) return null;
+
+    const [message] = this.readMessages([row]);
+    return message ?? null;
+  }
+
+  // Страница истории основной ленты (threadId не задан) или ветки вместе с её корнем,
+  // как в MessageModel.filterByThread. По умолчанию - самые новые сообщения
+  async getHistory(conversationId: string, query: HistoryQuery = {}): Promise<HistoryPage<T>> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const newer = !!query.after && !query.before;
+    const conditions = ['conversation_id = ?'];
+    const params: Array<string | number> = [conversationId];
+
+    if (query.threadId) {
+      conditions.push('(thread_id = ? OR id = ?)');
+      params.push(query.threadId, query.threadId);
+    } else {
+      conditions.push('thread_id IS NULL');
+    }
+    if (query.before) {
+      const timestamp = query.before.timestamp.getTime();
+      conditions.push('(timestamp < ? OR (timestamp = ? AND id < ?))');
+      params.push(timestamp, timestamp, query.before.id);
+    }
+    if (query.after) {
+      const timestamp = query.after.timestamp.getTime();
+      conditions.push('(timestamp > ? OR (timestamp = ? AND id > ?))');
+      params.push(timestamp, timestamp, query.after.id);
+    }
+
+    const order = newer ? 'ASC' : 'DESC';
+    const rows = this.db.query<MessageRow & { timestamp: number }>(
+      `SELECT id, timestamp, record, nonce FROM messages
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY timestamp ${order}, id ${order}
+       LIMIT ?`,
+      [...params, limit + 1]
+    );
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    if (!newer) page.reverse();
+
+    const edge = newer ? page[page.length - 1] : page[0];
+    return {
+      messages: this.readMessages(page),
+      hasMore,
+      cursor: edge ? { timestamp: new Date(edge.timestamp), id: edge.id } : undefined,
+    };
+  }
+
+  // Последним сообщением переписки становится самое позднее из оставшихся, активность - его
+  // время; без сообщений - время создания переписки
+  async deleteMessages(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    this.db.transaction(() => {
+      const placeholders = ids.map(() => '?').join(', ');
+      this.db.execute(`DELETE FROM messages WHERE id IN (${placeholders})`, ids);
+      this.db.execute(
+        `UPDATE conversations SET
+           last_message_id = (
+             SELECT id FROM messages
+             WHERE conversation_id = conversations.id
+             ORDER BY timestamp DESC, id DESC
+             LIMIT 1
+           ),
+           last_activity_at = COALESCE(
+             (SELECT MAX(timestamp) FROM messages WHERE conversation_id = conversations.id),
+             created_at
+           )
+         WHERE last_message_id IN (${placeholders})`,
+        ids
+      );
+    });
+  }
+
+  // Вспомогательные методы
+
+  private writeMessage(message: T): void {
+    const { attachment, readReceipts, reactions, ...rest } = message;
+    const storage = this.db.getEncryptedStorage();
+    const { value, nonce } = storage.seal(RecordCodec.encode(rest));
+
+    this.db.execute(
+      `INSERT INTO messages
+         (id, conversation_id, sender_key, type, timestamp, thread_id, deleted, record, nonce)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         conversation_id = excluded.conversation_id,
+         sender_key = excluded.sender_key,
+         type = excluded.type,
+         timestamp = excluded.timestamp,
+         thread_id = excluded.thread_id,
+         deleted = excluded.deleted,
+         record = excluded.record,
+         nonce = excluded.nonce`,
+      [
+        message.id,
+        message.conversationId,
+        storage.hash('user', message.senderId),
+        message.type,
+        message.timestamp.getTime(),
+        message.threadId ?? null,
+        message.deleted ? 1 : 0,
+        value,
+        nonce,
+      ]
+    );
+
+    this.db.execute('DELETE FROM message_receipts WHERE message_id = ?', [message.id]);
+    for (const receipt of readReceipts ?? []) {
+      const sealed = storage.seal({ userId: receipt.userId });
+      this.db.execute(
+        `INSERT OR REPLACE INTO message_receipts
+           (message_id, user_key, status, timestamp, record, nonce)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          message.id,
+          storage.hash('user', receipt.userId),
+          receipt.status,
+          receipt.timestamp.getTime(),
+          sealed.value,
+          sealed.nonce,
+        ]
+      );
+    }
+
+    this.db.execute('DELETE FROM message_reactions WHERE message_id = ?', [message.id]);
+    for (const reaction of reactions ?? []) {
+      const sealed = storage.seal({ userId: reaction.userId });
+      this.db.execute(
+        `INSERT OR REPLACE INTO message_reactions
+           (message_id, user_key, emoji, timestamp, removed, record, nonce)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          message.id,
+          storage.hash('user', reaction.userId),
+          reaction.emoji,
+          reaction.timestamp.getTime(),
+          reaction.removed ? 1 : 0,
+          sealed.value,
+          sealed.nonce,
+        ]
+      );
+    }
+
+    this.db.execute('DELETE FROM message_attachments WHERE message_id = ?', [message.id]);
+    if (attachment) {
+      const sealed = storage.seal(RecordCodec.encode(attachment));
+      this.db.execute(
+        `INSERT INTO message_attachments
+           (message_id, attachment_id, mime_type, size, record, nonce)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          message.id,
+          attachment.id,
+          attachment.mimeType,
+          attachment.size,
+          sealed.value,
+          sealed.nonce,
+        ]
+      );
+    }
+  }
+
+  // Квитанции, реакции и вложения читаются одним запросом на всю страницу
+  private readMessages(rows: MessageRow[]): T[] {
+    if (rows.length === 0) return [];
+
+    const storage = this.db.getEncryptedStorage();
+    const ids = rows.map(row => row.id);
+    const placeholders = ids.map(() => '?').join(', ');
+
+    const receipts = this.groupByMessage(
+      this.db.query<{
+        messageId: string;
+        status: string;
+        timestamp: number;
+        record: Uint8Array;
+        nonce: Uint8Array;
+      }>(
+        `SELECT message_id AS messageId, status, timestamp, record, nonce
+         FROM message_receipts WHERE message_id IN (${placeholders})`,
+        ids
+      )
+    );
+    const reactions = this.groupByMessage(
+      this.db.query<{
+        messageId: string;
+        emoji: string;
+        timestamp: number;
+        removed: number;
+        record: Uint8Array;
+        nonce: Uint8Array;
+      }>(
+        `SELECT message_id AS messageId, emoji, timestamp, removed, record, nonce
+         FROM message_reactions WHERE message_id IN (${placeholders})
+         ORDER BY timestamp`,
+        ids
+      )
+    );
+    const attachments = new Map(
+      this.db
+        .query<{ messageId: string; record: Uint8Array; nonce: Uint8Array }>(
+          `SELECT message_id AS messageId, record, nonce
+           FROM message_attachments WHERE message_id IN (${placeholders})`,
+          ids
+        )
+        .map(row => [
+          row.messageId,
+          RecordCodec.decode(storage.open<unknown>(row.record, row.nonce)),
+        ])
+    );
+
+    return rows.map(row => {
+      const message = RecordCodec.decode(storage.open<unknown>(row.record, row.nonce));
+      const attachment = attachments.get(row.id);
+      return {
+        ...message,
+        ...(attachment ? { attachment } : {}),
+        readReceipts: (receipts.get(row.id) ?? []).map(receipt => ({
+          userId: storage.open<{ userId: string }>(receipt.record, receipt.nonce).userId,
+          timestamp: new Date(receipt.timestamp),
+          status: receipt.status,
+        })),
+        reactions: (reactions.get(row.id) ?? []).map(reaction => ({
+          userId: storage.open<{ userId: string }>(reaction.record, reaction.nonce).userId,
+          emoji: reaction.emoji,
+          timestamp: new Date(reaction.timestamp),
+          removed: reaction.removed === 1,
+        })),
+      } as T;
+    });
+  }
+
+  private groupByMessage<R extends { messageId: string }>(rows: R[]): Map<string, R[]> {
+    const grouped = new Map<string, R[]>();
+    for (const row of rows) {
+      const group = grouped.get(row.messageId) ?? [];
+      group.push(row);
+      grouped.set(row.messageId, group);
+    }
+    return grouped;
+  }
+}
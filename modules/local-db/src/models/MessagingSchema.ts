@@ -0,0 +1,143 @@
+import type { Migration } from '../types';
+
+// Версии 1-99 зарезервированы за схемой сообщений и переписок local-db.
+// Открыты только столбцы для выборок и сортировки; записи шифруются ключом базы.
+// Идентификаторы пользователей в открытых столбцах заменены ключевыми хешами
+// EncryptedStorage.hash, сами идентификаторы лежат только в зашифрованных записях
+export const MESSAGING_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    up: `
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        is_pinned INTEGER NOT NULL DEFAULT 0,
+        is_muted INTEGER NOT NULL DEFAULT 0,
+        unread_count INTEGER NOT NULL DEFAULT 0,
+        last_message_id TEXT,
+        last_activity_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL
+      );
+
+      -- Порядок списка переписок: закреплённые сверху, затем по последней активности
+      CREATE INDEX IF NOT EXISTS idx_conversations_activity
+        ON conversations (is_pinned DESC, last_activity_at DESC, id);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_conversations_activity;
+      DROP TABLE IF EXISTS conversations;
+    `,
+  },
+  {
+    version: 2,
+    up: `
+      -- Порядок участников хранится в записи переписки, здесь только индекс для поиска
+      CREATE TABLE IF NOT EXISTS conversation_participants (
+        conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+        user_key TEXT NOT NULL,
+        PRIMARY KEY (conversation_id, user_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_conversation_participants_user
+        ON conversation_participants (user_key);
+
+      -- Непрочитанные в ветках не входят в unread_count переписки
+      CREATE TABLE IF NOT EXISTS thread_unread_counts (
+        conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+        thread_id TEXT NOT NULL,
+        unread_count INTEGER NOT NULL,
+        PRIMARY KEY (conversation_id, thread_id)
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS thread_unread_counts;
+      DROP INDEX IF EXISTS idx_conversation_participants_user;
+      DROP TABLE IF EXISTS conversation_participants;
+    `,
+  },
+  {
+    version: 3,
+    up: `
+      CREATE TABLE IF NOT EXISTS messages (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+        sender_key TEXT NOT NULL,
+        type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        thread_id TEXT,
+        deleted INTEGER NOT NULL DEFAULT 0,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_messages_history
+        ON messages (conversation_id, timestamp, id);
+      CREATE INDEX IF NOT EXISTS idx_messages_thread
+        ON messages (conversation_id, thread_id, timestamp, id) WHERE thread_id IS NOT NULL;
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_messages_thread;
+      DROP INDEX IF EXISTS idx_messages_history;
+      DROP TABLE IF EXISTS messages;
+    `,
+  },
+  {
+    version: 4,
+    up: `
+      CREATE TABLE IF NOT EXISTS message_receipts (
+        message_id TEXT NOT NULL REFERENCES messages (id) ON DELETE CASCADE,
+        user_key TEXT NOT NULL,
+        status TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        PRIMARY KEY (message_id, user_key)
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS message_receipts;
+    `,
+  },
+  {
+    version: 5,
+    up: `
+      CREATE TABLE IF NOT EXISTS message_reactions (
+        message_id TEXT NOT NULL REFERENCES messages (id) ON DELETE CASCADE,
+        user_key TEXT NOT NULL,
+        emoji TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        removed INTEGER NOT NULL DEFAULT 0,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        PRIMARY KEY (message_id, user_key, emoji)
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS message_reactions;
+    `,
+  },
+  {
+    version: 6,
+    up: `
+      -- Ключ, хеш и имя файла вложения хранятся только в зашифрованной записи
+      CREATE TABLE IF NOT EXISTS message_attachments (
+        message_id TEXT PRIMARY KEY REFERENCES messages (id) ON DELETE CASCADE,
+        attachment_id TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_message_attachments_mime_type
+        ON message_attachments (mime_type);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_message_attachments_mime_type;
+      DROP TABLE IF EXISTS message_attachments;
+    `,
+  },
+];
@@ -0,0 +1,41 @@
+import sodium from 'libsodium-wrappers';
+
+// Подготовка записи к EncryptedStorage.seal: JSON теряет Date и Uint8Array, поэтому они
+// заменяются помеченными объектами и восстанавливаются после open
+export class RecordCodec {
+  static encode(value: unknown): unknown {
+    if (value instanceof Date) return { $date: value.getTime() };
+    if (value instanceof Uint8Array) return { $bytes: sodium.to_hex(value) };
+    if (Array.isArray(value)) return value.map(item => RecordCodec.encode(item));
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        if (item !== undefined) result[key] = RecordCodec.encode(item);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  static decode<T = Record<string, unknown>>(value: unknown): T {
+    return RecordCodec.decodeValue(value) as T;
+  }
+
+  // Вспомогательные методы
+
+  private static decodeValue(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(item => RecordCodec.decodeValue(item));
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      if (typeof record.$date === 'number') return new Date(record.$date);
+      if (typeof record.$bytes === 'string') return sodium.from_hex(record.$bytes);
+
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(record)) {
+        result[key] = RecordCodec.decodeValue(item);
+      }
+      return result;
+    }
+    return value;
+  }
+}
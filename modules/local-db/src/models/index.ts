@@ -0,0 +1,4 @@
+export * from './MessagingSchema';
+export * from './MessageRepository';
+export * from './ConversationRepository';
+export * from './RecordCodec';
@@ -9,15 +9,18 @@ import type {
   BackupOptions 
 } from '../types';
 import { EncryptedStorage } from './EncryptedStorage';
+import { SEARCH_INDEX_MIGRATIONS, SearchIndex } from './SearchIndex';
 
 export class DatabaseService implements IDatabaseService {
   private db: Database.Database | null = null;
   private encryptionKey: Uint8Array | null = null;
   private encryptedStorage: EncryptedStorage;
+  private searchIndex: SearchIndex;
   private config: DatabaseConfig = {};
 
   constructor() {
     this.encryptedStorage = new EncryptedStorage();
+    this.searchIndex = new SearchIndex();
   }
 
   async initialize(config: DatabaseConfig): Promise<void> {
@@ -38,14 +41,17 @@ export class DatabaseService implements IDatabaseService {
     this.db.pragma('foreign_keys = ON');
     this.db.pragma('secure_delete = ON');
 
+    // Создание системных таблиц (до хранилища: оно пишет в encrypted_storage)
+    this.createSystemTables();
+
     // Инициализация шифрованного хранилища
     if (config.encryptionKey) {
       this.encryptionKey = config.encryptionKey;
       await this.encryptedStorage.initialize(this.db, config.encryptionKey);
+      // Поисковый индекс доступен только в зашифрованной базе
+      await this.migrate(SEARCH_INDEX_MIGRATIONS);
+      await this.searchIndex.initialize(this.db, this.encryptedStorage, config.encryptionKey);
     }
-
-    // Создание системных таблиц
-    this.createSystemTables();
   }
 
   async close(): Promise<void> {
@@ -92,11 +98,25 @@ export class DatabaseService implements IDatabaseService {
     return this.db.prepare(sql);
   }
 
+  getEncryptedStorage(): EncryptedStorage {
+    if (!this.encryptionKey) throw new Error('Encrypted storage not initialized');
+    return this.encryptedStorage;
+  }
+
+  getSearchIndex(): SearchIndex {
+    if (!this.encryptionKey) throw new Error('Search index not initialized');
+    return this.searchIndex;
+  }
+
   async migrate(migrations: Migration[]): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const currentVersion = this.getCurrentVersion();
-    const pendingMigrations = migrations.filter(m => m.version > currentVersion);
+    // Миграции разных модулей применяются независимо друг от друга,
+    // поэтому проверяется каждая версия, а не только максимальная
+    const appliedVersions = new Set(
+      this.query<{ version: number }>('SELECT version FROM migrations').map(row => row.version)
+    );
+    const pendingMigrations = migrations.filter(m => !appliedVersions.has(m.version));
 
     if (pendingMigrations.length === 0) {
       console.log('Database is up to date');
@@ -5,11 +5,14 @@ import type { IEncryptedStorage } from '../types';
 export class EncryptedStorage implements IEncryptedStorage {
   private db: Database.Database | null = null;
   private encryptionKey: Uint8Array | null = null;
+  private hashKey: Uint8Array | null = null;
 
   async initialize(db: Database.Database, encryptionKey: Uint8Array): Promise<void> {
     await sodium.ready;
     this.db = db;
     this.encryptionKey = encryptionKey;
+    // Отдельный ключ, как у SearchIndex: хеши не зависят от ключа записей напрямую
+    this.hashKey = sodium.crypto_generichash(32, 'messa-column-hash', encryptionKey);
 
     // Сохранение тестовых данных для проверки ключа
     await this.set('encryption_test', { test: true });
@@ -20,13 +23,7 @@ export class EncryptedStorage implements IEncryptedStorage {
       throw new Error('Encrypted storage not initialized');
     }
 
-    // Сериализация значения
-    const serialized = JSON.stringify(value);
-    const data = new TextEncoder().encode(serialized);
-
-    // Шифрование
-    const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
-    const encrypted = sodium.crypto_secretbox_easy(data, nonce, this.encryptionKey);
+    const { value: encrypted, nonce } = this.seal(value);
 
     // Сохранение в БД
     const stmt = this.db.prepare(`
@@ -51,22 +48,52 @@ export class EncryptedStorage implements IEncryptedStorage {
     }
 
     try {
-      // Расшифровка
-      const decrypted = sodium.crypto_secretbox_open_easy(
-        row.value,
-        row.nonce,
-        this.encryptionKey
-      );
-
-      // Десериализация
-      const serialized = new TextDecoder().decode(decrypted);
-      return JSON.parse(serialized) as T;
+      return this.open<T>(row.value, row.nonce);
     } catch (error) {
       console.error('Failed to decrypt value:', error);
       return null;
     }
   }
 
+  // Шифрование значения для хранения в собственных таблицах модулей
+  seal(value: unknown): { value: Uint8Array; nonce: Uint8Array } {
+    if (!this.encryptionKey) {
+      throw new Error('Encrypted storage not initialized');
+    }
+
+    // Сериализация значения
+    const serialized = JSON.stringify(value);
+    const data = new TextEncoder().encode(serialized);
+
+    // Шифрование
+    const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
+    const encrypted = sodium.crypto_secretbox_easy(data, nonce, this.encryptionKey);
+
+    return { value: encrypted, nonce };
+  }
+
+  // Ключевой хеш значения для открытых столбцов выборок: равные значения дают равные хеши,
+  // но без ключа базы значение по хешу не подобрать. scope разделяет хеши разных столбцов
+  hash(scope: string, value: string): string {
+    if (!this.hashKey) {
+      throw new Error('Encrypted storage not initialized');
+    }
+    return sodium.to_hex(sodium.crypto_generichash(16, `${scope}:${value}`, this.hashKey));
+  }
+
+  open<T>(value: Uint8Array, nonce: Uint8Array): T {
+    if (!this.encryptionKey) {
+      throw new Error('Encrypted storage not initialized');
+    }
+
+    // Расшифровка
+    const decrypted = sodium.crypto_secretbox_open_easy(value, nonce, this.encryptionKey);
+
+    // Десериализация
+    const serialized = new TextDecoder().decode(decrypted);
+    return JSON.parse(serialized) as T;
+  }
+
   async delete(key: string): Promise<void> {
     if (!this.db) {
       throw new Error('Encrypted storage not initialized');
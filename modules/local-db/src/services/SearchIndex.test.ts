@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import { DatabaseService } from './DatabaseService';
+import type { SearchIndex } from './SearchIndex';
+import type { SearchDocument, SearchQuery } from '../types';
+
+function document(
+  id: string,
+  text: string,
+  overrides: Partial<SearchDocument> = {}
+): SearchDocument {
+  return {
+    id,
+    conversationId: 'c1',
+    senderId: 'alice',
+    type: 'text',
+    timestamp: new Date(1000),
+    text,
+    ...overrides,
+  };
+}
+
+describe('SearchIndex', () => {
+  let db: DatabaseService;
+  let index: SearchIndex;
+
+  beforeEach(async () => {
+    await sodium.ready;
+    db = new DatabaseService();
+    await db.initialize({ inMemory: true, encryptionKey: sodium.randombytes_buf(32) });
+    index = db.getSearchIndex();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('creates its tables through a versioned migration', () => {
+    expect(db.query('SELECT version FROM migrations WHERE version = 600')).toHaveLength(1);
+  });
+
+  it('finds whole words and prefixes without storing plain text', async () => {
+    await index.indexDocument(document('m1', 'Встреча в пятницу'));
+    await index.indexDocument(document('m2', 'Пятничный отчёт готов'));
+
+    const results = await index.search({ query: 'пятн' });
+    expect(results.map(result => result.id).sort()).toEqual(['m1', 'm2']);
+    expect((await index.search({ query: 'ПЯТНИЦУ' })).map(result => result.id)).toEqual(['m1']);
+    expect(await index.search({ query: 'пя' })).toEqual([]);
+
+    const [match] = await index.search({ query: 'отчёт' });
+    expect(match?.conversationId).toBe('c1');
+    expect(match?.snippet).toBe('Пятничный отчёт готов');
+    expect(match?.highlights).toEqual([{ start: 10, end: 15 }]);
+
+    const stored = db.query<Record<string, unknown>>('SELECT * FROM search_documents');
+    expect(JSON.stringify(stored)).not.toContain('c1');
+    expect(JSON.stringify(stored)).not.toContain('alice');
+  });
+
+  it('filters by conversation, sender, type and date', async () => {
+    await index.indexDocument(document('m1', 'report'));
+    await index.indexDocument(document('m2', 'report', { conversationId: 'c2' }));
+    await index.indexDocument(document('m3', 'report', { senderId: 'bob' }));
+    await index.indexDocument(document('m4', 'report.pdf', { type: 'file' }));
+    await index.indexDocument(document('m5', 'report', { timestamp: new Date(5000) }));
+
+    const ids = async (query: SearchQuery) =>
+      (await index.search(query)).map(result => result.id).sort();
+
+    expect(await ids({ query: 'report', conversationId: 'c2' })).toEqual(['m2']);
+    expect(await ids({ query: 'report', senderId: 'bob' })).toEqual(['m3']);
+    expect(await ids({ query: 'report', types: ['file'] })).toEqual(['m4']);
+    expect(await ids({ query: 'report', from: new Date(2000) })).toEqual(['m5']);
+    expect(await ids({ query: 'report', to: new Date(2000) })).toEqual(['m1', 'm2', 'm3', 'm4']);
+
+    const byDate = await index.search({ query: 'report', orderBy: 'date', limit: 1 });
+    expect(byDate.map(result => result.id)).toEqual(['m5']);
+  });
+
+  it('replaces reindexed documents and removes documents and conversations', async () => {
+    await index.indexDocument(document('m1', 'draft'));
+    await index.indexDocument(document('m1', 'final'));
+    await index.indexDocument(document('m2', 'final'));
+    await index.indexDocument(document('m3', 'final', { conversationId: 'c2' }));
+    expect(await index.search({ query: 'draft' })).toEqual([]);
+
+    await index.removeDocuments(['m2']);
+    await index.removeConversation('c2');
+    expect((await index.search({ query: 'final' })).map(result => result.id)).toEqual(['m1']);
+    expect(db.query('SELECT rowid FROM search_index')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,299 @@
+import sodium from 'libsodium-wrappers';
+import type Database from 'better-sqlite3';
+import type { EncryptedStorage } from './EncryptedStorage';
+import type { ISearchIndex, Migration, SearchDocument, SearchQuery, SearchResult } from '../types';
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const MAX_WORD_LENGTH = 64; // Более длинные последовательности не индексируются (ключи, ссылки)
+const MIN_PREFIX_LENGTH = 3; // Начала слов короче не индексируются
+const TERM_BYTES = 8;
+const SNIPPET_LENGTH = 120;
+const SNIPPET_CONTEXT = 30; // Символов до первого совпадения
+const DEFAULT_LIMIT = 50;
+
+// Версии 600-699 зарезервированы за поисковым индексом; DatabaseService применяет их
+// при открытии зашифрованной базы
+export const SEARCH_INDEX_MIGRATIONS: Migration[] = [
+  {
+    version: 600,
+    up: `
+      CREATE TABLE IF NOT EXISTS search_documents (
+        doc_id INTEGER PRIMARY KEY,
+        document_id TEXT NOT NULL UNIQUE,
+        conversation_key TEXT NOT NULL,
+        sender_key TEXT NOT NULL,
+        type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_search_documents_conversation
+        ON search_documents (conversation_key, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_search_documents_sender ON search_documents (sender_key);
+      CREATE INDEX IF NOT EXISTS idx_search_documents_timestamp ON search_documents (timestamp);
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+        terms,
+        prefixes,
+        tokenize = 'ascii'
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS search_index;
+      DROP INDEX IF EXISTS idx_search_documents_timestamp;
+      DROP INDEX IF EXISTS idx_search_documents_sender;
+      DROP INDEX IF EXISTS idx_search_documents_conversation;
+      DROP TABLE IF EXISTS search_documents;
+    `,
+  },
+];
+
+// Полнотекстовый поиск на FTS5 без открытого текста на диске: слова, их начала, переписка
+// и отправитель заменяются ключевыми хешами BLAKE2b от ключа базы, а текст для сниппетов
+// хранится зашифрованным. Поиск выполняется по хешам слов запроса, поэтому поддерживаются
+// только целые слова и их начала. Частоты хешей по-прежнему видны владельцу файла базы
+export class SearchIndex implements ISearchIndex {
+  private db: Database.Database | null = null;
+  private storage: EncryptedStorage | null = null;
+  private key: Uint8Array | null = null;
+
+  async initialize(
+    db: Database.Database,
+    storage: EncryptedStorage,
+    encryptionKey: Uint8Array
+  ): Promise<void> {
+    await sodium.ready;
+    this.db = db;
+    this.storage = storage;
+    // Отдельный ключ, чтобы хеши не зависели от ключа шифрования записей напрямую
+    this.key = sodium.crypto_generichash(32, 'messa-search-index', encryptionKey);
+  }
+
+  // Повторная индексация заменяет документ (например, после редактирования)
+  async indexDocument(document: SearchDocument): Promise<void> {
+    const db = this.getDb();
+    const words = this.tokenize(document.text);
+    const { value, nonce } = this.storage!.seal({
+      conversationId: document.conversationId,
+      senderId: document.senderId,
+      text: document.text,
+    });
+
+    const prefixes = new Set<string>();
+    for (const word of words) {
+      const chars = Array.from(word);
+      for (let length = MIN_PREFIX_LENGTH; length < chars.length; length++) {
+        prefixes.add(chars.slice(0, length).join(''));
+      }
+    }
+
+    db.transaction(() => {
+      this.deleteDocument(document.id);
+
+      const result = db
+        .prepare(
+          `INSERT INTO search_documents
+             (document_id, conversation_key, sender_key, type, timestamp, record, nonce)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          document.id,
+          this.hash('conversation', document.conversationId),
+          this.hash('sender', document.senderId),
+          document.type,
+          document.timestamp.getTime(),
+          value,
+          nonce
+        );
+
+      db.prepare('INSERT INTO search_index (rowid, terms, prefixes) VALUES (?, ?, ?)').run(
+        result.lastInsertRowid,
+        words.map(word => this.hash('word', word)).join(' '),
+        Array.from(prefixes, prefix => this.hash('prefix', prefix)).join(' ')
+      );
+    })();
+  }
+
+  async removeDocuments(ids: string[]): Promise<void> {
+    this.getDb().transaction(() => {
+      for (const id of ids) {
+        this.deleteDocument(id);
+      }
+    })();
+  }
+
+  async removeConversation(conversationId: string): Promise<void> {
+    const db = this.getDb();
+    const conversationKey = this.hash('conversation', conversationId);
+
+    db.transaction(() => {
+      db.prepare(
+        `DELETE FROM search_index WHERE rowid IN
+           (SELECT doc_id FROM search_documents WHERE conversation_key = ?)`
+      ).run(conversationKey);
+      db.prepare('DELETE FROM search_documents WHERE conversation_key = ?').run(conversationKey);
+    })();
+  }
+
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    const db = this.getDb();
+    const terms = Array.from(new Set(this.tokenize(query.query)));
+    if (terms.length === 0) return [];
+
+    const match = terms
+      .map(term =>
+        Array.from(term).length >= MIN_PREFIX_LENGTH
+          ? `(terms:"${this.hash('word', term)}" OR prefixes:"${this.hash('prefix', term)}")`
+          : `terms:"${this.hash('word', term)}"`
+      )
+      .join(' AND ');
+
+    const conditions = ['search_index MATCH ?'];
+    const params: Array<string | number> = [match];
+    if (query.conversationId !== undefined) {
+      conditions.push('d.conversation_key = ?');
+      params.push(this.hash('conversation', query.conversationId));
+    }
+    if (query.senderId !== undefined) {
+      conditions.push('d.sender_key = ?');
+      params.push(this.hash('sender', query.senderId));
+    }
+    if (query.types && query.types.length > 0) {
+      conditions.push(`d.type IN (${query.types.map(() => '?').join(', ')})`);
+      params.push(...query.types);
+    }
+    if (query.from) {
+      conditions.push('d.timestamp >= ?');
+      params.push(query.from.getTime());
+    }
+    if (query.to) {
+      conditions.push('d.timestamp <= ?');
+      params.push(query.to.getTime());
+    }
+
+    const order = query.orderBy === 'date' ? 'd.timestamp DESC' : 'rank ASC, d.timestamp DESC';
+    const rows = db
+      .prepare(
+        `SELECT d.document_id AS id, d.type, d.timestamp, d.record, d.nonce,
+                bm25(search_index) AS rank
+         FROM search_index
+         JOIN search_documents d ON d.doc_id = search_index.rowid
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY ${order}
+         LIMIT ? OFFSET ?`
+      )
+      .all(...params, query.limit ?? DEFAULT_LIMIT, query.offset ?? 0) as Array<{
+      id: string;
+      type: string;
+      timestamp: number;
+      record: Uint8Array;
+      nonce: Uint8Array;
+      rank: number;
+    }>;
+
+    return rows.map(row => {
+      const { conversationId, senderId, text } = this.storage!.open<{
+        conversationId: string;
+        senderId: string;
+        text: string;
+      }>(row.record, row.nonce);
+
+      return {
+        id: row.id,
+        conversationId,
+        senderId,
+        type: row.type,
+        timestamp: new Date(row.timestamp),
+        ...this.snippet(text, terms),
+        rank: row.rank,
+      };
+    });
+  }
+
+  async clear(): Promise<void> {
+    const db = this.getDb();
+    db.transaction(() => {
+      db.exec('DELETE FROM search_index');
+      db.exec('DELETE FROM search_documents');
+    })();
+  }
+
+  // Вспомогательные методы
+
+  private getDb(): Database.Database {
+    if (!this.db || !this.key) throw new Error('Search index not initialized');
+    return this.db;
+  }
+
+  private deleteDocument(id: string): void {
+    const db = this.getDb();
+    const row = db.prepare('SELECT doc_id FROM search_documents WHERE document_id = ?').get(id) as
+      { doc_id: number } | undefined;
+    if (!row) return;
+
+    db.prepare('DELETE FROM search_index WHERE rowid = ?').run(row.doc_id);
+    db.prepare('DELETE FROM search_documents WHERE doc_id = ?').run(row.doc_id);
+  }
+
+  private tokenize(text: string): string[] {
+    return Array.from(text.matchAll(WORD_PATTERN), match => this.normalize(match[0])).filter(
+      word => word.length <= MAX_WORD_LENGTH
+    );
+  }
+
+  private normalize(word: string): string {
+    return word.normalize('NFKC').toLowerCase();
+  }
+
+  // Область хеша разделяет слова, начала слов и идентификаторы с одинаковым текстом
+  private hash(scope: string, value: string): string {
+    return sodium.to_hex(sodium.crypto_generichash(TERM_BYTES, `${scope}:${value}`, this.key!));
+  }
+
+  // Фрагмент вокруг первого совпадения с позициями всех совпадений внутри него
+  private snippet(
+    text: string,
+    terms: string[]
+  ): { snippet: string; highlights: Array<{ start: number; end: number }> } {
+    const matches: Array<{ start: number; end: number }> = [];
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const word = this.normalize(match[0]);
+      const matched = terms.some(
+        term =>
+          word === term || (Array.from(term).length >= MIN_PREFIX_LENGTH && word.startsWith(term))
+      );
+      if (matched) {
+        matches.push({ start: match.index!, end: match.index! + match[0].length });
+      }
+    }
+
+    if (text.length <= SNIPPET_LENGTH) {
+      return { snippet: text, highlights: matches };
+    }
+
+    const first = matches[0] ?? { start: 0, end: 0 };
+    let start = Math.max(0, first.start - SNIPPET_CONTEXT);
+    if (start > 0) {
+      const boundary = text.indexOf(' ', start);
+      if (boundary !== -1 && boundary < first.start) start = boundary + 1;
+    }
+    let end = Math.min(text.length, start + SNIPPET_LENGTH);
+    if (end < text.length) {
+      const boundary = text.lastIndexOf(' ', end);
+      if (boundary > first.end) end = boundary;
+    }
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    return {
+      snippet: prefix + text.slice(start, end) + suffix,
+      highlights: matches
+        .filter(match => match.start >= start && match.end <= end)
+        .map(match => ({
+          start: match.start - start + prefix.length,
+          end: match.end - start + prefix.length,
+        })),
+    };
+  }
+}
@@ -89,3 +89,116 @@ export interface ConstraintDefinition {
   type: 'FOREIGN KEY' | 'CHECK' | 'UNIQUE';
   definition: string;
 }
+
+// Документ полнотекстового индекса: текст и метаданные хранятся зашифрованными,
+// в FTS5 попадают только ключевые хеши слов
+export interface SearchDocument {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  type: string;
+  timestamp: Date;
+  text: string;
+}
+
+export interface SearchQuery {
+  query: string; // Все слова обязательны, каждое ищется и как начало слова
+  conversationId?: string;
+  senderId?: string;
+  types?: string[];
+  from?: Date;
+  to?: Date;
+  orderBy?: 'relevance' | 'date';
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchResult {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  type: string;
+  timestamp: Date;
+  snippet: string;
+  highlights: Array<{ start: number; end: number }>; // Совпадения внутри snippet
+  rank: number;
+}
+
+export interface ISearchIndex {
+  indexDocument(document: SearchDocument): Promise<void>;
+  removeDocuments(ids: string[]): Promise<void>;
+  removeConversation(conversationId: string): Promise<void>;
+  search(query: SearchQuery): Promise<SearchResult[]>;
+  clear(): Promise<void>;
+}
+
+// Сообщение и переписка в хранилище: перечисленные поля раскладываются по столбцам и таблицам
+// для выборок, остальные поля записи (текст, цитата, история правок и т.д.) шифруются целиком
+export interface StoredAttachment {
+  id: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface StoredReceipt {
+  userId: string;
+  timestamp: Date;
+  status: string;
+}
+
+export interface StoredReaction {
+  userId: string;
+  emoji: string;
+  timestamp: Date;
+  removed: boolean;
+}
+
+export interface StoredMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  type: string;
+  timestamp: Date;
+  threadId?: string;
+  deleted?: boolean;
+  attachment?: StoredAttachment;
+  readReceipts?: StoredReceipt[];
+  reactions?: StoredReaction[];
+}
+
+export interface StoredConversation {
+  id: string;
+  type: string;
+  participants: string[];
+  lastMessage?: StoredMessage;
+  unreadCount: number;
+  threadUnreadCounts: Record<string, number>;
+  isPinned: boolean;
+  isMuted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Позиция в истории: время и id сообщения на случай одинакового времени
+export interface HistoryCursor {
+  timestamp: Date;
+  id: string;
+}
+
+export interface HistoryQuery {
+  before?: HistoryCursor; // Более ранние сообщения
+  after?: HistoryCursor; // Более поздние сообщения
+  threadId?: string;
+  limit?: number;
+}
+
+export interface HistoryPage<T> {
+  messages: T[]; // В порядке времени
+  hasMore: boolean;
+  cursor?: HistoryCursor; // Передаётся в before или after следующего запроса в том же направлении
+}
+
+export interface ConversationListQuery {
+  limit?: number;
+  offset?: number;
+}
@@ -2,6 +2,26 @@ export * from './services/SignalProtocolService';
 export * from './services/MLSService';
 export * from './services/MessageEncryptionService';
 export * from './services/ForwardSecrecyService';
+export * from './services/SessionStore';
+export * from './services/DeviceRegistryService';
+export * from './services/KeyPackageDirectoryService';
+export * from './services/SafetyNumberService';
+export * from './services/SealedSenderService';
+export * from './services/MessageEditService';
+export * from './services/AttachmentService';
+export * from './services/AttachmentStore';
+export * from './services/MessageExpiryService';
+export * from './services/ExpiryStore';
+export * from './services/ReceiptService';
+export * from './services/PresenceService';
+export * from './services/MessageDeliveryService';
+export * from './services/DeliveryStore';
+export * from './services/MessageSearchService';
+export * from './services/ChannelService';
+export * from './services/ChannelStore';
+export * from './services/LinkPreviewService';
+export * from './services/WireCodec';
 export * from './types';
 export * from './models/Message';
 export * from './models/Conversation';
+export * from './models/GroupAdministration';
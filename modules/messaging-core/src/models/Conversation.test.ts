@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { ConversationModel } from './Conversation';
+import { GroupAdministrationModel } from './GroupAdministration';
+import { MessageModel } from './Message';
+import { ReceiptService } from '../services/ReceiptService';
+import type { GroupSession, Message } from '../types';
+
+function message(conversationId: string, senderId: string, timestamp: number): Message {
+  return {
+    ...MessageModel.create({ conversationId, senderId, content: 'hi' }),
+    timestamp: new Date(timestamp),
+  };
+}
+
+describe('ConversationModel', () => {
+  it('sends a read receipt to every sender for their latest unread message', async () => {
+    const sent: Array<{ recipientId: string; receipt: Message }> = [];
+    const receipts = new ReceiptService('alice', (recipientId, receipt) => {
+      sent.push({ recipientId, receipt });
+      return Promise.resolve();
+    });
+
+    const conversation = ConversationModel.create({
+      type: 'group',
+      participants: ['alice', 'bob', 'carol'],
+    });
+    const bobFirst = message(conversation.id, 'bob', 1000);
+    const bobLast = message(conversation.id, 'bob', 2000);
+    const carolLast = message(conversation.id, 'carol', 3000);
+    const threadReply = { ...message(conversation.id, 'dave', 3500), threadId: bobFirst.id };
+    const own = message(conversation.id, 'alice', 4000);
+
+    // Последнее сообщение наше, квитанции всё равно уходят остальным отправителям
+    const read = ConversationModel.markAsRead(
+      { ...ConversationModel.updateLastMessage(conversation, own), unreadCount: 3 },
+      receipts,
+      [bobFirst, bobLast, carolLast, threadReply, own]
+    );
+    await receipts.flush();
+
+    expect(read.unreadCount).toBe(0);
+    expect(
+      sent.map(({ recipientId, receipt }) => [recipientId, receipt.receipt?.messageIds])
+    ).toEqual([
+      ['bob', [bobLast.id]],
+      ['carol', [carolLast.id]],
+    ]);
+  });
+
+  it('takes the timer of an MLS group only from group settings', () => {
+    const group = ConversationModel.create({ type: 'group', participants: ['alice', 'bob'] });
+    const session: GroupSession = {
+      groupId: group.id,
+      epoch: 1,
+      treeHash: new Uint8Array(0),
+      members: [],
+      pendingProposals: [],
+      administration: GroupAdministrationModel.create('alice', {
+        settings: { ephemeralTimeout: 60000 },
+      }),
+    };
+
+    const synced = ConversationModel.syncWithGroup(group, session);
+    expect(synced.metadata?.ephemeralTimeout).toBe(60000);
+    expect(() =>
+      ConversationModel.applyTimerUpdate(
+        synced,
+        MessageModel.createTimerUpdate(group.id, 'alice', 5000)
+      )
+    ).toThrow('Group timer is set by group settings');
+
+    // Переименование не трогает таймер
+    const renamed = ConversationModel.syncWithGroup(synced, {
+      ...session,
+      administration: { ...session.administration!, name: 'team' },
+    });
+    expect(renamed.metadata?.ephemeralTimeout).toBe(60000);
+
+    const direct = ConversationModel.create({ type: 'direct', participants: ['alice', 'bob'] });
+    const timed = ConversationModel.applyTimerUpdate(
+      direct,
+      MessageModel.createTimerUpdate(direct.id, 'bob', 5000)
+    );
+    expect(ConversationModel.getEphemeralOptions(timed)).toEqual({
+      ephemeral: true,
+      ephemeralTimeout: 5000,
+    });
+  });
+});
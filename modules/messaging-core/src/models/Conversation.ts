@@ -1,5 +1,17 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Message } from '../types';
+import { GroupAdministrationModel } from './GroupAdministration';
+import { MessageModel } from './Message';
+import type { ReceiptService } from '../services/ReceiptService';
+import type {
+  ChannelDescriptor,
+  Message,
+  GroupSession,
+  GroupAction,
+  GroupAdministration,
+  GroupPermissions,
+  GroupRole,
+  MessageSendOptions,
+} from '../types';
 
 export interface Conversation {
   id: string;
@@ -8,6 +20,7 @@ export interface Conversation {
   participants: string[];
   lastMessage?: Message;
   unreadCount: number;
+  threadUnreadCounts: Record<string, number>; // Непрочитанные в ветках не входят в unreadCount
   isPinned: boolean;
   isMuted: boolean;
   createdAt: Date;
@@ -22,6 +35,15 @@ export interface ConversationMetadata {
   encryptionType?: 'signal' | 'mls';
   ephemeralTimeout?: number;
   customNotificationSound?: string;
+  // Упоминания пользователя уведомляют и в заглушённой переписке
+  mentionsBypassMute?: boolean;
+  // Скрывать отправителя от ретрансляторов (sealed sender)
+  sealedSender?: boolean;
+  // Для групп MLS: копия ролей и прав из состояния группы
+  roles?: Record<string, GroupRole>;
+  permissions?: GroupPermissions;
+  allowedReactions?: string[];
+  multipleReactions?: boolean;
 }
 
 export class ConversationModel {
@@ -37,6 +59,7 @@ export class ConversationModel {
       name: params.name,
       participants: params.participants,
       unreadCount: 0,
+      threadUnreadCounts: {},
       isPinned: false,
       isMuted: false,
       createdAt: new Date(),
@@ -49,6 +72,27 @@ export class ConversationModel {
     };
   }
 
+  // Канал не использует ни Signal, ни MLS: посты подписаны издателем, у закрытого канала
+  // зашифрованы ключом из приглашения
+  static createChannel(descriptor: ChannelDescriptor, isPrivate: boolean): Conversation {
+    return {
+      id: descriptor.id,
+      type: 'channel',
+      name: descriptor.name,
+      participants: Array.from(new Set([descriptor.ownerId, ...descriptor.publishers])),
+      unreadCount: 0,
+      threadUnreadCounts: {},
+      isPinned: false,
+      isMuted: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      metadata: {
+        isEncrypted: isPrivate,
+        description: descriptor.description,
+      },
+    };
+  }
+
   static updateLastMessage(conversation: Conversation, message: Message): Conversation {
     return {
       ...conversation,
@@ -57,20 +101,66 @@ export class ConversationModel {
     };
   }
 
-  static incrementUnread(conversation: Conversation): Conversation {
+  static incrementUnread(conversation: Conversation, threadId?: string): Conversation {
+    if (threadId) {
+      return {
+        ...conversation,
+        threadUnreadCounts: {
+          ...conversation.threadUnreadCounts,
+          [threadId]: (conversation.threadUnreadCounts[threadId] ?? 0) + 1,
+        },
+      };
+    }
+
     return {
       ...conversation,
       unreadCount: conversation.unreadCount + 1,
     };
   }
 
-  static markAsRead(conversation: Conversation): Conversation {
+  // Квитанция отправляется каждому отправителю на его последнее непрочитанное сообщение:
+  // получатель отметит прочитанными и более ранние. Без списка непрочитанных известно только
+  // последнее сообщение переписки
+  static markAsRead(
+    conversation: Conversation,
+    receipts?: ReceiptService,
+    unread: Message[] = conversation.lastMessage ? [conversation.lastMessage] : []
+  ): Conversation {
+    if (receipts && conversation.unreadCount > 0) {
+      const latest = new Map<string, Message>();
+      for (const message of MessageModel.filterByThread(unread)) {
+        if (MessageModel.isControl(message)) continue;
+        const current = latest.get(message.senderId);
+        if (!current || message.timestamp.getTime() > current.timestamp.getTime()) {
+          latest.set(message.senderId, message);
+        }
+      }
+      for (const message of latest.values()) {
+        receipts.messageRead(message);
+      }
+    }
+
     return {
       ...conversation,
       unreadCount: 0,
     };
   }
 
+  static markThreadAsRead(conversation: Conversation, threadId: string): Conversation {
+    const { [threadId]: _, ...threadUnreadCounts } = conversation.threadUnreadCounts;
+    return {
+      ...conversation,
+      threadUnreadCounts,
+    };
+  }
+
+  static getThreadUnreadCount(conversation: Conversation, threadId?: string): number {
+    if (threadId) {
+      return conversation.threadUnreadCounts[threadId] ?? 0;
+    }
+    return Object.values(conversation.threadUnreadCounts).reduce((sum, count) => sum + count, 0);
+  }
+
   static togglePin(conversation: Conversation): Conversation {
     return {
       ...conversation,
@@ -85,6 +175,107 @@ export class ConversationModel {
     };
   }
 
+  static setMentionsBypassMute(conversation: Conversation, enabled: boolean): Conversation {
+    return {
+      ...conversation,
+      metadata: {
+        isEncrypted: true,
+        ...conversation.metadata,
+        mentionsBypassMute: enabled,
+      },
+    };
+  }
+
+  // Уведомлять ли пользователя о полученном сообщении: управляющие и свои сообщения не
+  // уведомляют, заглушённая переписка - только об упоминаниях, если это включено
+  static shouldNotify(conversation: Conversation, message: Message, userId: string): boolean {
+    if (message.senderId === userId || message.deleted || MessageModel.isControl(message)) {
+      return false;
+    }
+    if (!conversation.isMuted) {
+      return true;
+    }
+    return (
+      (conversation.metadata?.mentionsBypassMute ?? false) &&
+      MessageModel.isMentioned(message, userId)
+    );
+  }
+
+  static setSealedSender(conversation: Conversation, enabled: boolean): Conversation {
+    return {
+      ...conversation,
+      metadata: {
+        isEncrypted: true,
+        ...conversation.metadata,
+        sealedSender: enabled,
+      },
+    };
+  }
+
+  static getSendOptions(conversation: Conversation): MessageSendOptions {
+    return { sealedSender: conversation.metadata?.sealedSender ?? false };
+  }
+
+  // Таймер исчезающих сообщений приходит управляющим сообщением type: 'timer' от любого участника.
+  // В группе MLS таймер входит в настройки группы и меняется только commit'ом
+  // (MLSService.updateGroupSettings), а в переписку попадает через syncWithGroup
+  static applyTimerUpdate(conversation: Conversation, update: Message): Conversation {
+    if (update.type !== 'timer' || update.conversationId !== conversation.id) {
+      throw new Error('Not a timer update for this conversation');
+    }
+    if (conversation.metadata?.encryptionType === 'mls') {
+      throw new Error('Group timer is set by group settings');
+    }
+    if (!conversation.participants.includes(update.senderId)) {
+      throw new Error('Sender is not a participant');
+    }
+
+    return {
+      ...conversation,
+      updatedAt: new Date(),
+      metadata: {
+        isEncrypted: true,
+        ...conversation.metadata,
+        ephemeralTimeout: update.ephemeralTimeout || undefined,
+      },
+    };
+  }
+
+  // Параметры новых сообщений по текущему таймеру переписки
+  static getEphemeralOptions(conversation: Conversation): {
+    ephemeral: boolean;
+    ephemeralTimeout?: number;
+  } {
+    const timeout = conversation.metadata?.ephemeralTimeout;
+    return timeout ? { ephemeral: true, ephemeralTimeout: timeout } : { ephemeral: false };
+  }
+
+  // Проверка реакции перед MessageModel.applyReaction; снять реакцию можно всегда,
+  // даже если её уже убрали из разрешённых
+  static checkReaction(conversation: Conversation, update: Message): void {
+    if (update.type !== 'reaction' || update.conversationId !== conversation.id) {
+      throw new Error('Not a reaction for this conversation');
+    }
+    if (!conversation.participants.includes(update.senderId)) {
+      throw new Error('Sender is not a participant');
+    }
+    if (
+      !update.reaction?.removed &&
+      !ConversationModel.isReactionAllowed(conversation, update.reaction?.emoji ?? '')
+    ) {
+      throw new Error('Reaction not allowed in this conversation');
+    }
+  }
+
+  static isReactionAllowed(conversation: Conversation, emoji: string): boolean {
+    const allowed = conversation.metadata?.allowedReactions;
+    return emoji.length > 0 && (!allowed || allowed.includes(emoji));
+  }
+
+  static allowsMultipleReactions(conversation: Conversation): boolean {
+    return conversation.metadata?.multipleReactions ?? false;
+  }
+
   static addParticipant(conversation: Conversation, userId: string): Conversation {
     if (conversation.participants.includes(userId)) {
       return conversation;
@@ -105,6 +296,84 @@ export class ConversationModel {
     };
   }
 
+  // Синхронизация с состоянием группы MLS после каждого commit; настройки группы, включая
+  // таймер исчезающих сообщений, берутся только отсюда
+  static syncWithGroup(conversation: Conversation, group: GroupSession): Conversation {
+    const administration = group.administration;
+
+    return {
+      ...conversation,
+      name: administration?.name ?? conversation.name,
+      participants: group.members.map(member => member.userId),
+      updatedAt: new Date(),
+      metadata: {
+        isEncrypted: true,
+        ...conversation.metadata,
+        ...(administration && {
+          description: administration.settings.description,
+          avatar: administration.settings.avatar,
+          ephemeralTimeout: administration.settings.ephemeralTimeout,
+          allowedReactions: administration.settings.allowedReactions,
+          multipleReactions: administration.settings.multipleReactions,
+          roles: administration.roles,
+          permissions: administration.permissions,
+        }),
+      },
+    };
+  }
+
+  static getRole(conversation: Conversation, userId: string): GroupRole {
+    return GroupAdministrationModel.getRole(
+      ConversationModel.getAdministration(conversation),
+      userId
+    );
+  }
+
+  static getAdmins(conversation: Conversation): string[] {
+    return conversation.participants.filter(
+      userId => ConversationModel.getRole(conversation, userId) !== 'member'
+    );
+  }
+
+  // Для скрытия в интерфейсе действий, которые группа всё равно отклонит
+  static canPerform(conversation: Conversation, userId: string, action: GroupAction): boolean {
+    return GroupAdministrationModel.canPerform(
+      ConversationModel.getAdministration(conversation),
+      userId,
+      action
+    );
+  }
+
+  static canRemoveParticipant(
+    conversation: Conversation,
+    userId: string,
+    targetId: string
+  ): boolean {
+    return GroupAdministrationModel.canRemove(
+      ConversationModel.getAdministration(conversation),
+      userId,
+      targetId
+    );
+  }
+
+  private static getAdministration(conversation: Conversation): GroupAdministration | null {
+    const metadata = conversation.metadata;
+    if (!metadata?.permissions) return null;
+
+    return {
+      name: conversation.name,
+      settings: {
+        description: metadata.description,
+        avatar: metadata.avatar,
+        ephemeralTimeout: metadata.ephemeralTimeout,
+        allowedReactions: metadata.allowedReactions,
+        multipleReactions: metadata.multipleReactions,
+      },
+      permissions: metadata.permissions,
+      roles: metadata.roles ?? {},
+    };
+  }
+
   static getDisplayName(conversation: Conversation, currentUserId: string): string {
     if (conversation.name) {
       return conversation.name;
@@ -122,6 +391,8 @@ export class ConversationModel {
       (otherParticipants.length > 3 ? ` +${otherParticipants.length - 3}` : '');
   }
 
+  // Сохранённые переписки в том же порядке отдаёт ConversationRepository.listByActivity
+  // из local-db по индексу, не загружая все переписки в память
   static sortByActivity(conversations: Conversation[]): Conversation[] {
     return [...conversations].sort((a, b) => {
       // Закрепленные чаты всегда сверху
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { GroupAdministrationModel } from './GroupAdministration';
+import type { GroupAdministration } from '../types';
+
+// alice - владелец, bob и dave - администраторы, carol - участник
+function administration(overrides: Partial<GroupAdministration> = {}): GroupAdministration {
+  return {
+    ...GroupAdministrationModel.create('alice', { name: 'team' }),
+    roles: { alice: 'owner', bob: 'admin', dave: 'admin' },
+    ...overrides,
+  };
+}
+
+describe('GroupAdministrationModel', () => {
+  describe('canRemove', () => {
+    it('lets anyone leave except the last owner', () => {
+      const current = administration();
+      expect(GroupAdministrationModel.canRemove(current, 'carol', 'carol')).toBe(true);
+      expect(GroupAdministrationModel.canRemove(current, 'bob', 'bob')).toBe(true);
+      expect(GroupAdministrationModel.canRemove(current, 'alice', 'alice')).toBe(false);
+
+      const twoOwners = administration({ roles: { alice: 'owner', bob: 'owner' } });
+      expect(GroupAdministrationModel.canRemove(twoOwners, 'alice', 'alice')).toBe(true);
+    });
+
+    it('lets only a senior role remove an admin', () => {
+      const current = administration();
+      expect(GroupAdministrationModel.canRemove(current, 'bob', 'carol')).toBe(true);
+      expect(GroupAdministrationModel.canRemove(current, 'bob', 'dave')).toBe(false);
+      expect(GroupAdministrationModel.canRemove(current, 'bob', 'alice')).toBe(false);
+      expect(GroupAdministrationModel.canRemove(current, 'alice', 'bob')).toBe(true);
+      expect(GroupAdministrationModel.canRemove(current, 'carol', 'erin')).toBe(false);
+
+      // Без политики разрешено всё
+      expect(GroupAdministrationModel.canRemove(null, 'carol', 'alice')).toBe(true);
+    });
+  });
+
+  describe('canChange', () => {
+    it('checks name and settings against the actor role', () => {
+      const current = administration();
+      const renamed = { ...current, name: 'renamed' };
+      expect(GroupAdministrationModel.canChange(current, renamed, 'bob')).toBe(true);
+      expect(GroupAdministrationModel.canChange(current, renamed, 'carol')).toBe(false);
+
+      const timed = { ...current, settings: { ephemeralTimeout: 60000 } };
+      expect(GroupAdministrationModel.canChange(current, timed, 'bob')).toBe(true);
+      expect(GroupAdministrationModel.canChange(current, timed, 'carol')).toBe(false);
+
+      const reactions = { ...current, settings: { allowedReactions: ['👍'] } };
+      expect(GroupAdministrationModel.canChange(current, reactions, 'carol')).toBe(false);
+    });
+
+    it('lets only the owner change permissions', () => {
+      const current = administration();
+      const open = {
+        ...current,
+        permissions: { ...current.permissions, rename: 'member' as const },
+      };
+      expect(GroupAdministrationModel.canChange(current, open, 'alice')).toBe(true);
+      expect(GroupAdministrationModel.canChange(current, open, 'bob')).toBe(false);
+    });
+
+    it('rejects promoting oneself and roles above the actor', () => {
+      const current = administration({
+        permissions: { ...administration().permissions, change_roles: 'admin' },
+      });
+      const promote = (userId: string, role: 'owner' | 'admin', actorId: string) =>
+        GroupAdministrationModel.canChange(
+          current,
+          { ...current, roles: { ...current.roles, [userId]: role } },
+          actorId
+        );
+
+      expect(promote('carol', 'admin', 'carol')).toBe(false);
+      expect(promote('bob', 'owner', 'bob')).toBe(false);
+      expect(promote('carol', 'admin', 'bob')).toBe(true);
+      expect(promote('carol', 'owner', 'bob')).toBe(false);
+
+      // Роль равного меняет только владелец, от своей можно отказаться
+      const demoted = { ...current, roles: { alice: 'owner' as const, bob: 'admin' as const } };
+      expect(GroupAdministrationModel.canChange(current, demoted, 'bob')).toBe(false);
+      expect(GroupAdministrationModel.canChange(current, demoted, 'dave')).toBe(true);
+      expect(GroupAdministrationModel.canChange(current, demoted, 'alice')).toBe(true);
+    });
+
+    it('never leaves the group without an owner', () => {
+      const current = administration();
+      const ownerless = { ...current, roles: { bob: 'admin' as const } };
+      expect(GroupAdministrationModel.canChange(current, ownerless, 'alice')).toBe(false);
+      expect(GroupAdministrationModel.canChange(null, ownerless, 'alice')).toBe(false);
+
+      const handover = { ...current, roles: { bob: 'owner' as const } };
+      expect(GroupAdministrationModel.canChange(current, handover, 'alice')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import type {
+  GroupAdministration,
+  GroupAction,
+  GroupCreateOptions,
+  GroupPermissions,
+  GroupRole,
+} from '../types';
+
+const ROLE_RANK: Record<GroupRole, number> = {
+  owner: 3,
+  admin: 2,
+  member: 1,
+};
+
+export const DEFAULT_GROUP_PERMISSIONS: GroupPermissions = {
+  add_member: 'member',
+  remove_member: 'admin',
+  rename: 'admin',
+  change_settings: 'admin',
+  change_roles: 'owner',
+};
+
+// Политика группы: кто может менять состав, название, настройки и роли.
+// Без расширения администрирования (null) группа работает как раньше - всем разрешено всё
+export class GroupAdministrationModel {
+  static create(ownerId: string, params: GroupCreateOptions = {}): GroupAdministration {
+    return {
+      name: params.name,
+      settings: { ...params.settings },
+      permissions: { ...DEFAULT_GROUP_PERMISSIONS, ...params.permissions },
+      roles: { [ownerId]: 'owner' },
+    };
+  }
+
+  static getRole(administration: GroupAdministration | null, userId: string): GroupRole {
+    return administration?.roles[userId] ?? 'member';
+  }
+
+  static getOwners(administration: GroupAdministration): string[] {
+    return Object.keys(administration.roles).filter(
+      userId => administration.roles[userId] === 'owner'
+    );
+  }
+
+  static canPerform(
+    administration: GroupAdministration | null,
+    userId: string,
+    action: GroupAction
+  ): boolean {
+    if (!administration) return true;
+
+    const role = GroupAdministrationModel.getRole(administration, userId);
+    return ROLE_RANK[role] >= ROLE_RANK[administration.permissions[action]];
+  }
+
+  // Выйти может любой, кроме последнего владельца; исключить администратора может только владелец
+  static canRemove(
+    administration: GroupAdministration | null,
+    actorId: string,
+    targetId: string
+  ): boolean {
+    if (!administration) return true;
+
+    const targetRole = GroupAdministrationModel.getRole(administration, targetId);
+    if (actorId === targetId) {
+      return (
+        targetRole !== 'owner' || GroupAdministrationModel.getOwners(administration).length > 1
+      );
+    }
+
+    const actorRole = GroupAdministrationModel.getRole(administration, actorId);
+    return (
+      GroupAdministrationModel.canPerform(administration, actorId, 'remove_member') &&
+      (targetRole === 'member' || ROLE_RANK[actorRole] > ROLE_RANK[targetRole])
+    );
+  }
+
+  // Проверка каждого отличия нового состояния от текущего
+  static canChange(
+    current: GroupAdministration | null,
+    next: GroupAdministration,
+    actorId: string
+  ): boolean {
+    if (GroupAdministrationModel.getOwners(next).length === 0) return false;
+    if (!current) return true;
+
+    const actorRole = GroupAdministrationModel.getRole(current, actorId);
+
+    if (
+      next.name !== current.name &&
+      !GroupAdministrationModel.canPerform(current, actorId, 'rename')
+    ) {
+      return false;
+    }
+
+    const isSettingsChanged =
+      next.settings.description !== current.settings.description ||
+      next.settings.avatar !== current.settings.avatar ||
+      next.settings.ephemeralTimeout !== current.settings.ephemeralTimeout ||
+      next.settings.multipleReactions !== current.settings.multipleReactions ||
+      next.settings.allowedReactions?.join('\n') !== current.settings.allowedReactions?.join('\n');
+    if (
+      isSettingsChanged &&
+      !GroupAdministrationModel.canPerform(current, actorId, 'change_settings')
+    ) {
+      return false;
+    }
+
+    const isPermissionsChanged = (Object.keys(current.permissions) as GroupAction[]).some(
+      action => current.permissions[action] !== next.permissions[action]
+    );
+    if (isPermissionsChanged && actorRole !== 'owner') {
+      return false;
+    }
+
+    const userIds = new Set([...Object.keys(current.roles), ...Object.keys(next.roles)]);
+    for (const userId of userIds) {
+      const before = GroupAdministrationModel.getRole(current, userId);
+      const after = GroupAdministrationModel.getRole(next, userId);
+      if (before === after) continue;
+
+      // Отказаться от своей роли можно всегда
+      if (userId === actorId && ROLE_RANK[after] < ROLE_RANK[before]) continue;
+
+      // Роль выше своей назначить нельзя, роль равного или старшего меняет только владелец
+      const isAllowed =
+        GroupAdministrationModel.canPerform(current, actorId, 'change_roles') &&
+        ROLE_RANK[after] <= ROLE_RANK[actorRole] &&
+        (ROLE_RANK[before] < ROLE_RANK[actorRole] || actorRole === 'owner');
+      if (!isAllowed) return false;
+    }
+
+    return true;
+  }
+}
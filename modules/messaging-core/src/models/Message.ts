@@ -1,6 +1,35 @@
 import { v4 as uuidv4 } from 'uuid';
-import { z } from 'zod';
-import type { Message } from '../types';
+import { MessageSchema } from '../types';
+import type {
+  Attachment,
+  LinkPreview,
+  Message,
+  ReactionSummary,
+  ReceiptStatus,
+  ReplyTreeNode,
+  RichTextSegment,
+  TextEntity,
+} from '../types';
+
+const SNIPPET_LENGTH = 100;
+const SPOILER_MASK = '▒▒▒';
+export const WAVEFORM_POINTS = 64; // Столбиков огибающей голосового сообщения
+
+// Управляющие символы, кроме табуляции и перевода строки, и символы смены направления текста,
+// которыми подделывают ссылки и имена файлов
+const UNSAFE_CHARACTER = /[\u0000-\u0008\u000b-\u001f\u007f-\u009f\u202a-\u202e\u2066-\u2069]/;
+const LINK_PATTERN = /\bhttps?:\/\/[^\s<>"'`]+/gi;
+const LINK_TRAILING_PUNCTUATION = /[.,:;!?'")\]}]+$/;
+
+// Как в WhatsApp: часто пересылаемое сообщение можно переслать только в один чат за раз
+export const MAX_FORWARD_TARGETS = 5;
+export const FREQUENTLY_FORWARDED_THRESHOLD = 5;
+
+const RECEIPT_RANK: Record<ReceiptStatus, number> = {
+  delivered: 1,
+  read: 2,
+  played: 3,
+};
 
 export class MessageModel {
   static create(params: {
@@ -8,92 +37,486 @@ export class MessageModel {
     senderId: string;
     recipientId?: string;
     content: string;
+    entities?: TextEntity[];
     type?: Message['type'];
+    attachment?: Attachment;
+    linkPreview?: LinkPreview;
     ephemeral?: boolean;
     ephemeralTimeout?: number;
+    replyTo?: Message;
+    threadId?: string;
   }): Message {
+    const { content, entities } = MessageModel.sanitizeContent(params.content, params.entities);
+    if (params.linkPreview && !MessageModel.findLinks(content).includes(params.linkPreview.url)) {
+      throw new Error('Link preview does not match a link in the message');
+    }
+
     return {
       id: uuidv4(),
       conversationId: params.conversationId,
       senderId: params.senderId,
       recipientId: params.recipientId,
-      content: params.content,
+      content,
+      entities,
       timestamp: new Date(),
       type: params.type || 'text',
+      attachment: params.attachment,
+      linkPreview: params.linkPreview,
       encrypted: true,
       ephemeral: params.ephemeral || false,
       ephemeralTimeout: params.ephemeralTimeout,
+      replyTo: params.replyTo && MessageModel.quote(params.replyTo),
+      // Ответ на сообщение из ветки остаётся в той же ветке
+      threadId: params.threadId ?? params.replyTo?.threadId,
+      forwarded: false,
+      forwardCount: 0,
       readReceipts: [],
       reactions: [],
+      editHistory: [],
+      deleted: false,
     };
   }
 
   static validate(message: any): Message {
-    const MessageSchema = z.object({
-      id: z.string().uuid(),
-      conversationId: z.string(),
-      senderId: z.string(),
-      recipientId: z.string().optional(),
-      content: z.string(),
-      timestamp: z.date(),
-      type: z.enum(['text', 'image', 'video', 'audio', 'file']),
-      encrypted: z.boolean(),
-      ephemeral: z.boolean().default(false),
-      ephemeralTimeout: z.number().optional(),
-      readReceipts: z.array(z.object({
-        userId: z.string(),
-        timestamp: z.date(),
-      })).default([]),
-      reactions: z.array(z.object({
-        userId: z.string(),
-        emoji: z.string(),
-        timestamp: z.date(),
-      })).default([]),
-    });
-
     return MessageSchema.parse(message);
   }
 
   static addReadReceipt(message: Message, userId: string): Message {
-    // Проверка, что квитанция еще не добавлена
+    return MessageModel.addReceipt(message, userId, 'read');
+  }
+
+  // У каждого участника остаётся только наивысший статус: прочтение не откатывается доставкой
+  static addReceipt(
+    message: Message,
+    userId: string,
+    status: ReceiptStatus,
+    timestamp: Date = new Date()
+  ): Message {
     const existingReceipt = message.readReceipts.find(r => r.userId === userId);
-    if (existingReceipt) {
+    if (existingReceipt && RECEIPT_RANK[existingReceipt.status] >= RECEIPT_RANK[status]) {
       return message;
     }
 
     return {
       ...message,
       readReceipts: [
-        ...message.readReceipts,
+        ...message.readReceipts.filter(r => r.userId !== userId),
         {
           userId,
-          timestamp: new Date(),
+          timestamp,
+          status,
         },
       ],
     };
   }
 
+  // Общий статус для группы - минимальный среди получателей
+  static getReceiptStatus(message: Message, recipientIds: string[]): ReceiptStatus | 'sent' {
+    const statuses = recipientIds.map(
+      recipientId => message.readReceipts.find(r => r.userId === recipientId)?.status
+    );
+    if (statuses.length === 0 || statuses.some(status => !status)) {
+      return 'sent';
+    }
+
+    return (statuses as ReceiptStatus[]).reduce((lowest, status) =>
+      RECEIPT_RANK[status] < RECEIPT_RANK[lowest] ? status : lowest
+    );
+  }
+
+  static createReceipt(
+    conversationId: string,
+    senderId: string,
+    status: ReceiptStatus,
+    messageIds: string[]
+  ): Message {
+    return {
+      ...MessageModel.create({ conversationId, senderId, content: '', type: 'receipt' }),
+      receipt: { status, messageIds },
+    };
+  }
+
+  // Голосовое сообщение: запись уже зашифрована и загружена AttachmentService.upload
+  static createVoiceNote(params: {
+    conversationId: string;
+    senderId: string;
+    recipientId?: string;
+    attachment: Attachment;
+    ephemeral?: boolean;
+    ephemeralTimeout?: number;
+    replyTo?: Message;
+    threadId?: string;
+  }): Message {
+    const { attachment } = params;
+    if (!attachment.mimeType.startsWith('audio/') || !attachment.duration) {
+      throw new Error('Voice note requires an audio attachment with duration');
+    }
+    if (attachment.waveform && attachment.waveform.length > WAVEFORM_POINTS) {
+      throw new Error('Voice note waveform too long');
+    }
+
+    return MessageModel.create({ ...params, content: '', type: 'voice' });
+  }
+
+  // Огибающая для показа: пиковая громкость каждого из points отрезков записи, 0-255
+  // относительно самого громкого отрезка. samples - отсчёты PCM в диапазоне -1..1
+  static createWaveform(samples: ArrayLike<number>, points: number = WAVEFORM_POINTS): Uint8Array {
+    const count = Math.min(points, samples.length);
+    const peaks = new Array<number>(count).fill(0);
+
+    for (let i = 0; i < samples.length; i++) {
+      const bucket = Math.floor((i * count) / samples.length);
+      peaks[bucket] = Math.max(peaks[bucket]!, Math.abs(samples[i]!));
+    }
+
+    const loudest = Math.max(...peaks, 0);
+    return Uint8Array.from(peaks, peak => (loudest > 0 ? Math.round((peak / loudest) * 255) : 0));
+  }
+
+  static isPlayable(message: Message): boolean {
+    return message.type === 'voice' || message.type === 'video' || message.type === 'audio';
+  }
+
+  // Своя отметка о прослушивании хранится среди квитанций, как у остальных участников
+  static markPlayed(message: Message, userId: string): Message {
+    if (!MessageModel.isPlayable(message)) {
+      throw new Error('Message cannot be played');
+    }
+    return MessageModel.addReceipt(message, userId, 'played');
+  }
+
+  static isPlayed(message: Message, userId: string): boolean {
+    return message.readReceipts.some(r => r.userId === userId && r.status === 'played');
+  }
+
+  static createTyping(conversationId: string, senderId: string, typing: boolean): Message {
+    return {
+      ...MessageModel.create({ conversationId, senderId, content: '', type: 'typing' }),
+      typing,
+    };
+  }
+
+  // Статус относится к пользователю, а не к переписке
+  static createPresence(
+    senderId: string,
+    presence: { online: boolean; lastSeen?: Date; probe?: boolean }
+  ): Message {
+    return {
+      ...MessageModel.create({ conversationId: '', senderId, content: '', type: 'presence' }),
+      presence: { ...presence, probe: presence.probe ?? false },
+    };
+  }
+
+  static createReaction(
+    target: Message,
+    senderId: string,
+    emoji: string,
+    removed: boolean = false
+  ): Message {
+    return {
+      ...MessageModel.create({
+        conversationId: target.conversationId,
+        senderId,
+        content: '',
+        type: 'reaction',
+      }),
+      targetMessageId: target.id,
+      reaction: { emoji, removed },
+    };
+  }
+
   static addReaction(message: Message, userId: string, emoji: string): Message {
-    // Удаление предыдущей реакции пользователя
-    const filteredReactions = message.reactions.filter(r => r.userId !== userId);
+    return MessageModel.setReaction(message, userId, emoji, false, new Date());
+  }
+
+  // Без emoji снимаются все реакции пользователя
+  static removeReaction(message: Message, userId: string, emoji?: string): Message {
+    const timestamp = new Date();
+    return message.reactions
+      .filter(r => r.userId === userId && !r.removed && (emoji === undefined || r.emoji === emoji))
+      .reduce(
+        (result, r) => MessageModel.setReaction(result, userId, r.emoji, true, timestamp),
+        message
+      );
+  }
+
+  // Порядок прихода не важен: для каждой пары пользователь-реакция побеждает более поздняя запись
+  static applyReaction(message: Message, update: Message): Message {
+    if (update.type !== 'reaction' || !update.reaction) {
+      throw new Error('Not a reaction message');
+    }
+    if (update.targetMessageId !== message.id) {
+      throw new Error('Reaction does not reference this message');
+    }
+    if (message.deleted) {
+      return message;
+    }
+
+    return MessageModel.setReaction(
+      message,
+      update.senderId,
+      update.reaction.emoji,
+      update.reaction.removed,
+      update.timestamp
+    );
+  }
+
+  // Без multiple у каждого участника видна только его последняя реакция
+  static getReactions(
+    message: Message,
+    multiple: boolean = false
+  ): Array<{ userId: string; emoji: string; timestamp: Date }> {
+    if (multiple) {
+      return message.reactions
+        .filter(r => !r.removed)
+        .map(({ userId, emoji, timestamp }) => ({ userId, emoji, timestamp }));
+    }
+
+    const latest = new Map<string, Message['reactions'][number]>();
+    for (const reaction of message.reactions) {
+      const current = latest.get(reaction.userId);
+      if (!current || MessageModel.compareReactions(reaction, current) > 0) {
+        latest.set(reaction.userId, reaction);
+      }
+    }
+    return Array.from(latest.values())
+      .filter(r => !r.removed)
+      .map(({ userId, emoji, timestamp }) => ({ userId, emoji, timestamp }));
+  }
+
+  // Для интерфейса: популярные реакции первыми, при равенстве - в порядке появления
+  static getReactionSummary(message: Message, multiple: boolean = false): ReactionSummary[] {
+    const summaries = new Map<string, ReactionSummary & { firstAt: number }>();
+    const reactions = MessageModel.getReactions(message, multiple).sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    );
+
+    for (const { userId, emoji, timestamp } of reactions) {
+      const summary = summaries.get(emoji) ?? {
+        emoji,
+        count: 0,
+        userIds: [],
+        firstAt: timestamp.getTime(),
+      };
+      summary.count++;
+      summary.userIds.push(userId);
+      summaries.set(emoji, summary);
+    }
+
+    return Array.from(summaries.values())
+      .sort((a, b) => b.count - a.count || a.firstAt - b.firstAt)
+      .map(({ emoji, count, userIds }) => ({ emoji, count, userIds }));
+  }
+
+  private static setReaction(
+    message: Message,
+    userId: string,
+    emoji: string,
+    removed: boolean,
+    timestamp: Date
+  ): Message {
+    const next = { userId, emoji, timestamp, removed };
+    const existing = message.reactions.find(r => r.userId === userId && r.emoji === emoji);
+    if (existing && MessageModel.compareReactions(next, existing) <= 0) {
+      return message;
+    }
 
     return {
       ...message,
-      reactions: [
-        ...filteredReactions,
+      reactions: [...message.reactions.filter(r => r.userId !== userId || r.emoji !== emoji), next],
+    };
+  }
+
+  // При равном времени снятие побеждает постановку, а затем решает сравнение строк,
+  // чтобы все участники пришли к одному состоянию
+  private static compareReactions(
+    a: Message['reactions'][number],
+    b: Message['reactions'][number]
+  ): number {
+    return (
+      a.timestamp.getTime() - b.timestamp.getTime() ||
+      Number(a.removed) - Number(b.removed) ||
+      (a.emoji < b.emoji ? -1 : a.emoji > b.emoji ? 1 : 0)
+    );
+  }
+
+  static quote(original: Message): NonNullable<Message['replyTo']> {
+    const { displayContent } = MessageModel.formatForDisplay(original);
+    return {
+      messageId: original.id,
+      senderId: original.senderId,
+      snippet:
+        displayContent.length > SNIPPET_LENGTH
+          ? displayContent.slice(0, SNIPPET_LENGTH - 1) + '…'
+          : displayContent,
+    };
+  }
+
+  // Новая ветка начинается с существующего сообщения: оно становится корнем
+  static createThreadReply(
+    root: Message,
+    params: { senderId: string; content: string; entities?: TextEntity[]; type?: Message['type'] }
+  ): Message {
+    return MessageModel.create({
+      conversationId: root.conversationId,
+      senderId: params.senderId,
+      content: params.content,
+      entities: params.entities,
+      type: params.type,
+      threadId: root.threadId ?? root.id,
+    });
+  }
+
+  static getForwardLimit(message: Message): number {
+    return message.forwardCount >= FREQUENTLY_FORWARDED_THRESHOLD ? 1 : MAX_FORWARD_TARGETS;
+  }
+
+  static isFrequentlyForwarded(message: Message): boolean {
+    return message.forwardCount >= FREQUENTLY_FORWARDED_THRESHOLD;
+  }
+
+  // Копия для каждого чата без цитаты, ветки и состояния исходного сообщения
+  static forward(message: Message, senderId: string, conversationIds: string[]): Message[] {
+    if (message.deleted || MessageModel.isControl(message)) {
+      throw new Error('Message cannot be forwarded');
+    }
+    if (conversationIds.length > MessageModel.getForwardLimit(message)) {
+      throw new Error('Forward limit exceeded');
+    }
+
+    return conversationIds.map(conversationId => ({
+      ...MessageModel.create({
+        conversationId,
+        senderId,
+        content: message.content,
+        entities: message.entities,
+        type: message.type,
+        attachment: message.attachment,
+        linkPreview: message.linkPreview,
+      }),
+      forwarded: true,
+      forwardCount: message.forwardCount + 1,
+    }));
+  }
+
+  // Дерево ответов; ответы на отсутствующие (истёкшие, удалённые) сообщения становятся корнями
+  static buildReplyTree(messages: Message[]): ReplyTreeNode[] {
+    // Родитель ищется только среди более ранних сообщений, поэтому циклов не бывает
+    const sorted = [...messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const nodes = new Map<string, ReplyTreeNode>();
+    const roots: ReplyTreeNode[] = [];
+
+    sorted.forEach(message => {
+      const node: ReplyTreeNode = { message, replies: [] };
+      const parent = message.replyTo && nodes.get(message.replyTo.messageId);
+      if (parent) {
+        parent.replies.push(node);
+      } else {
+        roots.push(node);
+      }
+      nodes.set(message.id, node);
+    });
+
+    return roots;
+  }
+
+  // Сообщения основной ленты (threadId не задан) или ветки вместе с её корнем
+  static filterByThread(messages: Message[], threadId?: string): Message[] {
+    if (!threadId) {
+      return messages.filter(message => !message.threadId);
+    }
+    return messages.filter(message => message.threadId === threadId || message.id === threadId);
+  }
+
+  // Управляющие сообщения edit/delete: подпись добавляет MessageEditService
+  static createEdit(original: Message, content: string, entities: TextEntity[] = []): Message {
+    return {
+      ...MessageModel.create({
+        conversationId: original.conversationId,
+        senderId: original.senderId,
+        recipientId: original.recipientId,
+        content,
+        entities,
+        type: 'edit',
+      }),
+      targetMessageId: original.id,
+    };
+  }
+
+  static createDeletion(original: Message): Message {
+    return {
+      ...MessageModel.create({
+        conversationId: original.conversationId,
+        senderId: original.senderId,
+        recipientId: original.recipientId,
+        content: '',
+        type: 'delete',
+      }),
+      targetMessageId: original.id,
+    };
+  }
+
+  static isControl(message: Message): boolean {
+    return (
+      message.type === 'edit' ||
+      message.type === 'delete' ||
+      message.type === 'timer' ||
+      message.type === 'receipt' ||
+      message.type === 'typing' ||
+      message.type === 'presence' ||
+      message.type === 'reaction'
+    );
+  }
+
+  // Правки могут прийти не по порядку: устаревшая правка не заменяет текущий текст.
+  // Превью остаётся, только если ссылка из него есть и в новом тексте
+  static applyEdit(message: Message, edit: Message): Message {
+    const current = message.editedAt ?? message.timestamp;
+    if (message.deleted || edit.timestamp.getTime() <= current.getTime()) {
+      return message;
+    }
+
+    const linkPreview =
+      message.linkPreview && MessageModel.findLinks(edit.content).includes(message.linkPreview.url)
+        ? message.linkPreview
+        : undefined;
+
+    return {
+      ...message,
+      content: edit.content,
+      entities: edit.entities,
+      linkPreview,
+      editedAt: edit.timestamp,
+      editHistory: [
+        ...message.editHistory,
         {
-          userId,
-          emoji,
-          timestamp: new Date(),
+          content: message.content,
+          entities: message.entities,
+          timestamp: current,
         },
       ],
     };
   }
 
-  static removeReaction(message: Message, userId: string): Message {
+  // Надгробие: от сообщения остаются только метаданные для ленты
+  static applyDeletion(message: Message): Message {
     return {
       ...message,
-      reactions: message.reactions.filter(r => r.userId !== userId),
+      content: '',
+      entities: [],
+      linkPreview: undefined,
+      editedAt: undefined,
+      editHistory: [],
+      reactions: [],
+      deleted: true,
+    };
+  }
+
+  // Новый таймер исчезающих сообщений для переписки; 0 отключает исчезновение
+  static createTimerUpdate(conversationId: string, senderId: string, timeout: number): Message {
+    return {
+      ...MessageModel.create({ conversationId, senderId, content: '', type: 'timer' }),
+      ephemeralTimeout: timeout,
     };
   }
 
@@ -106,12 +529,176 @@ export class MessageModel {
     return Date.now() > expirationTime;
   }
 
-  static sanitizeContent(content: string): string {
-    // Базовая санитизация контента
-    return content
-      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-      .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '')
-      .trim();
+  // Текст всегда показывается как простой текст, а форматирование задаётся диапазонами, поэтому
+  // HTML в нём безвреден. Убираются опасные символы и непарные суррогаты, диапазоны сдвигаются
+  // вместе с текстом
+  static sanitizeContent(
+    content: string,
+    entities: TextEntity[] = []
+  ): { content: string; entities: TextEntity[] } {
+    const positions: number[] = []; // Позиция каждого исходного символа в очищенном тексте
+    let cleaned = '';
+
+    for (let i = 0; i < content.length; i++) {
+      positions.push(cleaned.length);
+      const char = content[i]!;
+
+      if (MessageModel.isHighSurrogate(content.charCodeAt(i))) {
+        if (MessageModel.isLowSurrogate(content.charCodeAt(i + 1))) {
+          positions.push(cleaned.length + 1);
+          cleaned += char + content[i + 1];
+          i++;
+        }
+        continue;
+      }
+      if (MessageModel.isLowSurrogate(content.charCodeAt(i)) || UNSAFE_CHARACTER.test(char)) {
+        continue;
+      }
+      cleaned += char;
+    }
+    positions.push(cleaned.length);
+
+    const start = cleaned.length - cleaned.trimStart().length;
+    const trimmed = cleaned.trim();
+    const shifted = entities.flatMap(entity => {
+      const end = entity.offset + entity.length;
+      if (end > content.length) return [];
+
+      const offset = Math.max(positions[entity.offset]! - start, 0);
+      const length = Math.min(positions[end]! - start, trimmed.length) - offset;
+      return length > 0 ? [{ ...entity, offset, length }] : [];
+    });
+
+    return { content: trimmed, entities: MessageModel.normalizeEntities(trimmed, shifted) };
+  }
+
+  // Диапазоны либо вложены, либо не пересекаются; внутри кода и упоминания другой разметки нет.
+  // Полученная от собеседника разметка проходит ту же проверку перед показом
+  static normalizeEntities(content: string, entities: TextEntity[]): TextEntity[] {
+    const sorted = [...entities].sort((a, b) => a.offset - b.offset || b.length - a.length);
+    const result: TextEntity[] = [];
+
+    for (const entity of sorted) {
+      const end = entity.offset + entity.length;
+      if (
+        entity.length <= 0 ||
+        end > content.length ||
+        MessageModel.splitsSurrogatePair(content, entity.offset) ||
+        MessageModel.splitsSurrogatePair(content, end) ||
+        (entity.type === 'mention' && !entity.userId)
+      ) {
+        continue;
+      }
+
+      // Из-за порядка сортировки пересекающийся диапазон начинается не позже текущего
+      const conflict = result.some(
+        other =>
+          entity.offset < other.offset + other.length &&
+          (end > other.offset + other.length ||
+            other.type === 'code' ||
+            other.type === 'mention' ||
+            other.type === entity.type)
+      );
+      if (conflict) continue;
+
+      result.push(
+        entity.type === 'mention'
+          ? {
+              type: entity.type,
+              offset: entity.offset,
+              length: entity.length,
+              userId: entity.userId,
+            }
+          : { type: entity.type, offset: entity.offset, length: entity.length }
+      );
+    }
+
+    return result;
+  }
+
+  // Текст, разбитый на отрезки с одинаковым оформлением, - всё, что нужно интерфейсу для показа
+  static toRichText(message: Message): RichTextSegment[] {
+    const entities = MessageModel.normalizeEntities(message.content, message.entities);
+    const boundaries = new Set([0, message.content.length]);
+    for (const entity of entities) {
+      boundaries.add(entity.offset);
+      boundaries.add(entity.offset + entity.length);
+    }
+
+    const points = Array.from(boundaries).sort((a, b) => a - b);
+    const segments: RichTextSegment[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+      const start = points[i]!;
+      const end = points[i + 1]!;
+      const covering = entities.filter(
+        entity => entity.offset <= start && entity.offset + entity.length >= end
+      );
+
+      segments.push({
+        text: message.content.slice(start, end),
+        styles: covering
+          .filter(entity => entity.type !== 'mention')
+          .map(entity => entity.type as RichTextSegment['styles'][number]),
+        mention: covering.find(entity => entity.type === 'mention')?.userId,
+      });
+    }
+
+    return segments;
+  }
+
+  static getMentions(message: Message): string[] {
+    const mentions = MessageModel.normalizeEntities(message.content, message.entities)
+      .filter(entity => entity.type === 'mention')
+      .map(entity => entity.userId!);
+    return Array.from(new Set(mentions));
+  }
+
+  static isMentioned(message: Message, userId: string): boolean {
+    return !message.deleted && MessageModel.getMentions(message).includes(userId);
+  }
+
+  // Ссылки http(s) в порядке появления, без завершающей текст пунктуации
+  static findLinks(content: string): string[] {
+    const links = (content.match(LINK_PATTERN) ?? []).map(link =>
+      link.replace(LINK_TRAILING_PUNCTUATION, '')
+    );
+    return Array.from(new Set(links));
+  }
+
+  // Превью показывается, только если его ссылка есть в тексте: иначе отправитель мог бы
+  // подписать одну ссылку заголовком и картинкой другой
+  static getLinkPreview(message: Message): LinkPreview | undefined {
+    const preview = message.linkPreview;
+    if (!preview || message.deleted) return undefined;
+    return MessageModel.findLinks(message.content).includes(preview.url) ? preview : undefined;
+  }
+
+  // Скрытый текст не попадает в уведомления и цитаты
+  static maskSpoilers(content: string, entities: TextEntity[]): string {
+    const spoilers = MessageModel.normalizeEntities(content, entities)
+      .filter(entity => entity.type === 'spoiler')
+      .reverse();
+
+    return spoilers.reduce(
+      (text, spoiler) =>
+        text.slice(0, spoiler.offset) + SPOILER_MASK + text.slice(spoiler.offset + spoiler.length),
+      content
+    );
+  }
+
+  private static isHighSurrogate(code: number): boolean {
+    return code >= 0xd800 && code <= 0xdbff;
+  }
+
+  private static isLowSurrogate(code: number): boolean {
+    return code >= 0xdc00 && code <= 0xdfff;
+  }
+
+  private static splitsSurrogatePair(content: string, index: number): boolean {
+    return (
+      MessageModel.isHighSurrogate(content.charCodeAt(index - 1)) &&
+      MessageModel.isLowSurrogate(content.charCodeAt(index))
+    );
   }
 
   static formatForDisplay(message: Message): {
@@ -119,7 +706,15 @@ export class MessageModel {
     formattedTime: string;
     isEdited: boolean;
   } {
-    let displayContent = message.content;
+    if (message.deleted) {
+      return {
+        displayContent: '🚫 Сообщение удалено',
+        formattedTime: MessageModel.formatTime(message.timestamp),
+        isEdited: false,
+      };
+    }
+
+    let displayContent = MessageModel.maskSpoilers(message.content, message.entities);
 
     // Обработка разных типов сообщений
     switch (message.type) {
@@ -132,17 +727,39 @@ export class MessageModel {
       case 'audio':
         displayContent = '🎵 Аудио';
         break;
+      case 'voice':
+        displayContent = `🎤 ${MessageModel.formatDuration(message.attachment?.duration ?? 0)}`;
+        break;
       case 'file':
-        displayContent = '📎 Файл';
+        displayContent = `📎 ${message.attachment?.fileName ?? 'Файл'}`;
         break;
     }
 
-    // Форматирование времени
+    return {
+      displayContent,
+      formattedTime: MessageModel.formatTime(message.timestamp),
+      isEdited: message.editedAt !== undefined,
+    };
+  }
+
+  // 0:42, 12:05 или 1:02:03
+  static formatDuration(duration: number): string {
+    const totalSeconds = Math.max(Math.round(duration / 1000), 0);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+    return hours > 0
+      ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+      : `${minutes}:${seconds}`;
+  }
+
+  static formatTime(timestamp: Date): string {
     const now = new Date();
-    const messageDate = new Date(message.timestamp);
+    const messageDate = new Date(timestamp);
     const isToday = messageDate.toDateString() === now.toDateString();
     
-    const formattedTime = isToday
+    return isToday
       ? messageDate.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })
       : messageDate.toLocaleDateString('ru-RU', { 
           day: 'numeric', 
@@ -150,12 +767,6 @@ export class MessageModel {
           hour: '2-digit', 
           minute: '2-digit' 
         });
-
-    return {
-      displayContent,
-      formattedTime,
-      isEdited: false, // В будущем можно добавить поддержку редактирования
-    };
   }
 
   static groupByDate(messages: Message[]): Map<string, Message[]> {
@@ -0,0 +1,309 @@
+import sodium from 'libsodium-wrappers';
+import type { IDHTService, IP2PService } from '@messa/p2p-network';
+import { InMemoryAttachmentStore } from './AttachmentStore';
+import { ProtoReader, ProtoWriter } from './WireCodec';
+import type {
+  Attachment,
+  AttachmentConfig,
+  AttachmentDownloadProgress,
+  AttachmentUploadParams,
+  IAttachmentStore,
+} from '../types';
+
+export const ATTACHMENT_PROTOCOL = '/messa/attachments/1.0.0';
+
+const HASH_LENGTH = 32;
+const KDF_CONTEXT = 'MessaAtt'; // crypto_kdf требует ровно 8 байт
+
+interface AttachmentManifest {
+  size: number;
+  chunks: Uint8Array[];
+}
+
+// Вложение шифруется случайным ключом и режется на фрагменты. Каждый зашифрованный фрагмент
+// и манифест со списком фрагментов адресуются хешем своего шифротекста, поэтому блоки можно
+// брать у любого узла: подмену выдаёт хеш, а ключ известен только участникам переписки
+export class AttachmentService {
+  private p2p: IP2PService;
+  private dht: IDHTService;
+  private store: IAttachmentStore;
+  private chunkSize: number;
+  private maxSize: number;
+  private provideDownloads: boolean;
+  private downloads: Map<string, AttachmentDownloadProgress> = new Map();
+
+  constructor(
+    p2p: IP2PService,
+    dht: IDHTService,
+    store: IAttachmentStore = new InMemoryAttachmentStore(),
+    config: AttachmentConfig = {}
+  ) {
+    this.p2p = p2p;
+    this.dht = dht;
+    this.store = store;
+    this.chunkSize = config.chunkSize ?? 256 * 1024;
+    this.maxSize = config.maxSize ?? 100 * 1024 * 1024;
+    this.provideDownloads = config.provideDownloads ?? false;
+  }
+
+  async initialize(): Promise<void> {
+    await sodium.ready;
+
+    // Запрос - хеш блока, ответ - один зашифрованный фрагмент или манифест (хеш на фрагмент)
+    const manifestSize = Math.ceil(this.maxSize / this.chunkSize) * (HASH_LENGTH + 2) + 16;
+    this.p2p.setProtocolLimits(ATTACHMENT_PROTOCOL, {
+      maxRequestSize: HASH_LENGTH,
+      maxResponseSize:
+        Math.max(this.chunkSize, manifestSize) +
+        sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES +
+        sodium.crypto_aead_xchacha20poly1305_ietf_ABYTES,
+    });
+    this.p2p.onRequest(ATTACHMENT_PROTOCOL, request => this.serveBlock(request));
+  }
+
+  async upload(data: Uint8Array, params: AttachmentUploadParams): Promise<Attachment> {
+    await sodium.ready;
+
+    if (data.length > this.maxSize) {
+      throw new Error('Attachment too large');
+    }
+
+    const key = sodium.crypto_aead_xchacha20poly1305_ietf_keygen();
+    const chunks: Uint8Array[] = [];
+    for (let offset = 0, index = 0; offset < data.length; offset += this.chunkSize, index++) {
+      const block = this.sealBlock(data.subarray(offset, offset + this.chunkSize), key, index + 1);
+      chunks.push(await this.storeBlock(block));
+    }
+
+    const manifest = this.sealBlock(this.encodeManifest({ size: data.length, chunks }), key, 0);
+    const id = sodium.to_hex(await this.storeBlock(manifest));
+
+    await this.dht.provide(this.toProviderKey(id));
+
+    return {
+      ...params,
+      id,
+      key,
+      digest: sodium.crypto_generichash(HASH_LENGTH, data),
+      size: data.length,
+      source: this.p2p.getNodeId() || undefined,
+    };
+  }
+
+  // Уже полученные блоки берутся из хранилища, поэтому прерванная загрузка продолжается с места остановки
+  async download(
+    attachment: Attachment,
+    onProgress?: (progress: AttachmentDownloadProgress) => void
+  ): Promise<Uint8Array> {
+    await sodium.ready;
+
+    const sources = this.resolveSources(attachment);
+    const manifest = this.decodeManifest(
+      this.openBlock(await this.fetchBlock(attachment.id, sources), attachment.key, 0)
+    );
+    if (manifest.size !== attachment.size || manifest.size > this.maxSize) {
+      throw new Error('Attachment integrity check failed');
+    }
+
+    const progress: AttachmentDownloadProgress = {
+      attachmentId: attachment.id,
+      receivedChunks: 0,
+      totalChunks: manifest.chunks.length,
+    };
+    this.downloads.set(attachment.id, progress);
+
+    const data = new Uint8Array(manifest.size);
+    let offset = 0;
+    try {
+      for (const [index, hash] of manifest.chunks.entries()) {
+        const block = await this.fetchBlock(sodium.to_hex(hash), sources);
+        const chunk = this.openBlock(block, attachment.key, index + 1);
+        if (offset + chunk.length > data.length) {
+          throw new Error('Attachment integrity check failed');
+        }
+        data.set(chunk, offset);
+        offset += chunk.length;
+
+        progress.receivedChunks++;
+        onProgress?.({ ...progress });
+      }
+    } finally {
+      this.downloads.delete(attachment.id);
+    }
+
+    const digest = sodium.crypto_generichash(HASH_LENGTH, data);
+    if (offset !== data.length || !this.equals(digest, attachment.digest)) {
+      throw new Error('Attachment integrity check failed');
+    }
+
+    if (this.provideDownloads) {
+      await this.dht.provide(this.toProviderKey(attachment.id));
+    }
+
+    return data;
+  }
+
+  getDownloadProgress(attachmentId: string): AttachmentDownloadProgress | null {
+    const progress = this.downloads.get(attachmentId);
+    return progress ? { ...progress } : null;
+  }
+
+  // Удаление локальных блоков, например вместе с исчезающим сообщением
+  async remove(attachment: Attachment): Promise<void> {
+    await sodium.ready;
+
+    const hashes = [attachment.id];
+    const manifest = await this.store.getBlock(attachment.id);
+    if (manifest) {
+      try {
+        const { chunks } = this.decodeManifest(this.openBlock(manifest, attachment.key, 0));
+        hashes.push(...chunks.map(hash => sodium.to_hex(hash)));
+      } catch {
+        // Повреждённый манифест удаляется без фрагментов
+      }
+    }
+
+    await this.store.deleteBlocks(hashes);
+  }
+
+  // Вспомогательные методы
+
+  private async serveBlock(request: Uint8Array): Promise<Uint8Array> {
+    if (request.length !== HASH_LENGTH) {
+      return new Uint8Array(0);
+    }
+    return (await this.store.getBlock(sodium.to_hex(request))) ?? new Uint8Array(0);
+  }
+
+  private async storeBlock(block: Uint8Array): Promise<Uint8Array> {
+    const hash = sodium.crypto_generichash(HASH_LENGTH, block);
+    await this.store.putBlock(sodium.to_hex(hash), block);
+    return hash;
+  }
+
+  // Сначала отправитель, затем узлы, объявившие вложение в DHT; поиск выполняется один раз
+  private resolveSources(attachment: Attachment): () => Promise<string[]> {
+    let sources: Promise<string[]> | null = null;
+
+    return () => {
+      if (!sources) {
+        sources = this.dht.findProviders(this.toProviderKey(attachment.id)).then(providers => {
+          const ownId = this.p2p.getNodeId();
+          const peerIds = attachment.source ? [attachment.source] : [];
+          for (const provider of providers) {
+            if (provider.id !== ownId && !peerIds.includes(provider.id)) {
+              peerIds.push(provider.id);
+            }
+          }
+          return peerIds;
+        });
+      }
+      return sources;
+    };
+  }
+
+  private async fetchBlock(hash: string, sources: () => Promise<string[]>): Promise<Uint8Array> {
+    const cached = await this.store.getBlock(hash);
+    if (cached) return cached;
+
+    for (const peerId of await sources()) {
+      let block: Uint8Array;
+      try {
+        block = await this.p2p.request(peerId, ATTACHMENT_PROTOCOL, sodium.from_hex(hash));
+      } catch (error) {
+        console.error(`Failed to fetch attachment block from ${peerId}:`, error);
+        continue;
+      }
+
+      // Блок, не совпадающий с адресом, отбрасывается и запрашивается у следующего узла
+      if (
+        block.length > 0 &&
+        sodium.to_hex(sodium.crypto_generichash(HASH_LENGTH, block)) === hash
+      ) {
+        await this.store.putBlock(hash, block);
+        return block;
+      }
+    }
+
+    throw new Error('Attachment block unavailable');
+  }
+
+  // Блок 0 - манифест, блок i + 1 - i-й фрагмент; отдельный подключ не даёт переставить блоки
+  private sealBlock(plaintext: Uint8Array, key: Uint8Array, blockId: number): Uint8Array {
+    const blockKey = sodium.crypto_kdf_derive_from_key(32, blockId, KDF_CONTEXT, key);
+    const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+    const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+      plaintext,
+      null,
+      null,
+      nonce,
+      blockKey
+    );
+    sodium.memzero(blockKey);
+
+    const block = new Uint8Array(nonce.length + ciphertext.length);
+    block.set(nonce);
+    block.set(ciphertext, nonce.length);
+    return block;
+  }
+
+  private openBlock(block: Uint8Array, key: Uint8Array, blockId: number): Uint8Array {
+    const blockKey = sodium.crypto_kdf_derive_from_key(32, blockId, KDF_CONTEXT, key);
+    const nonceLength = sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES;
+    try {
+      return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+        null,
+        block.subarray(nonceLength),
+        null,
+        block.subarray(0, nonceLength),
+        blockKey
+      );
+    } catch {
+      throw new Error('Attachment integrity check failed');
+    } finally {
+      sodium.memzero(blockKey);
+    }
+  }
+
+  // message AttachmentManifest { uint64 size = 1; repeated bytes chunks = 2; }
+  private encodeManifest(manifest: AttachmentManifest): Uint8Array {
+    const writer = new ProtoWriter().uint(1, manifest.size);
+    for (const hash of manifest.chunks) {
+      writer.bytes(2, hash);
+    }
+    return writer.finish();
+  }
+
+  private decodeManifest(data: Uint8Array): AttachmentManifest {
+    const reader = new ProtoReader(data);
+    const manifest: AttachmentManifest = { size: 0, chunks: [] };
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          manifest.size = reader.uint();
+          break;
+        case 2: {
+          const hash = reader.bytes();
+          if (hash.length !== HASH_LENGTH) {
+            throw new Error('Malformed wire message');
+          }
+          manifest.chunks.push(hash);
+          break;
+        }
+        default:
+          reader.skip();
+      }
+    }
+
+    return manifest;
+  }
+
+  private toProviderKey(attachmentId: string): string {
+    return `attachment:${attachmentId}`;
+  }
+
+  private equals(a: Uint8Array, b: Uint8Array): boolean {
+    return a.length === b.length && sodium.memcmp(a, b);
+  }
+}
@@ -0,0 +1,74 @@
+import type { DatabaseService, Migration } from '@messa/local-db';
+import type { IAttachmentStore } from '../types';
+
+// Версии 200-299 зарезервированы за хранилищем вложений
+export const ATTACHMENT_STORE_MIGRATIONS: Migration[] = [
+  {
+    version: 200,
+    up: `
+      CREATE TABLE IF NOT EXISTS attachment_blocks (
+        hash TEXT PRIMARY KEY,
+        block BLOB NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS attachment_blocks;
+    `,
+  },
+];
+
+// Хранилище по умолчанию: блоки живут только до перезапуска
+export class InMemoryAttachmentStore implements IAttachmentStore {
+  private blocks: Map<string, Uint8Array> = new Map();
+
+  async getBlock(hash: string): Promise<Uint8Array | null> {
+    return this.blocks.get(hash) ?? null;
+  }
+
+  async putBlock(hash: string, block: Uint8Array): Promise<void> {
+    this.blocks.set(hash, block);
+  }
+
+  async deleteBlocks(hashes: string[]): Promise<void> {
+    for (const hash of hashes) {
+      this.blocks.delete(hash);
+    }
+  }
+}
+
+// Блоки уже зашифрованы ключом вложения, поэтому хранятся без дополнительного шифрования
+export class LocalDbAttachmentStore implements IAttachmentStore {
+  private db: DatabaseService;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.migrate(ATTACHMENT_STORE_MIGRATIONS);
+  }
+
+  async getBlock(hash: string): Promise<Uint8Array | null> {
+    const row = this.db.get<{ block: Uint8Array }>(
+      'SELECT block FROM attachment_blocks WHERE hash = ?',
+      [hash]
+    );
+    return row ? new Uint8Array(row.block) : null;
+  }
+
+  async putBlock(hash: string, block: Uint8Array): Promise<void> {
+    this.db.execute(
+      'INSERT OR IGNORE INTO attachment_blocks (hash, block, created_at) VALUES (?, ?, ?)',
+      [hash, block, new Date().toISOString()]
+    );
+  }
+
+  async deleteBlocks(hashes: string[]): Promise<void> {
+    this.db.transaction(() => {
+      for (const hash of hashes) {
+        this.db.execute('DELETE FROM attachment_blocks WHERE hash = ?', [hash]);
+      }
+    });
+  }
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import type { DHTRecord, IDHTService, IP2PService, PeerInfo } from '@messa/p2p-network';
+import { ChannelService } from './ChannelService';
+import { InMemoryChannelStore } from './ChannelStore';
+import { DeviceRegistryService } from './DeviceRegistryService';
+import { SignalProtocolService } from './SignalProtocolService';
+import { WireCodec } from './WireCodec';
+import { MessageModel } from '../models/Message';
+import type { ChannelConfig, IChannelStore, Message } from '../types';
+
+type RequestHandler = (data: Uint8Array, from: string) => Promise<Uint8Array>;
+
+// Сеть в памяти: запросы доставляются напрямую, DHT общая для всех узлов
+class MemoryNetwork {
+  records: Map<string, Uint8Array> = new Map();
+  providers: Map<string, Set<string>> = new Map();
+  nodes: Map<string, MemoryNode> = new Map();
+
+  peerInfo(peerId: string): PeerInfo {
+    return { id: peerId, addresses: [], protocols: [], metadata: new Map(), lastSeen: new Date() };
+  }
+}
+
+class MemoryNode implements IP2PService {
+  private requestHandlers: Map<string, RequestHandler> = new Map();
+
+  constructor(
+    private network: MemoryNetwork,
+    private peerId: string
+  ) {
+    network.nodes.set(peerId, this);
+  }
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async send(): Promise<void> {
+    throw new Error('Not supported');
+  }
+
+  async broadcast(): Promise<void> {}
+
+  async getPeers(): Promise<PeerInfo[]> {
+    return [];
+  }
+
+  getNodeId(): string {
+    return this.peerId;
+  }
+
+  onMessage(): void {}
+
+  async request(peerId: string, protocol: string, data: Uint8Array): Promise<Uint8Array> {
+    const handler = this.network.nodes.get(peerId)?.requestHandlers.get(protocol);
+    if (!handler) {
+      throw new Error('Protocol not supported');
+    }
+    return handler(data.slice(), this.peerId);
+  }
+
+  onRequest(protocol: string, handler: RequestHandler): void {
+    this.requestHandlers.set(protocol, handler);
+  }
+
+  setProtocolLimits(): void {}
+
+  async publishPresence(): Promise<void> {}
+}
+
+class MemoryDHT implements IDHTService {
+  constructor(
+    private network: MemoryNetwork,
+    private peerId: string
+  ) {}
+
+  async put(key: string, value: Uint8Array): Promise<void> {
+    this.network.records.set(key, value.slice());
+  }
+
+  async get(key: string): Promise<DHTRecord | null> {
+    const value = this.network.records.get(key);
+    if (!value) return null;
+    return { key, value, timestamp: new Date(), signature: new Uint8Array(0), author: '' };
+  }
+
+  async findPeer(): Promise<PeerInfo | null> {
+    return null;
+  }
+
+  async provide(key: string): Promise<void> {
+    const providers = this.network.providers.get(key) ?? new Set<string>();
+    providers.add(this.peerId);
+    this.network.providers.set(key, providers);
+  }
+
+  async findProviders(key: string): Promise<PeerInfo[]> {
+    return Array.from(this.network.providers.get(key) ?? []).map(id => this.network.peerInfo(id));
+  }
+
+  async findClosestPeers(): Promise<PeerInfo[]> {
+    return [];
+  }
+}
+
+interface User {
+  channels: ChannelService;
+  store: IChannelStore;
+  received: Message[];
+}
+
+async function createUser(
+  network: MemoryNetwork,
+  userId: string,
+  config: ChannelConfig = {}
+): Promise<User> {
+  const peerId = `${userId}-peer`;
+  const node = new MemoryNode(network, peerId);
+  const dht = new MemoryDHT(network, peerId);
+
+  const signal = new SignalProtocolService();
+  await signal.initialize();
+  const deviceRegistry = new DeviceRegistryService(userId, signal, dht);
+  await deviceRegistry.publishDevice(userId, peerId);
+
+  const store = new InMemoryChannelStore();
+  const channels = new ChannelService(userId, node, dht, signal, deviceRegistry, store, config);
+  const received: Message[] = [];
+  channels.onPost(message => received.push(message));
+  await channels.start();
+  return { channels, store, received };
+}
+
+function post(channelId: string, senderId: string, content: string): Message {
+  return MessageModel.create({ conversationId: channelId, senderId, content });
+}
+
+describe('ChannelService', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  it('forwards a new post to subscribers and serves it as history to late subscribers', async () => {
+    const network = new MemoryNetwork();
+    const alice = await createUser(network, 'alice');
+    const bob = await createUser(network, 'bob');
+    const carol = await createUser(network, 'carol');
+    const users = [alice, bob, carol];
+
+    try {
+      const channel = await alice.channels.createChannel({ name: 'news', private: true });
+      const invite = await alice.channels.createInvite(channel.id);
+      await bob.channels.subscribe(invite);
+
+      const published = await alice.channels.publish(channel.id, post(channel.id, 'alice', 'hi'));
+      expect(bob.received.map(message => message.content)).toEqual(['hi']);
+      expect(bob.received[0]!.signature).toEqual(published.signature);
+
+      const dave = await createUser(network, 'dave');
+      users.push(dave);
+      await dave.channels.subscribe(invite);
+      expect(dave.received.map(message => message.content)).toEqual(['hi']);
+
+      // Подписчик без приглашения не знает ключа закрытого канала
+      await expect(
+        carol.channels.publish(channel.id, post(channel.id, 'carol', 'x'))
+      ).rejects.toThrow('Not subscribed to this channel');
+      expect(await dave.channels.fetchHistory(channel.id)).toBe(0);
+    } finally {
+      for (const user of users) user.channels.stop();
+    }
+  });
+
+  it('rejects forged posts and stops paging through a history of rejected posts', async () => {
+    const network = new MemoryNetwork();
+    const config = { historyLimit: 2 };
+    const alice = await createUser(network, 'alice', config);
+    const mallory = await createUser(network, 'mallory', config);
+    const users = [alice, mallory];
+
+    try {
+      const channel = await alice.channels.createChannel({ name: 'news' });
+      const invite = await alice.channels.createInvite(channel.id);
+      await mallory.channels.subscribe(invite);
+      await alice.channels.publish(channel.id, post(channel.id, 'alice', 'real'));
+
+      // Полные страницы постов от имени Alice без её подписи
+      for (let i = 0; i < 5; i++) {
+        const message = post(channel.id, 'alice', `forged ${i}`);
+        await mallory.store.storePost({
+          channelId: channel.id,
+          id: message.id,
+          senderId: 'alice',
+          timestamp: new Date(message.timestamp.getTime() + i + 1),
+          content: WireCodec.encodeContent(message),
+          signature: new Uint8Array(64),
+        });
+      }
+
+      // Историю отдают и Alice, и Mallory
+      const dave = await createUser(network, 'dave', config);
+      users.push(dave);
+      await dave.channels.subscribe(invite);
+      expect(dave.received.map(message => message.content)).toEqual(['real']);
+
+      const subscription = await dave.store.getSubscription(channel.id);
+      expect(subscription?.syncedUntil?.id).toBe(dave.received[0]!.id);
+      expect(await dave.channels.fetchHistory(channel.id)).toBe(0);
+    } finally {
+      for (const user of users) user.channels.stop();
+    }
+  });
+});
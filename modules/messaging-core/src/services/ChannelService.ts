@@ -0,0 +1,1054 @@
+import sodium from 'libsodium-wrappers';
+import { v4 as uuidv4 } from 'uuid';
+import type { IDHTService, IP2PService } from '@messa/p2p-network';
+import { MessageModel } from '../models/Message';
+import { InMemoryChannelStore } from './ChannelStore';
+import { ProtoReader, ProtoWriter, WireCodec } from './WireCodec';
+import type { DeviceRegistryService } from './DeviceRegistryService';
+import type { SignalProtocolService } from './SignalProtocolService';
+import type {
+  ChannelConfig,
+  ChannelCursor,
+  ChannelDescriptor,
+  ChannelPost,
+  ChannelSubscription,
+  IChannelStore,
+  Message,
+} from '../types';
+
+export const CHANNEL_PROTOCOL = '/messa/channels/1.0.0';
+
+const CHANNEL_OPS = {
+  post: 1,
+  history: 2,
+  view: 3,
+  views: 4,
+} as const;
+
+const MAX_POST_SIZE = 256 * 1024; // Вложения передаются через AttachmentService
+const MAX_HISTORY_SIZE = 4 * 1024 * 1024; // Суммарный размер постов в одном ответе истории
+const MAX_CHANNEL_OVERHEAD = 64 * 1024; // Заголовки и подписи сверх содержимого постов
+const MAX_VIEW_QUERY = 100; // Постов в одном запросе числа просмотров
+const HISTORY_SOURCES = 2; // Подписчиков, у которых догружается история
+
+interface ChannelRequest {
+  op: number;
+  channelId: string;
+  post?: ChannelPost;
+  after?: ChannelCursor;
+  limit: number;
+  postIds: string[];
+  token?: string;
+  relayed: boolean; // Отметка просмотра уже передана посредником
+}
+
+interface ChannelResponse {
+  ok: boolean;
+  posts: ChannelPost[];
+  counts: number[]; // По порядку postIds запроса
+}
+
+// Каналы: рассылка один-ко-многим без группы MLS на тысячи участников. Ключи DHT:
+//   channel:<channelId>       - описание канала, подписанное identity key владельца
+//   channel-posts:<channelId> - провайдеры: подписчики, хранящие историю канала
+// Издатель отправляет новый пост fanout случайным подписчикам, каждый получивший его впервые
+// пересылает дальше. Пропущенное догружается из истории любого подписчика - подпись издателя
+// проверяется у каждого поста. Просмотр отмечается токеном, не связанным ни с подписчиком, ни
+// с его просмотрами других постов, и передаётся издателю через случайного подписчика.
+// Число просмотров - оценка, а не точный счёт: токен нельзя проверить, поэтому узел может
+// накрутить просмотры случайными токенами. Издатель принимает отметки только для известных
+// постов и не больше maxViewsPerRelay на пост от одного посредника, но узел, меняющий
+// peer ID, обходит и это ограничение - оно лишь делает накрутку дороже
+export class ChannelService {
+  private userId: string;
+  private p2p: IP2PService;
+  private dht: IDHTService;
+  private signal: SignalProtocolService;
+  private deviceRegistry: DeviceRegistryService;
+  private store: IChannelStore;
+  private fanout: number;
+  private pollInterval: number;
+  private historyLimit: number;
+  private maxViewsPerRelay: number;
+  private handlers: Array<(message: Message, channel: ChannelDescriptor) => void> = [];
+  private poller: ReturnType<typeof setInterval> | null = null;
+  private listening: boolean = false;
+  private receiving: Set<string> = new Set(); // Посты, которые сейчас проверяются
+
+  constructor(
+    userId: string,
+    p2p: IP2PService,
+    dht: IDHTService,
+    signal: SignalProtocolService,
+    deviceRegistry: DeviceRegistryService,
+    store: IChannelStore = new InMemoryChannelStore(),
+    config: ChannelConfig = {}
+  ) {
+    this.userId = userId;
+    this.p2p = p2p;
+    this.dht = dht;
+    this.signal = signal;
+    this.deviceRegistry = deviceRegistry;
+    this.store = store;
+    this.fanout = config.fanout ?? 6;
+    this.pollInterval = config.pollInterval ?? 10 * 60 * 1000; // 10 минут
+    this.historyLimit = config.historyLimit ?? 100;
+    this.maxViewsPerRelay = config.maxViewsPerRelay ?? 100;
+  }
+
+  async start(): Promise<void> {
+    await sodium.ready;
+
+    if (!this.listening) {
+      this.p2p.setProtocolLimits(CHANNEL_PROTOCOL, {
+        maxRequestSize: MAX_POST_SIZE + MAX_CHANNEL_OVERHEAD,
+        maxResponseSize: MAX_HISTORY_SIZE + MAX_CHANNEL_OVERHEAD,
+      });
+      this.p2p.onRequest(CHANNEL_PROTOCOL, (request, from) => this.handleRequest(request, from));
+      this.listening = true;
+    }
+
+    await this.sync();
+
+    if (!this.poller) {
+      this.poller = setInterval(() => {
+        this.sync().catch(error => {
+          console.error('Failed to sync channels:', error);
+        });
+      }, this.pollInterval);
+    }
+  }
+
+  stop(): void {
+    if (this.poller) {
+      clearInterval(this.poller);
+      this.poller = null;
+    }
+  }
+
+  // Каждый пост передаётся обработчикам один раз, с подписью издателя в message.signature
+  onPost(handler: (message: Message, channel: ChannelDescriptor) => void): void {
+    this.handlers.push(handler);
+  }
+
+  async getChannels(): Promise<ChannelDescriptor[]> {
+    const subscriptions = await this.store.getSubscriptions();
+    return subscriptions.map(subscription => subscription.descriptor);
+  }
+
+  // Закрытый канал шифрует посты ключом, который передаётся только в приглашении
+  async createChannel(params: {
+    name: string;
+    description?: string;
+    publishers?: string[];
+    private?: boolean;
+  }): Promise<ChannelDescriptor> {
+    await sodium.ready;
+
+    const descriptor = this.signDescriptor({
+      id: uuidv4(),
+      name: params.name,
+      description: params.description,
+      ownerId: this.userId,
+      publishers: params.publishers ?? [],
+      version: 1,
+      updatedAt: new Date(),
+      signature: new Uint8Array(0),
+    });
+
+    await this.dht.put(this.toDescriptorKey(descriptor.id), this.encodeDescriptor(descriptor));
+    await this.store.storeSubscription({
+      descriptor,
+      key: params.private ? sodium.randombytes_buf(sodium.crypto_secretbox_KEYBYTES) : undefined,
+    });
+    await this.dht.provide(this.toPostsKey(descriptor.id));
+    return descriptor;
+  }
+
+  async updateChannel(
+    channelId: string,
+    changes: { name?: string; description?: string; publishers?: string[] }
+  ): Promise<ChannelDescriptor> {
+    const subscription = await this.getSubscription(channelId);
+    if (subscription.descriptor.ownerId !== this.userId) {
+      throw new Error('Only the channel owner can change the channel');
+    }
+
+    const descriptor = this.signDescriptor({
+      ...subscription.descriptor,
+      ...changes,
+      version: subscription.descriptor.version + 1,
+      updatedAt: new Date(),
+    });
+
+    await this.dht.put(this.toDescriptorKey(channelId), this.encodeDescriptor(descriptor));
+    await this.store.storeSubscription({ ...subscription, descriptor });
+    return descriptor;
+  }
+
+  // Приглашение содержит владельца, по ключу которого проверяется описание, и ключ канала
+  async createInvite(channelId: string): Promise<string> {
+    await sodium.ready;
+
+    const { descriptor, key } = await this.getSubscription(channelId);
+    const invite = new ProtoWriter()
+      .string(1, descriptor.id)
+      .string(2, descriptor.ownerId)
+      .bytes(3, key)
+      .finish();
+    return sodium.to_base64(invite, sodium.base64_variants.URLSAFE_NO_PADDING);
+  }
+
+  async subscribe(invite: string): Promise<ChannelDescriptor> {
+    await sodium.ready;
+
+    const { channelId, ownerId, key } = this.decodeInvite(invite);
+    const descriptor = await this.fetchDescriptor(channelId, ownerId);
+    if (!descriptor) {
+      throw new Error('Channel not found');
+    }
+
+    const existing = await this.store.getSubscription(channelId);
+    await this.store.storeSubscription({
+      descriptor,
+      key: key ?? existing?.key,
+      syncedUntil: existing?.syncedUntil,
+    });
+    await this.dht.provide(this.toPostsKey(channelId));
+    await this.fetchHistory(channelId);
+    return descriptor;
+  }
+
+  // Запись провайдера в DHT истекает сама, после отписки узел перестаёт её обновлять
+  async unsubscribe(channelId: string): Promise<void> {
+    await this.store.deleteSubscription(channelId);
+  }
+
+  async publish(channelId: string, message: Message): Promise<ChannelPost> {
+    await sodium.ready;
+
+    const subscription = await this.getSubscription(channelId);
+    if (!this.isPublisher(subscription.descriptor, this.userId)) {
+      throw new Error('Only channel publishers can post');
+    }
+    if (message.senderId !== this.userId || message.conversationId !== channelId) {
+      throw new Error('Post does not belong to this channel');
+    }
+    if (MessageModel.isControl(message)) {
+      throw new Error('Control messages cannot be posted to a channel');
+    }
+
+    const content = this.sealContent(
+      WireCodec.encodeContent({ ...message, readReceipts: [], reactions: [] }),
+      subscription.key
+    );
+    if (content.length > MAX_POST_SIZE) {
+      throw new Error('Channel post too large');
+    }
+
+    const post = this.signPost({
+      channelId,
+      id: message.id,
+      senderId: message.senderId,
+      timestamp: message.timestamp,
+      content,
+      signature: new Uint8Array(0),
+    });
+    await this.store.storePost(post);
+    await this.forward(post, []);
+    return post;
+  }
+
+  // Догрузка постов после syncedUntil. Рассылка не гарантирует, что у подписчика есть все посты,
+  // поэтому история берётся у двух ответивших; возвращает число новых
+  async fetchHistory(channelId: string): Promise<number> {
+    const subscription = await this.getSubscription(channelId);
+    let count = 0;
+    let sources = 0;
+
+    for (const peerId of await this.findHistoryPeers(subscription.descriptor)) {
+      try {
+        count += await this.fetchHistoryFrom(peerId, subscription);
+        if (++sources >= HISTORY_SOURCES) break;
+      } catch (error) {
+        console.error(`Failed to fetch channel history from ${peerId}:`, error);
+      }
+    }
+    return count;
+  }
+
+  // Возвращает false, если передать отметку некому: напрямую издателю она не отправляется,
+  // чтобы он не узнал подписчика по peer ID
+  async recordView(channelId: string, postId: string): Promise<boolean> {
+    await sodium.ready;
+
+    const { descriptor } = await this.getSubscription(channelId);
+    if (!(await this.store.hasPost(channelId, postId))) {
+      throw new Error('Unknown channel post');
+    }
+
+    const token = this.viewToken(channelId, postId);
+    if (this.isPublisher(descriptor, this.userId)) {
+      await this.store.addView(channelId, postId, token, this.p2p.getNodeId());
+      return true;
+    }
+
+    const publisherPeers = await this.getPublisherPeers(descriptor);
+    const relays = (await this.findSubscriberPeers(channelId)).filter(
+      peerId => !publisherPeers.includes(peerId)
+    );
+    for (const peerId of relays) {
+      try {
+        const response = await this.requestChannel(peerId, {
+          op: CHANNEL_OPS.view,
+          channelId,
+          limit: 0,
+          postIds: [postId],
+          token,
+          relayed: false,
+        });
+        if (response.ok) return true;
+      } catch (error) {
+        console.error(`Failed to relay channel view through ${peerId}:`, error);
+      }
+    }
+    return false;
+  }
+
+  // Число просмотров знают только устройства издателей; оно приблизительное, см. описание класса
+  async getViewCounts(channelId: string, postIds: string[]): Promise<Map<string, number>> {
+    const { descriptor } = await this.getSubscription(channelId);
+    const counts = new Map<string, number>();
+    const ids = postIds.slice(0, MAX_VIEW_QUERY);
+
+    if (this.isPublisher(descriptor, this.userId)) {
+      for (const postId of ids) {
+        counts.set(postId, await this.store.getViewCount(channelId, postId));
+      }
+      return counts;
+    }
+
+    for (const peerId of await this.getPublisherPeers(descriptor)) {
+      try {
+        const response = await this.requestChannel(peerId, {
+          op: CHANNEL_OPS.views,
+          channelId,
+          limit: 0,
+          postIds: ids,
+          relayed: false,
+        });
+        if (!response.ok) continue;
+
+        ids.forEach((postId, index) => counts.set(postId, response.counts[index] ?? 0));
+        return counts;
+      } catch (error) {
+        console.error(`Failed to fetch channel views from ${peerId}:`, error);
+      }
+    }
+    return counts;
+  }
+
+  // Вспомогательные методы
+
+  private async sync(): Promise<void> {
+    for (const subscription of await this.store.getSubscriptions()) {
+      const channelId = subscription.descriptor.id;
+      try {
+        await this.refreshDescriptor(subscription);
+        await this.dht.provide(this.toPostsKey(channelId));
+        await this.fetchHistory(channelId);
+      } catch (error) {
+        console.error(`Failed to sync channel ${channelId}:`, error);
+      }
+    }
+  }
+
+  private async handleRequest(data: Uint8Array, from: string): Promise<Uint8Array> {
+    let request: ChannelRequest;
+    try {
+      request = this.decodeRequest(data);
+    } catch {
+      return this.encodeResponse({ ok: false, posts: [], counts: [] });
+    }
+
+    const subscription = await this.store.getSubscription(request.channelId);
+    if (!subscription) {
+      return this.encodeResponse({ ok: false, posts: [], counts: [] });
+    }
+    const { descriptor } = subscription;
+
+    switch (request.op) {
+      case CHANNEL_OPS.post: {
+        if (!request.post) break;
+        try {
+          if (await this.acceptPost(subscription, request.post)) {
+            this.forward(request.post, [from]).catch(error => {
+              console.error('Failed to forward channel post:', error);
+            });
+          }
+        } catch (error) {
+          console.error('Rejected channel post:', error);
+          break;
+        }
+        return this.encodeResponse({ ok: true, posts: [], counts: [] });
+      }
+
+      case CHANNEL_OPS.history: {
+        const stored = await this.store.getPosts(
+          descriptor.id,
+          request.after ?? null,
+          Math.min(request.limit || this.historyLimit, this.historyLimit)
+        );
+
+        // Первый пост отдаётся всегда, остальные - пока ответ не превышает MAX_HISTORY_SIZE
+        const posts: ChannelPost[] = [];
+        let size = 0;
+        for (const post of stored) {
+          size += post.content.length;
+          if (posts.length > 0 && size > MAX_HISTORY_SIZE) break;
+          posts.push(post);
+        }
+        return this.encodeResponse({ ok: true, posts, counts: [] });
+      }
+
+      case CHANNEL_OPS.view: {
+        const [postId] = request.postIds;
+        if (!postId || !request.token) break;
+        // Отметки к несуществующим постам засоряли бы хранилище издателя
+        if (!(await this.store.hasPost(descriptor.id, postId))) break;
+
+        if (this.isPublisher(descriptor, this.userId)) {
+          const relayed = await this.store.getRelayedViewCount(descriptor.id, postId, from);
+          if (relayed >= this.maxViewsPerRelay) break;
+          await this.store.addView(descriptor.id, postId, request.token, from);
+          return this.encodeResponse({ ok: true, posts: [], counts: [] });
+        }
+        // Посредник передаёт отметку издателю от своего имени; дальше она не пересылается
+        if (request.relayed) break;
+        const delivered = await this.sendView(descriptor, postId, request.token);
+        return this.encodeResponse({ ok: delivered, posts: [], counts: [] });
+      }
+
+      case CHANNEL_OPS.views: {
+        if (!this.isPublisher(descriptor, this.userId)) break;
+        const counts: number[] = [];
+        for (const postId of request.postIds.slice(0, MAX_VIEW_QUERY)) {
+          counts.push(await this.store.getViewCount(descriptor.id, postId));
+        }
+        return this.encodeResponse({ ok: true, posts: [], counts });
+      }
+    }
+
+    return this.encodeResponse({ ok: false, posts: [], counts: [] });
+  }
+
+  // Возвращает true для нового поста; поддельный пост отклоняется с ошибкой
+  private async acceptPost(subscription: ChannelSubscription, post: ChannelPost): Promise<boolean> {
+    // Один пост приходит сразу от нескольких подписчиков
+    const key = `${post.channelId}:${post.id}`;
+    if (this.receiving.has(key)) return false;
+    this.receiving.add(key);
+
+    try {
+      if (await this.store.hasPost(post.channelId, post.id)) return false;
+      const message = await this.verifyPost(subscription, post);
+
+      await this.store.storePost(post);
+      for (const handler of this.handlers) {
+        handler(message, subscription.descriptor);
+      }
+      return true;
+    } finally {
+      this.receiving.delete(key);
+    }
+  }
+
+  private async verifyPost(subscription: ChannelSubscription, post: ChannelPost): Promise<Message> {
+    let { descriptor } = subscription;
+    if (post.channelId !== descriptor.id) {
+      throw new Error('Post does not belong to this channel');
+    }
+    if (post.content.length > MAX_POST_SIZE) {
+      throw new Error('Channel post too large');
+    }
+    // Издателя могли добавить после последнего обновления описания
+    if (!this.isPublisher(descriptor, post.senderId)) {
+      descriptor = (await this.refreshDescriptor(subscription)).descriptor;
+      if (!this.isPublisher(descriptor, post.senderId)) {
+        throw new Error('Sender is not a channel publisher');
+      }
+    }
+
+    const identityKey = await this.getIdentityKey(post.senderId);
+    await sodium.ready;
+    if (!sodium.crypto_sign_verify_detached(post.signature, this.postPayload(post), identityKey)) {
+      throw new Error('Invalid channel post signature');
+    }
+
+    const message = WireCodec.decodeContent(this.openContent(post.content, subscription.key));
+    if (
+      message.id !== post.id ||
+      message.senderId !== post.senderId ||
+      message.conversationId !== post.channelId ||
+      message.timestamp.getTime() !== post.timestamp.getTime()
+    ) {
+      throw new Error('Channel post content does not match its header');
+    }
+    return { ...message, signature: post.signature };
+  }
+
+  private async fetchHistoryFrom(
+    peerId: string,
+    subscription: ChannelSubscription
+  ): Promise<number> {
+    const channelId = subscription.descriptor.id;
+    let cursor = subscription.syncedUntil;
+    let after = cursor; // Позиция в истории этого подписчика, в том числе после отклонённых постов
+    let count = 0;
+
+    for (;;) {
+      const response = await this.requestChannel(peerId, {
+        op: CHANNEL_OPS.history,
+        channelId,
+        after,
+        limit: this.historyLimit,
+        postIds: [],
+        relayed: false,
+      });
+      if (!response.ok) {
+        throw new Error('Peer does not serve this channel');
+      }
+
+      for (const post of response.posts) {
+        try {
+          if (await this.acceptPost(subscription, post)) count++;
+        } catch (error) {
+          console.error('Rejected channel post:', error);
+          continue;
+        }
+        // Курсор сдвигается только по проверенным постам
+        if (!cursor || this.compareCursors(post, cursor) > 0) {
+          cursor = { timestamp: post.timestamp, id: post.id };
+        }
+      }
+
+      // Подписка перечитывается: ключ или описание могли смениться за время загрузки
+      const current = await this.store.getSubscription(channelId);
+      if (!current) return count;
+      const syncedUntil =
+        current.syncedUntil && (!cursor || this.compareCursors(current.syncedUntil, cursor) > 0)
+          ? current.syncedUntil
+          : cursor;
+      await this.store.storeSubscription({ ...current, syncedUntil });
+
+      // Страница поддельных постов или постов удалённого издателя не сдвигает cursor, но сдвигает
+      // позицию запроса. Страница, не сдвинувшая и её, повторялась бы бесконечно
+      const last = response.posts.reduce<ChannelCursor | undefined>(
+        (latest, post) => (!latest || this.compareCursors(post, latest) > 0 ? post : latest),
+        undefined
+      );
+      if (!last || (after && this.compareCursors(last, after) <= 0)) return count;
+      after = { timestamp: last.timestamp, id: last.id };
+
+      // Короткий ответ означает конец истории, только если его не урезал предел размера
+      const size = response.posts.reduce((sum, post) => sum + post.content.length, 0);
+      if (response.posts.length < this.historyLimit && size + MAX_POST_SIZE <= MAX_HISTORY_SIZE) {
+        return count;
+      }
+    }
+  }
+
+  private async forward(post: ChannelPost, exclude: string[]): Promise<void> {
+    const peers = (await this.findSubscriberPeers(post.channelId))
+      .filter(peerId => !exclude.includes(peerId))
+      .slice(0, this.fanout);
+
+    await Promise.allSettled(
+      peers.map(peerId =>
+        this.requestChannel(peerId, {
+          op: CHANNEL_OPS.post,
+          channelId: post.channelId,
+          post,
+          limit: 0,
+          postIds: [],
+          relayed: false,
+        })
+      )
+    );
+  }
+
+  private async sendView(
+    descriptor: ChannelDescriptor,
+    postId: string,
+    token: string
+  ): Promise<boolean> {
+    for (const peerId of await this.getPublisherPeers(descriptor)) {
+      try {
+        const response = await this.requestChannel(peerId, {
+          op: CHANNEL_OPS.view,
+          channelId: descriptor.id,
+          limit: 0,
+          postIds: [postId],
+          token,
+          relayed: true,
+        });
+        if (response.ok) return true;
+      } catch (error) {
+        console.error(`Failed to deliver channel view to ${peerId}:`, error);
+      }
+    }
+    return false;
+  }
+
+  // Детерминированная подпись Ed25519 делает токен постоянным для пары подписчик-пост,
+  // а хеш от неё не позволяет ни проверить его ключом подписчика, ни связать с другими постами
+  private viewToken(channelId: string, postId: string): string {
+    const signature = this.signal.signWithIdentityKey(
+      new ProtoWriter()
+        .string(1, 'MessaChannelView')
+        .string(2, channelId)
+        .string(3, postId)
+        .finish()
+    );
+    return sodium.to_hex(sodium.crypto_generichash(16, signature));
+  }
+
+  private async getSubscription(channelId: string): Promise<ChannelSubscription> {
+    const subscription = await this.store.getSubscription(channelId);
+    if (!subscription) {
+      throw new Error('Not subscribed to this channel');
+    }
+    return subscription;
+  }
+
+  // Принимается только более новое описание, подписанное тем же владельцем
+  private async refreshDescriptor(subscription: ChannelSubscription): Promise<ChannelSubscription> {
+    const { descriptor } = subscription;
+    if (descriptor.ownerId === this.userId) return subscription;
+
+    const latest = await this.fetchDescriptor(descriptor.id, descriptor.ownerId);
+    if (!latest || latest.version <= descriptor.version) return subscription;
+
+    const updated = { ...subscription, descriptor: latest };
+    await this.store.storeSubscription(updated);
+    return updated;
+  }
+
+  private async fetchDescriptor(
+    channelId: string,
+    ownerId: string
+  ): Promise<ChannelDescriptor | null> {
+    const record = await this.dht.get(this.toDescriptorKey(channelId));
+    if (!record) return null;
+
+    const descriptor = this.decodeDescriptor(record.value);
+    if (descriptor.id !== channelId || descriptor.ownerId !== ownerId) {
+      throw new Error('Channel descriptor does not match the invite');
+    }
+
+    const identityKey = await this.getIdentityKey(ownerId);
+    await sodium.ready;
+    if (
+      !sodium.crypto_sign_verify_detached(
+        descriptor.signature,
+        this.descriptorPayload(descriptor),
+        identityKey
+      )
+    ) {
+      throw new Error('Invalid channel descriptor signature');
+    }
+    return descriptor;
+  }
+
+  private isPublisher(descriptor: ChannelDescriptor, userId: string): boolean {
+    return descriptor.ownerId === userId || descriptor.publishers.includes(userId);
+  }
+
+  // Ключ незнакомого издателя закрепляется по его списку устройств из DHT
+  private async getIdentityKey(userId: string): Promise<Uint8Array> {
+    if (userId === this.userId) {
+      return this.signal.getIdentityKey();
+    }
+
+    if (!this.signal.getTrustedIdentity(userId)) {
+      await this.deviceRegistry.getDevices(userId);
+    }
+
+    const trusted = this.signal.getTrustedIdentity(userId);
+    if (!trusted) {
+      throw new Error('Unknown sender identity');
+    }
+    return trusted.identityKey;
+  }
+
+  // Устройства издателей с peer ID из их подписанных списков устройств
+  private async getPublisherPeers(descriptor: ChannelDescriptor): Promise<string[]> {
+    const ownId = this.p2p.getNodeId();
+    const peerIds: string[] = [];
+
+    for (const userId of new Set([descriptor.ownerId, ...descriptor.publishers])) {
+      try {
+        const devices = await this.deviceRegistry.getDevices(userId);
+        for (const device of devices?.devices ?? []) {
+          if (device.peerId && device.peerId !== ownId) peerIds.push(device.peerId);
+        }
+      } catch (error) {
+        console.error(`Failed to resolve devices of publisher ${userId}:`, error);
+      }
+    }
+    return peerIds;
+  }
+
+  // Подписчики в случайном порядке, чтобы нагрузка и пересылка распределялись между ними
+  private async findSubscriberPeers(channelId: string): Promise<string[]> {
+    const ownId = this.p2p.getNodeId();
+    const providers = await this.dht.findProviders(this.toPostsKey(channelId));
+    const peerIds = Array.from(new Set(providers.map(provider => provider.id))).filter(
+      peerId => peerId !== ownId
+    );
+
+    for (let i = peerIds.length - 1; i > 0; i--) {
+      const j = sodium.randombytes_uniform(i + 1);
+      [peerIds[i], peerIds[j]] = [peerIds[j]!, peerIds[i]!];
+    }
+    return peerIds;
+  }
+
+  // Сначала случайные подписчики, затем устройства издателей, у которых история полная
+  private async findHistoryPeers(descriptor: ChannelDescriptor): Promise<string[]> {
+    const subscribers = await this.findSubscriberPeers(descriptor.id);
+    const publishers = await this.getPublisherPeers(descriptor);
+    return Array.from(new Set([...subscribers, ...publishers]));
+  }
+
+  private sealContent(content: Uint8Array, key?: Uint8Array): Uint8Array {
+    if (!key) return content;
+
+    const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
+    const ciphertext = sodium.crypto_secretbox_easy(content, nonce, key);
+    const sealed = new Uint8Array(nonce.length + ciphertext.length);
+    sealed.set(nonce);
+    sealed.set(ciphertext, nonce.length);
+    return sealed;
+  }
+
+  private openContent(content: Uint8Array, key?: Uint8Array): Uint8Array {
+    if (!key) return content;
+
+    const nonceLength = sodium.crypto_secretbox_NONCEBYTES;
+    if (content.length < nonceLength + sodium.crypto_secretbox_MACBYTES) {
+      throw new Error('Malformed channel post');
+    }
+    return sodium.crypto_secretbox_open_easy(
+      content.subarray(nonceLength),
+      content.subarray(0, nonceLength),
+      key
+    );
+  }
+
+  private signDescriptor(descriptor: ChannelDescriptor): ChannelDescriptor {
+    return {
+      ...descriptor,
+      signature: this.signal.signWithIdentityKey(this.descriptorPayload(descriptor)),
+    };
+  }
+
+  private signPost(post: ChannelPost): ChannelPost {
+    return {
+      ...post,
+      signature: this.signal.signWithIdentityKey(this.postPayload(post)),
+    };
+  }
+
+  private descriptorPayload(descriptor: ChannelDescriptor): Uint8Array {
+    return this.writeDescriptor(new ProtoWriter(), descriptor).string(15, 'MessaChannel').finish();
+  }
+
+  private postPayload(post: ChannelPost): Uint8Array {
+    return this.writePost(new ProtoWriter(), post).string(15, 'MessaChannelPost').finish();
+  }
+
+  private async requestChannel(peerId: string, request: ChannelRequest): Promise<ChannelResponse> {
+    const response = await this.p2p.request(peerId, CHANNEL_PROTOCOL, this.encodeRequest(request));
+    return this.decodeResponse(response);
+  }
+
+  private toDescriptorKey(channelId: string): string {
+    return `channel:${channelId}`;
+  }
+
+  private toPostsKey(channelId: string): string {
+    return `channel-posts:${channelId}`;
+  }
+
+  private compareCursors(a: ChannelCursor, b: ChannelCursor): number {
+    const diff = a.timestamp.getTime() - b.timestamp.getTime();
+    if (diff !== 0) return diff;
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  }
+
+  // message ChannelDescriptor { string id = 1; string name = 2; string description = 3;
+  //   string owner_id = 4; repeated string publishers = 5; uint64 version = 6;
+  //   uint64 updated_at = 7; bytes signature = 8; }
+  private writeDescriptor(writer: ProtoWriter, descriptor: ChannelDescriptor): ProtoWriter {
+    writer
+      .string(1, descriptor.id)
+      .string(2, descriptor.name)
+      .string(3, descriptor.description)
+      .string(4, descriptor.ownerId);
+    for (const publisher of descriptor.publishers) {
+      writer.string(5, publisher);
+    }
+    return writer.uint(6, descriptor.version).uint(7, descriptor.updatedAt.getTime());
+  }
+
+  private encodeDescriptor(descriptor: ChannelDescriptor): Uint8Array {
+    return this.writeDescriptor(new ProtoWriter(), descriptor)
+      .bytes(8, descriptor.signature)
+      .finish();
+  }
+
+  private decodeDescriptor(data: Uint8Array): ChannelDescriptor {
+    const reader = new ProtoReader(data);
+    const descriptor: ChannelDescriptor = {
+      id: '',
+      name: '',
+      ownerId: '',
+      publishers: [],
+      version: 0,
+      updatedAt: new Date(0),
+      signature: new Uint8Array(0),
+    };
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          descriptor.id = reader.string();
+          break;
+        case 2:
+          descriptor.name = reader.string();
+          break;
+        case 3:
+          descriptor.description = reader.string();
+          break;
+        case 4:
+          descriptor.ownerId = reader.string();
+          break;
+        case 5:
+          descriptor.publishers.push(reader.string());
+          break;
+        case 6:
+          descriptor.version = reader.uint();
+          break;
+        case 7:
+          descriptor.updatedAt = new Date(reader.uint());
+          break;
+        case 8:
+          descriptor.signature = reader.bytes();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    return descriptor;
+  }
+
+  // message ChannelPost { string channel_id = 1; string id = 2; string sender_id = 3;
+  //   uint64 timestamp = 4; bytes content = 5; bytes signature = 6; }
+  private writePost(writer: ProtoWriter, post: ChannelPost): ProtoWriter {
+    return writer
+      .string(1, post.channelId)
+      .string(2, post.id)
+      .string(3, post.senderId)
+      .uint(4, post.timestamp.getTime())
+      .bytes(5, post.content);
+  }
+
+  private readPost(reader: ProtoReader): ChannelPost {
+    const post: ChannelPost = {
+      channelId: '',
+      id: '',
+      senderId: '',
+      timestamp: new Date(0),
+      content: new Uint8Array(0),
+      signature: new Uint8Array(0),
+    };
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          post.channelId = reader.string();
+          break;
+        case 2:
+          post.id = reader.string();
+          break;
+        case 3:
+          post.senderId = reader.string();
+          break;
+        case 4:
+          post.timestamp = new Date(reader.uint());
+          break;
+        case 5:
+          post.content = reader.bytes();
+          break;
+        case 6:
+          post.signature = reader.bytes();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    return post;
+  }
+
+  private decodeInvite(invite: string): { channelId: string; ownerId: string; key?: Uint8Array } {
+    let reader: ProtoReader;
+    try {
+      reader = new ProtoReader(
+        sodium.from_base64(invite, sodium.base64_variants.URLSAFE_NO_PADDING)
+      );
+    } catch {
+      throw new Error('Invalid channel invite');
+    }
+
+    const result: { channelId: string; ownerId: string; key?: Uint8Array } = {
+      channelId: '',
+      ownerId: '',
+    };
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          result.channelId = reader.string();
+          break;
+        case 2:
+          result.ownerId = reader.string();
+          break;
+        case 3:
+          result.key = reader.bytes();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    if (
+      !result.channelId ||
+      !result.ownerId ||
+      (result.key && result.key.length !== sodium.crypto_secretbox_KEYBYTES)
+    ) {
+      throw new Error('Invalid channel invite');
+    }
+    return result;
+  }
+
+  // message ChannelRequest { uint32 op = 1; string channel_id = 2; ChannelPost post = 3;
+  //   uint64 after_timestamp = 4; string after_id = 5; uint32 limit = 6;
+  //   repeated string post_ids = 7; string token = 8; bool relayed = 9; }
+  private encodeRequest(request: ChannelRequest): Uint8Array {
+    const writer = new ProtoWriter()
+      .uint(1, request.op)
+      .string(2, request.channelId)
+      .message(3, request.post, (inner, post) =>
+        this.writePost(inner, post).bytes(6, post.signature)
+      )
+      .uint(4, request.after?.timestamp.getTime())
+      .string(5, request.after?.id)
+      .uint(6, request.limit);
+    for (const postId of request.postIds) {
+      writer.string(7, postId);
+    }
+    return writer.string(8, request.token).bool(9, request.relayed).finish();
+  }
+
+  private decodeRequest(data: Uint8Array): ChannelRequest {
+    const reader = new ProtoReader(data);
+    const request: ChannelRequest = {
+      op: 0,
+      channelId: '',
+      limit: 0,
+      postIds: [],
+      relayed: false,
+    };
+    let afterTimestamp: number | undefined;
+    let afterId: string | undefined;
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          request.op = reader.uint();
+          break;
+        case 2:
+          request.channelId = reader.string();
+          break;
+        case 3:
+          request.post = reader.message(inner => this.readPost(inner));
+          break;
+        case 4:
+          afterTimestamp = reader.uint();
+          break;
+        case 5:
+          afterId = reader.string();
+          break;
+        case 6:
+          request.limit = reader.uint();
+          break;
+        case 7:
+          request.postIds.push(reader.string());
+          break;
+        case 8:
+          request.token = reader.string();
+          break;
+        case 9:
+          request.relayed = reader.bool();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    if (afterTimestamp !== undefined || afterId !== undefined) {
+      request.after = { timestamp: new Date(afterTimestamp ?? 0), id: afterId ?? '' };
+    }
+    return request;
+  }
+
+  // message ChannelResponse { bool ok = 1; repeated ChannelPost posts = 2;
+  //   repeated uint64 counts = 3; }
+  private encodeResponse(response: ChannelResponse): Uint8Array {
+    const writer = new ProtoWriter()
+      .bool(1, response.ok)
+      .repeated(2, response.posts, (inner, post) =>
+        this.writePost(inner, post).bytes(6, post.signature)
+      );
+    // Нулевое значение не пишется, поэтому счётчик передаётся со сдвигом на единицу
+    for (const count of response.counts) {
+      writer.uint(3, count + 1);
+    }
+    return writer.finish();
+  }
+
+  private decodeResponse(data: Uint8Array): ChannelResponse {
+    const reader = new ProtoReader(data);
+    const response: ChannelResponse = { ok: false, posts: [], counts: [] };
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          response.ok = reader.bool();
+          break;
+        case 2:
+          response.posts.push(reader.message(inner => this.readPost(inner)));
+          break;
+        case 3:
+          response.counts.push(reader.uint() - 1);
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,261 @@
+import sodium from 'libsodium-wrappers';
+import { RecordCodec } from '@messa/local-db';
+import type { DatabaseService, Migration } from '@messa/local-db';
+import type { ChannelCursor, ChannelPost, ChannelSubscription, IChannelStore } from '../types';
+
+// Версии 500-599 зарезервированы за каналами
+export const CHANNEL_STORE_MIGRATIONS: Migration[] = [
+  {
+    version: 500,
+    up: `
+      CREATE TABLE IF NOT EXISTS channel_subscriptions (
+        channel_id TEXT PRIMARY KEY,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS channel_posts (
+        channel_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        PRIMARY KEY (channel_id, id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_channel_posts_timestamp
+        ON channel_posts (channel_id, timestamp, id);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_channel_posts_timestamp;
+      DROP TABLE IF EXISTS channel_posts;
+      DROP TABLE IF EXISTS channel_subscriptions;
+    `,
+  },
+  {
+    version: 501,
+    up: `
+      CREATE TABLE IF NOT EXISTS channel_views (
+        channel_id TEXT NOT NULL,
+        post_id TEXT NOT NULL,
+        token TEXT NOT NULL,
+        PRIMARY KEY (channel_id, post_id, token)
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS channel_views;
+    `,
+  },
+  {
+    version: 502,
+    up: `
+      ALTER TABLE channel_views ADD COLUMN relay_id TEXT NOT NULL DEFAULT '';
+
+      CREATE INDEX IF NOT EXISTS idx_channel_views_relay
+        ON channel_views (channel_id, post_id, relay_id);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_channel_views_relay;
+      ALTER TABLE channel_views DROP COLUMN relay_id;
+    `,
+  },
+];
+
+// Хранилище по умолчанию: подписки и история живут только до перезапуска
+export class InMemoryChannelStore implements IChannelStore {
+  private subscriptions: Map<string, ChannelSubscription> = new Map();
+  private posts: Map<string, Map<string, ChannelPost>> = new Map();
+  private views: Map<string, Map<string, string>> = new Map(); // Токен -> peer ID посредника
+
+  async getSubscription(channelId: string): Promise<ChannelSubscription | null> {
+    return this.subscriptions.get(channelId) ?? null;
+  }
+
+  async getSubscriptions(): Promise<ChannelSubscription[]> {
+    return Array.from(this.subscriptions.values());
+  }
+
+  async storeSubscription(subscription: ChannelSubscription): Promise<void> {
+    this.subscriptions.set(subscription.descriptor.id, subscription);
+  }
+
+  async deleteSubscription(channelId: string): Promise<void> {
+    this.subscriptions.delete(channelId);
+    this.posts.delete(channelId);
+    for (const key of this.views.keys()) {
+      if (key.startsWith(`${channelId}\n`)) this.views.delete(key);
+    }
+  }
+
+  async getPosts(
+    channelId: string,
+    after: ChannelCursor | null,
+    limit: number
+  ): Promise<ChannelPost[]> {
+    return Array.from(this.posts.get(channelId)?.values() ?? [])
+      .filter(post => !after || this.compare(post, after) > 0)
+      .sort((a, b) => this.compare(a, b))
+      .slice(0, limit);
+  }
+
+  async hasPost(channelId: string, postId: string): Promise<boolean> {
+    return this.posts.get(channelId)?.has(postId) ?? false;
+  }
+
+  async storePost(post: ChannelPost): Promise<void> {
+    const posts = this.posts.get(post.channelId) ?? new Map<string, ChannelPost>();
+    posts.set(post.id, post);
+    this.posts.set(post.channelId, posts);
+  }
+
+  async addView(
+    channelId: string,
+    postId: string,
+    token: string,
+    relayId: string
+  ): Promise<number> {
+    const key = `${channelId}\n${postId}`;
+    const tokens = this.views.get(key) ?? new Map<string, string>();
+    if (!tokens.has(token)) tokens.set(token, relayId);
+    this.views.set(key, tokens);
+    return tokens.size;
+  }
+
+  async getViewCount(channelId: string, postId: string): Promise<number> {
+    return this.views.get(`${channelId}\n${postId}`)?.size ?? 0;
+  }
+
+  async getRelayedViewCount(channelId: string, postId: string, relayId: string): Promise<number> {
+    const tokens = this.views.get(`${channelId}\n${postId}`);
+    return Array.from(tokens?.values() ?? []).filter(relay => relay === relayId).length;
+  }
+
+  private compare(a: ChannelCursor, b: ChannelCursor): number {
+    const diff = a.timestamp.getTime() - b.timestamp.getTime();
+    if (diff !== 0) return diff;
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  }
+}
+
+// Хранилище поверх local-db: время поста открыто для выборки истории, подписки с ключами
+// каналов и сами посты шифруются ключом базы
+export class LocalDbChannelStore implements IChannelStore {
+  private db: DatabaseService;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+  }
+
+  async initialize(): Promise<void> {
+    await sodium.ready;
+    await this.db.migrate(CHANNEL_STORE_MIGRATIONS);
+  }
+
+  async getSubscription(channelId: string): Promise<ChannelSubscription | null> {
+    const row = this.db.get<{ record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT record, nonce FROM channel_subscriptions WHERE channel_id = ?',
+      [channelId]
+    );
+    return row
+      ? RecordCodec.decode<ChannelSubscription>(
+          this.db.getEncryptedStorage().open<unknown>(row.record, row.nonce)
+        )
+      : null;
+  }
+
+  async getSubscriptions(): Promise<ChannelSubscription[]> {
+    const rows = this.db.query<{ record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT record, nonce FROM channel_subscriptions'
+    );
+    return rows.map(row =>
+      RecordCodec.decode<ChannelSubscription>(
+        this.db.getEncryptedStorage().open<unknown>(row.record, row.nonce)
+      )
+    );
+  }
+
+  async storeSubscription(subscription: ChannelSubscription): Promise<void> {
+    const { value, nonce } = this.db.getEncryptedStorage().seal(RecordCodec.encode(subscription));
+
+    this.db.execute(
+      'INSERT OR REPLACE INTO channel_subscriptions (channel_id, record, nonce) VALUES (?, ?, ?)',
+      [subscription.descriptor.id, value, nonce]
+    );
+  }
+
+  async deleteSubscription(channelId: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db.execute('DELETE FROM channel_subscriptions WHERE channel_id = ?', [channelId]);
+      this.db.execute('DELETE FROM channel_posts WHERE channel_id = ?', [channelId]);
+      this.db.execute('DELETE FROM channel_views WHERE channel_id = ?', [channelId]);
+    });
+  }
+
+  async getPosts(
+    channelId: string,
+    after: ChannelCursor | null,
+    limit: number
+  ): Promise<ChannelPost[]> {
+    const timestamp = after?.timestamp.getTime() ?? -1;
+    const rows = this.db.query<{ record: Uint8Array; nonce: Uint8Array }>(
+      `SELECT record, nonce FROM channel_posts
+       WHERE channel_id = ? AND (timestamp > ? OR (timestamp = ? AND id > ?))
+       ORDER BY timestamp, id
+       LIMIT ?`,
+      [channelId, timestamp, timestamp, after?.id ?? '', limit]
+    );
+    return rows.map(row =>
+      RecordCodec.decode<ChannelPost>(
+        this.db.getEncryptedStorage().open<unknown>(row.record, row.nonce)
+      )
+    );
+  }
+
+  async hasPost(channelId: string, postId: string): Promise<boolean> {
+    return !!this.db.get('SELECT 1 FROM channel_posts WHERE channel_id = ? AND id = ?', [
+      channelId,
+      postId,
+    ]);
+  }
+
+  async storePost(post: ChannelPost): Promise<void> {
+    const { value, nonce } = this.db.getEncryptedStorage().seal(RecordCodec.encode(post));
+
+    this.db.execute(
+      `INSERT OR REPLACE INTO channel_posts (channel_id, id, timestamp, record, nonce)
+       VALUES (?, ?, ?, ?, ?)`,
+      [post.channelId, post.id, post.timestamp.getTime(), value, nonce]
+    );
+  }
+
+  async addView(
+    channelId: string,
+    postId: string,
+    token: string,
+    relayId: string
+  ): Promise<number> {
+    this.db.execute(
+      `INSERT OR IGNORE INTO channel_views (channel_id, post_id, token, relay_id)
+       VALUES (?, ?, ?, ?)`,
+      [channelId, postId, token, relayId]
+    );
+    return this.getViewCount(channelId, postId);
+  }
+
+  async getViewCount(channelId: string, postId: string): Promise<number> {
+    const row = this.db.get<{ count: number }>(
+      'SELECT COUNT(*) AS count FROM channel_views WHERE channel_id = ? AND post_id = ?',
+      [channelId, postId]
+    );
+    return row?.count ?? 0;
+  }
+
+  async getRelayedViewCount(channelId: string, postId: string, relayId: string): Promise<number> {
+    const row = this.db.get<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM channel_views
+       WHERE channel_id = ? AND post_id = ? AND relay_id = ?`,
+      [channelId, postId, relayId]
+    );
+    return row?.count ?? 0;
+  }
+}
@@ -0,0 +1,331 @@
+import sodium from 'libsodium-wrappers';
+import type { DatabaseService, Migration } from '@messa/local-db';
+import type { IMailboxStore, IOutboxStore, MailboxEntry, OutboxEntry } from '../types';
+
+// Версии 400-499 зарезервированы за очередью отправки и почтовыми ящиками
+export const DELIVERY_STORE_MIGRATIONS: Migration[] = [
+  {
+    version: 400,
+    up: `
+      CREATE TABLE IF NOT EXISTS outbox (
+        id TEXT PRIMARY KEY,
+        next_attempt_at INTEGER NOT NULL,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_outbox_next_attempt_at ON outbox (next_attempt_at);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_outbox_next_attempt_at;
+      DROP TABLE IF EXISTS outbox;
+    `,
+  },
+  {
+    version: 401,
+    up: `
+      CREATE TABLE IF NOT EXISTS mailbox_envelopes (
+        address TEXT NOT NULL,
+        id TEXT NOT NULL,
+        envelope BLOB NOT NULL,
+        size INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (address, id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_mailbox_envelopes_expires_at
+        ON mailbox_envelopes (expires_at);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_mailbox_envelopes_expires_at;
+      DROP TABLE IF EXISTS mailbox_envelopes;
+    `,
+  },
+  {
+    version: 402,
+    up: `
+      CREATE TABLE IF NOT EXISTS received_envelopes (
+        id TEXT PRIMARY KEY,
+        expires_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_received_envelopes_expires_at
+        ON received_envelopes (expires_at);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_received_envelopes_expires_at;
+      DROP TABLE IF EXISTS received_envelopes;
+    `,
+  },
+];
+
+// Хранилища по умолчанию: очередь и чужие конверты живут только до перезапуска
+export class InMemoryOutboxStore implements IOutboxStore {
+  private entries: Map<string, OutboxEntry> = new Map();
+  private received: Map<string, Date> = new Map();
+
+  async getDueEntries(now: Date): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.nextAttemptAt.getTime() <= now.getTime())
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime());
+  }
+
+  async getNextAttempt(): Promise<Date | null> {
+    let next: Date | null = null;
+    for (const { nextAttemptAt } of this.entries.values()) {
+      if (!next || nextAttemptAt.getTime() < next.getTime()) {
+        next = nextAttemptAt;
+      }
+    }
+    return next;
+  }
+
+  async storeEntry(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async deleteEntries(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.entries.delete(id);
+    }
+  }
+
+  async hasReceived(envelopeId: string): Promise<boolean> {
+    return this.received.has(envelopeId);
+  }
+
+  async storeReceived(envelopeId: string, expiresAt: Date): Promise<void> {
+    this.received.set(envelopeId, expiresAt);
+  }
+
+  async deleteExpiredReceived(now: Date): Promise<void> {
+    for (const [envelopeId, expiresAt] of this.received) {
+      if (expiresAt.getTime() <= now.getTime()) this.received.delete(envelopeId);
+    }
+  }
+}
+
+export class InMemoryMailboxStore implements IMailboxStore {
+  private entries: Map<string, Map<string, MailboxEntry>> = new Map();
+
+  async getEntries(address: string, limit: number): Promise<MailboxEntry[]> {
+    return Array.from(this.entries.get(address)?.values() ?? []).slice(0, limit);
+  }
+
+  async getUsage(address: string): Promise<{ count: number; size: number }> {
+    const entries = Array.from(this.entries.get(address)?.values() ?? []);
+    return {
+      count: entries.length,
+      size: entries.reduce((acc, entry) => acc + entry.envelope.length, 0),
+    };
+  }
+
+  async getTotalSize(): Promise<number> {
+    let size = 0;
+    for (const entries of this.entries.values()) {
+      for (const entry of entries.values()) {
+        size += entry.envelope.length;
+      }
+    }
+    return size;
+  }
+
+  async storeEntry(entry: MailboxEntry): Promise<void> {
+    const entries = this.entries.get(entry.address) ?? new Map<string, MailboxEntry>();
+    if (entries.has(entry.id)) return;
+    entries.set(entry.id, entry);
+    this.entries.set(entry.address, entries);
+  }
+
+  async deleteEntries(address: string, ids: string[]): Promise<void> {
+    const entries = this.entries.get(address);
+    if (!entries) return;
+
+    for (const id of ids) {
+      entries.delete(id);
+    }
+    if (entries.size === 0) this.entries.delete(address);
+  }
+
+  async deleteExpired(now: Date): Promise<void> {
+    for (const [address, entries] of this.entries) {
+      const expired = Array.from(entries.values())
+        .filter(entry => entry.expiresAt.getTime() <= now.getTime())
+        .map(entry => entry.id);
+      await this.deleteEntries(address, expired);
+    }
+  }
+}
+
+// Зашифрованная запись очереди: бинарные поля в hex, даты в ISO
+interface SerializedOutboxEntry extends Omit<
+  OutboxEntry,
+  'envelope' | 'nextAttemptAt' | 'expiresAt'
+> {
+  envelope: string;
+  nextAttemptAt: string;
+  expiresAt: string;
+}
+
+// Очередь поверх local-db: время попытки открыто для выборки, получатель и конверт шифруются ключом базы
+export class LocalDbOutboxStore implements IOutboxStore {
+  private db: DatabaseService;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+  }
+
+  async initialize(): Promise<void> {
+    await sodium.ready;
+    await this.db.migrate(DELIVERY_STORE_MIGRATIONS);
+  }
+
+  async getDueEntries(now: Date): Promise<OutboxEntry[]> {
+    const rows = this.db.query<{ record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT record, nonce FROM outbox WHERE next_attempt_at <= ? ORDER BY next_attempt_at',
+      [now.getTime()]
+    );
+    return rows.map(row =>
+      this.deserialize(
+        this.db.getEncryptedStorage().open<SerializedOutboxEntry>(row.record, row.nonce)
+      )
+    );
+  }
+
+  async getNextAttempt(): Promise<Date | null> {
+    const row = this.db.get<{ nextAttemptAt: number | null }>(
+      'SELECT MIN(next_attempt_at) AS nextAttemptAt FROM outbox'
+    );
+    return row?.nextAttemptAt ? new Date(row.nextAttemptAt) : null;
+  }
+
+  async storeEntry(entry: OutboxEntry): Promise<void> {
+    const { value, nonce } = this.db.getEncryptedStorage().seal(this.serialize(entry));
+
+    this.db.execute(
+      'INSERT OR REPLACE INTO outbox (id, next_attempt_at, record, nonce) VALUES (?, ?, ?, ?)',
+      [entry.id, entry.nextAttemptAt.getTime(), value, nonce]
+    );
+  }
+
+  async deleteEntries(ids: string[]): Promise<void> {
+    this.db.transaction(() => {
+      for (const id of ids) {
+        this.db.execute('DELETE FROM outbox WHERE id = ?', [id]);
+      }
+    });
+  }
+
+  // id конвертов случайны и ничего не говорят об отправителе, поэтому хранятся открыто
+  async hasReceived(envelopeId: string): Promise<boolean> {
+    return (
+      this.db.get<{ id: string }>('SELECT id FROM received_envelopes WHERE id = ?', [
+        envelopeId,
+      ]) !== undefined
+    );
+  }
+
+  async storeReceived(envelopeId: string, expiresAt: Date): Promise<void> {
+    this.db.execute('INSERT OR REPLACE INTO received_envelopes (id, expires_at) VALUES (?, ?)', [
+      envelopeId,
+      expiresAt.getTime(),
+    ]);
+  }
+
+  async deleteExpiredReceived(now: Date): Promise<void> {
+    this.db.execute('DELETE FROM received_envelopes WHERE expires_at <= ?', [now.getTime()]);
+  }
+
+  // Сериализация: бинарные поля в hex
+
+  private serialize(entry: OutboxEntry): SerializedOutboxEntry {
+    return {
+      ...entry,
+      envelope: sodium.to_hex(entry.envelope),
+      nextAttemptAt: entry.nextAttemptAt.toISOString(),
+      expiresAt: entry.expiresAt.toISOString(),
+    };
+  }
+
+  private deserialize(data: SerializedOutboxEntry): OutboxEntry {
+    return {
+      ...data,
+      envelope: sodium.from_hex(data.envelope),
+      nextAttemptAt: new Date(data.nextAttemptAt),
+      expiresAt: new Date(data.expiresAt),
+    };
+  }
+}
+
+// Чужие конверты зашифрованы для получателя, поэтому хранятся без дополнительного шифрования
+export class LocalDbMailboxStore implements IMailboxStore {
+  private db: DatabaseService;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.migrate(DELIVERY_STORE_MIGRATIONS);
+  }
+
+  async getEntries(address: string, limit: number): Promise<MailboxEntry[]> {
+    const rows = this.db.query<{ id: string; envelope: Uint8Array; expiresAt: number }>(
+      `SELECT id, envelope, expires_at AS expiresAt FROM mailbox_envelopes
+       WHERE address = ? ORDER BY created_at LIMIT ?`,
+      [address, limit]
+    );
+    return rows.map(row => ({
+      id: row.id,
+      address,
+      envelope: new Uint8Array(row.envelope),
+      expiresAt: new Date(row.expiresAt),
+    }));
+  }
+
+  async getUsage(address: string): Promise<{ count: number; size: number }> {
+    const row = this.db.get<{ count: number; size: number | null }>(
+      'SELECT COUNT(*) AS count, SUM(size) AS size FROM mailbox_envelopes WHERE address = ?',
+      [address]
+    );
+    return { count: row?.count ?? 0, size: row?.size ?? 0 };
+  }
+
+  async getTotalSize(): Promise<number> {
+    const row = this.db.get<{ size: number | null }>(
+      'SELECT SUM(size) AS size FROM mailbox_envelopes'
+    );
+    return row?.size ?? 0;
+  }
+
+  async storeEntry(entry: MailboxEntry): Promise<void> {
+    this.db.execute(
+      `INSERT OR IGNORE INTO mailbox_envelopes (address, id, envelope, size, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        entry.address,
+        entry.id,
+        entry.envelope,
+        entry.envelope.length,
+        entry.expiresAt.getTime(),
+        Date.now(),
+      ]
+    );
+  }
+
+  async deleteEntries(address: string, ids: string[]): Promise<void> {
+    this.db.transaction(() => {
+      for (const id of ids) {
+        this.db.execute('DELETE FROM mailbox_envelopes WHERE address = ? AND id = ?', [
+          address,
+          id,
+        ]);
+      }
+    });
+  }
+
+  async deleteExpired(now: Date): Promise<void> {
+    this.db.execute('DELETE FROM mailbox_envelopes WHERE expires_at <= ?', [now.getTime()]);
+  }
+}
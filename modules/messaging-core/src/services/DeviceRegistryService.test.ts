@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import type { DHTRecord, IDHTService, PeerInfo } from '@messa/p2p-network';
+import { DeviceRegistryService } from './DeviceRegistryService';
+import { InMemorySessionStore } from './SessionStore';
+import { SignalProtocolService } from './SignalProtocolService';
+import type { ISessionStore } from '../types';
+
+// Общая DHT всех участников теста: только записи, без поиска пиров
+class MemoryDHT implements IDHTService {
+  records: Map<string, Uint8Array> = new Map();
+
+  async put(key: string, value: Uint8Array): Promise<void> {
+    this.records.set(key, value.slice());
+  }
+
+  async get(key: string): Promise<DHTRecord | null> {
+    const value = this.records.get(key);
+    if (!value) return null;
+    return { key, value, timestamp: new Date(), signature: new Uint8Array(0), author: '' };
+  }
+
+  async findPeer(): Promise<PeerInfo | null> {
+    return null;
+  }
+
+  async provide(): Promise<void> {}
+
+  async findProviders(): Promise<PeerInfo[]> {
+    return [];
+  }
+
+  async findClosestPeers(): Promise<PeerInfo[]> {
+    return [];
+  }
+}
+
+async function createRegistry(
+  userId: string,
+  dht: IDHTService,
+  store: ISessionStore = new InMemorySessionStore()
+): Promise<DeviceRegistryService> {
+  const signal = new SignalProtocolService(store);
+  await signal.initialize();
+  const registry = new DeviceRegistryService(userId, signal, dht, store);
+  await registry.initialize();
+  return registry;
+}
+
+describe('DeviceRegistryService', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  it('does not reuse the id of a removed device', async () => {
+    const dht = new MemoryDHT();
+    const primary = await createRegistry('alice', dht);
+    await primary.publishDevice('phone');
+
+    const laptop = await createRegistry('alice', dht);
+    const request = await laptop.createLinkRequest('laptop');
+    expect(await primary.approveLinkRequest(request)).toBe(2);
+    await laptop.completeLink(request.linkId);
+
+    // Удалённое устройство было последним, его id всё равно не выдаётся
+    await primary.removeDevice(2);
+    const tablet = await createRegistry('alice', dht);
+    expect(await primary.approveLinkRequest(await tablet.createLinkRequest('tablet'))).toBe(3);
+
+    const list = await primary.getDevices('alice');
+    expect(list?.devices.map(device => device.deviceId)).toEqual([1, 3]);
+    expect(list?.nextDeviceId).toBe(4);
+  });
+
+  it('detects a device list rollback after a restart', async () => {
+    const dht = new MemoryDHT();
+    const alice = await createRegistry('alice', dht);
+    await alice.publishDevice('phone', 'peer-1');
+    const stale = dht.records.get('devices:alice')!;
+    await alice.publishDevice('phone', 'peer-2');
+
+    const bobStore = new InMemorySessionStore();
+    const bob = await createRegistry('bob', dht, bobStore);
+    expect((await bob.getDevices('alice'))?.version).toBe(2);
+
+    // После перезапуска версия берётся из хранилища
+    dht.records.set('devices:alice', stale);
+    const restarted = await createRegistry('bob', dht, bobStore);
+    await expect(restarted.getDevices('alice')).rejects.toThrow('Device list version rollback');
+  });
+});
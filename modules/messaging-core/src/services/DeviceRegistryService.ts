@@ -0,0 +1,400 @@
+import sodium from 'libsodium-wrappers';
+import { v4 as uuidv4 } from 'uuid';
+import type { IDHTService } from '@messa/p2p-network';
+import type { SignalProtocolService } from './SignalProtocolService';
+import { InMemorySessionStore } from './SessionStore';
+import type {
+  DeviceInfo,
+  DeviceList,
+  DeviceLinkRequest,
+  DeviceProvisioning,
+  ISessionStore,
+  PreKeyBundle,
+} from '../types';
+
+// Записи в DHT: бинарные поля в hex, даты в ISO
+interface SerializedDevice {
+  deviceId: number;
+  name: string;
+  addedAt: string;
+  linkedBy?: number;
+  peerId?: string;
+}
+
+interface SerializedDeviceList {
+  userId: string;
+  identityKey: string;
+  version: number;
+  devices: SerializedDevice[];
+  nextDeviceId: number;
+  signature: string;
+}
+
+interface SerializedBundle {
+  identityKey: string;
+  registrationId: number;
+  deviceId: number;
+  signedPreKeyId: number;
+  signedPreKey: string;
+  signedPreKeySignature: string;
+  kyberPreKeyId?: number;
+  kyberPreKey?: string;
+  kyberPreKeySignature?: string;
+}
+
+interface SerializedProvisioning {
+  userId: string;
+  deviceId: number;
+  identityKeyPair: { publicKey: string; privateKey: string };
+}
+
+// Реестр устройств пользователя в DHT:
+//   devices:<userId>            - список устройств, подписанный identity key аккаунта
+//   prekeys:<userId>:<deviceId> - бандл pre-keys устройства (без one-time ключей)
+//   device-link:<linkId>        - запечатанные данные для привязки нового устройства
+export class DeviceRegistryService {
+  private userId: string;
+  private signal: SignalProtocolService;
+  private dht: IDHTService;
+  private store: ISessionStore;
+  private knownVersions: Map<string, number> = new Map(); // Защита от отката списка
+  private pendingLinks: Map<string, { request: DeviceLinkRequest; privateKey: Uint8Array }> =
+    new Map();
+
+  constructor(
+    userId: string,
+    signal: SignalProtocolService,
+    dht: IDHTService,
+    store: ISessionStore = new InMemorySessionStore()
+  ) {
+    this.userId = userId;
+    this.signal = signal;
+    this.dht = dht;
+    this.store = store;
+  }
+
+  async initialize(): Promise<void> {
+    this.knownVersions = await this.store.loadDeviceListVersions();
+  }
+
+  // Регистрация текущего устройства в списке и публикация его pre-key бандла. Peer ID меняется
+  // при каждом запуске P2P-узла, поэтому список переподписывается при его смене
+  async publishDevice(name: string, peerId?: string): Promise<void> {
+    await sodium.ready;
+
+    const deviceId = this.signal.getDeviceId();
+    const current = await this.getDevices(this.userId);
+    const devices = current?.devices ?? [];
+    const existing = devices.find(device => device.deviceId === deviceId);
+
+    if (!existing) {
+      devices.push({ deviceId, name, addedAt: new Date(), peerId });
+      await this.publishDeviceList(devices, current);
+    } else if (peerId && existing.peerId !== peerId) {
+      existing.peerId = peerId;
+      await this.publishDeviceList(devices, current);
+    }
+
+    await this.publishPreKeyBundle();
+  }
+
+  async publishPreKeyBundle(): Promise<void> {
+    const bundle = await this.signal.generatePreKeyBundle(false);
+    await this.dht.put(
+      `prekeys:${this.userId}:${bundle.deviceId}`,
+      this.encode(this.serializeBundle(bundle))
+    );
+  }
+
+  async getDevices(userId: string): Promise<DeviceList | null> {
+    await sodium.ready;
+
+    const record = await this.dht.get(`devices:${userId}`);
+    if (!record) return null;
+
+    const data = this.decode<SerializedDeviceList>(record.value);
+    const list: DeviceList = {
+      userId: data.userId,
+      identityKey: sodium.from_hex(data.identityKey),
+      version: data.version,
+      devices: data.devices.map(device => ({
+        ...device,
+        addedAt: new Date(device.addedAt),
+      })),
+      nextDeviceId: data.nextDeviceId,
+      signature: sodium.from_hex(data.signature),
+    };
+
+    if (list.userId !== userId) {
+      throw new Error('Device list belongs to another user');
+    }
+    if (
+      !sodium.crypto_sign_verify_detached(
+        list.signature,
+        this.signedPayload(list),
+        list.identityKey
+      )
+    ) {
+      throw new Error('Invalid device list signature');
+    }
+
+    // Свой список подписан нашим же ключом; ключ собеседника закрепляется в SignalProtocolService,
+    // и его смена блокирует отправку до подтверждения пользователем
+    let identityChanged = false;
+    if (userId === this.userId) {
+      if (sodium.compare(this.signal.getIdentityKey(), list.identityKey) !== 0) {
+        throw new Error('Device list identity key mismatch');
+      }
+    } else {
+      identityChanged = await this.signal.saveIdentity(userId, list.identityKey);
+    }
+
+    if (!identityChanged && list.version < (this.knownVersions.get(userId) ?? 0)) {
+      throw new Error('Device list version rollback');
+    }
+
+    await this.rememberVersion(userId, list.version);
+    return list;
+  }
+
+  async getPreKeyBundle(userId: string, deviceId: number): Promise<PreKeyBundle> {
+    await sodium.ready;
+
+    const list = await this.getDevices(userId);
+    if (!list || !list.devices.some(device => device.deviceId === deviceId)) {
+      throw new Error('Unknown device');
+    }
+
+    const record = await this.dht.get(`prekeys:${userId}:${deviceId}`);
+    if (!record) {
+      throw new Error('Pre-key bundle not found');
+    }
+
+    // Подписи pre-keys проверяются при X3DH, здесь - принадлежность аккаунту
+    const bundle = this.deserializeBundle(this.decode<SerializedBundle>(record.value));
+    if (
+      bundle.deviceId !== deviceId ||
+      sodium.compare(bundle.identityKey, list.identityKey) !== 0
+    ) {
+      throw new Error('Pre-key bundle does not match device list');
+    }
+    return bundle;
+  }
+
+  async removeDevice(deviceId: number): Promise<void> {
+    const current = await this.getDevices(this.userId);
+    if (!current) return;
+
+    await this.publishDeviceList(
+      current.devices.filter(device => device.deviceId !== deviceId),
+      current
+    );
+  }
+
+  // Привязка устройства, шаг 1 (новое устройство): запрос передаётся через QR-код
+  async createLinkRequest(deviceName: string): Promise<DeviceLinkRequest> {
+    await sodium.ready;
+
+    const keyPair = sodium.crypto_box_keypair();
+    const request: DeviceLinkRequest = {
+      linkId: uuidv4(),
+      deviceName,
+      publicKey: keyPair.publicKey,
+      createdAt: new Date(),
+    };
+
+    this.pendingLinks.set(request.linkId, { request, privateKey: keyPair.privateKey });
+    return request;
+  }
+
+  // Шаг 2 (привязанное устройство): выделение deviceId и передача identity key
+  async approveLinkRequest(request: DeviceLinkRequest): Promise<number> {
+    await sodium.ready;
+
+    const current = await this.getDevices(this.userId);
+    if (
+      !current ||
+      !current.devices.some(device => device.deviceId === this.signal.getDeviceId())
+    ) {
+      throw new Error('Current device is not registered');
+    }
+
+    const devices = current.devices;
+    const deviceId = current.nextDeviceId;
+
+    devices.push({
+      deviceId,
+      name: request.deviceName,
+      addedAt: new Date(),
+      linkedBy: this.signal.getDeviceId(),
+    });
+    await this.publishDeviceList(devices, current);
+
+    const identityKeyPair = this.signal.exportIdentityKeyPair();
+    const provisioning = this.encode<SerializedProvisioning>({
+      userId: this.userId,
+      deviceId,
+      identityKeyPair: {
+        publicKey: sodium.to_hex(identityKeyPair.publicKey),
+        privateKey: sodium.to_hex(identityKeyPair.privateKey),
+      },
+    });
+
+    await this.dht.put(
+      `device-link:${request.linkId}`,
+      sodium.crypto_box_seal(provisioning, request.publicKey)
+    );
+
+    sodium.memzero(identityKeyPair.privateKey);
+    sodium.memzero(provisioning);
+    return deviceId;
+  }
+
+  // Шаг 3 (новое устройство): получение identity key и публикация своего бандла
+  async completeLink(linkId: string): Promise<DeviceProvisioning> {
+    await sodium.ready;
+
+    const pending = this.pendingLinks.get(linkId);
+    if (!pending) {
+      throw new Error('Unknown link request');
+    }
+
+    const record = await this.dht.get(`device-link:${linkId}`);
+    if (!record) {
+      throw new Error('Link request not approved yet');
+    }
+
+    let data: SerializedProvisioning;
+    try {
+      data = this.decode<SerializedProvisioning>(
+        sodium.crypto_box_seal_open(record.value, pending.request.publicKey, pending.privateKey)
+      );
+    } catch {
+      throw new Error('Invalid provisioning message');
+    }
+
+    if (data.userId !== this.userId) {
+      throw new Error('Provisioning message belongs to another user');
+    }
+
+    const provisioning: DeviceProvisioning = {
+      userId: data.userId,
+      deviceId: data.deviceId,
+      identityKeyPair: {
+        publicKey: sodium.from_hex(data.identityKeyPair.publicKey),
+        privateKey: sodium.from_hex(data.identityKeyPair.privateKey),
+      },
+    };
+
+    // Список должен быть подписан тем же ключом и уже содержать новое устройство
+    await this.signal.linkIdentity(provisioning.identityKeyPair, provisioning.deviceId);
+    const list = await this.getDevices(this.userId);
+    if (!list || !list.devices.some(device => device.deviceId === provisioning.deviceId)) {
+      throw new Error('Linked device missing from device list');
+    }
+
+    sodium.memzero(pending.privateKey);
+    this.pendingLinks.delete(linkId);
+
+    await this.publishPreKeyBundle();
+    return provisioning;
+  }
+
+  // Вспомогательные методы
+
+  private async publishDeviceList(
+    devices: DeviceInfo[],
+    previous: DeviceList | null
+  ): Promise<void> {
+    const unsigned = {
+      userId: this.userId,
+      identityKey: this.signal.getIdentityKey(),
+      version: (previous?.version ?? 0) + 1,
+      devices,
+      nextDeviceId: Math.max(
+        previous?.nextDeviceId ?? 1,
+        ...devices.map(device => device.deviceId + 1)
+      ),
+    };
+    const signature = this.signal.signWithIdentityKey(this.signedPayload(unsigned));
+
+    await this.dht.put(
+      `devices:${this.userId}`,
+      this.encode<SerializedDeviceList>({
+        userId: unsigned.userId,
+        identityKey: sodium.to_hex(unsigned.identityKey),
+        version: unsigned.version,
+        devices: devices.map(device => ({ ...device, addedAt: device.addedAt.toISOString() })),
+        nextDeviceId: unsigned.nextDeviceId,
+        signature: sodium.to_hex(signature),
+      })
+    );
+    await this.rememberVersion(this.userId, unsigned.version);
+  }
+
+  private async rememberVersion(userId: string, version: number): Promise<void> {
+    if (this.knownVersions.get(userId) === version) return;
+    this.knownVersions.set(userId, version);
+    await this.store.storeDeviceListVersion(userId, version);
+  }
+
+  private signedPayload(list: Omit<DeviceList, 'signature'>): Uint8Array {
+    return new TextEncoder().encode(
+      JSON.stringify({
+        userId: list.userId,
+        identityKey: sodium.to_hex(list.identityKey),
+        version: list.version,
+        devices: list.devices
+          .map(device => ({
+            deviceId: device.deviceId,
+            name: device.name,
+            addedAt: device.addedAt.toISOString(),
+            linkedBy: device.linkedBy,
+            peerId: device.peerId,
+          }))
+          .sort((a, b) => a.deviceId - b.deviceId),
+        nextDeviceId: list.nextDeviceId,
+      })
+    );
+  }
+
+  private serializeBundle(bundle: PreKeyBundle): SerializedBundle {
+    return {
+      identityKey: sodium.to_hex(bundle.identityKey),
+      registrationId: bundle.registrationId,
+      deviceId: bundle.deviceId,
+      signedPreKeyId: bundle.signedPreKeyId,
+      signedPreKey: sodium.to_hex(bundle.signedPreKey),
+      signedPreKeySignature: sodium.to_hex(bundle.signedPreKeySignature),
+      kyberPreKeyId: bundle.kyberPreKeyId,
+      kyberPreKey: bundle.kyberPreKey ? sodium.to_hex(bundle.kyberPreKey) : undefined,
+      kyberPreKeySignature: bundle.kyberPreKeySignature
+        ? sodium.to_hex(bundle.kyberPreKeySignature)
+        : undefined,
+    };
+  }
+
+  private deserializeBundle(data: SerializedBundle): PreKeyBundle {
+    return {
+      identityKey: sodium.from_hex(data.identityKey),
+      registrationId: data.registrationId,
+      deviceId: data.deviceId,
+      signedPreKeyId: data.signedPreKeyId,
+      signedPreKey: sodium.from_hex(data.signedPreKey),
+      signedPreKeySignature: sodium.from_hex(data.signedPreKeySignature),
+      kyberPreKeyId: data.kyberPreKeyId,
+      kyberPreKey: data.kyberPreKey ? sodium.from_hex(data.kyberPreKey) : undefined,
+      kyberPreKeySignature: data.kyberPreKeySignature
+        ? sodium.from_hex(data.kyberPreKeySignature)
+        : undefined,
+    };
+  }
+
+  private encode<T>(value: T): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify(value));
+  }
+
+  private decode<T>(bytes: Uint8Array): T {
+    return JSON.parse(new TextDecoder().decode(bytes)) as T;
+  }
+}
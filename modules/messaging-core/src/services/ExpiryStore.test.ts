@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import { DatabaseService } from '@messa/local-db';
+import { LocalDbExpiryStore } from './ExpiryStore';
+import type { MessageExpiration } from '../types';
+
+describe('LocalDbExpiryStore', () => {
+  let db: DatabaseService;
+  let store: LocalDbExpiryStore;
+
+  beforeEach(async () => {
+    await sodium.ready;
+    db = new DatabaseService();
+    await db.initialize({ inMemory: true, encryptionKey: sodium.randombytes_buf(32) });
+    store = new LocalDbExpiryStore(db);
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('restores the binary fields of a voice message attachment', async () => {
+    const expiration: MessageExpiration = {
+      messageId: 'm1',
+      conversationId: 'c1',
+      timeout: 60000,
+      expiresAt: new Date(1000),
+      attachment: {
+        id: 'manifest',
+        key: sodium.randombytes_buf(32),
+        digest: sodium.randombytes_buf(32),
+        size: 2048,
+        mimeType: 'audio/ogg',
+        duration: 3000,
+        waveform: new Uint8Array([0, 64, 255, 128]),
+        codec: 'opus',
+      },
+    };
+    await store.storeExpiration(expiration);
+
+    expect(await store.getExpiration('m1')).toEqual(expiration);
+    expect(await store.getDueExpirations(new Date(2000))).toEqual([expiration]);
+  });
+});
@@ -0,0 +1,184 @@
+import sodium from 'libsodium-wrappers';
+import type { DatabaseService, Migration } from '@messa/local-db';
+import type { Attachment, IExpiryStore, MessageExpiration } from '../types';
+
+// Версии 300-399 зарезервированы за сроками исчезающих сообщений
+export const EXPIRY_STORE_MIGRATIONS: Migration[] = [
+  {
+    version: 300,
+    up: `
+      CREATE TABLE IF NOT EXISTS message_expirations (
+        message_id TEXT PRIMARY KEY,
+        expires_at INTEGER,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_message_expirations_expires_at
+        ON message_expirations (expires_at);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_message_expirations_expires_at;
+      DROP TABLE IF EXISTS message_expirations;
+    `,
+  },
+];
+
+// Хранилище по умолчанию: сроки живут только до перезапуска
+export class InMemoryExpiryStore implements IExpiryStore {
+  private expirations: Map<string, MessageExpiration> = new Map();
+
+  async getExpiration(messageId: string): Promise<MessageExpiration | null> {
+    return this.expirations.get(messageId) ?? null;
+  }
+
+  async getDueExpirations(now: Date): Promise<MessageExpiration[]> {
+    return Array.from(this.expirations.values()).filter(
+      expiration => expiration.expiresAt && expiration.expiresAt.getTime() <= now.getTime()
+    );
+  }
+
+  async getNextExpiry(): Promise<Date | null> {
+    let next: Date | null = null;
+    for (const { expiresAt } of this.expirations.values()) {
+      if (expiresAt && (!next || expiresAt.getTime() < next.getTime())) {
+        next = expiresAt;
+      }
+    }
+    return next;
+  }
+
+  async storeExpiration(expiration: MessageExpiration): Promise<void> {
+    this.expirations.set(expiration.messageId, expiration);
+  }
+
+  async deleteExpirations(messageIds: string[]): Promise<void> {
+    for (const messageId of messageIds) {
+      this.expirations.delete(messageId);
+    }
+  }
+}
+
+// Зашифрованная часть записи: бинарные поля в hex, даты в ISO
+interface SerializedAttachment extends Omit<
+  Attachment,
+  'key' | 'digest' | 'thumbnail' | 'waveform'
+> {
+  key: string;
+  digest: string;
+  thumbnail?: string;
+  waveform?: string;
+}
+
+interface SerializedExpiration {
+  messageId: string;
+  conversationId: string;
+  timeout: number;
+  expiresAt?: string;
+  attachment?: SerializedAttachment;
+}
+
+// Хранилище поверх local-db: срок открыт для выборки, остальное шифруется ключом базы
+export class LocalDbExpiryStore implements IExpiryStore {
+  private db: DatabaseService;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+  }
+
+  async initialize(): Promise<void> {
+    await sodium.ready;
+    await this.db.migrate(EXPIRY_STORE_MIGRATIONS);
+  }
+
+  async getExpiration(messageId: string): Promise<MessageExpiration | null> {
+    const row = this.db.get<{ record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT record, nonce FROM message_expirations WHERE message_id = ?',
+      [messageId]
+    );
+    return row
+      ? this.deserialize(
+          this.db.getEncryptedStorage().open<SerializedExpiration>(row.record, row.nonce)
+        )
+      : null;
+  }
+
+  async getDueExpirations(now: Date): Promise<MessageExpiration[]> {
+    const rows = this.db.query<{ record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT record, nonce FROM message_expirations WHERE expires_at <= ? ORDER BY expires_at',
+      [now.getTime()]
+    );
+    return rows.map(row =>
+      this.deserialize(
+        this.db.getEncryptedStorage().open<SerializedExpiration>(row.record, row.nonce)
+      )
+    );
+  }
+
+  async getNextExpiry(): Promise<Date | null> {
+    const row = this.db.get<{ expiresAt: number | null }>(
+      'SELECT MIN(expires_at) AS expiresAt FROM message_expirations'
+    );
+    return row?.expiresAt ? new Date(row.expiresAt) : null;
+  }
+
+  async storeExpiration(expiration: MessageExpiration): Promise<void> {
+    const { value, nonce } = this.db.getEncryptedStorage().seal(this.serialize(expiration));
+
+    this.db.execute(
+      `INSERT OR REPLACE INTO message_expirations (message_id, expires_at, record, nonce)
+       VALUES (?, ?, ?, ?)`,
+      [expiration.messageId, expiration.expiresAt?.getTime() ?? null, value, nonce]
+    );
+  }
+
+  async deleteExpirations(messageIds: string[]): Promise<void> {
+    this.db.transaction(() => {
+      for (const messageId of messageIds) {
+        this.db.execute('DELETE FROM message_expirations WHERE message_id = ?', [messageId]);
+      }
+    });
+  }
+
+  // Сериализация: бинарные поля в hex
+
+  private serialize(expiration: MessageExpiration): SerializedExpiration {
+    return {
+      messageId: expiration.messageId,
+      conversationId: expiration.conversationId,
+      timeout: expiration.timeout,
+      expiresAt: expiration.expiresAt?.toISOString(),
+      attachment: expiration.attachment && this.serializeAttachment(expiration.attachment),
+    };
+  }
+
+  private deserialize(data: SerializedExpiration): MessageExpiration {
+    return {
+      messageId: data.messageId,
+      conversationId: data.conversationId,
+      timeout: data.timeout,
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+      attachment: data.attachment && this.deserializeAttachment(data.attachment),
+    };
+  }
+
+  private serializeAttachment(attachment: Attachment): SerializedAttachment {
+    return {
+      ...attachment,
+      key: sodium.to_hex(attachment.key),
+      digest: sodium.to_hex(attachment.digest),
+      thumbnail: attachment.thumbnail ? sodium.to_hex(attachment.thumbnail) : undefined,
+      waveform: attachment.waveform ? sodium.to_hex(attachment.waveform) : undefined,
+    };
+  }
+
+  private deserializeAttachment(data: SerializedAttachment): Attachment {
+    return {
+      ...data,
+      key: sodium.from_hex(data.key),
+      digest: sodium.from_hex(data.digest),
+      thumbnail: data.thumbnail ? sodium.from_hex(data.thumbnail) : undefined,
+      waveform: data.waveform ? sodium.from_hex(data.waveform) : undefined,
+    };
+  }
+}
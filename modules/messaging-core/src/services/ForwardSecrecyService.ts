@@ -1,14 +1,17 @@
 import sodium from 'libsodium-wrappers';
 import { QuantumResistantCrypto } from '@messa/crypto-layer';
-import type { IForwardSecrecyService, Session, ChainKey } from '../types';
+import { InMemorySessionStore } from './SessionStore';
+import type { IForwardSecrecyService, ISessionStore, Session, ChainKey } from '../types';
 
 export class ForwardSecrecyService implements IForwardSecrecyService {
   private sessions: Map<string, Session> = new Map();
   private qrc: QuantumResistantCrypto;
+  private store: ISessionStore;
   private rotationInterval: number = 100; // Ротация после 100 сообщений
 
-  constructor() {
+  constructor(store: ISessionStore = new InMemorySessionStore()) {
     this.qrc = new QuantumResistantCrypto();
+    this.store = store;
   }
 
   async initialize(): Promise<void> {
@@ -17,7 +20,7 @@ export class ForwardSecrecyService implements IForwardSecrecyService {
   }
 
   async rotateKeys(sessionId: string): Promise<void> {
-    const session = this.sessions.get(sessionId);
+    const session = await this.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
     }
@@ -43,10 +46,12 @@ export class ForwardSecrecyService implements IForwardSecrecyService {
 
     // Очистка старых ключей
     this.cleanupOldKeys(session);
+
+    await this.store.storeSession(sessionId, session);
   }
 
   async deleteOldMessageKeys(sessionId: string, beforeIndex: number): Promise<void> {
-    const session = this.sessions.get(sessionId);
+    const session = await this.getSession(sessionId);
     if (!session) return;
 
     // Удаление ключей сообщений до указанного индекса
@@ -66,6 +71,8 @@ export class ForwardSecrecyService implements IForwardSecrecyService {
         }
       }
     }
+
+    await this.store.storeSession(sessionId, session);
   }
 
   async establishRatchet(sessionId: string, theirPublicKey: Uint8Array): Promise<void> {
@@ -87,6 +94,8 @@ export class ForwardSecrecyService implements IForwardSecrecyService {
       sessionId,
       remoteIdentityKey: theirPublicKey,
       rootKey,
+      ratchetKeyPair: ourKeyPair,
+      remoteRatchetKey: theirPublicKey,
       sendingChain: {
         key: sendingChain,
         index: 0,
@@ -97,18 +106,20 @@ export class ForwardSecrecyService implements IForwardSecrecyService {
       remoteRegistrationId: 0,
     };
 
+    await this.store.storeSession(sessionId, session);
     this.sessions.set(sessionId, session);
   }
 
   // Методы для работы с квантово-устойчивой прямой секретностью
 
   async performQuantumRatchet(sessionId: string): Promise<void> {
-    const session = this.sessions.get(sessionId);
+    const session = await this.getSession(sessionId);
     if (!session) return;
 
     // Использование квантово-устойчивых алгоритмов для ротации
     const newSecret = await this.qrc.rotateKeys(session.rootKey, session.sendingChain.index);
     session.rootKey = newSecret;
+    await this.store.storeSession(sessionId, session);
 
     // Автоматическая ротация после определенного количества сообщений
     if (session.sendingChain.index % this.rotationInterval === 0) {
@@ -118,6 +129,18 @@ export class ForwardSecrecyService implements IForwardSecrecyService {
 
   // Вспомогательные методы
 
+  private async getSession(sessionId: string): Promise<Session | undefined> {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      // Сессия могла сохраниться до перезапуска
+      session = (await this.store.loadSession(sessionId)) ?? undefined;
+      if (session) {
+        this.sessions.set(sessionId, session);
+      }
+    }
+    return session;
+  }
+
   private async performRatchetStep(currentRootKey: Uint8Array): Promise<Uint8Array> {
     // Ratchet step: создание нового root key
     const input = new TextEncoder().encode('RATCHET_STEP');
@@ -186,7 +209,7 @@ export class ForwardSecrecyService implements IForwardSecrecyService {
     chainLength: number;
     oldKeysCount: number;
   }> {
-    const session = this.sessions.get(sessionId);
+    const session = await this.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
     }
@@ -211,7 +234,7 @@ export class ForwardSecrecyService implements IForwardSecrecyService {
     await this.rotateKeys(sessionId);
     
     // Удаление всех старых ключей сообщений
-    const session = this.sessions.get(sessionId);
+    const session = await this.getSession(sessionId);
     if (session) {
       await this.deleteOldMessageKeys(sessionId, session.sendingChain.index);
     }
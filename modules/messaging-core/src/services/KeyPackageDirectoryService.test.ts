@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import type { DHTRecord, IDHTService, PeerInfo } from '@messa/p2p-network';
+import { KeyPackageDirectoryService } from './KeyPackageDirectoryService';
+import { MLSService } from './MLSService';
+import { InMemorySessionStore } from './SessionStore';
+import { SignalProtocolService } from './SignalProtocolService';
+
+// Общая DHT всех участников теста: только записи, без поиска пиров
+class MemoryDHT implements IDHTService {
+  records: Map<string, Uint8Array> = new Map();
+
+  async put(key: string, value: Uint8Array): Promise<void> {
+    this.records.set(key, value.slice());
+  }
+
+  async get(key: string): Promise<DHTRecord | null> {
+    const value = this.records.get(key);
+    if (!value) return null;
+    return { key, value, timestamp: new Date(), signature: new Uint8Array(0), author: '' };
+  }
+
+  async findPeer(): Promise<PeerInfo | null> {
+    return null;
+  }
+
+  async provide(): Promise<void> {}
+
+  async findProviders(): Promise<PeerInfo[]> {
+    return [];
+  }
+
+  async findClosestPeers(): Promise<PeerInfo[]> {
+    return [];
+  }
+}
+
+interface User {
+  signal: SignalProtocolService;
+  mls: MLSService;
+  directory: KeyPackageDirectoryService;
+}
+
+async function createUser(
+  userId: string,
+  dht: IDHTService,
+  signal?: SignalProtocolService
+): Promise<User> {
+  if (!signal) {
+    signal = new SignalProtocolService(new InMemorySessionStore());
+    await signal.initialize();
+  }
+  const mls = new MLSService(userId, {}, new InMemorySessionStore());
+  await mls.initialize();
+  return { signal, mls, directory: new KeyPackageDirectoryService(userId, signal, mls, dht) };
+}
+
+describe('KeyPackageDirectoryService', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects a directory with a broken signature or an older version', async () => {
+    const dht = new MemoryDHT();
+    const alice = await createUser('alice', dht);
+    const bob = await createUser('bob', dht);
+
+    expect(await alice.directory.replenish()).toBe(true);
+    expect(await alice.directory.replenish()).toBe(false);
+    const stale = dht.records.get('mls-keypackages:alice')!;
+    expect((await bob.directory.getDirectory('alice'))?.version).toBe(1);
+
+    // Подмена версии без новой подписи
+    const data = JSON.parse(new TextDecoder().decode(stale)) as { version: number };
+    dht.records.set(
+      'mls-keypackages:alice',
+      new TextEncoder().encode(JSON.stringify({ ...data, version: 5 }))
+    );
+    await expect(bob.directory.getDirectory('alice')).rejects.toThrow(
+      'Invalid key package directory signature'
+    );
+    dht.records.set('mls-keypackages:alice', stale);
+
+    // Использованный key package убирается, каталог публикуется заново
+    const [used] = (await alice.directory.getDirectory('alice'))!.keyPackages;
+    await alice.mls.deleteKeyPackage(used!.ref);
+    expect(await alice.directory.replenish()).toBe(true);
+    expect((await bob.directory.getDirectory('alice'))?.version).toBe(2);
+
+    dht.records.set('mls-keypackages:alice', stale);
+    await expect(bob.directory.getDirectory('alice')).rejects.toThrow(
+      'Key package directory version rollback'
+    );
+  });
+
+  it('falls back to the last resort key package when one-time ones are gone', async () => {
+    const dht = new MemoryDHT();
+    const alice = await createUser('alice', dht);
+    const bob = await createUser('bob', dht);
+    await alice.directory.replenish();
+
+    const directory = (await bob.directory.getDirectory('alice'))!;
+    const first = await bob.directory.fetchKeyPackage('alice');
+    expect(first.lastResort).toBe(false);
+    expect(directory.keyPackages.map(entry => entry.ref)).toContain(first.ref);
+
+    for (const entry of directory.keyPackages) {
+      dht.records.delete(`mls-keypackage:alice:${entry.ref}`);
+    }
+
+    // Last resort key package выдаётся повторно
+    for (let i = 0; i < 2; i++) {
+      const info = await bob.directory.fetchKeyPackage('alice');
+      expect(info.lastResort).toBe(true);
+      expect(info.ref).toBe(directory.lastResort.ref);
+    }
+  });
+
+  it('skips key packages not signed with the directory signature key', async () => {
+    const dht = new MemoryDHT();
+    const alice = await createUser('alice', dht);
+    const bob = await createUser('bob', dht);
+
+    // Каталог указывает чужой ключ MLS, key packages подписаны настоящим
+    const other = await createUser('alice', new MemoryDHT());
+    const getSignatureKey = vi
+      .spyOn(alice.mls, 'getSignatureKey')
+      .mockReturnValue(other.mls.getSignatureKey());
+    await alice.directory.replenish();
+    getSignatureKey.mockRestore();
+
+    await expect(bob.directory.fetchKeyPackage('alice')).rejects.toThrow(
+      'No key package available for user alice'
+    );
+  });
+
+  it('republishes the directory after the MLS signature key changes', async () => {
+    const dht = new MemoryDHT();
+    const alice = await createUser('alice', dht);
+    const bob = await createUser('bob', dht);
+    await alice.directory.replenish();
+    const old = (await bob.directory.getDirectory('alice'))!;
+
+    // Переустановка MLS с тем же identity key
+    const reinstalled = await createUser('alice', dht, alice.signal);
+    expect(await reinstalled.directory.replenish()).toBe(true);
+
+    const directory = (await bob.directory.getDirectory('alice'))!;
+    expect(directory.version).toBe(2);
+    expect(sodium.compare(directory.signatureKey, reinstalled.mls.getSignatureKey())).toBe(0);
+    const refs = new Set(old.keyPackages.map(entry => entry.ref));
+    expect(directory.keyPackages.some(entry => refs.has(entry.ref))).toBe(false);
+    expect(directory.lastResort.ref).not.toBe(old.lastResort.ref);
+    expect((await bob.directory.fetchKeyPackage('alice')).signatureKey).toEqual(
+      reinstalled.mls.getSignatureKey()
+    );
+  });
+
+  it('drops consumed and expiring key packages on replenish', async () => {
+    const dht = new MemoryDHT();
+    const alice = await createUser('alice', dht);
+    await alice.directory.replenish();
+    const initial = (await alice.directory.getDirectory('alice'))!;
+    expect(initial.keyPackages).toHaveLength(20);
+
+    // Пока одноразовых хватает, каталог только сокращается
+    const consumed = initial.keyPackages.slice(0, 10).map(entry => entry.ref);
+    for (const ref of consumed) {
+      await alice.mls.deleteKeyPackage(ref);
+    }
+    await alice.directory.replenish();
+    const reduced = (await alice.directory.getDirectory('alice'))!;
+    expect(reduced.keyPackages).toHaveLength(10);
+    expect(reduced.keyPackages.some(entry => consumed.includes(entry.ref))).toBe(false);
+
+    // Ниже порога каталог пополняется до полного
+    for (const entry of reduced.keyPackages.slice(0, 6)) {
+      await alice.mls.deleteKeyPackage(entry.ref);
+    }
+    await alice.directory.replenish();
+    const refilled = (await alice.directory.getDirectory('alice'))!;
+    expect(refilled.keyPackages).toHaveLength(20);
+    expect(refilled.keyPackages.slice(0, 4)).toEqual(reduced.keyPackages.slice(6));
+
+    // Меньше чем за день до истечения срока заменяются все, включая last resort
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(refilled.lastResort.notAfter.getTime() - 12 * 60 * 60 * 1000);
+    expect(await alice.directory.replenish()).toBe(true);
+    const renewed = (await alice.directory.getDirectory('alice'))!;
+    for (const entry of [...refilled.keyPackages, refilled.lastResort]) {
+      expect(alice.mls.hasKeyPackage(entry.ref)).toBe(false);
+    }
+    expect(renewed.keyPackages).toHaveLength(20);
+    expect(renewed.lastResort.notAfter.getTime()).toBeGreaterThan(Date.now());
+  });
+});
@@ -0,0 +1,276 @@
+import sodium from 'libsodium-wrappers';
+import type { IDHTService } from '@messa/p2p-network';
+import type { SignalProtocolService } from './SignalProtocolService';
+import type { MLSService } from './MLSService';
+import type { KeyPackageDirectory, KeyPackageEntry, KeyPackageInfo } from '../types';
+
+// Записи каталога в DHT: бинарные поля в hex, даты в ISO
+interface SerializedEntry {
+  ref: string;
+  notAfter: string;
+}
+
+interface SerializedDirectory {
+  userId: string;
+  identityKey: string;
+  signatureKey: string;
+  version: number;
+  keyPackages: SerializedEntry[];
+  lastResort: SerializedEntry;
+  signature: string;
+}
+
+// Каталог MLS key packages в DHT, чтобы добавлять в группу пользователей, которые не в сети:
+//   mls-keypackages:<userId>      - каталог, подписанный identity key аккаунта
+//   mls-keypackage:<userId>:<ref> - сам key package (MLSMessage, подписан ключом MLS)
+// DHT не умеет атомарно выдавать ключ одному получателю, поэтому одноразовый key package
+// выбирается случайно, а владелец убирает использованные из каталога при пополнении
+export class KeyPackageDirectoryService {
+  private userId: string;
+  private signal: SignalProtocolService;
+  private mls: MLSService;
+  private dht: IDHTService;
+  private knownVersions: Map<string, number> = new Map(); // Защита от отката каталога
+  private usedKeyPackages: Set<string> = new Set(); // Уже использованные нами чужие key packages
+  private targetKeyPackages: number = 20; // Сколько одноразовых key packages публиковать
+  private minKeyPackages: number = 5; // Порог пополнения
+  private refreshMargin: number = 24 * 60 * 60 * 1000; // Запас до истечения срока, 1 день
+
+  constructor(userId: string, signal: SignalProtocolService, mls: MLSService, dht: IDHTService) {
+    this.userId = userId;
+    this.signal = signal;
+    this.mls = mls;
+    this.dht = dht;
+  }
+
+  // Удаление использованных и истекающих key packages и пополнение каталога.
+  // Возвращает true, если каталог был опубликован заново
+  async replenish(): Promise<boolean> {
+    await sodium.ready;
+
+    // Повреждённый каталог в DHT публикуется заново
+    const current = await this.getDirectory(this.userId).catch(() => null);
+    const deadline = Date.now() + this.refreshMargin;
+    const isUsable = (entry: KeyPackageEntry) =>
+      this.mls.hasKeyPackage(entry.ref) && entry.notAfter.getTime() > deadline;
+
+    // Каталог, подписанный другим ключом MLS (до переустановки), не может быть использован
+    const isCurrent =
+      current !== null && sodium.compare(current.signatureKey, this.mls.getSignatureKey()) === 0;
+
+    const keyPackages = isCurrent ? current.keyPackages.filter(isUsable) : [];
+    let lastResort = isCurrent && isUsable(current.lastResort) ? current.lastResort : null;
+
+    const isUnchanged =
+      isCurrent &&
+      lastResort !== null &&
+      keyPackages.length === current.keyPackages.length &&
+      keyPackages.length >= this.minKeyPackages;
+    if (isUnchanged) {
+      return false;
+    }
+
+    // Выбывшие из каталога key packages больше не понадобятся
+    if (isCurrent) {
+      for (const entry of [...current.keyPackages, current.lastResort]) {
+        if (entry !== lastResort && !keyPackages.includes(entry)) {
+          await this.mls.deleteKeyPackage(entry.ref);
+        }
+      }
+    }
+
+    if (keyPackages.length < this.minKeyPackages) {
+      while (keyPackages.length < this.targetKeyPackages) {
+        keyPackages.push(await this.publishKeyPackage(false));
+      }
+    }
+    if (!lastResort) {
+      lastResort = await this.publishKeyPackage(true);
+    }
+
+    const previousVersion = Math.max(
+      current?.version ?? 0,
+      this.knownVersions.get(this.userId) ?? 0
+    );
+    await this.publishDirectory(keyPackages, lastResort, previousVersion);
+    return true;
+  }
+
+  async getDirectory(userId: string): Promise<KeyPackageDirectory | null> {
+    await sodium.ready;
+
+    const record = await this.dht.get(`mls-keypackages:${userId}`);
+    if (!record) return null;
+
+    const data = this.decode<SerializedDirectory>(record.value);
+    const directory: KeyPackageDirectory = {
+      userId: data.userId,
+      identityKey: sodium.from_hex(data.identityKey),
+      signatureKey: sodium.from_hex(data.signatureKey),
+      version: data.version,
+      keyPackages: data.keyPackages.map(entry => this.deserializeEntry(entry)),
+      lastResort: this.deserializeEntry(data.lastResort),
+      signature: sodium.from_hex(data.signature),
+    };
+
+    if (directory.userId !== userId) {
+      throw new Error('Key package directory belongs to another user');
+    }
+    if (
+      !sodium.crypto_sign_verify_detached(
+        directory.signature,
+        this.signedPayload(directory),
+        directory.identityKey
+      )
+    ) {
+      throw new Error('Invalid key package directory signature');
+    }
+
+    // Identity key собеседника закрепляется так же, как для списка устройств
+    let identityChanged = false;
+    if (userId === this.userId) {
+      if (sodium.compare(this.signal.getIdentityKey(), directory.identityKey) !== 0) {
+        throw new Error('Key package directory identity key mismatch');
+      }
+    } else {
+      identityChanged = await this.signal.saveIdentity(userId, directory.identityKey);
+    }
+
+    if (!identityChanged && directory.version < (this.knownVersions.get(userId) ?? 0)) {
+      throw new Error('Key package directory version rollback');
+    }
+
+    this.knownVersions.set(userId, directory.version);
+    return directory;
+  }
+
+  // Загрузка key package пользователя в MLSService для последующего добавления в группу.
+  // Last resort key package используется, только если одноразовые закончились
+  async fetchKeyPackage(userId: string): Promise<KeyPackageInfo> {
+    const directory = await this.getDirectory(userId);
+    if (!directory) {
+      throw new Error('Key package directory not found');
+    }
+
+    const now = Date.now();
+    const candidates = directory.keyPackages.filter(
+      entry => entry.notAfter.getTime() > now && !this.usedKeyPackages.has(entry.ref)
+    );
+
+    // Случайный порядок снижает вероятность, что двое выберут один и тот же key package
+    for (let i = candidates.length - 1; i > 0; i--) {
+      const j = sodium.randombytes_uniform(i + 1);
+      [candidates[i], candidates[j]] = [candidates[j]!, candidates[i]!];
+    }
+
+    for (const entry of candidates) {
+      const info = await this.loadKeyPackage(directory, entry, false);
+      if (info) {
+        this.usedKeyPackages.add(entry.ref);
+        return info;
+      }
+    }
+
+    if (directory.lastResort.notAfter.getTime() > now) {
+      const info = await this.loadKeyPackage(directory, directory.lastResort, true);
+      if (info) return info;
+    }
+
+    throw new Error(`No key package available for user ${userId}`);
+  }
+
+  // Вспомогательные методы
+
+  private async loadKeyPackage(
+    directory: KeyPackageDirectory,
+    entry: KeyPackageEntry,
+    lastResort: boolean
+  ): Promise<KeyPackageInfo | null> {
+    const record = await this.dht.get(`mls-keypackage:${directory.userId}:${entry.ref}`);
+    if (!record) return null;
+
+    // Key package должен быть подписан ключом MLS из каталога и совпадать с записью каталога
+    let info: KeyPackageInfo;
+    try {
+      info = await this.mls.inspectKeyPackage(record.value);
+    } catch {
+      return null;
+    }
+
+    const isValid =
+      info.ref === entry.ref &&
+      info.userId === directory.userId &&
+      info.lastResort === lastResort &&
+      sodium.compare(info.signatureKey, directory.signatureKey) === 0;
+    if (!isValid) return null;
+
+    return this.mls.registerKeyPackage(record.value);
+  }
+
+  private async publishKeyPackage(lastResort: boolean): Promise<KeyPackageEntry> {
+    const data = await this.mls.generateKeyPackage(lastResort);
+    const info = await this.mls.inspectKeyPackage(data);
+
+    await this.dht.put(`mls-keypackage:${this.userId}:${info.ref}`, data);
+    return { ref: info.ref, notAfter: info.notAfter };
+  }
+
+  private async publishDirectory(
+    keyPackages: KeyPackageEntry[],
+    lastResort: KeyPackageEntry,
+    previousVersion: number
+  ): Promise<void> {
+    const unsigned = {
+      userId: this.userId,
+      identityKey: this.signal.getIdentityKey(),
+      signatureKey: this.mls.getSignatureKey(),
+      version: previousVersion + 1,
+      keyPackages,
+      lastResort,
+    };
+    const signature = this.signal.signWithIdentityKey(this.signedPayload(unsigned));
+
+    await this.dht.put(
+      `mls-keypackages:${this.userId}`,
+      this.encode<SerializedDirectory>({
+        userId: unsigned.userId,
+        identityKey: sodium.to_hex(unsigned.identityKey),
+        signatureKey: sodium.to_hex(unsigned.signatureKey),
+        version: unsigned.version,
+        keyPackages: keyPackages.map(entry => this.serializeEntry(entry)),
+        lastResort: this.serializeEntry(lastResort),
+        signature: sodium.to_hex(signature),
+      })
+    );
+    this.knownVersions.set(this.userId, unsigned.version);
+  }
+
+  private signedPayload(directory: Omit<KeyPackageDirectory, 'signature'>): Uint8Array {
+    return new TextEncoder().encode(
+      JSON.stringify({
+        userId: directory.userId,
+        identityKey: sodium.to_hex(directory.identityKey),
+        signatureKey: sodium.to_hex(directory.signatureKey),
+        version: directory.version,
+        keyPackages: directory.keyPackages.map(entry => this.serializeEntry(entry)),
+        lastResort: this.serializeEntry(directory.lastResort),
+      })
+    );
+  }
+
+  private serializeEntry(entry: KeyPackageEntry): SerializedEntry {
+    return { ref: entry.ref, notAfter: entry.notAfter.toISOString() };
+  }
+
+  private deserializeEntry(data: SerializedEntry): KeyPackageEntry {
+    return { ref: data.ref, notAfter: new Date(data.notAfter) };
+  }
+
+  private encode<T>(value: T): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify(value));
+  }
+
+  private decode<T>(bytes: Uint8Array): T {
+    return JSON.parse(new TextDecoder().decode(bytes)) as T;
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { LinkPreviewService } from './LinkPreviewService';
+
+// «Привет» в windows-1251
+const TITLE = new Uint8Array([0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2]);
+
+function page(head: string, contentType: string): LinkPreviewService {
+  const encoder = new TextEncoder();
+  const body = new Uint8Array([
+    ...encoder.encode(`<html><head>${head}<title>`),
+    ...TITLE,
+    ...encoder.encode('</title></head></html>'),
+  ]);
+  return new LinkPreviewService({
+    fetch: () => Promise.resolve(new Response(body, { headers: { 'Content-Type': contentType } })),
+  });
+}
+
+describe('LinkPreviewService', () => {
+  it('decodes the page with the charset from the Content-Type header', async () => {
+    const preview = await page('', 'text/html; charset=windows-1251').generate('https://a.example');
+    expect(preview?.title).toBe('Привет');
+  });
+
+  it('falls back to the charset declared in a meta tag', async () => {
+    const charset = await page('<meta charset="windows-1251">', 'text/html').generate(
+      'https://a.example'
+    );
+    expect(charset?.title).toBe('Привет');
+
+    const httpEquiv = await page(
+      '<meta http-equiv="Content-Type" content="text/html; charset=windows-1251">',
+      'text/html'
+    ).generate('https://a.example');
+    expect(httpEquiv?.title).toBe('Привет');
+  });
+});
@@ -0,0 +1,240 @@
+import { MessageModel } from '../models/Message';
+import type { LinkPreview, LinkPreviewConfig, Message } from '../types';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+const THUMBNAIL_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// Превью ссылки собирает отправитель: страницу и картинку скачивает только он, а получатели
+// видят их из зашифрованного сообщения и не раскрывают серверу ссылки ни адрес, ни факт
+// прочтения. Разбираются только метатеги Open Graph и <title>; дальше передаётся простой текст.
+// Уменьшение картинки - дело приложения: крупная картинка просто не передаётся
+export class LinkPreviewService {
+  private fetcher: typeof fetch;
+  private timeout: number;
+  private maxPageSize: number;
+  private maxThumbnailSize: number;
+
+  constructor(config: LinkPreviewConfig = {}) {
+    this.fetcher = config.fetch ?? fetch;
+    this.timeout = config.timeout ?? 10 * 1000; // 10 секунд
+    this.maxPageSize = config.maxPageSize ?? 512 * 1024;
+    this.maxThumbnailSize = config.maxThumbnailSize ?? 128 * 1024;
+  }
+
+  // Превью первой https-ссылки сообщения; без него сообщение возвращается как есть
+  async attachPreview(message: Message): Promise<Message> {
+    if (message.linkPreview || MessageModel.isControl(message)) {
+      return message;
+    }
+
+    const url = MessageModel.findLinks(message.content).find(link => link.startsWith('https://'));
+    if (!url) return message;
+
+    const linkPreview = await this.generate(url);
+    return linkPreview ? { ...message, linkPreview } : message;
+  }
+
+  // null, если страница недоступна или в ней нечего показать
+  async generate(url: string): Promise<LinkPreview | null> {
+    if (!this.isSecureUrl(url)) {
+      throw new Error('Link previews are only generated for https links');
+    }
+
+    const page = await this.download(url, 'text/html', this.maxPageSize, true);
+    if (!page || !page.contentType.startsWith('text/html')) return null;
+
+    const meta = this.parseMeta(this.decodeText(page.body, page.charset));
+    const title = this.clean(
+      meta['og:title'] ?? meta['twitter:title'] ?? meta.title,
+      MAX_TITLE_LENGTH
+    );
+    const description = this.clean(
+      meta['og:description'] ?? meta['twitter:description'] ?? meta.description,
+      MAX_DESCRIPTION_LENGTH
+    );
+    const thumbnail = await this.fetchThumbnail(
+      page.url,
+      meta['og:image'] ?? meta['twitter:image']
+    );
+    if (!title && !thumbnail) return null;
+
+    return {
+      url,
+      title,
+      description,
+      siteName: this.clean(meta['og:site_name'], MAX_TITLE_LENGTH),
+      thumbnail,
+    };
+  }
+
+  // Вспомогательные методы
+
+  private async fetchThumbnail(pageUrl: string, source?: string): Promise<Uint8Array | undefined> {
+    if (!source) return undefined;
+
+    let imageUrl: string;
+    try {
+      imageUrl = new URL(this.decodeEntities(source), pageUrl).toString();
+    } catch {
+      return undefined;
+    }
+    if (!this.isSecureUrl(imageUrl)) return undefined;
+
+    const image = await this.download(imageUrl, 'image/*', this.maxThumbnailSize, false);
+    if (!image || !THUMBNAIL_TYPES.includes(image.contentType)) return undefined;
+    return image.body;
+  }
+
+  // Не больше limit байт; truncate разрешает оборвать ответ (метатеги в начале страницы),
+  // иначе слишком большой ответ отбрасывается целиком
+  private async download(
+    url: string,
+    accept: string,
+    limit: number,
+    truncate: boolean
+  ): Promise<{ url: string; body: Uint8Array; contentType: string; charset?: string } | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await this.fetcher(url, {
+        headers: { Accept: accept },
+        credentials: 'omit',
+        referrerPolicy: 'no-referrer',
+        redirect: 'follow',
+        signal: controller.signal,
+      });
+      // Перенаправление не должно уводить на незащищённый адрес
+      const finalUrl = response.url || url;
+      if (!response.ok || !response.body || !this.isSecureUrl(finalUrl)) {
+        return null;
+      }
+
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        size += value.length;
+        if (size > limit) {
+          await reader.cancel();
+          if (!truncate) return null;
+          chunks.push(value.subarray(0, value.length - (size - limit)));
+          size = limit;
+          break;
+        }
+        chunks.push(value);
+      }
+
+      const body = new Uint8Array(size);
+      let offset = 0;
+      for (const chunk of chunks) {
+        body.set(chunk, offset);
+        offset += chunk.length;
+      }
+
+      const contentType = (response.headers.get('content-type') ?? '').toLowerCase();
+      return {
+        url: finalUrl,
+        body,
+        contentType: contentType.split(';')[0]!.trim() || contentType,
+        charset: this.parseCharset(contentType),
+      };
+    } catch (error) {
+      console.error(`Failed to fetch link preview from ${url}:`, error);
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Кодировка из заголовка Content-Type, иначе из <meta charset> или <meta http-equiv> страницы
+  private decodeText(body: Uint8Array, charset?: string): string {
+    try {
+      return new TextDecoder(charset ?? this.sniffCharset(body) ?? 'utf-8').decode(body);
+    } catch {
+      return new TextDecoder().decode(body);
+    }
+  }
+
+  private parseCharset(value: string): string | undefined {
+    return /charset\s*=\s*["']?([\w-]+)/i.exec(value)?.[1];
+  }
+
+  // Как и браузер, объявление ищется в первых 1024 байтах: до него на странице только ASCII
+  private sniffCharset(body: Uint8Array): string | undefined {
+    const head = new TextDecoder('latin1').decode(body.subarray(0, 1024));
+    for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+      const charset = this.parseCharset(tag);
+      if (charset) return charset;
+    }
+    return undefined;
+  }
+
+  // Метатеги <meta property|name=... content=...> и <title> из начала страницы
+  private parseMeta(html: string): Record<string, string> {
+    const head = html.split(/<\/head\s*>/i)[0]!;
+    const meta: Record<string, string> = {};
+
+    for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+      const attributes: Record<string, string> = {};
+      for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+        attributes[match[1]!.toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+      }
+
+      const key = (attributes.property ?? attributes.name)?.toLowerCase();
+      if (key && attributes.content !== undefined && !(key in meta)) {
+        meta[key] = attributes.content;
+      }
+    }
+
+    const title = /<title\b[^>]*>([^<]*)<\/title\s*>/i.exec(head)?.[1];
+    if (title !== undefined) {
+      meta.title = title;
+    }
+    return meta;
+  }
+
+  private clean(text: string | undefined, maxLength: number): string | undefined {
+    if (text === undefined) return undefined;
+
+    const { content } = MessageModel.sanitizeContent(
+      this.decodeEntities(text).replace(/\s+/g, ' ')
+    );
+    if (!content) return undefined;
+    return content.length > maxLength ? content.slice(0, maxLength - 1) + '…' : content;
+  }
+
+  private decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code =
+          name[1] === 'x' || name[1] === 'X'
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+      }
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    });
+  }
+
+  private isSecureUrl(url: string): boolean {
+    try {
+      return new URL(url).protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+}
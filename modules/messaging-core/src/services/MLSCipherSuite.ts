@@ -0,0 +1,266 @@
+import sodium from 'libsodium-wrappers';
+import { TLSWriter } from './MLSCodec';
+import type { HPKECiphertext, KeyPair } from '../types';
+
+// Набор из диапазона private use (RFC 9420, 17.1): DHKEM(X25519), ChaCha20-Poly1305, Ed25519.
+// В libsodium нет HMAC-SHA256, поэтому KDF - HKDF поверх keyed BLAKE2b, как и в остальном модуле
+export const MLS_CIPHER_SUITE = 0xf001;
+export const MLS_CIPHER_SUITE_NAME = 'MESSA_MLS_128_DHKEMX25519_CHACHA20POLY1305_BLAKE2B_Ed25519';
+
+const KEM_ID = 0x0020;
+const KDF_ID = 0xf001;
+const AEAD_ID = 0x0003;
+
+export class MLSCipherSuite {
+  readonly Nh: number = 32;
+  readonly Nk: number = 32; // ChaCha20-Poly1305
+  readonly Nn: number = 12;
+
+  hash(data: Uint8Array): Uint8Array {
+    return sodium.crypto_generichash(this.Nh, data);
+  }
+
+  mac(key: Uint8Array, data: Uint8Array): Uint8Array {
+    return sodium.crypto_generichash(this.Nh, data, this.macKey(key));
+  }
+
+  verifyMac(key: Uint8Array, data: Uint8Array, tag: Uint8Array): boolean {
+    return tag.length === this.Nh && sodium.memcmp(this.mac(key, data), tag);
+  }
+
+  // HKDF-Extract / HKDF-Expand (RFC 5869) с keyed BLAKE2b в роли HMAC
+  extract(salt: Uint8Array, ikm: Uint8Array): Uint8Array {
+    return this.mac(salt, ikm);
+  }
+
+  expand(prk: Uint8Array, info: Uint8Array, length: number): Uint8Array {
+    const output = new Uint8Array(length);
+    let block = new Uint8Array(0);
+
+    for (let offset = 0, counter = 1; offset < length; counter++) {
+      const input = new Uint8Array(block.length + info.length + 1);
+      input.set(block);
+      input.set(info, block.length);
+      input[input.length - 1] = counter;
+
+      block = this.mac(prk, input);
+      output.set(block.subarray(0, Math.min(block.length, length - offset)), offset);
+      offset += block.length;
+    }
+
+    return output;
+  }
+
+  expandWithLabel(
+    secret: Uint8Array,
+    label: string,
+    context: Uint8Array,
+    length: number
+  ): Uint8Array {
+    const info = new TLSWriter().uint16(length).vector(this.label(label)).vector(context).finish();
+    return this.expand(secret, info, length);
+  }
+
+  deriveSecret(secret: Uint8Array, label: string): Uint8Array {
+    return this.expandWithLabel(secret, label, new Uint8Array(0), this.Nh);
+  }
+
+  // RefHash для KeyPackageRef и ProposalRef
+  refHash(label: string, value: Uint8Array): Uint8Array {
+    return this.hash(
+      new TLSWriter().vector(new TextEncoder().encode(label)).vector(value).finish()
+    );
+  }
+
+  // Подписи (Ed25519)
+
+  generateSignatureKeyPair(): KeyPair {
+    const keyPair = sodium.crypto_sign_keypair();
+    return { publicKey: keyPair.publicKey, privateKey: keyPair.privateKey };
+  }
+
+  signWithLabel(privateKey: Uint8Array, label: string, content: Uint8Array): Uint8Array {
+    return sodium.crypto_sign_detached(this.signContent(label, content), privateKey);
+  }
+
+  verifyWithLabel(
+    publicKey: Uint8Array,
+    label: string,
+    content: Uint8Array,
+    signature: Uint8Array
+  ): boolean {
+    try {
+      return sodium.crypto_sign_verify_detached(
+        signature,
+        this.signContent(label, content),
+        publicKey
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  // AEAD
+
+  seal(key: Uint8Array, nonce: Uint8Array, aad: Uint8Array, plaintext: Uint8Array): Uint8Array {
+    return sodium.crypto_aead_chacha20poly1305_ietf_encrypt(plaintext, aad, null, nonce, key);
+  }
+
+  open(key: Uint8Array, nonce: Uint8Array, aad: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+    return sodium.crypto_aead_chacha20poly1305_ietf_decrypt(null, ciphertext, aad, nonce, key);
+  }
+
+  // HPKE (RFC 9180), режим base, одно сообщение на контекст
+
+  generateKeyPair(): KeyPair {
+    return this.deriveKeyPair(sodium.randombytes_buf(this.Nh));
+  }
+
+  deriveKeyPair(ikm: Uint8Array): KeyPair {
+    const suiteId = this.kemSuiteId();
+    const prk = this.labeledExtract(suiteId, new Uint8Array(0), 'dkp_prk', ikm);
+    const privateKey = this.labeledExpand(suiteId, prk, 'sk', new Uint8Array(0), 32);
+    return { publicKey: sodium.crypto_scalarmult_base(privateKey), privateKey };
+  }
+
+  encryptWithLabel(
+    publicKey: Uint8Array,
+    label: string,
+    context: Uint8Array,
+    plaintext: Uint8Array
+  ): HPKECiphertext {
+    const ephemeral = sodium.crypto_box_keypair();
+    const dh = sodium.crypto_scalarmult(ephemeral.privateKey, publicKey);
+    const sharedSecret = this.extractAndExpand(dh, this.concat(ephemeral.publicKey, publicKey));
+
+    const { key, nonce } = this.hpkeKeySchedule(sharedSecret, this.encryptContext(label, context));
+    const ciphertext = this.seal(key, nonce, new Uint8Array(0), plaintext);
+
+    sodium.memzero(ephemeral.privateKey);
+    sodium.memzero(dh);
+    return { kemOutput: ephemeral.publicKey, ciphertext };
+  }
+
+  decryptWithLabel(
+    privateKey: Uint8Array,
+    label: string,
+    context: Uint8Array,
+    ciphertext: HPKECiphertext
+  ): Uint8Array {
+    const publicKey = sodium.crypto_scalarmult_base(privateKey);
+    const dh = sodium.crypto_scalarmult(privateKey, ciphertext.kemOutput);
+    const sharedSecret = this.extractAndExpand(dh, this.concat(ciphertext.kemOutput, publicKey));
+
+    const { key, nonce } = this.hpkeKeySchedule(sharedSecret, this.encryptContext(label, context));
+    sodium.memzero(dh);
+    return this.open(key, nonce, new Uint8Array(0), ciphertext.ciphertext);
+  }
+
+  // Вспомогательные методы
+
+  private label(label: string): Uint8Array {
+    return new TextEncoder().encode(`MLS 1.0 ${label}`);
+  }
+
+  private signContent(label: string, content: Uint8Array): Uint8Array {
+    return new TLSWriter().vector(this.label(label)).vector(content).finish();
+  }
+
+  private encryptContext(label: string, context: Uint8Array): Uint8Array {
+    return new TLSWriter().vector(this.label(label)).vector(context).finish();
+  }
+
+  // Ключ BLAKE2b должен быть 16-64 байта; пустая соль HKDF - нулевой ключ
+  private macKey(key: Uint8Array): Uint8Array {
+    if (key.length >= sodium.crypto_generichash_KEYBYTES_MIN) {
+      return key;
+    }
+    const padded = new Uint8Array(this.Nh);
+    padded.set(key);
+    return padded;
+  }
+
+  private extractAndExpand(dh: Uint8Array, kemContext: Uint8Array): Uint8Array {
+    const suiteId = this.kemSuiteId();
+    const prk = this.labeledExtract(suiteId, new Uint8Array(0), 'eae_prk', dh);
+    return this.labeledExpand(suiteId, prk, 'shared_secret', kemContext, this.Nh);
+  }
+
+  private hpkeKeySchedule(
+    sharedSecret: Uint8Array,
+    info: Uint8Array
+  ): { key: Uint8Array; nonce: Uint8Array } {
+    const suiteId = this.hpkeSuiteId();
+    const empty = new Uint8Array(0);
+
+    const context = this.concat(
+      new Uint8Array([0]), // mode_base
+      this.labeledExtract(suiteId, empty, 'psk_id_hash', empty),
+      this.labeledExtract(suiteId, empty, 'info_hash', info)
+    );
+    const secret = this.labeledExtract(suiteId, sharedSecret, 'secret', empty);
+
+    return {
+      key: this.labeledExpand(suiteId, secret, 'key', context, this.Nk),
+      nonce: this.labeledExpand(suiteId, secret, 'base_nonce', context, this.Nn),
+    };
+  }
+
+  private labeledExtract(
+    suiteId: Uint8Array,
+    salt: Uint8Array,
+    label: string,
+    ikm: Uint8Array
+  ): Uint8Array {
+    return this.extract(
+      salt,
+      this.concat(
+        new TextEncoder().encode('HPKE-v1'),
+        suiteId,
+        new TextEncoder().encode(label),
+        ikm
+      )
+    );
+  }
+
+  private labeledExpand(
+    suiteId: Uint8Array,
+    prk: Uint8Array,
+    label: string,
+    info: Uint8Array,
+    length: number
+  ): Uint8Array {
+    return this.expand(
+      prk,
+      this.concat(
+        new TLSWriter().uint16(length).finish(),
+        new TextEncoder().encode('HPKE-v1'),
+        suiteId,
+        new TextEncoder().encode(label),
+        info
+      ),
+      length
+    );
+  }
+
+  private kemSuiteId(): Uint8Array {
+    return this.concat(new TextEncoder().encode('KEM'), new TLSWriter().uint16(KEM_ID).finish());
+  }
+
+  private hpkeSuiteId(): Uint8Array {
+    return this.concat(
+      new TextEncoder().encode('HPKE'),
+      new TLSWriter().uint16(KEM_ID).uint16(KDF_ID).uint16(AEAD_ID).finish()
+    );
+  }
+
+  private concat(...parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+}
@@ -0,0 +1,741 @@
+import type {
+  LeafNode,
+  LeafNodeSource,
+  ParentNode,
+  TreeNode,
+  KeyPackage,
+  GroupContext,
+  MLSCapabilities,
+  MLSExtension,
+  HPKECiphertext,
+  MLSProposal,
+  ProposalOrRef,
+  UpdatePath,
+  Commit,
+  FramedContent,
+  FramedContentBody,
+  PrivateMessage,
+  Welcome,
+  GroupInfo,
+  MLSMessage,
+  GroupAdministration,
+  GroupAction,
+  GroupRole,
+} from '../types';
+
+export const MLS_VERSION = 1; // mls10
+
+const WIRE_FORMATS = ['public', 'private', 'welcome', 'group_info', 'key_package'] as const;
+const CONTENT_TYPES = ['application', 'proposal', 'commit'] as const;
+const LEAF_NODE_SOURCES: LeafNodeSource[] = ['key_package', 'update', 'commit'];
+const PROPOSAL_TYPES: Record<MLSProposal['type'], number> = {
+  add: 1,
+  update: 2,
+  remove: 3,
+  group_context_extensions: 7,
+};
+const GROUP_ROLES: GroupRole[] = ['owner', 'admin', 'member'];
+const GROUP_ACTIONS: GroupAction[] = [
+  'add_member',
+  'remove_member',
+  'rename',
+  'change_settings',
+  'change_roles',
+];
+const CREDENTIAL_BASIC = 1;
+const SENDER_MEMBER = 1;
+
+// Запись в TLS presentation language (RFC 9420, раздел 2.1.2): длины векторов - varint
+export class TLSWriter {
+  private buffer: Uint8Array = new Uint8Array(256);
+  private length: number = 0;
+
+  uint8(value: number): this {
+    this.reserve(1);
+    this.buffer[this.length++] = value & 0xff;
+    return this;
+  }
+
+  uint16(value: number): this {
+    return this.uint8(value >>> 8).uint8(value);
+  }
+
+  uint32(value: number): this {
+    return this.uint16(value >>> 16).uint16(value & 0xffff);
+  }
+
+  uint64(value: number): this {
+    return this.uint32(Math.floor(value / 0x100000000)).uint32(value >>> 0);
+  }
+
+  raw(bytes: Uint8Array): this {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+    return this;
+  }
+
+  vector(bytes: Uint8Array): this {
+    return this.varint(bytes.length).raw(bytes);
+  }
+
+  vectorOf<T>(items: T[], write: (writer: TLSWriter, item: T) => void): this {
+    const inner = new TLSWriter();
+    for (const item of items) {
+      write(inner, item);
+    }
+    return this.vector(inner.finish());
+  }
+
+  optional<T>(value: T | undefined, write: (writer: TLSWriter, item: T) => void): this {
+    if (value === undefined) {
+      return this.uint8(0);
+    }
+    this.uint8(1);
+    write(this, value);
+    return this;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private varint(value: number): this {
+    if (value < 0x40) return this.uint8(value);
+    if (value < 0x4000) return this.uint16(0x4000 | value);
+    if (value < 0x40000000) return this.uint32((0x80000000 | value) >>> 0);
+    throw new Error('Vector too long');
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + size));
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+}
+
+// Чтение с проверкой границ: любое нарушение формата - единая ошибка
+export class TLSReader {
+  private data: Uint8Array;
+  private offset: number = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  uint8(): number {
+    this.require(1);
+    return this.data[this.offset++]!;
+  }
+
+  uint16(): number {
+    return (this.uint8() << 8) | this.uint8();
+  }
+
+  uint32(): number {
+    return ((this.uint16() << 16) | this.uint16()) >>> 0;
+  }
+
+  uint64(): number {
+    const high = this.uint32();
+    const low = this.uint32();
+    if (high > 0x1fffff) {
+      throw new Error('Malformed MLS message');
+    }
+    return high * 0x100000000 + low;
+  }
+
+  raw(length: number): Uint8Array {
+    this.require(length);
+    const bytes = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  vector(): Uint8Array {
+    return this.raw(this.varint());
+  }
+
+  vectorOf<T>(read: (reader: TLSReader) => T): T[] {
+    const inner = new TLSReader(this.vector());
+    const items: T[] = [];
+    while (!inner.isDone()) {
+      items.push(read(inner));
+    }
+    return items;
+  }
+
+  optional<T>(read: (reader: TLSReader) => T): T | undefined {
+    const present = this.uint8();
+    if (present > 1) {
+      throw new Error('Malformed MLS message');
+    }
+    return present ? read(this) : undefined;
+  }
+
+  rest(): Uint8Array {
+    return this.raw(this.data.length - this.offset);
+  }
+
+  isDone(): boolean {
+    return this.offset === this.data.length;
+  }
+
+  done(): void {
+    if (!this.isDone()) {
+      throw new Error('Malformed MLS message');
+    }
+  }
+
+  private varint(): number {
+    const first = this.uint8();
+    const prefix = first >> 6;
+    if (prefix === 0) return first;
+    if (prefix === 1) return ((first & 0x3f) << 8) | this.uint8();
+    if (prefix === 2) return (((first & 0x3f) << 24) | (this.uint8() << 16) | this.uint16()) >>> 0;
+    throw new Error('Malformed MLS message');
+  }
+
+  private require(length: number): void {
+    if (length < 0 || this.offset + length > this.data.length) {
+      throw new Error('Malformed MLS message');
+    }
+  }
+}
+
+// Кодирование структур MLS
+export class MLSCodec {
+  static encode<T>(value: T, write: (writer: TLSWriter, value: T) => void): Uint8Array {
+    const writer = new TLSWriter();
+    write(writer, value);
+    return writer.finish();
+  }
+
+  static decode<T>(data: Uint8Array, read: (reader: TLSReader) => T): T {
+    const reader = new TLSReader(data);
+    const value = read(reader);
+    reader.done();
+    return value;
+  }
+
+  static writeExtensions(writer: TLSWriter, extensions: MLSExtension[]): void {
+    writer.vectorOf(extensions, (w, extension) => {
+      w.uint16(extension.extensionType).vector(extension.extensionData);
+    });
+  }
+
+  static readExtensions(reader: TLSReader): MLSExtension[] {
+    return reader.vectorOf(r => ({ extensionType: r.uint16(), extensionData: r.vector() }));
+  }
+
+  static writeCapabilities(writer: TLSWriter, capabilities: MLSCapabilities): void {
+    const writeList = (list: number[]) => writer.vectorOf(list, (w, value) => w.uint16(value));
+    writeList(capabilities.versions);
+    writeList(capabilities.cipherSuites);
+    writeList(capabilities.extensions);
+    writeList(capabilities.proposals);
+    writeList(capabilities.credentials);
+  }
+
+  static readCapabilities(reader: TLSReader): MLSCapabilities {
+    const readList = () => reader.vectorOf(r => r.uint16());
+    return {
+      versions: readList(),
+      cipherSuites: readList(),
+      extensions: readList(),
+      proposals: readList(),
+      credentials: readList(),
+    };
+  }
+
+  // LeafNodeTBS без подписи; для update/commit подпись привязана к группе и позиции в дереве
+  static writeLeafNodeTBS(
+    writer: TLSWriter,
+    leaf: LeafNode,
+    binding?: { groupId: Uint8Array; leafIndex: number }
+  ): void {
+    writer.vector(leaf.encryptionKey).vector(leaf.signatureKey);
+    writer.uint16(CREDENTIAL_BASIC).vector(leaf.identity);
+    MLSCodec.writeCapabilities(writer, leaf.capabilities);
+    writer.uint8(LEAF_NODE_SOURCES.indexOf(leaf.leafNodeSource) + 1);
+
+    if (leaf.leafNodeSource === 'key_package') {
+      writer.uint64(leaf.lifetime!.notBefore).uint64(leaf.lifetime!.notAfter);
+    } else if (leaf.leafNodeSource === 'commit') {
+      writer.vector(leaf.parentHash ?? new Uint8Array(0));
+    }
+
+    MLSCodec.writeExtensions(writer, leaf.extensions);
+
+    if (binding && leaf.leafNodeSource !== 'key_package') {
+      writer.vector(binding.groupId).uint32(binding.leafIndex);
+    }
+  }
+
+  static writeLeafNode(writer: TLSWriter, leaf: LeafNode): void {
+    MLSCodec.writeLeafNodeTBS(writer, leaf);
+    writer.vector(leaf.signature);
+  }
+
+  static readLeafNode(reader: TLSReader): LeafNode {
+    const encryptionKey = reader.vector();
+    const signatureKey = reader.vector();
+    if (reader.uint16() !== CREDENTIAL_BASIC) {
+      throw new Error('Unsupported credential type');
+    }
+    const identity = reader.vector();
+    const capabilities = MLSCodec.readCapabilities(reader);
+
+    const leafNodeSource = LEAF_NODE_SOURCES[reader.uint8() - 1];
+    if (!leafNodeSource) {
+      throw new Error('Malformed MLS message');
+    }
+
+    let lifetime: LeafNode['lifetime'];
+    let parentHash: Uint8Array | undefined;
+    if (leafNodeSource === 'key_package') {
+      lifetime = { notBefore: reader.uint64(), notAfter: reader.uint64() };
+    } else if (leafNodeSource === 'commit') {
+      parentHash = reader.vector();
+    }
+
+    return {
+      encryptionKey,
+      signatureKey,
+      identity,
+      capabilities,
+      leafNodeSource,
+      lifetime,
+      parentHash,
+      extensions: MLSCodec.readExtensions(reader),
+      signature: reader.vector(),
+    };
+  }
+
+  static writeParentNode(writer: TLSWriter, parent: ParentNode): void {
+    writer.vector(parent.encryptionKey).vector(parent.parentHash);
+    writer.vectorOf(parent.unmergedLeaves, (w, leaf) => w.uint32(leaf));
+  }
+
+  static readParentNode(reader: TLSReader): ParentNode {
+    return {
+      encryptionKey: reader.vector(),
+      parentHash: reader.vector(),
+      unmergedLeaves: reader.vectorOf(r => r.uint32()),
+    };
+  }
+
+  static writeNode(writer: TLSWriter, node: TreeNode): void {
+    if (node.type === 'leaf') {
+      writer.uint8(1);
+      MLSCodec.writeLeafNode(writer, node.leaf);
+    } else {
+      writer.uint8(2);
+      MLSCodec.writeParentNode(writer, node.parent);
+    }
+  }
+
+  static readNode(reader: TLSReader): TreeNode {
+    const nodeType = reader.uint8();
+    if (nodeType === 1) return { type: 'leaf', leaf: MLSCodec.readLeafNode(reader) };
+    if (nodeType === 2) return { type: 'parent', parent: MLSCodec.readParentNode(reader) };
+    throw new Error('Malformed MLS message');
+  }
+
+  static writeKeyPackageTBS(writer: TLSWriter, keyPackage: KeyPackage): void {
+    writer.uint16(keyPackage.version).uint16(keyPackage.cipherSuite).vector(keyPackage.initKey);
+    MLSCodec.writeLeafNode(writer, keyPackage.leafNode);
+    MLSCodec.writeExtensions(writer, keyPackage.extensions);
+  }
+
+  static writeKeyPackage(writer: TLSWriter, keyPackage: KeyPackage): void {
+    MLSCodec.writeKeyPackageTBS(writer, keyPackage);
+    writer.vector(keyPackage.signature);
+  }
+
+  static readKeyPackage(reader: TLSReader): KeyPackage {
+    return {
+      version: reader.uint16(),
+      cipherSuite: reader.uint16(),
+      initKey: reader.vector(),
+      leafNode: MLSCodec.readLeafNode(reader),
+      extensions: MLSCodec.readExtensions(reader),
+      signature: reader.vector(),
+    };
+  }
+
+  static writeGroupContext(writer: TLSWriter, context: GroupContext): void {
+    writer.uint16(context.version).uint16(context.cipherSuite).vector(context.groupId);
+    writer.uint64(context.epoch).vector(context.treeHash).vector(context.confirmedTranscriptHash);
+    MLSCodec.writeExtensions(writer, context.extensions);
+  }
+
+  static readGroupContext(reader: TLSReader): GroupContext {
+    return {
+      version: reader.uint16(),
+      cipherSuite: reader.uint16(),
+      groupId: reader.vector(),
+      epoch: reader.uint64(),
+      treeHash: reader.vector(),
+      confirmedTranscriptHash: reader.vector(),
+      extensions: MLSCodec.readExtensions(reader),
+    };
+  }
+
+  static writeHPKECiphertext(writer: TLSWriter, ciphertext: HPKECiphertext): void {
+    writer.vector(ciphertext.kemOutput).vector(ciphertext.ciphertext);
+  }
+
+  static readHPKECiphertext(reader: TLSReader): HPKECiphertext {
+    return { kemOutput: reader.vector(), ciphertext: reader.vector() };
+  }
+
+  // Расширение администрирования группы; роли сортируются, чтобы кодирование было однозначным
+  static writeGroupAdministration(writer: TLSWriter, administration: GroupAdministration): void {
+    const writeString = (w: TLSWriter, value: string) => w.vector(new TextEncoder().encode(value));
+    const writeRole = (w: TLSWriter, role: GroupRole) => w.uint8(GROUP_ROLES.indexOf(role) + 1);
+
+    writer.optional(administration.name, writeString);
+    writer.optional(administration.settings.description, writeString);
+    writer.optional(administration.settings.avatar, writeString);
+    writer.optional(administration.settings.ephemeralTimeout, (w, value) => w.uint32(value));
+    writer.optional(administration.settings.allowedReactions, (w, value) =>
+      w.vectorOf(value, writeString)
+    );
+    writer.optional(administration.settings.multipleReactions, (w, value) =>
+      w.uint8(value ? 1 : 0)
+    );
+
+    for (const action of GROUP_ACTIONS) {
+      writeRole(writer, administration.permissions[action]);
+    }
+
+    const roles = Object.entries(administration.roles)
+      .filter(([, role]) => role !== 'member')
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    writer.vectorOf(roles, (w, [userId, role]) => {
+      writeString(w, userId);
+      writeRole(w, role);
+    });
+  }
+
+  static readGroupAdministration(reader: TLSReader): GroupAdministration {
+    const readString = (r: TLSReader) => new TextDecoder().decode(r.vector());
+    const readRole = (r: TLSReader) => {
+      const role = GROUP_ROLES[r.uint8() - 1];
+      if (!role) {
+        throw new Error('Malformed MLS message');
+      }
+      return role;
+    };
+
+    const name = reader.optional(readString);
+    const settings = {
+      description: reader.optional(readString),
+      avatar: reader.optional(readString),
+      ephemeralTimeout: reader.optional(r => r.uint32()),
+      allowedReactions: reader.optional(r => r.vectorOf(readString)),
+      multipleReactions: reader.optional(r => r.uint8() === 1),
+    };
+
+    const permissions = {} as GroupAdministration['permissions'];
+    for (const action of GROUP_ACTIONS) {
+      permissions[action] = readRole(reader);
+    }
+
+    const roles: Record<string, GroupRole> = {};
+    for (const { userId, role } of reader.vectorOf(r => ({
+      userId: readString(r),
+      role: readRole(r),
+    }))) {
+      roles[userId] = role;
+    }
+
+    return { name, settings, permissions, roles };
+  }
+
+  static writeProposal(writer: TLSWriter, proposal: MLSProposal): void {
+    writer.uint16(PROPOSAL_TYPES[proposal.type]);
+    switch (proposal.type) {
+      case 'add':
+        MLSCodec.writeKeyPackage(writer, proposal.keyPackage);
+        break;
+      case 'update':
+        MLSCodec.writeLeafNode(writer, proposal.leafNode);
+        break;
+      case 'remove':
+        writer.uint32(proposal.removed);
+        break;
+      case 'group_context_extensions':
+        MLSCodec.writeExtensions(writer, proposal.extensions);
+        break;
+    }
+  }
+
+  static readProposal(reader: TLSReader): MLSProposal {
+    switch (reader.uint16()) {
+      case PROPOSAL_TYPES.add:
+        return { type: 'add', keyPackage: MLSCodec.readKeyPackage(reader) };
+      case PROPOSAL_TYPES.update:
+        return { type: 'update', leafNode: MLSCodec.readLeafNode(reader) };
+      case PROPOSAL_TYPES.remove:
+        return { type: 'remove', removed: reader.uint32() };
+      case PROPOSAL_TYPES.group_context_extensions:
+        return { type: 'group_context_extensions', extensions: MLSCodec.readExtensions(reader) };
+      default:
+        throw new Error('Unsupported proposal type');
+    }
+  }
+
+  static writeUpdatePath(writer: TLSWriter, path: UpdatePath): void {
+    MLSCodec.writeLeafNode(writer, path.leafNode);
+    writer.vectorOf(path.nodes, (w, node) => {
+      w.vector(node.encryptionKey);
+      w.vectorOf(node.encryptedPathSecret, MLSCodec.writeHPKECiphertext);
+    });
+  }
+
+  static readUpdatePath(reader: TLSReader): UpdatePath {
+    return {
+      leafNode: MLSCodec.readLeafNode(reader),
+      nodes: reader.vectorOf(r => ({
+        encryptionKey: r.vector(),
+        encryptedPathSecret: r.vectorOf(MLSCodec.readHPKECiphertext),
+      })),
+    };
+  }
+
+  static writeCommit(writer: TLSWriter, commit: Commit): void {
+    writer.vectorOf(commit.proposals, (w, item: ProposalOrRef) => {
+      if (item.type === 'proposal') {
+        w.uint8(1);
+        MLSCodec.writeProposal(w, item.proposal);
+      } else {
+        w.uint8(2).vector(item.reference);
+      }
+    });
+    writer.optional(commit.path, MLSCodec.writeUpdatePath);
+  }
+
+  static readCommit(reader: TLSReader): Commit {
+    const proposals = reader.vectorOf((r): ProposalOrRef => {
+      const type = r.uint8();
+      if (type === 1) return { type: 'proposal', proposal: MLSCodec.readProposal(r) };
+      if (type === 2) return { type: 'reference', reference: r.vector() };
+      throw new Error('Malformed MLS message');
+    });
+    return { proposals, path: reader.optional(MLSCodec.readUpdatePath) };
+  }
+
+  static writeContentBody(writer: TLSWriter, body: FramedContentBody): void {
+    if (body.contentType === 'application') {
+      writer.vector(body.applicationData);
+    } else if (body.contentType === 'proposal') {
+      MLSCodec.writeProposal(writer, body.proposal);
+    } else {
+      MLSCodec.writeCommit(writer, body.commit);
+    }
+  }
+
+  static readContentBody(
+    reader: TLSReader,
+    contentType: FramedContentBody['contentType']
+  ): FramedContentBody {
+    if (contentType === 'application') {
+      return { contentType, applicationData: reader.vector() };
+    }
+    if (contentType === 'proposal') {
+      return { contentType, proposal: MLSCodec.readProposal(reader) };
+    }
+    return { contentType, commit: MLSCodec.readCommit(reader) };
+  }
+
+  static writeContentType(writer: TLSWriter, contentType: FramedContentBody['contentType']): void {
+    writer.uint8(CONTENT_TYPES.indexOf(contentType) + 1);
+  }
+
+  static readContentType(reader: TLSReader): FramedContentBody['contentType'] {
+    const contentType = CONTENT_TYPES[reader.uint8() - 1];
+    if (!contentType) {
+      throw new Error('Malformed MLS message');
+    }
+    return contentType;
+  }
+
+  static writeFramedContent(writer: TLSWriter, content: FramedContent): void {
+    writer.vector(content.groupId).uint64(content.epoch);
+    writer.uint8(SENDER_MEMBER).uint32(content.sender);
+    writer.vector(content.authenticatedData);
+    MLSCodec.writeContentType(writer, content.contentType);
+    MLSCodec.writeContentBody(writer, content);
+  }
+
+  static readFramedContent(reader: TLSReader): FramedContent {
+    const groupId = reader.vector();
+    const epoch = reader.uint64();
+    if (reader.uint8() !== SENDER_MEMBER) {
+      throw new Error('Unsupported sender type');
+    }
+    const sender = reader.uint32();
+    const authenticatedData = reader.vector();
+    const contentType = MLSCodec.readContentType(reader);
+
+    return {
+      groupId,
+      epoch,
+      sender,
+      authenticatedData,
+      ...MLSCodec.readContentBody(reader, contentType),
+    };
+  }
+
+  // FramedContentTBS: подписывается отправителем вместе с контекстом группы
+  static encodeFramedContentTBS(
+    wireFormat: MLSMessage['wireFormat'],
+    content: FramedContent,
+    context: GroupContext
+  ): Uint8Array {
+    const writer = new TLSWriter();
+    writer.uint16(MLS_VERSION).uint16(WIRE_FORMATS.indexOf(wireFormat) + 1);
+    MLSCodec.writeFramedContent(writer, content);
+    MLSCodec.writeGroupContext(writer, context);
+    return writer.finish();
+  }
+
+  static writeAuthData(
+    writer: TLSWriter,
+    contentType: FramedContentBody['contentType'],
+    signature: Uint8Array,
+    confirmationTag?: Uint8Array
+  ): void {
+    writer.vector(signature);
+    if (contentType === 'commit') {
+      writer.vector(confirmationTag ?? new Uint8Array(0));
+    }
+  }
+
+  static encodeWireFormat(wireFormat: MLSMessage['wireFormat']): number {
+    return WIRE_FORMATS.indexOf(wireFormat) + 1;
+  }
+
+  static writePrivateMessage(writer: TLSWriter, message: PrivateMessage): void {
+    writer.vector(message.groupId).uint64(message.epoch);
+    MLSCodec.writeContentType(writer, message.contentType);
+    writer.vector(message.authenticatedData);
+    writer.vector(message.encryptedSenderData).vector(message.ciphertext);
+  }
+
+  static readPrivateMessage(reader: TLSReader): PrivateMessage {
+    return {
+      groupId: reader.vector(),
+      epoch: reader.uint64(),
+      contentType: MLSCodec.readContentType(reader),
+      authenticatedData: reader.vector(),
+      encryptedSenderData: reader.vector(),
+      ciphertext: reader.vector(),
+    };
+  }
+
+  static writeGroupInfoTBS(writer: TLSWriter, groupInfo: GroupInfo): void {
+    MLSCodec.writeGroupContext(writer, groupInfo.groupContext);
+    MLSCodec.writeExtensions(writer, groupInfo.extensions);
+    writer.vector(groupInfo.confirmationTag).uint32(groupInfo.signer);
+  }
+
+  static writeGroupInfo(writer: TLSWriter, groupInfo: GroupInfo): void {
+    MLSCodec.writeGroupInfoTBS(writer, groupInfo);
+    writer.vector(groupInfo.signature);
+  }
+
+  static readGroupInfo(reader: TLSReader): GroupInfo {
+    return {
+      groupContext: MLSCodec.readGroupContext(reader),
+      extensions: MLSCodec.readExtensions(reader),
+      confirmationTag: reader.vector(),
+      signer: reader.uint32(),
+      signature: reader.vector(),
+    };
+  }
+
+  static writeWelcome(writer: TLSWriter, welcome: Welcome): void {
+    writer.uint16(welcome.cipherSuite);
+    writer.vectorOf(welcome.secrets, (w, secret) => {
+      w.vector(secret.newMember);
+      MLSCodec.writeHPKECiphertext(w, secret.encryptedGroupSecrets);
+    });
+    writer.vector(welcome.encryptedGroupInfo);
+  }
+
+  static readWelcome(reader: TLSReader): Welcome {
+    return {
+      cipherSuite: reader.uint16(),
+      secrets: reader.vectorOf(r => ({
+        newMember: r.vector(),
+        encryptedGroupSecrets: MLSCodec.readHPKECiphertext(r),
+      })),
+      encryptedGroupInfo: reader.vector(),
+    };
+  }
+
+  static encodeMessage(message: MLSMessage): Uint8Array {
+    const writer = new TLSWriter();
+    writer.uint16(MLS_VERSION).uint16(MLSCodec.encodeWireFormat(message.wireFormat));
+
+    switch (message.wireFormat) {
+      case 'public': {
+        const { content, signature, confirmationTag, membershipTag } = message.message;
+        MLSCodec.writeFramedContent(writer, content);
+        MLSCodec.writeAuthData(writer, content.contentType, signature, confirmationTag);
+        writer.vector(membershipTag);
+        break;
+      }
+      case 'private':
+        MLSCodec.writePrivateMessage(writer, message.message);
+        break;
+      case 'welcome':
+        MLSCodec.writeWelcome(writer, message.message);
+        break;
+      case 'group_info':
+        MLSCodec.writeGroupInfo(writer, message.message);
+        break;
+      case 'key_package':
+        MLSCodec.writeKeyPackage(writer, message.message);
+        break;
+    }
+
+    return writer.finish();
+  }
+
+  static decodeMessage(data: Uint8Array): MLSMessage {
+    return MLSCodec.decode(data, reader => {
+      if (reader.uint16() !== MLS_VERSION) {
+        throw new Error('Unsupported MLS version');
+      }
+
+      const wireFormat = WIRE_FORMATS[reader.uint16() - 1];
+      switch (wireFormat) {
+        case 'public': {
+          const content = MLSCodec.readFramedContent(reader);
+          const signature = reader.vector();
+          const confirmationTag = content.contentType === 'commit' ? reader.vector() : undefined;
+          return {
+            wireFormat,
+            message: { content, signature, confirmationTag, membershipTag: reader.vector() },
+          };
+        }
+        case 'private':
+          return { wireFormat, message: MLSCodec.readPrivateMessage(reader) };
+        case 'welcome':
+          return { wireFormat, message: MLSCodec.readWelcome(reader) };
+        case 'group_info':
+          return { wireFormat, message: MLSCodec.readGroupInfo(reader) };
+        case 'key_package':
+          return { wireFormat, message: MLSCodec.readKeyPackage(reader) };
+        default:
+          throw new Error('Malformed MLS message');
+      }
+    });
+  }
+}
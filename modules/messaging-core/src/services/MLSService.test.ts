@@ -0,0 +1,372 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import { MLSService } from './MLSService';
+import { InMemorySessionStore } from './SessionStore';
+import type { ISessionStore, MLSConfig, MLSHandshakeEvent, MLSWelcomeEvent } from '../types';
+
+async function createClient(
+  userId: string,
+  store: ISessionStore,
+  config: MLSConfig = {}
+): Promise<MLSService> {
+  const client = new MLSService(userId, config, store);
+  await client.initialize();
+  return client;
+}
+
+// Welcome из следующего commit владельца группы
+function nextWelcome(owner: MLSService): Promise<Uint8Array> {
+  return new Promise(resolve => {
+    owner.once('welcome', (event: MLSWelcomeEvent) => resolve(event.message));
+  });
+}
+
+// Группа в памяти: handshake доставляется участникам на момент отправки, welcome - новым
+// участникам, всё в порядке отправки
+class MemoryGroup {
+  members: Set<string> = new Set();
+  private queue: Array<
+    | { kind: 'handshake'; from: string; message: Uint8Array; recipients: string[] }
+    | { kind: 'welcome'; message: Uint8Array; recipients: string[] }
+  > = [];
+
+  constructor(
+    private groupId: string,
+    private clients: Map<string, MLSService>
+  ) {
+    for (const [userId, client] of clients) {
+      client.on('handshake', (event: MLSHandshakeEvent) => {
+        const recipients = Array.from(this.members).filter(member => member !== userId);
+        this.queue.push({ kind: 'handshake', from: userId, message: event.message, recipients });
+      });
+      client.on('welcome', (event: MLSWelcomeEvent) => {
+        this.queue.push({ kind: 'welcome', message: event.message, recipients: event.recipients });
+      });
+    }
+  }
+
+  client(userId: string): MLSService {
+    return this.clients.get(userId)!;
+  }
+
+  async flush(): Promise<void> {
+    for (let item = this.queue.shift(); item; item = this.queue.shift()) {
+      for (const recipient of item.recipients) {
+        if (item.kind === 'handshake') {
+          await this.client(recipient).processHandshakeMessage(this.groupId, item.message);
+        } else {
+          await this.client(recipient).processWelcome(item.message);
+          this.members.add(recipient);
+        }
+      }
+    }
+  }
+
+  // Все участники в одной эпохе с одинаковыми деревом и секретами
+  expectAgreement(): number {
+    const [first, ...rest] = Array.from(this.members).map(member => this.client(member));
+    const group = first!.getGroup(this.groupId)!;
+    const exported = first!.exportSecret(this.groupId, 'test', new Uint8Array(0), 32);
+
+    for (const client of rest) {
+      expect(client.getGroup(this.groupId)!.epoch).toBe(group.epoch);
+      expect(client.getGroup(this.groupId)!.treeHash).toEqual(group.treeHash);
+      expect(client.getEpochAuthenticator(this.groupId)).toEqual(
+        first!.getEpochAuthenticator(this.groupId)
+      );
+      expect(client.exportSecret(this.groupId, 'test', new Uint8Array(0), 32)).toEqual(exported);
+    }
+    return group.epoch;
+  }
+
+  async expectDelivery(senderId: string): Promise<void> {
+    const text = `from ${senderId}`;
+    const encrypted = await this.client(senderId).encryptGroupMessage(
+      this.groupId,
+      sodium.from_string(text)
+    );
+    for (const member of this.members) {
+      if (member === senderId) continue;
+      const received = await this.client(member).decryptGroupMessage(this.groupId, encrypted);
+      expect(received.senderId).toBe(senderId);
+      expect(sodium.to_string(received.applicationData)).toBe(text);
+    }
+  }
+}
+
+describe('MLSService', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  describe('persistence', () => {
+    it('restores groups and continues sending generations after a restart', async () => {
+      const alice = await createClient('alice', new InMemorySessionStore());
+      const bobStore = new InMemorySessionStore();
+      const bob = await createClient('bob', bobStore);
+
+      await alice.registerKeyPackage(await bob.generateKeyPackage());
+      const welcome = nextWelcome(alice);
+      await alice.createGroup('group', ['bob']);
+      await bob.processWelcome(await welcome);
+
+      const before = await bob.encryptGroupMessage('group', sodium.from_string('before'));
+      expect(
+        sodium.to_string((await alice.decryptGroupMessage('group', before)).applicationData)
+      ).toBe('before');
+
+      const restarted = await createClient('bob', bobStore);
+      expect(sodium.compare(restarted.getSignatureKey(), bob.getSignatureKey())).toBe(0);
+      expect(restarted.getGroup('group')?.epoch).toBe(1);
+
+      // Повтор поколения после перезапуска отклонился бы как повторное сообщение
+      const after = await restarted.encryptGroupMessage('group', sodium.from_string('after'));
+      const received = await alice.decryptGroupMessage('group', after);
+      expect(received.senderId).toBe('bob');
+      expect(sodium.to_string(received.applicationData)).toBe('after');
+
+      const reply = await alice.encryptGroupMessage('group', sodium.from_string('reply'));
+      expect(
+        sodium.to_string((await restarted.decryptGroupMessage('group', reply)).applicationData)
+      ).toBe('reply');
+    });
+
+    it('joins with a key package generated before a restart', async () => {
+      const alice = await createClient('alice', new InMemorySessionStore());
+      const carolStore = new InMemorySessionStore();
+      const carol = await createClient('carol', carolStore);
+
+      const keyPackage = await carol.generateKeyPackage();
+      const restarted = await createClient('carol', carolStore);
+
+      await alice.registerKeyPackage(keyPackage);
+      const welcome = nextWelcome(alice);
+      await alice.createGroup('group', ['carol']);
+      const group = await restarted.processWelcome(await welcome);
+      expect(group.members.map(member => member.userId).sort()).toEqual(['alice', 'carol']);
+
+      // Одноразовый key package удаляется и из хранилища
+      expect((await carolStore.loadMLSState()).keyPackages.size).toBe(0);
+    });
+  });
+
+  describe('past epochs', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('decrypts late messages within the window and deletes their keys after it', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const start = Date.now();
+      const config = { epochRetentionTime: 60 * 1000 };
+
+      const aliceStore = new InMemorySessionStore();
+      const alice = await createClient('alice', aliceStore, config);
+      const bob = await createClient('bob', new InMemorySessionStore(), config);
+      await alice.registerKeyPackage(await bob.generateKeyPackage());
+      const welcome = nextWelcome(alice);
+      await alice.createGroup('group', ['bob']);
+      await bob.processWelcome(await welcome);
+
+      // Оба сообщения отправлены в эпохе 1 и дошли после commit Alice
+      const late = await bob.encryptGroupMessage('group', sodium.from_string('late'));
+      const tooLate = await bob.encryptGroupMessage('group', sodium.from_string('too late'));
+      await alice.updateKeys('group');
+      expect(alice.getGroup('group')?.epoch).toBe(2);
+
+      vi.setSystemTime(start + 30 * 1000);
+      const received = await alice.decryptGroupMessage('group', late);
+      expect(sodium.to_string(received.applicationData)).toBe('late');
+
+      vi.setSystemTime(start + 61 * 1000);
+      await expect(alice.decryptGroupMessage('group', tooLate)).rejects.toThrow(
+        'Message epoch too old: keys already deleted'
+      );
+
+      // Секреты удалены и из хранилища: загрузка внутри окна их уже не находит
+      vi.setSystemTime(start + 30 * 1000);
+      const restarted = await createClient('alice', aliceStore, config);
+      await expect(restarted.decryptGroupMessage('group', tooLate)).rejects.toThrow(
+        'Message epoch too old: keys already deleted'
+      );
+    });
+  });
+
+  describe('epoch agreement', () => {
+    it('keeps all members on the same epoch secrets across adds, removes and updates', async () => {
+      const userIds = ['alice', 'bob', 'carol', 'dave', 'erin'];
+      const clients = new Map<string, MLSService>();
+      for (const userId of userIds) {
+        clients.set(userId, await createClient(userId, new InMemorySessionStore()));
+      }
+      for (const [userId, client] of clients) {
+        const keyPackage = await client.generateKeyPackage();
+        for (const other of userIds) {
+          if (other !== userId) await clients.get(other)!.registerKeyPackage(keyPackage);
+        }
+      }
+
+      const group = new MemoryGroup('group', clients);
+      group.members.add('alice');
+      await group.client('alice').createGroup('group', ['alice', 'bob', 'carol'], {
+        permissions: { remove_member: 'member' },
+      });
+      await group.flush();
+      const epochs = [group.expectAgreement()];
+      await group.expectDelivery('bob');
+
+      await group.client('bob').addMember('group', 'dave');
+      await group.flush();
+      epochs.push(group.expectAgreement());
+      await group.expectDelivery('dave');
+
+      await group.client('carol').updateKeys('group');
+      await group.flush();
+      epochs.push(group.expectAgreement());
+
+      // Предложения обновления от разных участников применяются одним commit
+      await group.client('dave').proposeUpdate('group');
+      await group.client('bob').proposeUpdate('group');
+      await group.flush();
+      await group.client('alice').commitPendingProposals('group');
+      await group.flush();
+      epochs.push(group.expectAgreement());
+      await group.expectDelivery('alice');
+
+      await group.client('carol').removeMember('group', 'bob');
+      await group.flush();
+      group.members.delete('bob');
+      expect(group.client('bob').getGroup('group')).toBeNull();
+      epochs.push(group.expectAgreement());
+      await group.expectDelivery('carol');
+
+      // Добавление и удаление в одном commit
+      await group.client('dave').proposeAdd('group', 'erin');
+      await group.client('alice').proposeRemove('group', 'carol');
+      await group.flush();
+      await group.client('dave').commitPendingProposals('group');
+      await group.flush();
+      group.members.delete('carol');
+      expect(group.client('carol').getGroup('group')).toBeNull();
+      epochs.push(group.expectAgreement());
+      await group.expectDelivery('erin');
+
+      expect(Array.from(group.members).sort()).toEqual(['alice', 'dave', 'erin']);
+      expect(
+        group
+          .client('erin')
+          .getGroup('group')!
+          .members.map(member => member.userId)
+          .sort()
+      ).toEqual(['alice', 'dave', 'erin']);
+      expect(epochs).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+  });
+
+  describe('authorization', () => {
+    // alice - владелец, bob - администратор, carol - участник
+    async function createAdministeredGroup(): Promise<MemoryGroup> {
+      const clients = new Map<string, MLSService>();
+      for (const userId of ['alice', 'bob', 'carol']) {
+        clients.set(userId, await createClient(userId, new InMemorySessionStore()));
+      }
+      for (const userId of ['bob', 'carol']) {
+        await clients
+          .get('alice')!
+          .registerKeyPackage(await clients.get(userId)!.generateKeyPackage());
+      }
+
+      const group = new MemoryGroup('group', clients);
+      group.members.add('alice');
+      await group.client('alice').createGroup('group', ['alice', 'bob', 'carol']);
+      await group.flush();
+      await group.client('alice').setMemberRole('group', 'bob', 'admin');
+      await group.flush();
+      return group;
+    }
+
+    // Commit изменённого клиента, который не проверяет политику у себя
+    async function forgeCommit(
+      client: MLSService,
+      action: () => Promise<void>
+    ): Promise<Uint8Array> {
+      const bypass = vi
+        .spyOn(client as unknown as { isAuthorized(): boolean }, 'isAuthorized')
+        .mockReturnValue(true);
+      const handshake = new Promise<Uint8Array>(resolve => {
+        client.once('handshake', (event: MLSHandshakeEvent) => resolve(event.message));
+      });
+      try {
+        await action();
+      } finally {
+        bypass.mockRestore();
+      }
+      return handshake;
+    }
+
+    async function expectRejected(group: MemoryGroup, recipients: string[], commit: Uint8Array) {
+      for (const userId of recipients) {
+        const epoch = group.client(userId).getGroup('group')!.epoch;
+        await expect(group.client(userId).processHandshakeMessage('group', commit)).rejects.toThrow(
+          'Commit contains a proposal not authorized by group policy'
+        );
+        expect(group.client(userId).getGroup('group')!.epoch).toBe(epoch);
+      }
+    }
+
+    it('rejects a commit from a demoted admin', async () => {
+      const group = await createAdministeredGroup();
+      const bob = group.client('bob');
+      await group.client('alice').setMemberRole('group', 'bob', 'member');
+      await group.flush();
+
+      await expect(bob.removeMember('group', 'carol')).rejects.toThrow(
+        'Not authorized by group policy'
+      );
+      const commit = await forgeCommit(bob, () => bob.removeMember('group', 'carol'));
+      await expectRejected(group, ['alice', 'carol'], commit);
+    });
+
+    it('rejects a member promoting themselves', async () => {
+      const group = await createAdministeredGroup();
+      const carol = group.client('carol');
+
+      await expect(carol.setMemberRole('group', 'carol', 'admin')).rejects.toThrow(
+        'Not authorized by group policy'
+      );
+      const commit = await forgeCommit(carol, () => carol.setMemberRole('group', 'carol', 'owner'));
+      await expectRejected(group, ['alice', 'bob'], commit);
+    });
+
+    it('rejects removing the last owner', async () => {
+      const group = await createAdministeredGroup();
+      const bob = group.client('bob');
+      const epoch = bob.getGroup('group')!.epoch;
+
+      await expect(group.client('alice').setMemberRole('group', 'alice', 'member')).rejects.toThrow(
+        'Not authorized by group policy'
+      );
+      await expect(bob.removeMember('group', 'alice')).rejects.toThrow(
+        'Not authorized by group policy'
+      );
+      // Без владельца группа не сходится даже в обход политики
+      await expect(forgeCommit(bob, () => bob.removeMember('group', 'alice'))).rejects.toThrow(
+        'Group must keep an owner'
+      );
+      expect(bob.getGroup('group')!.epoch).toBe(epoch);
+    });
+
+    it('rejects removing the administration extension', async () => {
+      const group = await createAdministeredGroup();
+      const bob = group.client('bob');
+
+      // Переименование, из которого пропало расширение с ролями и правами
+      const strip = vi
+        .spyOn(bob as unknown as { replaceAdministration(): unknown[] }, 'replaceAdministration')
+        .mockReturnValue([]);
+      const commit = await forgeCommit(bob, () => bob.renameGroup('group', 'free for all'));
+      strip.mockRestore();
+      await expectRejected(group, ['alice', 'carol'], commit);
+    });
+  });
+});
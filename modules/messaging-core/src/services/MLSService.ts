@@ -0,0 +1,2073 @@
+import sodium from 'libsodium-wrappers';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { MLSCipherSuite, MLS_CIPHER_SUITE } from './MLSCipherSuite';
+import { MLSCodec, TLSWriter, TLSReader, MLS_VERSION } from './MLSCodec';
+import { RatchetTree } from './RatchetTree';
+import { SecretTree } from './SecretTree';
+import { InMemorySessionStore } from './SessionStore';
+import { GroupAdministrationModel } from '../models/GroupAdministration';
+import type {
+  IMLSService,
+  ISessionStore,
+  GroupSession,
+  GroupMember,
+  Proposal,
+  EncryptedMessage,
+  GroupPlaintext,
+  KeyPair,
+  KeyPackage,
+  KeyPackageInfo,
+  LeafNode,
+  MLSConfig,
+  GroupContext,
+  GroupInfo,
+  MLSProposal,
+  ProposalOrRef,
+  UpdatePath,
+  FramedContent,
+  MLSExtension,
+  GroupAdministration,
+  GroupAction,
+  GroupCreateOptions,
+  GroupPermissions,
+  GroupRole,
+  GroupSettings,
+  MLSHandshakeEvent,
+  MLSWelcomeEvent,
+} from '../types';
+
+const RATCHET_TREE_EXTENSION = 0x0002;
+const LAST_RESORT_EXTENSION = 0x000a;
+const GROUP_ADMINISTRATION_EXTENSION = 0xf000; // Диапазон private use
+
+interface EpochSecrets {
+  senderDataSecret: Uint8Array;
+  encryptionSecret: Uint8Array;
+  exporterSecret: Uint8Array;
+  confirmationKey: Uint8Array;
+  membershipKey: Uint8Array;
+  epochAuthenticator: Uint8Array;
+  initSecret: Uint8Array;
+}
+
+interface PendingProposal {
+  ref: Uint8Array;
+  proposal: MLSProposal;
+  sender: number;
+  receivedAt: Date;
+}
+
+interface ResolvedProposal {
+  proposal: MLSProposal;
+  sender: number;
+  ref?: string;
+}
+
+// Секреты прошлой эпохи, достаточные только для расшифровки опоздавших сообщений
+interface EpochHistoryEntry {
+  context: GroupContext;
+  tree: RatchetTree;
+  senderDataSecret: Uint8Array;
+  secretTree: SecretTree;
+  retiredAt: number;
+}
+
+interface GroupState {
+  groupId: string;
+  context: GroupContext;
+  tree: RatchetTree;
+  ownLeaf: number;
+  privateKeys: Map<number, Uint8Array>; // HPKE ключи узлов дерева, известные нам
+  secrets: EpochSecrets;
+  secretTree: SecretTree;
+  pastEpochs: Map<number, EpochHistoryEntry>; // Ключ - номер эпохи
+  interimTranscriptHash: Uint8Array;
+  pendingProposals: Map<string, PendingProposal>; // Ключ - ProposalRef в hex
+  pendingUpdates: Map<string, Uint8Array>; // Приватные ключи наших Update proposals
+  memberInfo: Map<string, { addedBy: string; addedAt: Date }>;
+}
+
+interface KeyPackageSecrets {
+  keyPackage: KeyPackage;
+  initPrivateKey: Uint8Array;
+  encryptionPrivateKey: Uint8Array;
+}
+
+// MLS (RFC 9420): TreeKEM, key schedule, secret tree, Commit/Welcome/Proposal.
+// Handshake сообщения передаются как PublicMessage, прикладные - как PrivateMessage.
+// Ключ подписи, секреты key packages и состояние групп сохраняются в ISessionStore
+// после каждого изменения, в том числе после отправки сообщения.
+// События: 'handshake' (MLSHandshakeEvent) - разослать участникам группы,
+// 'welcome' (MLSWelcomeEvent) - отправить новым участникам, 'removed' (groupId)
+export class MLSService extends EventEmitter implements IMLSService {
+  private groups: Map<string, GroupState> = new Map();
+  private keyPackages: Map<string, KeyPackage> = new Map(); // Полученные key packages других пользователей
+  private keyPackageSecrets: Map<string, KeyPackageSecrets> = new Map(); // Ключ - KeyPackageRef в hex
+  private signatureKeyPair: KeyPair | null = null;
+  private store: ISessionStore;
+  private suite: MLSCipherSuite;
+  private userId: string;
+  private keyPackageLifetime: number = 30 * 24 * 60 * 60; // 30 дней, в секундах
+  private paddingBlockSize: number = 32;
+  private epochRetention: number; // Сколько прошлых эпох хранить для опоздавших сообщений
+  private epochRetentionTime: number; // Максимальное время хранения прошлой эпохи, мс
+
+  constructor(
+    userId: string,
+    config: MLSConfig = {},
+    store: ISessionStore = new InMemorySessionStore()
+  ) {
+    super();
+    this.userId = userId;
+    this.store = store;
+    this.suite = new MLSCipherSuite();
+    this.epochRetention = config.epochRetention ?? 3;
+    this.epochRetentionTime = config.epochRetentionTime ?? 5 * 60 * 1000;
+  }
+
+  async initialize(): Promise<void> {
+    await sodium.ready;
+
+    // Ключ подписи MLS клиента (credential - BasicCredential с userId). Создаётся один раз:
+    // с новым ключом наши листья в группах и опубликованные key packages стали бы недействительны
+    const saved = await this.store.loadMLSState();
+    this.signatureKeyPair = saved.signatureKeyPair;
+    if (!this.signatureKeyPair) {
+      this.signatureKeyPair = this.suite.generateSignatureKeyPair();
+      await this.store.storeMLSSignatureKey(this.signatureKeyPair);
+    }
+
+    for (const [ref, data] of saved.keyPackages) {
+      this.keyPackageSecrets.set(
+        ref,
+        MLSCodec.decode(data, reader => this.readKeyPackageSecrets(reader))
+      );
+    }
+    for (const [groupId, data] of saved.groups) {
+      let state: GroupState;
+      try {
+        state = MLSCodec.decode(data, reader => this.readGroupState(reader));
+      } catch (error) {
+        console.error(`Failed to restore MLS group ${groupId}:`, error);
+        continue;
+      }
+      this.groups.set(groupId, state);
+      if (this.prunePastEpochs(state)) await this.saveGroup(state);
+    }
+  }
+
+  // Key package для публикации: по нему нас можно добавить в группу без нашего участия.
+  // Last resort key package не удаляется после использования и выдаётся, когда одноразовые закончились
+  async generateKeyPackage(lastResort = false): Promise<Uint8Array> {
+    const initKey = this.suite.generateKeyPair();
+    const encryptionKey = this.suite.generateKeyPair();
+    const now = Math.floor(Date.now() / 1000);
+
+    const leafNode = this.signLeafNode({
+      encryptionKey: encryptionKey.publicKey,
+      signatureKey: this.getSignatureKeyPair().publicKey,
+      identity: new TextEncoder().encode(this.userId),
+      capabilities: this.capabilities(),
+      leafNodeSource: 'key_package',
+      lifetime: { notBefore: now - 3600, notAfter: now + this.keyPackageLifetime },
+      extensions: [],
+      signature: new Uint8Array(0),
+    });
+
+    const keyPackage: KeyPackage = {
+      version: MLS_VERSION,
+      cipherSuite: MLS_CIPHER_SUITE,
+      initKey: initKey.publicKey,
+      leafNode,
+      extensions: lastResort
+        ? [{ extensionType: LAST_RESORT_EXTENSION, extensionData: new Uint8Array(0) }]
+        : [],
+      signature: new Uint8Array(0),
+    };
+    keyPackage.signature = this.suite.signWithLabel(
+      this.getSignatureKeyPair().privateKey,
+      'KeyPackageTBS',
+      MLSCodec.encode(keyPackage, MLSCodec.writeKeyPackageTBS)
+    );
+
+    const secrets: KeyPackageSecrets = {
+      keyPackage,
+      initPrivateKey: initKey.privateKey,
+      encryptionPrivateKey: encryptionKey.privateKey,
+    };
+    const ref = sodium.to_hex(this.keyPackageRef(keyPackage));
+    this.keyPackageSecrets.set(ref, secrets);
+    await this.store.storeMLSKeyPackage(
+      ref,
+      MLSCodec.encode(secrets, (writer, value) => this.writeKeyPackageSecrets(writer, value))
+    );
+
+    return MLSCodec.encodeMessage({ wireFormat: 'key_package', message: keyPackage });
+  }
+
+  // Проверка подписи и срока действия key package без сохранения
+  async inspectKeyPackage(data: Uint8Array): Promise<KeyPackageInfo> {
+    await sodium.ready;
+
+    const message = MLSCodec.decodeMessage(data);
+    if (message.wireFormat !== 'key_package') {
+      throw new Error('Unexpected MLS wire format');
+    }
+
+    const keyPackage = message.message;
+    this.validateKeyPackage(keyPackage);
+
+    return {
+      ref: sodium.to_hex(this.keyPackageRef(keyPackage)),
+      userId: new TextDecoder().decode(keyPackage.leafNode.identity),
+      signatureKey: keyPackage.leafNode.signatureKey,
+      notAfter: new Date(keyPackage.leafNode.lifetime!.notAfter * 1000),
+      lastResort: keyPackage.extensions.some(e => e.extensionType === LAST_RESORT_EXTENSION),
+    };
+  }
+
+  // Key package другого пользователя; используется при добавлении его в группу
+  async registerKeyPackage(data: Uint8Array): Promise<KeyPackageInfo> {
+    const info = await this.inspectKeyPackage(data);
+
+    const message = MLSCodec.decodeMessage(data);
+    if (message.wireFormat === 'key_package') {
+      this.keyPackages.set(info.userId, message.message);
+    }
+    return info;
+  }
+
+  // Наш key package ещё не использован (ref в hex)
+  hasKeyPackage(ref: string): boolean {
+    return this.keyPackageSecrets.has(ref);
+  }
+
+  async deleteKeyPackage(ref: string): Promise<void> {
+    const secrets = this.keyPackageSecrets.get(ref);
+    if (!secrets) return;
+
+    sodium.memzero(secrets.initPrivateKey);
+    sodium.memzero(secrets.encryptionPrivateKey);
+    this.keyPackageSecrets.delete(ref);
+    await this.store.deleteMLSKeyPackage(ref);
+  }
+
+  getSignatureKey(): Uint8Array {
+    return this.getSignatureKeyPair().publicKey;
+  }
+
+  // Создатель становится владельцем; роли и права хранятся в расширении GroupContext
+  async createGroup(
+    groupId: string,
+    memberIds: string[],
+    options: GroupCreateOptions = {}
+  ): Promise<GroupSession> {
+    if (this.groups.has(groupId)) {
+      throw new Error('Group already exists');
+    }
+
+    // Дерево из одного листа создателя
+    const encryptionKey = this.suite.generateKeyPair();
+    const now = Math.floor(Date.now() / 1000);
+    const leaf = this.signLeafNode({
+      encryptionKey: encryptionKey.publicKey,
+      signatureKey: this.getSignatureKeyPair().publicKey,
+      identity: new TextEncoder().encode(this.userId),
+      capabilities: this.capabilities(),
+      leafNodeSource: 'key_package',
+      lifetime: { notBefore: now - 3600, notAfter: now + this.keyPackageLifetime },
+      extensions: [],
+      signature: new Uint8Array(0),
+    });
+    const tree = RatchetTree.create(this.suite, leaf);
+
+    const context: GroupContext = {
+      version: MLS_VERSION,
+      cipherSuite: MLS_CIPHER_SUITE,
+      groupId: new TextEncoder().encode(groupId),
+      epoch: 0,
+      treeHash: tree.treeHash(),
+      confirmedTranscriptHash: new Uint8Array(0),
+      extensions: [
+        this.encodeAdministration(GroupAdministrationModel.create(this.userId, options)),
+      ],
+    };
+
+    // Эпоха 0: случайный init_secret и нулевой commit_secret
+    const { secrets } = this.keySchedule(
+      sodium.randombytes_buf(this.suite.Nh),
+      new Uint8Array(this.suite.Nh),
+      context
+    );
+    const confirmationTag = this.suite.mac(
+      secrets.confirmationKey,
+      context.confirmedTranscriptHash
+    );
+
+    const state: GroupState = {
+      groupId,
+      context,
+      tree,
+      ownLeaf: 0,
+      privateKeys: new Map([[0, encryptionKey.privateKey]]),
+      secrets,
+      secretTree: new SecretTree(this.suite, secrets.encryptionSecret, tree.leafCount),
+      pastEpochs: new Map(),
+      interimTranscriptHash: this.interimTranscriptHash(
+        context.confirmedTranscriptHash,
+        confirmationTag
+      ),
+      pendingProposals: new Map(),
+      pendingUpdates: new Map(),
+      memberInfo: new Map([[this.userId, { addedBy: this.userId, addedAt: new Date() }]]),
+    };
+    this.groups.set(groupId, state);
+    await this.saveGroup(state);
+
+    // Остальные участники добавляются одним commit
+    const adds: MLSProposal[] = [];
+    for (const memberId of memberIds) {
+      if (memberId === this.userId) continue;
+      adds.push({ type: 'add', keyPackage: await this.fetchKeyPackage(memberId) });
+    }
+    if (adds.length > 0) {
+      await this.commit(state, adds);
+    }
+
+    return this.getGroup(groupId)!;
+  }
+
+  async addMember(groupId: string, userId: string): Promise<void> {
+    const state = this.getState(groupId);
+
+    // Проверка, что пользователь еще не в группе
+    if (this.findMemberLeaf(state, userId) !== undefined) {
+      throw new Error('User already in group');
+    }
+    this.requirePermission(state, 'add_member');
+
+    await this.commit(state, [{ type: 'add', keyPackage: await this.fetchKeyPackage(userId) }]);
+  }
+
+  async removeMember(groupId: string, userId: string): Promise<void> {
+    const state = this.getState(groupId);
+
+    const leafIndex = this.findMemberLeaf(state, userId);
+    if (leafIndex === undefined) {
+      throw new Error('User not in group');
+    }
+    if (leafIndex === state.ownLeaf) {
+      throw new Error('Cannot remove yourself with a commit');
+    }
+
+    await this.commit(state, [{ type: 'remove', removed: leafIndex }]);
+  }
+
+  // Пустой commit с путём обновляет ключи всего прямого пути (post-compromise security)
+  async updateKeys(groupId: string): Promise<void> {
+    await this.commit(this.getState(groupId), []);
+  }
+
+  // Отдельные proposals: применяются следующим commit любого участника
+
+  async proposeAdd(groupId: string, userId: string): Promise<void> {
+    const state = this.getState(groupId);
+    this.requirePermission(state, 'add_member');
+    await this.sendProposal(state, { type: 'add', keyPackage: await this.fetchKeyPackage(userId) });
+  }
+
+  async proposeRemove(groupId: string, userId: string): Promise<void> {
+    const state = this.getState(groupId);
+
+    const leafIndex = this.findMemberLeaf(state, userId);
+    if (leafIndex === undefined) {
+      throw new Error('User not in group');
+    }
+
+    await this.sendProposal(state, { type: 'remove', removed: leafIndex });
+  }
+
+  async proposeUpdate(groupId: string): Promise<void> {
+    const state = this.getState(groupId);
+    const encryptionKey = this.suite.generateKeyPair();
+
+    const leafNode = this.signLeafNode(
+      {
+        ...state.tree.getLeaf(state.ownLeaf)!,
+        encryptionKey: encryptionKey.publicKey,
+        leafNodeSource: 'update',
+        lifetime: undefined,
+        parentHash: undefined,
+      },
+      state
+    );
+
+    await this.sendProposal(state, { type: 'update', leafNode }, encryptionKey.privateKey);
+  }
+
+  async commitPendingProposals(groupId: string): Promise<void> {
+    await this.commit(this.getState(groupId), [], true);
+  }
+
+  // Администрирование: изменения расширения применяются commit с GroupContextExtensions
+
+  async renameGroup(groupId: string, name: string): Promise<void> {
+    await this.commitAdministration(this.getState(groupId), administration => ({
+      ...administration,
+      name,
+    }));
+  }
+
+  async updateGroupSettings(groupId: string, settings: GroupSettings): Promise<void> {
+    await this.commitAdministration(this.getState(groupId), administration => ({
+      ...administration,
+      settings: { ...administration.settings, ...settings },
+    }));
+  }
+
+  async setGroupPermissions(
+    groupId: string,
+    permissions: Partial<GroupPermissions>
+  ): Promise<void> {
+    await this.commitAdministration(this.getState(groupId), administration => ({
+      ...administration,
+      permissions: { ...administration.permissions, ...permissions },
+    }));
+  }
+
+  async setMemberRole(groupId: string, userId: string, role: GroupRole): Promise<void> {
+    const state = this.getState(groupId);
+    if (this.findMemberLeaf(state, userId) === undefined) {
+      throw new Error('User not in group');
+    }
+
+    await this.commitAdministration(state, administration => {
+      const roles = { ...administration.roles };
+      if (role === 'member') {
+        delete roles[userId];
+      } else {
+        roles[userId] = role;
+      }
+      return { ...administration, roles };
+    });
+  }
+
+  async encryptGroupMessage(groupId: string, message: Uint8Array): Promise<EncryptedMessage> {
+    const state = this.getState(groupId);
+
+    const content: FramedContent = {
+      groupId: state.context.groupId,
+      epoch: state.context.epoch,
+      sender: state.ownLeaf,
+      authenticatedData: new Uint8Array(0),
+      contentType: 'application',
+      applicationData: message,
+    };
+    const signature = this.suite.signWithLabel(
+      this.getSignatureKeyPair().privateKey,
+      'FramedContentTBS',
+      MLSCodec.encodeFramedContentTBS('private', content, state.context)
+    );
+
+    // PrivateMessageContent: данные, подпись и нулевое выравнивание
+    const body = new TLSWriter().vector(content.applicationData).vector(signature).finish();
+    const padded = new Uint8Array(
+      Math.ceil((body.length + 1) / this.paddingBlockSize) * this.paddingBlockSize
+    );
+    padded.set(body);
+
+    // Поколение сохраняется до отправки, чтобы после перезапуска ключ и nonce не повторились
+    const { generation, key, nonce } = state.secretTree.nextKey(state.ownLeaf);
+    this.prunePastEpochs(state);
+    await this.saveGroup(state);
+    const reuseGuard = sodium.randombytes_buf(4);
+    for (let i = 0; i < 4; i++) {
+      nonce[i]! ^= reuseGuard[i]!;
+    }
+
+    const ciphertext = this.suite.seal(key, nonce, this.privateContentAAD(content), padded);
+    sodium.memzero(key);
+
+    const senderData = new TLSWriter()
+      .uint32(state.ownLeaf)
+      .uint32(generation)
+      .raw(reuseGuard)
+      .finish();
+    const senderDataKeys = this.senderDataKeys(state.secrets.senderDataSecret, ciphertext);
+    const encryptedSenderData = this.suite.seal(
+      senderDataKeys.key,
+      senderDataKeys.nonce,
+      this.senderDataAAD(content.groupId, content.epoch),
+      senderData
+    );
+
+    return {
+      id: uuidv4(),
+      conversationId: groupId,
+      senderId: this.userId,
+      ciphertext: MLSCodec.encodeMessage({
+        wireFormat: 'private',
+        message: {
+          groupId: content.groupId,
+          epoch: content.epoch,
+          contentType: 'application',
+          authenticatedData: content.authenticatedData,
+          encryptedSenderData,
+          ciphertext,
+        },
+      }),
+      timestamp: new Date(),
+      messageType: 2, // Group message
+    };
+  }
+
+  async decryptGroupMessage(groupId: string, encrypted: EncryptedMessage): Promise<GroupPlaintext> {
+    const state = this.getState(groupId);
+
+    const decoded = MLSCodec.decodeMessage(encrypted.ciphertext);
+    if (decoded.wireFormat !== 'private' || decoded.message.contentType !== 'application') {
+      throw new Error('Unexpected MLS wire format');
+    }
+    const message = decoded.message;
+
+    if (!this.equals(message.groupId, state.context.groupId)) {
+      throw new Error('Message for another group');
+    }
+
+    // Сообщение могло быть отправлено до commit, который мы уже обработали. Эпохи за пределами
+    // окна удаляются и из хранилища, чтобы их секреты не пережили окно в простаивающей группе
+    if (this.prunePastEpochs(state)) await this.saveGroup(state);
+    const epoch = this.getEpoch(state, message.epoch);
+
+    // Sender data: отправитель и номер поколения скрыты от всех, кроме участников
+    const senderDataKeys = this.senderDataKeys(epoch.senderDataSecret, message.ciphertext);
+    const senderData = MLSCodec.decode(
+      this.suite.open(
+        senderDataKeys.key,
+        senderDataKeys.nonce,
+        this.senderDataAAD(message.groupId, message.epoch),
+        message.encryptedSenderData
+      ),
+      reader => ({
+        sender: reader.uint32(),
+        generation: reader.uint32(),
+        reuseGuard: reader.raw(4),
+      })
+    );
+
+    const senderLeaf = epoch.tree.getLeaf(senderData.sender);
+    if (!senderLeaf) {
+      throw new Error('Unknown sender');
+    }
+
+    const { key, nonce } = epoch.secretTree.getKey(senderData.sender, senderData.generation);
+    for (let i = 0; i < 4; i++) {
+      nonce[i]! ^= senderData.reuseGuard[i]!;
+    }
+
+    const content: FramedContent = {
+      groupId: message.groupId,
+      epoch: message.epoch,
+      sender: senderData.sender,
+      authenticatedData: message.authenticatedData,
+      contentType: 'application',
+      applicationData: new Uint8Array(0),
+    };
+
+    let plaintext: Uint8Array;
+    try {
+      plaintext = this.suite.open(key, nonce, this.privateContentAAD(content), message.ciphertext);
+    } finally {
+      sodium.memzero(key);
+    }
+
+    const reader = new TLSReader(plaintext);
+    content.applicationData = reader.vector();
+    const signature = reader.vector();
+    if (reader.rest().some(byte => byte !== 0)) {
+      throw new Error('Invalid message padding');
+    }
+
+    const isSignatureValid = this.suite.verifyWithLabel(
+      senderLeaf.signatureKey,
+      'FramedContentTBS',
+      MLSCodec.encodeFramedContentTBS('private', content, epoch.context),
+      signature
+    );
+    if (!isSignatureValid) {
+      throw new Error('Invalid message signature');
+    }
+    await this.saveGroup(state);
+
+    return {
+      senderId: new TextDecoder().decode(senderLeaf.identity),
+      applicationData: content.applicationData,
+    };
+  }
+
+  // Proposal или Commit другого участника
+  async processHandshakeMessage(groupId: string, data: Uint8Array): Promise<void> {
+    const state = this.getState(groupId);
+
+    const decoded = MLSCodec.decodeMessage(data);
+    if (decoded.wireFormat !== 'public') {
+      throw new Error('Unexpected MLS wire format');
+    }
+    const { content, signature, confirmationTag, membershipTag } = decoded.message;
+
+    if (!this.equals(content.groupId, state.context.groupId)) {
+      throw new Error('Message for another group');
+    }
+    // Handshake сообщения действительны только в своей эпохе
+    if (content.epoch > state.context.epoch) {
+      throw new Error('Message from future epoch: commit not yet received');
+    }
+    if (content.epoch < state.context.epoch) {
+      throw new Error('Handshake message from past epoch');
+    }
+    if (content.contentType === 'application') {
+      throw new Error('Application data must be encrypted');
+    }
+
+    const senderLeaf = state.tree.getLeaf(content.sender);
+    if (!senderLeaf) {
+      throw new Error('Unknown sender');
+    }
+
+    // membership_tag доказывает членство, подпись - авторство
+    const tbs = MLSCodec.encodeFramedContentTBS('public', content, state.context);
+    const authData = MLSCodec.encode(null, writer =>
+      MLSCodec.writeAuthData(writer, content.contentType, signature, confirmationTag)
+    );
+    if (
+      !this.suite.verifyMac(state.secrets.membershipKey, this.concat(tbs, authData), membershipTag)
+    ) {
+      throw new Error('Invalid membership tag');
+    }
+    if (!this.suite.verifyWithLabel(senderLeaf.signatureKey, 'FramedContentTBS', tbs, signature)) {
+      throw new Error('Invalid message signature');
+    }
+
+    if (content.contentType === 'proposal') {
+      this.validateProposal(state, content.proposal, content.sender);
+      if (!this.isAuthorized(state, content.proposal, content.sender)) {
+        throw new Error('Proposal not authorized by group policy');
+      }
+
+      const ref = this.proposalRef(content, signature);
+      state.pendingProposals.set(sodium.to_hex(ref), {
+        ref,
+        proposal: content.proposal,
+        sender: content.sender,
+        receivedAt: new Date(),
+      });
+      await this.saveGroup(state);
+      return;
+    }
+
+    if (!confirmationTag) {
+      throw new Error('Missing confirmation tag');
+    }
+    await this.processCommit(state, content, signature, confirmationTag);
+  }
+
+  // Присоединение к группе по Welcome, адресованному одному из наших key packages
+  async processWelcome(data: Uint8Array): Promise<GroupSession> {
+    await sodium.ready;
+
+    const decoded = MLSCodec.decodeMessage(data);
+    if (decoded.wireFormat !== 'welcome') {
+      throw new Error('Unexpected MLS wire format');
+    }
+    const welcome = decoded.message;
+    if (welcome.cipherSuite !== MLS_CIPHER_SUITE) {
+      throw new Error('Unsupported cipher suite');
+    }
+
+    let entry: { secrets: KeyPackageSecrets; refHex: string; index: number } | undefined;
+    welcome.secrets.forEach((secret, index) => {
+      const refHex = sodium.to_hex(secret.newMember);
+      const secrets = this.keyPackageSecrets.get(refHex);
+      if (secrets && !entry) entry = { secrets, refHex, index };
+    });
+    if (!entry) {
+      throw new Error('Welcome is not addressed to us');
+    }
+
+    // GroupSecrets: joiner_secret, path_secret общего предка с коммиттером, PSK не используются
+    const groupSecrets = MLSCodec.decode(
+      this.suite.decryptWithLabel(
+        entry.secrets.initPrivateKey,
+        'Welcome',
+        welcome.encryptedGroupInfo,
+        welcome.secrets[entry.index]!.encryptedGroupSecrets
+      ),
+      reader => ({
+        joinerSecret: reader.vector(),
+        pathSecret: reader.optional(r => r.vector()),
+        psks: reader.vector(),
+      })
+    );
+    if (groupSecrets.psks.length > 0) {
+      throw new Error('Pre-shared keys are not supported');
+    }
+
+    const welcomeKeys = this.welcomeKeys(groupSecrets.joinerSecret);
+    const groupInfo = MLSCodec.decode(
+      this.suite.open(
+        welcomeKeys.key,
+        welcomeKeys.nonce,
+        new Uint8Array(0),
+        welcome.encryptedGroupInfo
+      ),
+      MLSCodec.readGroupInfo
+    );
+    const context = groupInfo.groupContext;
+    const groupId = new TextDecoder().decode(context.groupId);
+
+    if (context.cipherSuite !== MLS_CIPHER_SUITE || context.version !== MLS_VERSION) {
+      throw new Error('Unsupported cipher suite');
+    }
+    if (this.groups.has(groupId)) {
+      throw new Error('Group already exists');
+    }
+
+    // Дерево приходит в расширении GroupInfo и проверяется по tree hash из контекста
+    const treeExtension = groupInfo.extensions.find(
+      e => e.extensionType === RATCHET_TREE_EXTENSION
+    );
+    if (!treeExtension) {
+      throw new Error('Missing ratchet tree');
+    }
+    const tree = RatchetTree.decode(this.suite, treeExtension.extensionData);
+    if (!this.equals(tree.treeHash(), context.treeHash)) {
+      throw new Error('Ratchet tree does not match group context');
+    }
+
+    for (const { leafIndex, leaf } of tree.leaves()) {
+      if (!this.verifyLeafNode(leaf, context.groupId, leafIndex)) {
+        throw new Error('Invalid leaf node in ratchet tree');
+      }
+    }
+
+    const signerLeaf = tree.getLeaf(groupInfo.signer);
+    const isGroupInfoValid =
+      signerLeaf !== null &&
+      this.suite.verifyWithLabel(
+        signerLeaf.signatureKey,
+        'GroupInfoTBS',
+        MLSCodec.encode(groupInfo, MLSCodec.writeGroupInfoTBS),
+        groupInfo.signature
+      );
+    if (!isGroupInfoValid) {
+      throw new Error('Invalid group info signature');
+    }
+
+    const ownLeaf = tree
+      .leaves()
+      .find(({ leaf }) =>
+        this.equals(leaf.encryptionKey, entry!.secrets.keyPackage.leafNode.encryptionKey)
+      )?.leafIndex;
+    if (ownLeaf === undefined) {
+      throw new Error('Own leaf not found in ratchet tree');
+    }
+
+    const secrets = this.deriveEpochSecrets(groupSecrets.joinerSecret, context);
+    if (
+      !this.suite.verifyMac(
+        secrets.confirmationKey,
+        context.confirmedTranscriptHash,
+        groupInfo.confirmationTag
+      )
+    ) {
+      throw new Error('Invalid confirmation tag');
+    }
+
+    // Ключи узлов выше общего предка с коммиттером
+    const privateKeys = new Map<number, Uint8Array>([
+      [ownLeaf * 2, entry.secrets.encryptionPrivateKey.slice()],
+    ]);
+    if (groupSecrets.pathSecret) {
+      const path = tree.filteredDirectPath(groupInfo.signer);
+      const start = path.findIndex(({ nodeIndex }) => tree.isAncestor(nodeIndex, ownLeaf));
+      if (start < 0) {
+        throw new Error('Invalid path secret');
+      }
+
+      this.derivePathKeys(
+        tree,
+        path.slice(start).map(({ nodeIndex }) => nodeIndex),
+        groupSecrets.pathSecret,
+        privateKeys
+      );
+    }
+
+    // Key package одноразовый, кроме last resort
+    const isLastResort = entry.secrets.keyPackage.extensions.some(
+      e => e.extensionType === LAST_RESORT_EXTENSION
+    );
+    if (!isLastResort) {
+      this.keyPackageSecrets.delete(entry.refHex);
+    }
+
+    const signer = new TextDecoder().decode(signerLeaf!.identity);
+    const memberInfo = new Map<string, { addedBy: string; addedAt: Date }>();
+    for (const { leaf } of tree.leaves()) {
+      memberInfo.set(new TextDecoder().decode(leaf.identity), {
+        addedBy: signer,
+        addedAt: new Date(),
+      });
+    }
+
+    const state: GroupState = {
+      groupId,
+      context,
+      tree,
+      ownLeaf,
+      privateKeys,
+      secrets,
+      secretTree: new SecretTree(this.suite, secrets.encryptionSecret, tree.leafCount),
+      pastEpochs: new Map(),
+      interimTranscriptHash: this.interimTranscriptHash(
+        context.confirmedTranscriptHash,
+        groupInfo.confirmationTag
+      ),
+      pendingProposals: new Map(),
+      pendingUpdates: new Map(),
+      memberInfo,
+    };
+    this.groups.set(groupId, state);
+    await this.saveGroup(state);
+    if (!isLastResort) {
+      await this.store.deleteMLSKeyPackage(entry.refHex);
+    }
+
+    return this.getGroup(groupId)!;
+  }
+
+  getGroup(groupId: string): GroupSession | null {
+    const state = this.groups.get(groupId);
+    if (!state) return null;
+
+    const administration = this.decodeAdministration(state.context.extensions);
+    const members: GroupMember[] = state.tree.leaves().map(({ leafIndex, leaf }) => {
+      const userId = new TextDecoder().decode(leaf.identity);
+      const info = state.memberInfo.get(userId);
+      return {
+        userId,
+        leafIndex,
+        keyPackage: MLSCodec.encode(leaf, MLSCodec.writeLeafNode),
+        credential: leaf.identity,
+        role: GroupAdministrationModel.getRole(administration, userId),
+        addedBy: info?.addedBy ?? userId,
+        addedAt: info?.addedAt ?? new Date(),
+      };
+    });
+
+    const pendingProposals: Proposal[] = Array.from(state.pendingProposals.entries()).map(
+      ([id, pending]) => ({
+        id,
+        type: pending.proposal.type,
+        proposer: this.leafIdentity(state.tree, pending.sender),
+        target: this.proposalTarget(state, pending),
+        data:
+          pending.proposal.type === 'add'
+            ? MLSCodec.encode(pending.proposal.keyPackage, MLSCodec.writeKeyPackage)
+            : undefined,
+        timestamp: pending.receivedAt,
+      })
+    );
+
+    return {
+      groupId,
+      epoch: state.context.epoch,
+      treeHash: state.context.treeHash,
+      members,
+      pendingProposals,
+      administration,
+    };
+  }
+
+  // MLS exporter: производные секреты эпохи для других протоколов
+  exportSecret(groupId: string, label: string, context: Uint8Array, length: number): Uint8Array {
+    const state = this.getState(groupId);
+    const derived = this.suite.deriveSecret(state.secrets.exporterSecret, label);
+    return this.suite.expandWithLabel(derived, 'exported', this.suite.hash(context), length);
+  }
+
+  // Одинаков у всех участников эпохи; пригоден для сверки вне канала
+  getEpochAuthenticator(groupId: string): Uint8Array {
+    return this.getState(groupId).secrets.epochAuthenticator;
+  }
+
+  // Commit
+
+  private async commit(
+    state: GroupState,
+    inline: MLSProposal[],
+    includePending = false
+  ): Promise<void> {
+    const proposals: ProposalOrRef[] = inline.map(proposal => ({ type: 'proposal', proposal }));
+    const resolved: ResolvedProposal[] = inline.map(proposal => ({
+      proposal,
+      sender: state.ownLeaf,
+    }));
+
+    for (const proposal of inline) {
+      if (!this.isAuthorized(state, proposal, state.ownLeaf)) {
+        throw new Error('Not authorized by group policy');
+      }
+    }
+
+    if (includePending) {
+      for (const [refHex, pending] of state.pendingProposals) {
+        // Свой Update коммиттер не включает: путь и так обновит его лист
+        if (pending.proposal.type === 'update' && pending.sender === state.ownLeaf) continue;
+
+        // Proposals, которые политика больше не разрешает, отбрасываются
+        if (!this.isAuthorized(state, pending.proposal, pending.sender)) {
+          state.pendingProposals.delete(refHex);
+          continue;
+        }
+
+        proposals.push({ type: 'reference', reference: pending.ref });
+        resolved.push({ proposal: pending.proposal, sender: pending.sender, ref: refHex });
+      }
+    }
+
+    const tree = state.tree.clone();
+    const { added, extensions } = this.applyProposals(state, tree, resolved);
+
+    // UpdatePath: новые ключи прямого пути и path secrets для copath
+    const leafSecret = sodium.randombytes_buf(this.suite.Nh);
+    const leafKeyPair = this.suite.deriveKeyPair(this.suite.deriveSecret(leafSecret, 'node'));
+    const filtered = tree.filteredDirectPath(state.ownLeaf);
+
+    const pathSecrets: Uint8Array[] = [];
+    const privateKeys = new Map<number, Uint8Array>([[state.ownLeaf * 2, leafKeyPair.privateKey]]);
+    let pathSecret = this.suite.deriveSecret(leafSecret, 'path');
+
+    tree.blankDirectPath(state.ownLeaf);
+    for (const { nodeIndex } of filtered) {
+      const keyPair = this.suite.deriveKeyPair(this.suite.deriveSecret(pathSecret, 'node'));
+      tree.setParent(nodeIndex, {
+        encryptionKey: keyPair.publicKey,
+        parentHash: new Uint8Array(0),
+        unmergedLeaves: [],
+      });
+      privateKeys.set(nodeIndex, keyPair.privateKey);
+      pathSecrets.push(pathSecret);
+      pathSecret = this.suite.deriveSecret(pathSecret, 'path');
+    }
+    const commitSecret = pathSecret;
+
+    const leafNode = this.signLeafNode(
+      {
+        ...tree.getLeaf(state.ownLeaf)!,
+        encryptionKey: leafKeyPair.publicKey,
+        leafNodeSource: 'commit',
+        lifetime: undefined,
+        parentHash: tree.computeParentHashes(state.ownLeaf),
+      },
+      state
+    );
+    tree.setLeaf(state.ownLeaf, leafNode);
+
+    // Path secrets шифруются в контексте новой эпохи (transcript hash ещё старый)
+    const provisionalContext: GroupContext = {
+      ...state.context,
+      epoch: state.context.epoch + 1,
+      treeHash: tree.treeHash(),
+      extensions,
+    };
+    const encodedContext = MLSCodec.encode(provisionalContext, MLSCodec.writeGroupContext);
+    const addedLeaves = new Set(added.map(({ leafIndex }) => leafIndex));
+
+    const path: UpdatePath = {
+      leafNode,
+      nodes: filtered.map(({ nodeIndex, copathChild }, i) => ({
+        encryptionKey: tree.getEncryptionKey(nodeIndex),
+        encryptedPathSecret: tree
+          .resolution(copathChild, addedLeaves)
+          .map(recipient =>
+            this.suite.encryptWithLabel(
+              tree.getEncryptionKey(recipient),
+              'UpdatePathNode',
+              encodedContext,
+              pathSecrets[i]!
+            )
+          ),
+      })),
+    };
+
+    const content: FramedContent = {
+      groupId: state.context.groupId,
+      epoch: state.context.epoch,
+      sender: state.ownLeaf,
+      authenticatedData: new Uint8Array(0),
+      contentType: 'commit',
+      commit: { proposals, path },
+    };
+    const signature = this.suite.signWithLabel(
+      this.getSignatureKeyPair().privateKey,
+      'FramedContentTBS',
+      MLSCodec.encodeFramedContentTBS('public', content, state.context)
+    );
+
+    const newContext: GroupContext = {
+      ...provisionalContext,
+      confirmedTranscriptHash: this.confirmedTranscriptHash(state, content, signature),
+    };
+    const { secrets, joinerSecret } = this.keySchedule(
+      state.secrets.initSecret,
+      commitSecret,
+      newContext
+    );
+    const confirmationTag = this.suite.mac(
+      secrets.confirmationKey,
+      newContext.confirmedTranscriptHash
+    );
+
+    const message = this.encodePublicMessage(state, content, signature, confirmationTag);
+
+    // Welcome для добавленных: GroupInfo новой эпохи и path secret общего предка
+    let welcome: Uint8Array | null = null;
+    if (added.length > 0) {
+      welcome = this.createWelcome(
+        newContext,
+        tree,
+        state.ownLeaf,
+        confirmationTag,
+        joinerSecret,
+        added.map(({ leafIndex, keyPackage }) => {
+          const index = filtered.findIndex(({ nodeIndex }) =>
+            tree.isAncestor(nodeIndex, leafIndex)
+          );
+          return { keyPackage, pathSecret: index >= 0 ? pathSecrets[index] : undefined };
+        })
+      );
+    }
+
+    const addedBy = new Map(added.map(({ keyPackage }) => [keyPackage, this.userId]));
+    this.mergeEpoch(state, {
+      context: newContext,
+      tree,
+      privateKeys,
+      secrets,
+      confirmationTag,
+      added: added.map(({ keyPackage }) => ({ keyPackage, addedBy: addedBy.get(keyPackage)! })),
+    });
+    await this.saveGroup(state);
+
+    this.emit('handshake', {
+      groupId: state.groupId,
+      epoch: content.epoch,
+      message,
+    } as MLSHandshakeEvent);
+
+    if (welcome) {
+      this.emit('welcome', {
+        groupId: state.groupId,
+        recipients: added.map(({ keyPackage }) =>
+          new TextDecoder().decode(keyPackage.leafNode.identity)
+        ),
+        message: welcome,
+      } as MLSWelcomeEvent);
+    }
+  }
+
+  private async processCommit(
+    state: GroupState,
+    content: FramedContent & { contentType: 'commit' },
+    signature: Uint8Array,
+    confirmationTag: Uint8Array
+  ): Promise<void> {
+    const { commit, sender } = content;
+
+    const resolved: ResolvedProposal[] = commit.proposals.map(item => {
+      if (item.type === 'proposal') {
+        return { proposal: item.proposal, sender };
+      }
+
+      const refHex = sodium.to_hex(item.reference);
+      const pending = state.pendingProposals.get(refHex);
+      if (!pending) {
+        throw new Error('Unknown proposal reference');
+      }
+      return { proposal: pending.proposal, sender: pending.sender, ref: refHex };
+    });
+
+    for (const { proposal, sender: proposer } of resolved) {
+      if (proposal.type === 'update' && proposer === sender) {
+        throw new Error('Committer cannot include its own update');
+      }
+      if (proposal.type === 'remove' && proposal.removed === sender) {
+        throw new Error('Committer cannot remove itself');
+      }
+      if (!this.isAuthorized(state, proposal, proposer)) {
+        throw new Error('Commit contains a proposal not authorized by group policy');
+      }
+    }
+
+    // Путь обязателен для всего, кроме commit только с Add
+    const pathRequired =
+      resolved.length === 0 || resolved.some(({ proposal }) => proposal.type !== 'add');
+    if (pathRequired && !commit.path) {
+      throw new Error('Commit requires an update path');
+    }
+
+    const tree = state.tree.clone();
+    const { added, extensions, ownUpdateKey } = this.applyProposals(state, tree, resolved);
+
+    // Нас удалили из группы
+    if (!tree.getLeaf(state.ownLeaf)) {
+      this.destroyGroup(state);
+      await this.store.deleteMLSGroup(state.groupId);
+      this.emit('removed', state.groupId);
+      return;
+    }
+
+    const privateKeys = new Map<number, Uint8Array>();
+    for (const [nodeIndex, privateKey] of state.privateKeys) {
+      if (tree.getNode(nodeIndex)) privateKeys.set(nodeIndex, privateKey);
+    }
+    if (ownUpdateKey) {
+      privateKeys.set(state.ownLeaf * 2, ownUpdateKey);
+    }
+
+    let commitSecret: Uint8Array = new Uint8Array(this.suite.Nh);
+    let provisionalContext: GroupContext;
+
+    if (commit.path) {
+      const path = commit.path;
+      const currentLeaf = tree.getLeaf(sender)!;
+
+      if (
+        path.leafNode.leafNodeSource !== 'commit' ||
+        !this.equals(path.leafNode.identity, currentLeaf.identity) ||
+        !this.verifyLeafNode(path.leafNode, state.context.groupId, sender)
+      ) {
+        throw new Error('Invalid leaf node in update path');
+      }
+
+      const filtered = tree.filteredDirectPath(sender);
+      if (path.nodes.length !== filtered.length) {
+        throw new Error('Invalid update path');
+      }
+
+      for (const nodeIndex of tree.directPath(sender)) {
+        privateKeys.delete(nodeIndex);
+      }
+      tree.blankDirectPath(sender);
+      filtered.forEach(({ nodeIndex }, i) => {
+        tree.setParent(nodeIndex, {
+          encryptionKey: path.nodes[i]!.encryptionKey,
+          parentHash: new Uint8Array(0),
+          unmergedLeaves: [],
+        });
+      });
+
+      const parentHash = tree.computeParentHashes(sender);
+      if (!path.leafNode.parentHash || !this.equals(parentHash, path.leafNode.parentHash)) {
+        throw new Error('Invalid parent hash');
+      }
+      tree.setLeaf(sender, path.leafNode);
+
+      provisionalContext = {
+        ...state.context,
+        epoch: state.context.epoch + 1,
+        treeHash: tree.treeHash(),
+        extensions,
+      };
+
+      // Path secret зашифрован для узла из нашего поддерева на copath коммиттера
+      const start = filtered.findIndex(({ nodeIndex }) =>
+        tree.isAncestor(nodeIndex, state.ownLeaf)
+      );
+      const addedLeaves = new Set(added.map(({ leafIndex }) => leafIndex));
+      const resolution = tree.resolution(filtered[start]!.copathChild, addedLeaves);
+      const position = resolution.findIndex(nodeIndex => privateKeys.has(nodeIndex));
+      if (position < 0) {
+        throw new Error('No private key to decrypt path secret');
+      }
+
+      const pathSecret = this.suite.decryptWithLabel(
+        privateKeys.get(resolution[position]!)!,
+        'UpdatePathNode',
+        MLSCodec.encode(provisionalContext, MLSCodec.writeGroupContext),
+        path.nodes[start]!.encryptedPathSecret[position]!
+      );
+
+      commitSecret = this.derivePathKeys(
+        tree,
+        filtered.slice(start).map(({ nodeIndex }) => nodeIndex),
+        pathSecret,
+        privateKeys
+      );
+    } else {
+      provisionalContext = {
+        ...state.context,
+        epoch: state.context.epoch + 1,
+        treeHash: tree.treeHash(),
+        extensions,
+      };
+    }
+
+    const newContext: GroupContext = {
+      ...provisionalContext,
+      confirmedTranscriptHash: this.confirmedTranscriptHash(state, content, signature),
+    };
+    const { secrets } = this.keySchedule(state.secrets.initSecret, commitSecret, newContext);
+
+    if (
+      !this.suite.verifyMac(
+        secrets.confirmationKey,
+        newContext.confirmedTranscriptHash,
+        confirmationTag
+      )
+    ) {
+      throw new Error('Invalid confirmation tag');
+    }
+
+    this.mergeEpoch(state, {
+      context: newContext,
+      tree,
+      privateKeys,
+      secrets,
+      confirmationTag,
+      added: added.map(({ keyPackage }) => ({
+        keyPackage,
+        addedBy: this.leafIdentity(state.tree, sender),
+      })),
+    });
+    await this.saveGroup(state);
+  }
+
+  // Порядок применения (RFC 9420, 12.3): GroupContextExtensions, Update, Remove, Add
+  private applyProposals(
+    state: GroupState,
+    tree: RatchetTree,
+    resolved: ResolvedProposal[]
+  ): {
+    added: Array<{ leafIndex: number; keyPackage: KeyPackage }>;
+    extensions: MLSExtension[];
+    ownUpdateKey?: Uint8Array;
+  } {
+    let extensions = state.context.extensions;
+    let ownUpdateKey: Uint8Array | undefined;
+    const added: Array<{ leafIndex: number; keyPackage: KeyPackage }> = [];
+
+    const byType = (type: MLSProposal['type']) =>
+      resolved.filter(({ proposal }) => proposal.type === type);
+
+    const extensionProposals = byType('group_context_extensions');
+    if (extensionProposals.length > 1) {
+      throw new Error('Multiple group context extensions proposals');
+    }
+    for (const { proposal } of extensionProposals) {
+      if (proposal.type === 'group_context_extensions') extensions = proposal.extensions;
+    }
+
+    for (const { proposal, sender, ref } of byType('update')) {
+      if (proposal.type !== 'update') continue;
+      this.validateProposal(state, proposal, sender);
+      tree.updateLeaf(sender, proposal.leafNode);
+
+      if (sender === state.ownLeaf) {
+        ownUpdateKey = ref ? state.pendingUpdates.get(ref) : undefined;
+        if (!ownUpdateKey) {
+          throw new Error('Unknown own update proposal');
+        }
+      }
+    }
+
+    for (const { proposal } of byType('remove')) {
+      if (proposal.type !== 'remove') continue;
+      if (!tree.getLeaf(proposal.removed)) {
+        throw new Error('Invalid remove proposal');
+      }
+      tree.removeLeaf(proposal.removed);
+    }
+
+    for (const { proposal } of byType('add')) {
+      if (proposal.type !== 'add') continue;
+      this.validateKeyPackage(proposal.keyPackage);
+
+      const identity = proposal.keyPackage.leafNode.identity;
+      if (tree.leaves().some(({ leaf }) => this.equals(leaf.identity, identity))) {
+        throw new Error('User already in group');
+      }
+      added.push({
+        leafIndex: tree.addLeaf(proposal.keyPackage.leafNode),
+        keyPackage: proposal.keyPackage,
+      });
+    }
+
+    // Роли выбывших участников снимаются одинаково у всех, без отдельного proposal
+    const administration = this.decodeAdministration(extensions);
+    if (administration) {
+      const members = new Set(
+        tree.leaves().map(({ leaf }) => new TextDecoder().decode(leaf.identity))
+      );
+      const roles = Object.fromEntries(
+        Object.entries(administration.roles).filter(([userId]) => members.has(userId))
+      );
+
+      if (Object.keys(roles).length !== Object.keys(administration.roles).length) {
+        extensions = this.replaceAdministration(extensions, { ...administration, roles });
+      }
+      if (!Object.values(roles).includes('owner')) {
+        throw new Error('Group must keep an owner');
+      }
+    }
+
+    return { added, extensions, ownUpdateKey };
+  }
+
+  private mergeEpoch(
+    state: GroupState,
+    next: {
+      context: GroupContext;
+      tree: RatchetTree;
+      privateKeys: Map<number, Uint8Array>;
+      secrets: EpochSecrets;
+      confirmationTag: Uint8Array;
+      added: Array<{ keyPackage: KeyPackage; addedBy: string }>;
+    }
+  ): void {
+    // Для прошлой эпохи сохраняется только то, что нужно для расшифровки, остальное уничтожается
+    if (this.epochRetention > 0) {
+      state.pastEpochs.set(state.context.epoch, {
+        context: state.context,
+        tree: state.tree,
+        senderDataSecret: state.secrets.senderDataSecret.slice(),
+        secretTree: state.secretTree,
+        retiredAt: Date.now(),
+      });
+    } else {
+      state.secretTree.destroy();
+    }
+    this.wipeSecrets(state.secrets);
+
+    state.context = next.context;
+    state.tree = next.tree;
+    state.privateKeys = next.privateKeys;
+    state.secrets = next.secrets;
+    state.secretTree = new SecretTree(
+      this.suite,
+      next.secrets.encryptionSecret,
+      next.tree.leafCount
+    );
+    state.interimTranscriptHash = this.interimTranscriptHash(
+      next.context.confirmedTranscriptHash,
+      next.confirmationTag
+    );
+    state.pendingProposals.clear();
+    state.pendingUpdates.clear();
+    this.prunePastEpochs(state);
+
+    for (const { keyPackage, addedBy } of next.added) {
+      state.memberInfo.set(new TextDecoder().decode(keyPackage.leafNode.identity), {
+        addedBy,
+        addedAt: new Date(),
+      });
+    }
+    const current = new Set(
+      next.tree.leaves().map(({ leaf }) => new TextDecoder().decode(leaf.identity))
+    );
+    for (const userId of state.memberInfo.keys()) {
+      if (!current.has(userId)) state.memberInfo.delete(userId);
+    }
+  }
+
+  // Секреты эпохи сообщения: текущей или одной из сохранённых прошлых
+  private getEpoch(
+    state: GroupState,
+    epoch: number
+  ): Pick<EpochHistoryEntry, 'context' | 'tree' | 'senderDataSecret' | 'secretTree'> {
+    if (epoch === state.context.epoch) {
+      return {
+        context: state.context,
+        tree: state.tree,
+        senderDataSecret: state.secrets.senderDataSecret,
+        secretTree: state.secretTree,
+      };
+    }
+
+    // Клиент должен отложить такое сообщение до получения commit
+    if (epoch > state.context.epoch) {
+      throw new Error('Message from future epoch: commit not yet received');
+    }
+
+    const past = state.pastEpochs.get(epoch);
+    if (!past) {
+      throw new Error('Message epoch too old: keys already deleted');
+    }
+    return past;
+  }
+
+  // Удаление эпох за пределами окна по количеству и по времени при обращении к группе, после
+  // commit и при загрузке; таймеров нет. Возвращает true, если что-то удалено и состояние
+  // нужно сохранить
+  private prunePastEpochs(state: GroupState): boolean {
+    let pruned = false;
+    const oldestEpoch = state.context.epoch - this.epochRetention;
+    const oldestTime = Date.now() - this.epochRetentionTime;
+
+    for (const [epoch, past] of state.pastEpochs) {
+      if (epoch >= oldestEpoch && past.retiredAt > oldestTime) continue;
+
+      past.secretTree.destroy();
+      sodium.memzero(past.senderDataSecret);
+      state.pastEpochs.delete(epoch);
+      pruned = true;
+    }
+    return pruned;
+  }
+
+  private createWelcome(
+    context: GroupContext,
+    tree: RatchetTree,
+    signer: number,
+    confirmationTag: Uint8Array,
+    joinerSecret: Uint8Array,
+    recipients: Array<{ keyPackage: KeyPackage; pathSecret?: Uint8Array }>
+  ): Uint8Array {
+    const groupInfo: GroupInfo = {
+      groupContext: context,
+      extensions: [{ extensionType: RATCHET_TREE_EXTENSION, extensionData: tree.encode() }],
+      confirmationTag,
+      signer,
+      signature: new Uint8Array(0),
+    };
+    groupInfo.signature = this.suite.signWithLabel(
+      this.getSignatureKeyPair().privateKey,
+      'GroupInfoTBS',
+      MLSCodec.encode(groupInfo, MLSCodec.writeGroupInfoTBS)
+    );
+
+    const welcomeKeys = this.welcomeKeys(joinerSecret);
+    const encryptedGroupInfo = this.suite.seal(
+      welcomeKeys.key,
+      welcomeKeys.nonce,
+      new Uint8Array(0),
+      MLSCodec.encode(groupInfo, MLSCodec.writeGroupInfo)
+    );
+
+    const secrets = recipients.map(({ keyPackage, pathSecret }) => {
+      const groupSecrets = new TLSWriter()
+        .vector(joinerSecret)
+        .optional(pathSecret, (writer, value) => writer.vector(value))
+        .vector(new Uint8Array(0))
+        .finish();
+
+      return {
+        newMember: this.keyPackageRef(keyPackage),
+        encryptedGroupSecrets: this.suite.encryptWithLabel(
+          keyPackage.initKey,
+          'Welcome',
+          encryptedGroupInfo,
+          groupSecrets
+        ),
+      };
+    });
+
+    return MLSCodec.encodeMessage({
+      wireFormat: 'welcome',
+      message: { cipherSuite: MLS_CIPHER_SUITE, secrets, encryptedGroupInfo },
+    });
+  }
+
+  // updateKey - приватный ключ листа из нашего Update proposal
+  private async sendProposal(
+    state: GroupState,
+    proposal: MLSProposal,
+    updateKey?: Uint8Array
+  ): Promise<void> {
+    if (!this.isAuthorized(state, proposal, state.ownLeaf)) {
+      throw new Error('Not authorized by group policy');
+    }
+
+    const content: FramedContent = {
+      groupId: state.context.groupId,
+      epoch: state.context.epoch,
+      sender: state.ownLeaf,
+      authenticatedData: new Uint8Array(0),
+      contentType: 'proposal',
+      proposal,
+    };
+    const signature = this.suite.signWithLabel(
+      this.getSignatureKeyPair().privateKey,
+      'FramedContentTBS',
+      MLSCodec.encodeFramedContentTBS('public', content, state.context)
+    );
+
+    const ref = this.proposalRef(content, signature);
+    const refHex = sodium.to_hex(ref);
+    state.pendingProposals.set(refHex, {
+      ref,
+      proposal,
+      sender: state.ownLeaf,
+      receivedAt: new Date(),
+    });
+    if (updateKey) {
+      state.pendingUpdates.set(refHex, updateKey);
+    }
+    await this.saveGroup(state);
+
+    this.emit('handshake', {
+      groupId: state.groupId,
+      epoch: content.epoch,
+      message: this.encodePublicMessage(state, content, signature),
+    } as MLSHandshakeEvent);
+  }
+
+  // Key schedule (RFC 9420, раздел 8)
+
+  private keySchedule(
+    initSecret: Uint8Array,
+    commitSecret: Uint8Array,
+    context: GroupContext
+  ): { secrets: EpochSecrets; joinerSecret: Uint8Array } {
+    const joinerSecret = this.suite.expandWithLabel(
+      this.suite.extract(initSecret, commitSecret),
+      'joiner',
+      MLSCodec.encode(context, MLSCodec.writeGroupContext),
+      this.suite.Nh
+    );
+    return { secrets: this.deriveEpochSecrets(joinerSecret, context), joinerSecret };
+  }
+
+  private deriveEpochSecrets(joinerSecret: Uint8Array, context: GroupContext): EpochSecrets {
+    const pskSecret = new Uint8Array(this.suite.Nh);
+    const epochSecret = this.suite.expandWithLabel(
+      this.suite.extract(joinerSecret, pskSecret),
+      'epoch',
+      MLSCodec.encode(context, MLSCodec.writeGroupContext),
+      this.suite.Nh
+    );
+
+    const secrets: EpochSecrets = {
+      senderDataSecret: this.suite.deriveSecret(epochSecret, 'sender data'),
+      encryptionSecret: this.suite.deriveSecret(epochSecret, 'encryption'),
+      exporterSecret: this.suite.deriveSecret(epochSecret, 'exporter'),
+      confirmationKey: this.suite.deriveSecret(epochSecret, 'confirm'),
+      membershipKey: this.suite.deriveSecret(epochSecret, 'membership'),
+      epochAuthenticator: this.suite.deriveSecret(epochSecret, 'authentication'),
+      initSecret: this.suite.deriveSecret(epochSecret, 'init'),
+    };
+    sodium.memzero(epochSecret);
+    return secrets;
+  }
+
+  private welcomeKeys(joinerSecret: Uint8Array): { key: Uint8Array; nonce: Uint8Array } {
+    const pskSecret = new Uint8Array(this.suite.Nh);
+    const welcomeSecret = this.suite.deriveSecret(
+      this.suite.extract(joinerSecret, pskSecret),
+      'welcome'
+    );
+    const empty = new Uint8Array(0);
+    return {
+      key: this.suite.expandWithLabel(welcomeSecret, 'key', empty, this.suite.Nk),
+      nonce: this.suite.expandWithLabel(welcomeSecret, 'nonce', empty, this.suite.Nn),
+    };
+  }
+
+  // Ключи узлов пути из path secret; возвращает commit_secret
+  private derivePathKeys(
+    tree: RatchetTree,
+    nodeIndices: number[],
+    pathSecret: Uint8Array,
+    privateKeys: Map<number, Uint8Array>
+  ): Uint8Array {
+    let secret = pathSecret;
+    for (const nodeIndex of nodeIndices) {
+      const keyPair = this.suite.deriveKeyPair(this.suite.deriveSecret(secret, 'node'));
+      if (!this.equals(keyPair.publicKey, tree.getEncryptionKey(nodeIndex))) {
+        throw new Error('Path secret does not match public key');
+      }
+      privateKeys.set(nodeIndex, keyPair.privateKey);
+      secret = this.suite.deriveSecret(secret, 'path');
+    }
+    return secret;
+  }
+
+  private confirmedTranscriptHash(
+    state: GroupState,
+    content: FramedContent,
+    signature: Uint8Array
+  ): Uint8Array {
+    const input = new TLSWriter().uint16(MLSCodec.encodeWireFormat('public'));
+    MLSCodec.writeFramedContent(input, content);
+    input.vector(signature);
+    return this.suite.hash(this.concat(state.interimTranscriptHash, input.finish()));
+  }
+
+  private interimTranscriptHash(
+    confirmedTranscriptHash: Uint8Array,
+    confirmationTag: Uint8Array
+  ): Uint8Array {
+    return this.suite.hash(
+      this.concat(confirmedTranscriptHash, new TLSWriter().vector(confirmationTag).finish())
+    );
+  }
+
+  // Framing
+
+  private encodePublicMessage(
+    state: GroupState,
+    content: FramedContent,
+    signature: Uint8Array,
+    confirmationTag?: Uint8Array
+  ): Uint8Array {
+    const tbs = MLSCodec.encodeFramedContentTBS('public', content, state.context);
+    const authData = MLSCodec.encode(null, writer =>
+      MLSCodec.writeAuthData(writer, content.contentType, signature, confirmationTag)
+    );
+
+    return MLSCodec.encodeMessage({
+      wireFormat: 'public',
+      message: {
+        content,
+        signature,
+        confirmationTag,
+        membershipTag: this.suite.mac(state.secrets.membershipKey, this.concat(tbs, authData)),
+      },
+    });
+  }
+
+  private proposalRef(content: FramedContent, signature: Uint8Array): Uint8Array {
+    const authenticatedContent = new TLSWriter().uint16(MLSCodec.encodeWireFormat('public'));
+    MLSCodec.writeFramedContent(authenticatedContent, content);
+    MLSCodec.writeAuthData(authenticatedContent, content.contentType, signature);
+    return this.suite.refHash('MLS 1.0 Proposal Reference', authenticatedContent.finish());
+  }
+
+  private keyPackageRef(keyPackage: KeyPackage): Uint8Array {
+    return this.suite.refHash(
+      'MLS 1.0 KeyPackage Reference',
+      MLSCodec.encode(keyPackage, MLSCodec.writeKeyPackage)
+    );
+  }
+
+  private senderDataKeys(
+    senderDataSecret: Uint8Array,
+    ciphertext: Uint8Array
+  ): { key: Uint8Array; nonce: Uint8Array } {
+    const sample = ciphertext.slice(0, this.suite.Nh);
+    return {
+      key: this.suite.expandWithLabel(senderDataSecret, 'key', sample, this.suite.Nk),
+      nonce: this.suite.expandWithLabel(senderDataSecret, 'nonce', sample, this.suite.Nn),
+    };
+  }
+
+  private senderDataAAD(groupId: Uint8Array, epoch: number): Uint8Array {
+    const writer = new TLSWriter().vector(groupId).uint64(epoch);
+    MLSCodec.writeContentType(writer, 'application');
+    return writer.finish();
+  }
+
+  private privateContentAAD(content: FramedContent): Uint8Array {
+    const writer = new TLSWriter().vector(content.groupId).uint64(content.epoch);
+    MLSCodec.writeContentType(writer, content.contentType);
+    writer.vector(content.authenticatedData);
+    return writer.finish();
+  }
+
+  // Проверки
+
+  private validateKeyPackage(keyPackage: KeyPackage): void {
+    const now = Math.floor(Date.now() / 1000);
+    const { leafNode } = keyPackage;
+
+    const isValid =
+      keyPackage.version === MLS_VERSION &&
+      keyPackage.cipherSuite === MLS_CIPHER_SUITE &&
+      leafNode.leafNodeSource === 'key_package' &&
+      !this.equals(keyPackage.initKey, leafNode.encryptionKey) &&
+      leafNode.lifetime !== undefined &&
+      leafNode.lifetime.notBefore <= now &&
+      now <= leafNode.lifetime.notAfter &&
+      this.verifyLeafNode(leafNode) &&
+      this.suite.verifyWithLabel(
+        leafNode.signatureKey,
+        'KeyPackageTBS',
+        MLSCodec.encode(keyPackage, MLSCodec.writeKeyPackageTBS),
+        keyPackage.signature
+      );
+
+    if (!isValid) {
+      throw new Error('Invalid key package');
+    }
+  }
+
+  private validateProposal(state: GroupState, proposal: MLSProposal, sender: number): void {
+    switch (proposal.type) {
+      case 'add':
+        this.validateKeyPackage(proposal.keyPackage);
+        break;
+      case 'update': {
+        const current = state.tree.getLeaf(sender);
+        const isValid =
+          current !== null &&
+          proposal.leafNode.leafNodeSource === 'update' &&
+          this.equals(proposal.leafNode.identity, current.identity) &&
+          this.verifyLeafNode(proposal.leafNode, state.context.groupId, sender);
+        if (!isValid) {
+          throw new Error('Invalid update proposal');
+        }
+        break;
+      }
+      case 'remove':
+        if (!state.tree.getLeaf(proposal.removed)) {
+          throw new Error('Invalid remove proposal');
+        }
+        break;
+      case 'group_context_extensions':
+        break;
+    }
+  }
+
+  private verifyLeafNode(leaf: LeafNode, groupId?: Uint8Array, leafIndex?: number): boolean {
+    const binding =
+      leaf.leafNodeSource !== 'key_package' && groupId !== undefined && leafIndex !== undefined
+        ? { groupId, leafIndex }
+        : undefined;
+    if (leaf.leafNodeSource !== 'key_package' && !binding) {
+      return false;
+    }
+
+    return this.suite.verifyWithLabel(
+      leaf.signatureKey,
+      'LeafNodeTBS',
+      MLSCodec.encode(leaf, (writer, value) => MLSCodec.writeLeafNodeTBS(writer, value, binding)),
+      leaf.signature
+    );
+  }
+
+  // Администрирование группы
+
+  private isAuthorized(state: GroupState, proposal: MLSProposal, sender: number): boolean {
+    const administration = this.decodeAdministration(state.context.extensions);
+    const actor = this.leafIdentity(state.tree, sender);
+
+    switch (proposal.type) {
+      case 'add':
+        return GroupAdministrationModel.canPerform(administration, actor, 'add_member');
+      case 'remove':
+        return GroupAdministrationModel.canRemove(
+          administration,
+          actor,
+          this.leafIdentity(state.tree, proposal.removed)
+        );
+      case 'update':
+        return true;
+      case 'group_context_extensions': {
+        let next: GroupAdministration | null;
+        try {
+          next = this.decodeAdministration(proposal.extensions);
+        } catch {
+          return false;
+        }
+
+        // Удалить расширение нельзя: иначе любой участник снял бы все ограничения
+        if (!next) return administration === null;
+        return GroupAdministrationModel.canChange(administration, next, actor);
+      }
+    }
+  }
+
+  private requirePermission(state: GroupState, action: GroupAction): void {
+    const administration = this.decodeAdministration(state.context.extensions);
+    if (!GroupAdministrationModel.canPerform(administration, this.userId, action)) {
+      throw new Error('Not authorized by group policy');
+    }
+  }
+
+  private async commitAdministration(
+    state: GroupState,
+    update: (administration: GroupAdministration) => GroupAdministration
+  ): Promise<void> {
+    const current =
+      this.decodeAdministration(state.context.extensions) ??
+      GroupAdministrationModel.create(this.userId);
+
+    await this.commit(state, [
+      {
+        type: 'group_context_extensions',
+        extensions: this.replaceAdministration(state.context.extensions, update(current)),
+      },
+    ]);
+  }
+
+  private encodeAdministration(administration: GroupAdministration): MLSExtension {
+    return {
+      extensionType: GROUP_ADMINISTRATION_EXTENSION,
+      extensionData: MLSCodec.encode(administration, MLSCodec.writeGroupAdministration),
+    };
+  }
+
+  private decodeAdministration(extensions: MLSExtension[]): GroupAdministration | null {
+    const extension = extensions.find(e => e.extensionType === GROUP_ADMINISTRATION_EXTENSION);
+    return extension
+      ? MLSCodec.decode(extension.extensionData, MLSCodec.readGroupAdministration)
+      : null;
+  }
+
+  private replaceAdministration(
+    extensions: MLSExtension[],
+    administration: GroupAdministration
+  ): MLSExtension[] {
+    return [
+      ...extensions.filter(e => e.extensionType !== GROUP_ADMINISTRATION_EXTENSION),
+      this.encodeAdministration(administration),
+    ];
+  }
+
+  // Вспомогательные методы
+
+  private signLeafNode(leaf: LeafNode, state?: GroupState): LeafNode {
+    const binding = state
+      ? { groupId: state.context.groupId, leafIndex: state.ownLeaf }
+      : undefined;
+    return {
+      ...leaf,
+      signature: this.suite.signWithLabel(
+        this.getSignatureKeyPair().privateKey,
+        'LeafNodeTBS',
+        MLSCodec.encode(leaf, (writer, value) => MLSCodec.writeLeafNodeTBS(writer, value, binding))
+      ),
+    };
+  }
+
+  private capabilities() {
+    return {
+      versions: [MLS_VERSION],
+      cipherSuites: [MLS_CIPHER_SUITE],
+      extensions: [],
+      proposals: [],
+      credentials: [1], // basic
+    };
+  }
+
+  private async fetchKeyPackage(userId: string): Promise<KeyPackage> {
+    const keyPackage = this.keyPackages.get(userId);
+    if (!keyPackage) {
+      throw new Error(`No key package for user ${userId}`);
+    }
+
+    // Key package одноразовый: init key нельзя использовать в двух Welcome
+    this.keyPackages.delete(userId);
+    return keyPackage;
+  }
+
+  private findMemberLeaf(state: GroupState, userId: string): number | undefined {
+    const identity = new TextEncoder().encode(userId);
+    return state.tree.leaves().find(({ leaf }) => this.equals(leaf.identity, identity))?.leafIndex;
+  }
+
+  private leafIdentity(tree: RatchetTree, leafIndex: number): string {
+    const leaf = tree.getLeaf(leafIndex);
+    return leaf ? new TextDecoder().decode(leaf.identity) : '';
+  }
+
+  private proposalTarget(state: GroupState, pending: PendingProposal): string | undefined {
+    switch (pending.proposal.type) {
+      case 'add':
+        return new TextDecoder().decode(pending.proposal.keyPackage.leafNode.identity);
+      case 'remove':
+        return this.leafIdentity(state.tree, pending.proposal.removed);
+      default:
+        return undefined;
+    }
+  }
+
+  // Сохранение состояния: TLS-кодирование, поля читаются в порядке записи
+
+  private async saveGroup(state: GroupState): Promise<void> {
+    await this.store.storeMLSGroup(
+      state.groupId,
+      MLSCodec.encode(state, (writer, value) => this.writeGroupState(writer, value))
+    );
+  }
+
+  private writeGroupState(writer: TLSWriter, state: GroupState): void {
+    const encoder = new TextEncoder();
+
+    writer.vector(encoder.encode(state.groupId));
+    MLSCodec.writeGroupContext(writer, state.context);
+    writer
+      .vector(state.tree.encode())
+      .uint32(state.ownLeaf)
+      .vectorOf(Array.from(state.privateKeys), (w, [nodeIndex, privateKey]) => {
+        w.uint32(nodeIndex).vector(privateKey);
+      });
+    this.writeEpochSecrets(writer, state.secrets);
+    state.secretTree.encode(writer);
+
+    writer
+      .vectorOf(Array.from(state.pastEpochs), (w, [epoch, past]) => {
+        w.uint32(epoch);
+        MLSCodec.writeGroupContext(w, past.context);
+        w.vector(past.tree.encode()).vector(past.senderDataSecret);
+        past.secretTree.encode(w);
+        w.uint64(past.retiredAt);
+      })
+      .vector(state.interimTranscriptHash)
+      .vectorOf(Array.from(state.pendingProposals.values()), (w, pending) => {
+        w.vector(pending.ref);
+        MLSCodec.writeProposal(w, pending.proposal);
+        w.uint32(pending.sender).uint64(pending.receivedAt.getTime());
+      })
+      .vectorOf(Array.from(state.pendingUpdates), (w, [ref, privateKey]) => {
+        w.vector(encoder.encode(ref)).vector(privateKey);
+      })
+      .vectorOf(Array.from(state.memberInfo), (w, [userId, info]) => {
+        w.vector(encoder.encode(userId))
+          .vector(encoder.encode(info.addedBy))
+          .uint64(info.addedAt.getTime());
+      });
+  }
+
+  private readGroupState(reader: TLSReader): GroupState {
+    const decoder = new TextDecoder();
+
+    return {
+      groupId: decoder.decode(reader.vector()),
+      context: MLSCodec.readGroupContext(reader),
+      tree: RatchetTree.decode(this.suite, reader.vector()),
+      ownLeaf: reader.uint32(),
+      privateKeys: new Map(reader.vectorOf(r => [r.uint32(), r.vector()] as const)),
+      secrets: this.readEpochSecrets(reader),
+      secretTree: SecretTree.decode(this.suite, reader),
+      pastEpochs: new Map(
+        reader.vectorOf(r => {
+          const epoch = r.uint32();
+          return [
+            epoch,
+            {
+              context: MLSCodec.readGroupContext(r),
+              tree: RatchetTree.decode(this.suite, r.vector()),
+              senderDataSecret: r.vector(),
+              secretTree: SecretTree.decode(this.suite, r),
+              retiredAt: r.uint64(),
+            },
+          ] as const;
+        })
+      ),
+      interimTranscriptHash: reader.vector(),
+      pendingProposals: new Map(
+        reader.vectorOf(r => {
+          const ref = r.vector();
+          return [
+            sodium.to_hex(ref),
+            {
+              ref,
+              proposal: MLSCodec.readProposal(r),
+              sender: r.uint32(),
+              receivedAt: new Date(r.uint64()),
+            },
+          ] as const;
+        })
+      ),
+      pendingUpdates: new Map(
+        reader.vectorOf(r => [decoder.decode(r.vector()), r.vector()] as const)
+      ),
+      memberInfo: new Map(
+        reader.vectorOf(r => {
+          const userId = decoder.decode(r.vector());
+          return [
+            userId,
+            { addedBy: decoder.decode(r.vector()), addedAt: new Date(r.uint64()) },
+          ] as const;
+        })
+      ),
+    };
+  }
+
+  private writeEpochSecrets(writer: TLSWriter, secrets: EpochSecrets): void {
+    writer
+      .vector(secrets.senderDataSecret)
+      .vector(secrets.encryptionSecret)
+      .vector(secrets.exporterSecret)
+      .vector(secrets.confirmationKey)
+      .vector(secrets.membershipKey)
+      .vector(secrets.epochAuthenticator)
+      .vector(secrets.initSecret);
+  }
+
+  private readEpochSecrets(reader: TLSReader): EpochSecrets {
+    return {
+      senderDataSecret: reader.vector(),
+      encryptionSecret: reader.vector(),
+      exporterSecret: reader.vector(),
+      confirmationKey: reader.vector(),
+      membershipKey: reader.vector(),
+      epochAuthenticator: reader.vector(),
+      initSecret: reader.vector(),
+    };
+  }
+
+  private writeKeyPackageSecrets(writer: TLSWriter, secrets: KeyPackageSecrets): void {
+    MLSCodec.writeKeyPackage(writer, secrets.keyPackage);
+    writer.vector(secrets.initPrivateKey).vector(secrets.encryptionPrivateKey);
+  }
+
+  private readKeyPackageSecrets(reader: TLSReader): KeyPackageSecrets {
+    return {
+      keyPackage: MLSCodec.readKeyPackage(reader),
+      initPrivateKey: reader.vector(),
+      encryptionPrivateKey: reader.vector(),
+    };
+  }
+
+  private getState(groupId: string): GroupState {
+    const state = this.groups.get(groupId);
+    if (!state) {
+      throw new Error('Group not found');
+    }
+    return state;
+  }
+
+  private getSignatureKeyPair(): KeyPair {
+    if (!this.signatureKeyPair) {
+      throw new Error('MLS service not initialized');
+    }
+    return this.signatureKeyPair;
+  }
+
+  private destroyGroup(state: GroupState): void {
+    state.secretTree.destroy();
+    this.wipeSecrets(state.secrets);
+    for (const past of state.pastEpochs.values()) {
+      past.secretTree.destroy();
+      sodium.memzero(past.senderDataSecret);
+    }
+    state.pastEpochs.clear();
+    for (const privateKey of state.privateKeys.values()) {
+      sodium.memzero(privateKey);
+    }
+    this.groups.delete(state.groupId);
+  }
+
+  private wipeSecrets(secrets: EpochSecrets): void {
+    for (const secret of Object.values(secrets)) {
+      sodium.memzero(secret);
+    }
+  }
+
+  private equals(a: Uint8Array, b: Uint8Array): boolean {
+    return a.length === b.length && sodium.memcmp(a, b);
+  }
+
+  private concat(...parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+}
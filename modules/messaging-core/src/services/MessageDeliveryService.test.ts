@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import type { DHTRecord, IDHTService, IP2PService, PeerInfo } from '@messa/p2p-network';
+import { MessageDeliveryService } from './MessageDeliveryService';
+import { MessageEncryptionService } from './MessageEncryptionService';
+import { InMemoryMailboxStore, InMemoryOutboxStore } from './DeliveryStore';
+import { InMemorySessionStore } from './SessionStore';
+import { MessageModel } from '../models/Message';
+import type { IOutboxStore, ISessionStore, Message } from '../types';
+
+type RequestHandler = (data: Uint8Array, from: string) => Promise<Uint8Array>;
+
+// Сеть в памяти: узлы отвечают на запросы напрямую, пока включены; DHT общая для всех
+class MemoryNetwork {
+  records: Map<string, Uint8Array> = new Map();
+  providers: Map<string, Set<string>> = new Map();
+  nodes: Map<string, MemoryNode> = new Map();
+
+  createNode(peerId: string): MemoryNode {
+    const node = new MemoryNode(this, peerId);
+    this.nodes.set(peerId, node);
+    return node;
+  }
+
+  createDHT(peerId: string): IDHTService {
+    return new MemoryDHT(this, peerId);
+  }
+
+  peerInfo(peerId: string): PeerInfo {
+    return { id: peerId, addresses: [], protocols: [], metadata: new Map(), lastSeen: new Date() };
+  }
+}
+
+class MemoryNode implements IP2PService {
+  online: boolean = true;
+  private requestHandlers: Map<string, RequestHandler> = new Map();
+
+  constructor(
+    private network: MemoryNetwork,
+    private peerId: string
+  ) {}
+
+  async start(): Promise<void> {
+    this.online = true;
+  }
+
+  async stop(): Promise<void> {
+    this.online = false;
+  }
+
+  async connect(peerId: string): Promise<void> {
+    this.reach(peerId);
+  }
+
+  async disconnect(): Promise<void> {}
+
+  async send(): Promise<void> {
+    throw new Error('Not supported');
+  }
+
+  async broadcast(): Promise<void> {}
+
+  async getPeers(): Promise<PeerInfo[]> {
+    return [];
+  }
+
+  getNodeId(): string {
+    return this.peerId;
+  }
+
+  onMessage(): void {}
+
+  async request(peerId: string, protocol: string, data: Uint8Array): Promise<Uint8Array> {
+    const handler = this.reach(peerId).requestHandlers.get(protocol);
+    if (!handler) {
+      throw new Error('Protocol not supported');
+    }
+    return handler(data.slice(), this.peerId);
+  }
+
+  onRequest(protocol: string, handler: RequestHandler): void {
+    this.requestHandlers.set(protocol, handler);
+  }
+
+  setProtocolLimits(): void {}
+
+  async publishPresence(): Promise<void> {}
+
+  private reach(peerId: string): MemoryNode {
+    const node = this.network.nodes.get(peerId);
+    if (!this.online || !node?.online) {
+      throw new Error('Peer unreachable');
+    }
+    return node;
+  }
+}
+
+class MemoryDHT implements IDHTService {
+  constructor(
+    private network: MemoryNetwork,
+    private peerId: string
+  ) {}
+
+  async put(key: string, value: Uint8Array): Promise<void> {
+    this.network.records.set(key, value.slice());
+  }
+
+  async get(key: string): Promise<DHTRecord | null> {
+    const value = this.network.records.get(key);
+    if (!value) return null;
+    return { key, value, timestamp: new Date(), signature: new Uint8Array(0), author: '' };
+  }
+
+  async findPeer(peerId: string): Promise<PeerInfo | null> {
+    return this.network.nodes.has(peerId) ? this.network.peerInfo(peerId) : null;
+  }
+
+  async provide(key: string): Promise<void> {
+    const providers = this.network.providers.get(key) ?? new Set<string>();
+    providers.add(this.peerId);
+    this.network.providers.set(key, providers);
+  }
+
+  async findProviders(key: string): Promise<PeerInfo[]> {
+    return Array.from(this.network.providers.get(key) ?? []).map(id => this.network.peerInfo(id));
+  }
+
+  // Ближайшие узлы - все включённые, кроме клиентов без почтовых ящиков
+  async findClosestPeers(_key: string, count: number): Promise<PeerInfo[]> {
+    return Array.from(this.network.nodes.values())
+      .filter(node => node.online && node.getNodeId().startsWith('relay'))
+      .slice(0, count)
+      .map(node => this.network.peerInfo(node.getNodeId()));
+  }
+}
+
+interface Device {
+  node: MemoryNode;
+  encryption: MessageEncryptionService;
+  delivery: MessageDeliveryService;
+  inbox: Message[];
+}
+
+async function createDevice(
+  network: MemoryNetwork,
+  userId: string,
+  options: { sessionStore?: ISessionStore; outbox?: IOutboxStore; publish?: boolean } = {}
+): Promise<Device> {
+  const peerId = `${userId}-peer`;
+  const node = network.nodes.get(peerId) ?? network.createNode(peerId);
+  node.online = true;
+
+  const dht = network.createDHT(peerId);
+  const encryption = new MessageEncryptionService(userId, options.sessionStore, dht);
+  await encryption.initialize();
+  if (options.publish ?? true) {
+    await encryption.publishDevice(userId, peerId);
+  }
+
+  const delivery = new MessageDeliveryService(
+    userId,
+    node,
+    dht,
+    encryption,
+    options.outbox ?? new InMemoryOutboxStore(),
+    new InMemoryMailboxStore(),
+    { mailboxPollInterval: 60 * 60 * 1000 }
+  );
+
+  const inbox: Message[] = [];
+  delivery.onMessage(async envelope => {
+    inbox.push(await encryption.decryptMessage(envelope));
+  });
+  return { node, encryption, delivery, inbox };
+}
+
+describe('MessageDeliveryService', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  it('delivers to a peer that starts after the message was sent', async () => {
+    const network = new MemoryNetwork();
+    const relays = [
+      await createDevice(network, 'relay1'),
+      await createDevice(network, 'relay2'),
+    ];
+    const alice = await createDevice(network, 'alice');
+    const bob = await createDevice(network, 'bob');
+    bob.node.online = false;
+
+    try {
+      await Promise.all(relays.map(relay => relay.delivery.start()));
+      await alice.delivery.start();
+
+      const message = MessageModel.create({
+        conversationId: 'bob',
+        senderId: 'alice',
+        content: 'left in the mailbox',
+      });
+      await alice.delivery.send(message, 'bob', { recipientOnly: true });
+      await alice.delivery.flush();
+
+      // Получатель недоступен: конверт лежит у почтовых узлов, а не в очереди отправителя
+      expect(await alice.delivery.fetchMailboxes()).toBe(0);
+
+      bob.node.online = true;
+      await bob.delivery.start();
+
+      expect(bob.inbox.map(received => received.content)).toEqual(['left in the mailbox']);
+      expect(await bob.delivery.fetchMailboxes()).toBe(0);
+    } finally {
+      for (const device of [...relays, alice, bob]) device.delivery.stop();
+    }
+  });
+
+  it('acknowledges copies from other mailboxes after a restart', async () => {
+    const network = new MemoryNetwork();
+    const relays = [
+      await createDevice(network, 'relay1'),
+      await createDevice(network, 'relay2'),
+    ];
+    const alice = await createDevice(network, 'alice');
+
+    const sessionStore = new InMemorySessionStore();
+    const outbox = new InMemoryOutboxStore();
+    const bob = await createDevice(network, 'bob', { sessionStore, outbox });
+    bob.node.online = false;
+
+    const devices = [...relays, alice, bob];
+    try {
+      await Promise.all(relays.map(relay => relay.delivery.start()));
+      await alice.delivery.start();
+      await alice.delivery.send(
+        MessageModel.create({ conversationId: 'bob', senderId: 'alice', content: 'once' }),
+        'bob',
+        { recipientOnly: true }
+      );
+      await alice.delivery.flush();
+
+      // Первая копия забирается, пока второй почтовый узел недоступен
+      relays[1]!.node.online = false;
+      bob.node.online = true;
+      await bob.delivery.start();
+      expect(bob.inbox).toHaveLength(1);
+      bob.delivery.stop();
+
+      // Перезапуск: сессии и id полученных конвертов восстанавливаются из хранилищ
+      const restarted = await createDevice(network, 'bob', {
+        sessionStore,
+        outbox,
+        publish: false,
+      });
+      devices.push(restarted);
+      relays[1]!.node.online = true;
+
+      expect(await restarted.delivery.fetchMailboxes()).toBe(1);
+      expect(restarted.inbox).toHaveLength(0);
+      expect(await restarted.delivery.fetchMailboxes()).toBe(0);
+    } finally {
+      for (const device of devices) device.delivery.stop();
+    }
+  });
+});
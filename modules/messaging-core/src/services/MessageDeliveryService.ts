@@ -0,0 +1,617 @@
+import sodium from 'libsodium-wrappers';
+import type { IDHTService, IP2PService } from '@messa/p2p-network';
+import { InMemoryMailboxStore, InMemoryOutboxStore } from './DeliveryStore';
+import { ProtoReader, ProtoWriter, WireCodec } from './WireCodec';
+import type { MessageEncryptionService } from './MessageEncryptionService';
+import type {
+  DeliveryConfig,
+  EncryptedMessage,
+  IMailboxStore,
+  IOutboxStore,
+  Message,
+  MessageSendOptions,
+  OutboxEntry,
+} from '../types';
+
+export const DELIVERY_PROTOCOL = '/messa/messages/1.0.0';
+export const MAILBOX_PROTOCOL = '/messa/mailbox/1.0.0';
+
+const MAILBOX_OPS = {
+  deposit: 1,
+  fetch: 2,
+  ack: 3,
+  register: 4,
+} as const;
+
+const MAX_ENVELOPE_SIZE = 2 * 1024 * 1024;
+const MAX_TIMER_DELAY = 2 ** 31 - 1; // Предел setTimeout, около 24 дней
+const FETCH_LIMIT = 100; // Конвертов за один запрос к почтовому ящику
+const MAX_FETCH_SIZE = 8 * 1024 * 1024; // Суммарный размер конвертов в одном ответе ящика
+const MAX_MAILBOX_OVERHEAD = 64 * 1024; // Адрес, id и разметка сверх самих конвертов
+const ACK = new Uint8Array([1]);
+
+interface MailboxRequest {
+  op: number;
+  address: string; // userId.deviceId получателя
+  envelope?: Uint8Array;
+  ids: string[];
+}
+
+interface MailboxResponse {
+  ok: boolean;
+  envelopes: Array<{ id: string; envelope: Uint8Array }>;
+}
+
+// Доставка конвертов с гарантией: каждый конверт сначала попадает в сохраняемую очередь, затем
+// отправляется напрямую на peer ID устройства получателя. Если устройство недоступно, конверт
+// оставляется в почтовых ящиках получателя - у назначенных им узлов или у ближайших к нему в DHT.
+// Получатель забирает конверты при подключении и подтверждает их, после чего ящик их удаляет.
+// Забрать или удалить конверты может только устройство с peer ID из подписанного списка устройств
+export class MessageDeliveryService {
+  private userId: string;
+  private p2p: IP2PService;
+  private dht: IDHTService;
+  private encryption: MessageEncryptionService;
+  private outbox: IOutboxStore;
+  private mailbox: IMailboxStore;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private messageLifetime: number;
+  private mailboxPeers: string[];
+  private mailboxReplicas: number;
+  private mailboxPollInterval: number;
+  private serveMailbox: boolean;
+  private mailboxRetention: number;
+  private mailboxQuota: number;
+  private mailboxMaxSize: number;
+  private handlers: Array<(envelope: EncryptedMessage) => Promise<void>> = [];
+  private failureHandlers: Array<(entry: OutboxEntry) => void> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private poller: ReturnType<typeof setInterval> | null = null;
+  private processing: Promise<void> | null = null;
+  private listening: boolean = false;
+
+  constructor(
+    userId: string,
+    p2p: IP2PService,
+    dht: IDHTService,
+    encryption: MessageEncryptionService,
+    outbox: IOutboxStore = new InMemoryOutboxStore(),
+    mailbox: IMailboxStore = new InMemoryMailboxStore(),
+    config: DeliveryConfig = {}
+  ) {
+    this.userId = userId;
+    this.p2p = p2p;
+    this.dht = dht;
+    this.encryption = encryption;
+    this.outbox = outbox;
+    this.mailbox = mailbox;
+    this.retryDelay = config.retryDelay ?? 5000;
+    this.maxRetryDelay = config.maxRetryDelay ?? 60 * 60 * 1000; // 1 час
+    this.messageLifetime = config.messageLifetime ?? 30 * 24 * 60 * 60 * 1000; // 30 дней
+    this.mailboxPeers = config.mailboxPeers ?? [];
+    this.mailboxReplicas = config.mailboxReplicas ?? 3;
+    this.mailboxPollInterval = config.mailboxPollInterval ?? 5 * 60 * 1000;
+    this.serveMailbox = config.serveMailbox ?? true;
+    this.mailboxRetention = config.mailboxRetention ?? 14 * 24 * 60 * 60 * 1000; // 14 дней
+    this.mailboxQuota = config.mailboxQuota ?? 1000;
+    this.mailboxMaxSize = config.mailboxMaxSize ?? 100 * 1024 * 1024;
+  }
+
+  // Вызывается после запуска P2P-узла и публикации устройства с его peer ID
+  async start(): Promise<void> {
+    await sodium.ready;
+
+    if (!this.listening) {
+      this.p2p.setProtocolLimits(DELIVERY_PROTOCOL, {
+        maxRequestSize: MAX_ENVELOPE_SIZE,
+        maxResponseSize: ACK.length,
+      });
+      this.p2p.setProtocolLimits(MAILBOX_PROTOCOL, {
+        maxRequestSize: MAX_ENVELOPE_SIZE + MAX_MAILBOX_OVERHEAD,
+        maxResponseSize: MAX_FETCH_SIZE + MAX_MAILBOX_OVERHEAD,
+      });
+      this.p2p.onRequest(DELIVERY_PROTOCOL, async request =>
+        (await this.receive(request)) ? ACK : new Uint8Array(0)
+      );
+      if (this.serveMailbox) {
+        this.p2p.onRequest(MAILBOX_PROTOCOL, (request, from) => this.handleMailbox(request, from));
+      }
+      this.listening = true;
+    }
+
+    await this.registerMailboxes();
+    await this.fetchMailboxes();
+    await this.flush();
+
+    if (!this.poller) {
+      this.poller = setInterval(() => {
+        this.fetchMailboxes().catch(error => {
+          console.error('Failed to fetch mailboxes:', error);
+        });
+      }, this.mailboxPollInterval);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.poller) {
+      clearInterval(this.poller);
+      this.poller = null;
+    }
+  }
+
+  // Обработчик получает каждый конверт один раз; ошибка обработчика оставляет конверт
+  // неподтверждённым, и отправитель или почтовый ящик доставят его повторно
+  onMessage(handler: (envelope: EncryptedMessage) => Promise<void>): void {
+    this.handlers.push(handler);
+  }
+
+  // Конверт не удалось доставить за messageLifetime
+  onFailed(handler: (entry: OutboxEntry) => void): void {
+    this.failureHandlers.push(handler);
+  }
+
+  async send(
+    message: Message,
+    recipientId: string,
+    options: MessageSendOptions = {}
+  ): Promise<void> {
+    const envelopes = await this.encryption.encryptMessage(message, recipientId, options);
+    for (const envelope of envelopes) {
+      await this.enqueue(
+        envelope,
+        envelope.recipientId ?? recipientId,
+        envelope.recipientDeviceId ?? 1
+      );
+    }
+  }
+
+  // Один конверт MLS ставится в очередь для каждого устройства каждого участника
+  async sendGroup(
+    message: Message,
+    groupId: string,
+    memberIds: string[],
+    options: MessageSendOptions = {}
+  ): Promise<void> {
+    const envelope = await this.encryption.encryptGroupMessage(message, groupId, options);
+    for (const memberId of memberIds) {
+      if (memberId === this.userId) continue;
+      for (const deviceId of await this.resolveDeviceIds(memberId)) {
+        await this.enqueue(envelope, memberId, deviceId);
+      }
+    }
+  }
+
+  async enqueue(envelope: EncryptedMessage, recipientId: string, deviceId: number): Promise<void> {
+    const now = Date.now();
+    await this.outbox.storeEntry({
+      id: `${envelope.id}:${this.toAddress(recipientId, deviceId)}`,
+      recipientId,
+      recipientDeviceId: deviceId,
+      envelope: WireCodec.encodeEnvelope(envelope),
+      attempts: 0,
+      nextAttemptAt: new Date(now),
+      expiresAt: new Date(now + this.messageLifetime),
+    });
+    this.startTimer(0);
+  }
+
+  // Отправка всех конвертов, срок повтора которых наступил; параллельные вызовы ждут текущий проход
+  async flush(): Promise<void> {
+    if (!this.processing) {
+      this.processing = this.processOutbox().finally(() => {
+        this.processing = null;
+      });
+    }
+    await this.processing;
+    await this.schedule();
+  }
+
+  // Забрать конверты, оставленные, пока устройство было недоступно
+  async fetchMailboxes(): Promise<number> {
+    await sodium.ready;
+
+    const address = this.toAddress(this.userId, this.encryption.getDeviceId());
+    let count = 0;
+    await this.outbox.deleteExpiredReceived(new Date());
+
+    for (const peerId of await this.findMailboxes(this.userId, this.mailboxPeers)) {
+      try {
+        for (;;) {
+          const response = await this.requestMailbox(peerId, {
+            op: MAILBOX_OPS.fetch,
+            address,
+            ids: [],
+          });
+          if (!response.ok || response.envelopes.length === 0) break;
+
+          const accepted: string[] = [];
+          for (const { id, envelope } of response.envelopes) {
+            if (await this.receive(envelope)) accepted.push(id);
+          }
+          if (accepted.length > 0) {
+            await this.requestMailbox(peerId, { op: MAILBOX_OPS.ack, address, ids: accepted });
+          }
+          count += accepted.length;
+
+          // Короткий ответ означает пустой ящик, только если его не урезал предел размера
+          const size = response.envelopes.reduce((sum, { envelope }) => sum + envelope.length, 0);
+          if (
+            accepted.length < response.envelopes.length ||
+            (response.envelopes.length < FETCH_LIMIT && size + MAX_ENVELOPE_SIZE <= MAX_FETCH_SIZE)
+          ) {
+            break;
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to fetch mailbox from ${peerId}:`, error);
+      }
+    }
+
+    return count;
+  }
+
+  // Вспомогательные методы
+
+  private async processOutbox(): Promise<void> {
+    const now = Date.now();
+
+    for (const entry of await this.outbox.getDueEntries(new Date(now))) {
+      if (entry.expiresAt.getTime() <= now) {
+        await this.outbox.deleteEntries([entry.id]);
+        for (const handler of this.failureHandlers) {
+          handler(entry);
+        }
+        continue;
+      }
+
+      if (await this.deliver(entry)) {
+        await this.outbox.deleteEntries([entry.id]);
+        continue;
+      }
+
+      const delay = Math.min(this.retryDelay * 2 ** entry.attempts, this.maxRetryDelay);
+      await this.outbox.storeEntry({
+        ...entry,
+        attempts: entry.attempts + 1,
+        nextAttemptAt: new Date(Math.min(now + delay, entry.expiresAt.getTime())),
+      });
+    }
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<boolean> {
+    const peerId = await this.resolvePeer(entry.recipientId, entry.recipientDeviceId);
+    if (peerId) {
+      try {
+        const response = await this.p2p.request(peerId, DELIVERY_PROTOCOL, entry.envelope);
+        if (this.isAck(response)) return true;
+      } catch {
+        // Устройство недоступно, конверт уходит в почтовые ящики
+      }
+    }
+
+    return this.deposit(entry);
+  }
+
+  private async deposit(entry: OutboxEntry): Promise<boolean> {
+    const address = this.toAddress(entry.recipientId, entry.recipientDeviceId);
+    let stored = 0;
+
+    for (const peerId of await this.findMailboxes(entry.recipientId, [])) {
+      try {
+        const response = await this.requestMailbox(peerId, {
+          op: MAILBOX_OPS.deposit,
+          address,
+          envelope: entry.envelope,
+          ids: [],
+        });
+        if (response.ok) stored++;
+      } catch (error) {
+        console.error(`Failed to deposit envelope at ${peerId}:`, error);
+      }
+      if (stored >= this.mailboxReplicas) break;
+    }
+
+    return stored > 0;
+  }
+
+  // Назначенные почтовые узлы объявляют себя в DHT; ближайшие к ключу узлы - запасной вариант
+  private async findMailboxes(userId: string, designated: string[]): Promise<string[]> {
+    const key = this.toMailboxKey(userId);
+    const [providers, closest] = await Promise.all([
+      this.dht.findProviders(key),
+      this.dht.findClosestPeers(key, this.mailboxReplicas),
+    ]);
+
+    const ownId = this.p2p.getNodeId();
+    const peerIds: string[] = [];
+    for (const peerId of [...designated, ...providers.map(p => p.id), ...closest.map(p => p.id)]) {
+      if (peerId !== ownId && !peerIds.includes(peerId)) {
+        peerIds.push(peerId);
+      }
+    }
+    return peerIds;
+  }
+
+  private async registerMailboxes(): Promise<void> {
+    const address = this.toAddress(this.userId, this.encryption.getDeviceId());
+
+    await Promise.allSettled(
+      this.mailboxPeers.map(async peerId => {
+        const response = await this.requestMailbox(peerId, {
+          op: MAILBOX_OPS.register,
+          address,
+          ids: [],
+        });
+        if (!response.ok) {
+          console.error(`Mailbox ${peerId} refused registration`);
+        }
+      })
+    );
+  }
+
+  private async receive(data: Uint8Array): Promise<boolean> {
+    let envelope: EncryptedMessage;
+    try {
+      envelope = WireCodec.decodeEnvelope(data);
+    } catch (error) {
+      // Повреждённый конверт подтверждается, чтобы его не присылали снова
+      console.error('Dropping malformed envelope:', error);
+      return true;
+    }
+
+    // Копии конверта лежат в нескольких почтовых ящиках, и после перезапуска они расшифровываться
+    // уже не будут: id полученных конвертов хранятся, пока отправитель может повторять доставку
+    if (await this.outbox.hasReceived(envelope.id)) return true;
+
+    try {
+      for (const handler of this.handlers) {
+        await handler(envelope);
+      }
+    } catch (error) {
+      console.error('Failed to handle envelope:', error);
+      return false;
+    }
+
+    await this.outbox.storeReceived(envelope.id, new Date(Date.now() + this.messageLifetime));
+    return true;
+  }
+
+  // Почтовый ящик для других: принимает конверты в пределах квот и отдаёт их владельцу устройства
+  private async handleMailbox(data: Uint8Array, from: string): Promise<Uint8Array> {
+    const request = this.decodeMailboxRequest(data);
+    const now = new Date();
+    await this.mailbox.deleteExpired(now);
+
+    switch (request.op) {
+      case MAILBOX_OPS.deposit: {
+        const envelope = request.envelope;
+        if (
+          !envelope ||
+          envelope.length > MAX_ENVELOPE_SIZE ||
+          !this.parseAddress(request.address)
+        ) {
+          return this.encodeMailboxResponse({ ok: false, envelopes: [] });
+        }
+
+        const usage = await this.mailbox.getUsage(request.address);
+        const totalSize = await this.mailbox.getTotalSize();
+        if (usage.count >= this.mailboxQuota || totalSize + envelope.length > this.mailboxMaxSize) {
+          return this.encodeMailboxResponse({ ok: false, envelopes: [] });
+        }
+
+        await this.mailbox.storeEntry({
+          id: sodium.to_hex(sodium.crypto_generichash(16, envelope)),
+          address: request.address,
+          envelope,
+          expiresAt: new Date(now.getTime() + this.mailboxRetention),
+        });
+        return this.encodeMailboxResponse({ ok: true, envelopes: [] });
+      }
+
+      case MAILBOX_OPS.fetch: {
+        if (!(await this.isAddressOwner(request.address, from))) break;
+
+        // Первый конверт отдаётся всегда, остальные - пока ответ не превышает MAX_FETCH_SIZE
+        const envelopes: MailboxResponse['envelopes'] = [];
+        let size = 0;
+        for (const entry of await this.mailbox.getEntries(request.address, FETCH_LIMIT)) {
+          size += entry.envelope.length;
+          if (envelopes.length > 0 && size > MAX_FETCH_SIZE) break;
+          envelopes.push(entry);
+        }
+        return this.encodeMailboxResponse({ ok: true, envelopes });
+      }
+
+      case MAILBOX_OPS.ack:
+        if (!(await this.isAddressOwner(request.address, from))) break;
+        await this.mailbox.deleteEntries(request.address, request.ids);
+        return this.encodeMailboxResponse({ ok: true, envelopes: [] });
+
+      case MAILBOX_OPS.register: {
+        if (!(await this.isAddressOwner(request.address, from))) break;
+        const { userId } = this.parseAddress(request.address)!;
+        await this.dht.provide(this.toMailboxKey(userId));
+        return this.encodeMailboxResponse({ ok: true, envelopes: [] });
+      }
+    }
+
+    return this.encodeMailboxResponse({ ok: false, envelopes: [] });
+  }
+
+  private async isAddressOwner(address: string, peerId: string): Promise<boolean> {
+    const parsed = this.parseAddress(address);
+    if (!parsed) return false;
+
+    try {
+      const devices = await this.encryption.getDevices(parsed.userId);
+      return (
+        devices?.devices.some(
+          device => device.deviceId === parsed.deviceId && device.peerId === peerId
+        ) ?? false
+      );
+    } catch (error) {
+      console.error(`Failed to verify mailbox owner ${address}:`, error);
+      return false;
+    }
+  }
+
+  private async resolvePeer(userId: string, deviceId: number): Promise<string | null> {
+    try {
+      const devices = await this.encryption.getDevices(userId);
+      return devices?.devices.find(device => device.deviceId === deviceId)?.peerId ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Без реестра устройств известно только основное устройство
+  private async resolveDeviceIds(userId: string): Promise<number[]> {
+    try {
+      const devices = await this.encryption.getDevices(userId);
+      if (devices && devices.devices.length > 0) {
+        return devices.devices.map(device => device.deviceId);
+      }
+    } catch {
+      // Реестр не настроен
+    }
+    return [1];
+  }
+
+  private async requestMailbox(peerId: string, request: MailboxRequest): Promise<MailboxResponse> {
+    const response = await this.p2p.request(
+      peerId,
+      MAILBOX_PROTOCOL,
+      this.encodeMailboxRequest(request)
+    );
+    return this.decodeMailboxResponse(response);
+  }
+
+  private async schedule(): Promise<void> {
+    const next = await this.outbox.getNextAttempt();
+    if (!next) return;
+
+    this.startTimer(Math.min(Math.max(next.getTime() - Date.now(), 0), MAX_TIMER_DELAY));
+  }
+
+  private startTimer(delay: number): void {
+    if (this.timer) clearTimeout(this.timer);
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(error => {
+        console.error('Failed to process outbox:', error);
+        this.startTimer(this.retryDelay);
+      });
+    }, delay);
+  }
+
+  private isAck(response: Uint8Array): boolean {
+    return response.length === 1 && response[0] === ACK[0];
+  }
+
+  // message MailboxRequest { uint32 op = 1; string address = 2; bytes envelope = 3; repeated string ids = 4; }
+  private encodeMailboxRequest(request: MailboxRequest): Uint8Array {
+    const writer = new ProtoWriter()
+      .uint(1, request.op)
+      .string(2, request.address)
+      .bytes(3, request.envelope);
+    for (const id of request.ids) {
+      writer.string(4, id);
+    }
+    return writer.finish();
+  }
+
+  private decodeMailboxRequest(data: Uint8Array): MailboxRequest {
+    const reader = new ProtoReader(data);
+    const request: MailboxRequest = { op: 0, address: '', ids: [] };
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          request.op = reader.uint();
+          break;
+        case 2:
+          request.address = reader.string();
+          break;
+        case 3:
+          request.envelope = reader.bytes();
+          break;
+        case 4:
+          request.ids.push(reader.string());
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    return request;
+  }
+
+  // message MailboxResponse { bool ok = 1; repeated StoredEnvelope envelopes = 2; }
+  // message StoredEnvelope { string id = 1; bytes envelope = 2; }
+  private encodeMailboxResponse(response: MailboxResponse): Uint8Array {
+    return new ProtoWriter()
+      .bool(1, response.ok)
+      .repeated(2, response.envelopes, (inner, stored) =>
+        inner.string(1, stored.id).bytes(2, stored.envelope)
+      )
+      .finish();
+  }
+
+  private decodeMailboxResponse(data: Uint8Array): MailboxResponse {
+    const reader = new ProtoReader(data);
+    const response: MailboxResponse = { ok: false, envelopes: [] };
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          response.ok = reader.bool();
+          break;
+        case 2:
+          response.envelopes.push(
+            reader.message(inner => {
+              const stored = { id: '', envelope: new Uint8Array(0) };
+              while (!inner.isDone()) {
+                switch (inner.next()) {
+                  case 1:
+                    stored.id = inner.string();
+                    break;
+                  case 2:
+                    stored.envelope = inner.bytes();
+                    break;
+                  default:
+                    inner.skip();
+                }
+              }
+              return stored;
+            })
+          );
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    return response;
+  }
+
+  private toAddress(userId: string, deviceId: number): string {
+    return `${userId}.${deviceId}`;
+  }
+
+  private parseAddress(address: string): { userId: string; deviceId: number } | null {
+    const separator = address.lastIndexOf('.');
+    const deviceId = Number(address.slice(separator + 1));
+    if (separator <= 0 || !Number.isInteger(deviceId) || deviceId <= 0) return null;
+    return { userId: address.slice(0, separator), deviceId };
+  }
+
+  private toMailboxKey(userId: string): string {
+    return `mailbox:${userId}`;
+  }
+}
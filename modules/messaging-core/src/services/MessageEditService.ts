@@ -0,0 +1,159 @@
+import sodium from 'libsodium-wrappers';
+import { MessageModel } from '../models/Message';
+import { ProtoWriter, WireCodec } from './WireCodec';
+import type { SignalProtocolService } from './SignalProtocolService';
+import type { DeviceRegistryService } from './DeviceRegistryService';
+import type { Message, MessageEditConfig, TextEntity } from '../types';
+
+const MAX_CLOCK_SKEW = 5 * 60 * 1000; // Допустимое расхождение часов отправителя и получателя
+
+// Редактирование и удаление у всех. Управляющее сообщение подписывается identity key отправителя:
+// подпись связывает правку с автором исходного сообщения независимо от транспорта (1:1, группа,
+// sealed sender), где отправитель из содержимого сообщения ничем не подтверждён
+export class MessageEditService {
+  private userId: string;
+  private signal: SignalProtocolService;
+  private deviceRegistry: DeviceRegistryService | null;
+  private editTimeLimit: number;
+
+  constructor(
+    userId: string,
+    signal: SignalProtocolService,
+    deviceRegistry: DeviceRegistryService | null,
+    config: MessageEditConfig = {}
+  ) {
+    this.userId = userId;
+    this.signal = signal;
+    this.deviceRegistry = deviceRegistry;
+    this.editTimeLimit = config.editTimeLimit ?? 24 * 60 * 60 * 1000; // 1 день
+  }
+
+  setEditTimeLimit(limit: number): void {
+    this.editTimeLimit = limit;
+  }
+
+  createEdit(original: Message, content: string, entities: TextEntity[] = []): Message {
+    this.checkOwnMessage(original);
+    const edit = MessageModel.createEdit(original, content, entities);
+    this.checkEditable(original, edit);
+    return this.sign(edit);
+  }
+
+  createDeletion(original: Message): Message {
+    this.checkOwnMessage(original);
+    return this.sign(MessageModel.createDeletion(original));
+  }
+
+  // Проверка полученного управляющего сообщения и применение к локальной копии исходного;
+  // receivedAt - локальное время получения управляющего сообщения
+  async apply(
+    original: Message,
+    control: Message,
+    receivedAt: Date = new Date()
+  ): Promise<Message> {
+    if (control.type !== 'edit' && control.type !== 'delete') {
+      throw new Error('Not an edit or delete message');
+    }
+    if (
+      control.targetMessageId !== original.id ||
+      control.conversationId !== original.conversationId
+    ) {
+      throw new Error('Control message does not reference this message');
+    }
+    if (control.senderId !== original.senderId) {
+      throw new Error('Only the original sender can edit or delete a message');
+    }
+    await this.verify(control);
+
+    if (control.type === 'delete') {
+      return MessageModel.applyDeletion(original);
+    }
+    // Правка не может быть сделана позже, чем мы её получили
+    if (control.timestamp.getTime() > receivedAt.getTime() + MAX_CLOCK_SKEW) {
+      throw new Error('Edit timestamp is in the future');
+    }
+    this.checkEditable(original, control);
+    return MessageModel.applyEdit(original, control);
+  }
+
+  // Вспомогательные методы
+
+  private checkOwnMessage(original: Message): void {
+    if (original.senderId !== this.userId) {
+      throw new Error('Only the original sender can edit or delete a message');
+    }
+    if (original.deleted) {
+      throw new Error('Message already deleted');
+    }
+  }
+
+  // Время правки берётся из подписанного сообщения: доставка через офлайн-узлы может занять дни,
+  // поэтому время получения годится только как верхняя граница. Оба времени задаёт отправитель,
+  // и переведя часы назад, он уложит правку в окно - ограничение действует в пределах честных
+  // часов отправителя, как и в других мессенджерах без доверенного времени
+  private checkEditable(original: Message, edit: Message): void {
+    if (original.type !== 'text') {
+      throw new Error('Only text messages can be edited');
+    }
+    const elapsed = edit.timestamp.getTime() - original.timestamp.getTime();
+    if (elapsed < 0 || elapsed > this.editTimeLimit) {
+      throw new Error('Message edit time limit exceeded');
+    }
+  }
+
+  private sign(control: Message): Message {
+    return {
+      ...control,
+      signature: this.signal.signWithIdentityKey(this.signedPayload(control)),
+    };
+  }
+
+  private async verify(control: Message): Promise<void> {
+    if (!control.signature) {
+      throw new Error('Unsigned control message');
+    }
+
+    const identityKey = await this.getIdentityKey(control.senderId);
+    await sodium.ready;
+    if (
+      !sodium.crypto_sign_verify_detached(
+        control.signature,
+        this.signedPayload(control),
+        identityKey
+      )
+    ) {
+      throw new Error('Invalid control message signature');
+    }
+  }
+
+  // Ключ незнакомого участника группы закрепляется по его списку устройств из DHT
+  private async getIdentityKey(userId: string): Promise<Uint8Array> {
+    if (userId === this.userId) {
+      return this.signal.getIdentityKey();
+    }
+
+    if (!this.signal.getTrustedIdentity(userId) && this.deviceRegistry) {
+      await this.deviceRegistry.getDevices(userId);
+    }
+
+    const trusted = this.signal.getTrustedIdentity(userId);
+    if (!trusted) {
+      throw new Error('Unknown sender identity');
+    }
+    return trusted.identityKey;
+  }
+
+  private signedPayload(control: Message): Uint8Array {
+    return new ProtoWriter()
+      .string(1, 'MessaMessageControl')
+      .string(2, control.id)
+      .string(3, control.conversationId)
+      .string(4, control.senderId)
+      .string(5, control.type)
+      .string(6, control.targetMessageId)
+      .string(7, control.content)
+      .uint(8, control.timestamp.getTime())
+      .repeated(9, control.entities, WireCodec.writeTextEntity)
+      .finish();
+  }
+}
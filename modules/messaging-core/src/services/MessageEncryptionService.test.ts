@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import type { DHTRecord, IDHTService, PeerInfo } from '@messa/p2p-network';
+import { MessageEncryptionService } from './MessageEncryptionService';
+import { InMemorySessionStore } from './SessionStore';
+import { MessageModel } from '../models/Message';
+import type { ISessionStore } from '../types';
+
+// Общая DHT всех участников теста: только записи, без поиска пиров
+class MemoryDHT implements IDHTService {
+  private records: Map<string, Uint8Array> = new Map();
+
+  async put(key: string, value: Uint8Array): Promise<void> {
+    this.records.set(key, value.slice());
+  }
+
+  async get(key: string): Promise<DHTRecord | null> {
+    const value = this.records.get(key);
+    if (!value) return null;
+    return { key, value, timestamp: new Date(), signature: new Uint8Array(0), author: '' };
+  }
+
+  async findPeer(): Promise<PeerInfo | null> {
+    return null;
+  }
+
+  async provide(): Promise<void> {}
+
+  async findProviders(): Promise<PeerInfo[]> {
+    return [];
+  }
+
+  async findClosestPeers(): Promise<PeerInfo[]> {
+    return [];
+  }
+}
+
+async function createUser(
+  userId: string,
+  dht: IDHTService,
+  sessionStore?: ISessionStore
+): Promise<MessageEncryptionService> {
+  const service = new MessageEncryptionService(userId, sessionStore, dht);
+  await service.initialize();
+  await service.publishDevice(userId);
+  return service;
+}
+
+describe('MessageEncryptionService', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  it('delivers a message with the sender of the session', async () => {
+    const dht = new MemoryDHT();
+    const alice = await createUser('alice', dht);
+    const bob = await createUser('bob', dht);
+
+    const message = MessageModel.create({ conversationId: 'bob', senderId: 'alice', content: 'hi' });
+    const [encrypted] = await alice.encryptMessage(message, 'bob', { recipientOnly: true });
+
+    const decrypted = await bob.decryptMessage(encrypted!);
+    expect(decrypted.senderId).toBe('alice');
+    expect(decrypted.content).toBe('hi');
+  });
+
+  it('rejects a message whose content claims another sender', async () => {
+    const dht = new MemoryDHT();
+    await createUser('alice', dht);
+    const bob = await createUser('bob', dht);
+    const mallory = await createUser('mallory', dht);
+
+    const forged = MessageModel.create({ conversationId: 'bob', senderId: 'alice', content: 'hi' });
+    const [identified] = await mallory.encryptMessage(forged, 'bob', { recipientOnly: true });
+    await expect(bob.decryptMessage(identified!)).rejects.toThrow('Message sender mismatch');
+
+    // Конверт с чужим именем: ключ Alice закреплён по её списку устройств и не совпадает
+    const [relabeled] = await mallory.encryptMessage(forged, 'bob', { recipientOnly: true });
+    await expect(bob.decryptMessage({ ...relabeled!, senderId: 'alice' })).rejects.toThrow(
+      'Identity key changed: acknowledgement required'
+    );
+  });
+
+  describe('sealed sender', () => {
+    it('sends the first message of a new session unsealed and seals the replies', async () => {
+      const dht = new MemoryDHT();
+      const alice = await createUser('alice', dht);
+      const bob = await createUser('bob', dht);
+      const send = (sender: MessageEncryptionService, senderId: string, recipientId: string) =>
+        sender.encryptMessage(
+          MessageModel.create({ conversationId: recipientId, senderId, content: senderId }),
+          recipientId,
+          { recipientOnly: true, sealedSender: true }
+        );
+
+      // У Alice ещё нет token, а незнакомца Bob без него не примет
+      const [first] = await send(alice, 'alice', 'bob');
+      expect(first!.sealed).toBeFalsy();
+      expect(first!.preKeyMessage).toBeDefined();
+      expect((await bob.decryptMessage(first!)).senderId).toBe('alice');
+
+      // Bob уже известен Alice, его ответ запечатан и несёт его delivery key
+      const [reply] = await send(bob, 'bob', 'alice');
+      expect(reply!.sealed).toBe(true);
+      expect(reply!.senderId).toBe('');
+      expect(reply!.deliveryToken).toBeUndefined();
+      expect((await alice.decryptMessage(reply!)).senderId).toBe('bob');
+
+      const [second] = await send(alice, 'alice', 'bob');
+      expect(second!.sealed).toBe(true);
+      expect(second!.deliveryToken).toBeDefined();
+      expect((await bob.decryptMessage(second!)).content).toBe('alice');
+    });
+
+    it('keeps delivery keys across a restart', async () => {
+      const dht = new MemoryDHT();
+      const alice = await createUser('alice', dht);
+      const bobStore = new InMemorySessionStore();
+      const bob = await createUser('bob', dht, bobStore);
+      const send = (sender: MessageEncryptionService, senderId: string, recipientId: string) =>
+        sender.encryptMessage(
+          MessageModel.create({ conversationId: recipientId, senderId, content: senderId }),
+          recipientId,
+          { recipientOnly: true, sealedSender: true }
+        );
+
+      // Token для Alice появляется у Bob после её первого запечатанного сообщения
+      for (const [sender, senderId, recipient, recipientId] of [
+        [alice, 'alice', bob, 'bob'],
+        [bob, 'bob', alice, 'alice'],
+        [alice, 'alice', bob, 'bob'],
+      ] as const) {
+        const [message] = await send(sender, senderId, recipientId);
+        await recipient.decryptMessage(message!);
+      }
+      const [before] = await send(bob, 'bob', 'alice');
+      expect(before!.deliveryToken).toBeDefined();
+      const { deliveryKey } = await bobStore.loadSealedSenderState();
+
+      const restarted = new MessageEncryptionService('bob', bobStore, dht);
+      await restarted.initialize();
+
+      const [after] = await send(restarted, 'bob', 'alice');
+      expect(after!.deliveryToken).toEqual(before!.deliveryToken);
+      expect((await bobStore.loadSealedSenderState()).deliveryKey).toEqual(deliveryKey);
+      expect((await alice.decryptMessage(after!)).senderId).toBe('bob');
+    });
+  });
+});
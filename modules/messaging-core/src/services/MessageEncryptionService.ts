@@ -1,90 +1,200 @@
 import { v4 as uuidv4 } from 'uuid';
-import { QuantumResistantCrypto } from '@messa/crypto-layer';
+import type { IDHTService } from '@messa/p2p-network';
 import { SignalProtocolService } from './SignalProtocolService';
 import { MLSService } from './MLSService';
+import { DeviceRegistryService } from './DeviceRegistryService';
+import { KeyPackageDirectoryService } from './KeyPackageDirectoryService';
+import { SafetyNumberService } from './SafetyNumberService';
+import { SealedSenderService } from './SealedSenderService';
+import { MessageEditService } from './MessageEditService';
+import { WireCodec } from './WireCodec';
 import type { 
   IMessageEncryptionService, 
+  ISessionStore,
   Message, 
-  EncryptedMessage 
+  EncryptedMessage,
+  MessageSendOptions,
+  GroupSession,
+  GroupCreateOptions,
+  DeviceList,
+  DeviceLinkRequest,
+  SafetyNumber,
+  IdentityChangeEvent,
 } from '../types';
 
 export class MessageEncryptionService implements IMessageEncryptionService {
   private signalProtocol: SignalProtocolService;
   private mlsService: MLSService;
-  private qrc: QuantumResistantCrypto;
+  private deviceRegistry: DeviceRegistryService | null;
+  private keyPackageDirectory: KeyPackageDirectoryService | null;
+  private safetyNumbers: SafetyNumberService;
+  private sealedSender: SealedSenderService;
+  private messageEdits: MessageEditService;
   private userId: string;
 
-  constructor(userId: string) {
+  // Без DHT работает только с устройствами, с которыми уже есть сессии
+  constructor(userId: string, sessionStore?: ISessionStore, dht?: IDHTService) {
     this.userId = userId;
-    this.signalProtocol = new SignalProtocolService();
-    this.mlsService = new MLSService(userId);
-    this.qrc = new QuantumResistantCrypto();
+    this.signalProtocol = new SignalProtocolService(sessionStore);
+    this.mlsService = new MLSService(userId, {}, sessionStore);
+    this.safetyNumbers = new SafetyNumberService();
+    this.sealedSender = new SealedSenderService(userId, this.signalProtocol, {}, sessionStore);
+    this.deviceRegistry = dht
+      ? new DeviceRegistryService(userId, this.signalProtocol, dht, sessionStore)
+      : null;
+    this.keyPackageDirectory = dht
+      ? new KeyPackageDirectoryService(userId, this.signalProtocol, this.mlsService, dht)
+      : null;
+    this.messageEdits = new MessageEditService(userId, this.signalProtocol, this.deviceRegistry);
   }
 
   async initialize(): Promise<void> {
     await Promise.all([
       this.signalProtocol.initialize(),
       this.mlsService.initialize(),
-      this.qrc.initialize(),
+      this.sealedSender.initialize(),
+      this.deviceRegistry?.initialize(),
     ]);
   }
 
-  async encryptMessage(message: Message, recipientId: string): Promise<EncryptedMessage> {
+  // Отдельный шифротекст для каждого устройства получателя и наших остальных устройств
+  async encryptMessage(
+    message: Message,
+    recipientId: string,
+    options: MessageSendOptions = {}
+  ): Promise<EncryptedMessage[]> {
     // Сериализация сообщения
-    const messageData = this.serializeMessage(message);
-    
-    // Шифрование через Signal Protocol
-    const encrypted = await this.signalProtocol.encryptMessage(
-      recipientId,
-      messageData
-    );
-    
-    // Добавление квантово-устойчивого слоя
-    if (message.type !== 'text') {
-      // Для медиа-файлов используем дополнительное шифрование
-      const quantumEncrypted = await this.qrc.hybridEncrypt(
-        encrypted.ciphertext,
-        new Uint8Array(32) // Публичный ключ получателя
+    const messageData = WireCodec.encodeContent(message);
+
+    const targets: Array<{ userId: string; deviceId: number }> = [];
+    for (const deviceId of await this.resolveDeviceIds(recipientId)) {
+      if (options.deviceIds && !options.deviceIds.includes(deviceId)) continue;
+      targets.push({ userId: recipientId, deviceId });
+    }
+    if (recipientId !== this.userId && !options.recipientOnly) {
+      for (const deviceId of await this.resolveDeviceIds(this.userId)) {
+        targets.push({ userId: this.userId, deviceId });
+      }
+    }
+
+    const ownDeviceId = this.signalProtocol.getDeviceId();
+    const results: EncryptedMessage[] = [];
+
+    for (const target of targets) {
+      if (target.userId === this.userId && target.deviceId === ownDeviceId) continue;
+
+      await this.ensureSession(target.userId, target.deviceId);
+
+      // Шифрование через Signal Protocol
+      const encrypted = await this.signalProtocol.encryptMessage(
+        target.userId,
+        messageData,
+        target.deviceId
       );
-      
-      encrypted.ciphertext = quantumEncrypted;
+      encrypted.conversationId = recipientId;
+      encrypted.senderId = this.userId;
+
+      // Первое сообщение новой сессии без token уходит открытым: незнакомца получатель не примет
+      if (options.sealedSender && this.sealedSender.canSeal(encrypted)) {
+        results.push(await this.sealedSender.seal(encrypted));
+        continue;
+      }
+
+      results.push(encrypted);
     }
-    
-    return encrypted;
+
+    if (results.length === 0) {
+      throw new Error('No devices to deliver message to');
+    }
+    return results;
   }
 
   async decryptMessage(encrypted: EncryptedMessage): Promise<Message> {
-    let decryptedData: Uint8Array = encrypted.ciphertext;
-    
-    // Расшифровка квантово-устойчивого слоя если нужно
-    if (encrypted.messageType !== 1) { // не текстовое сообщение
-      decryptedData = await this.qrc.hybridDecrypt(
-        encrypted.ciphertext,
-        new Uint8Array(32) // Приватный ключ
+    if (encrypted.sealed) {
+      const unsealed = await this.sealedSender.unseal(encrypted);
+      const message = await this.decryptMessage(unsealed.message);
+
+      await this.sealedSender.saveDeliveryKey(
+        unsealed.certificate.senderId,
+        unsealed.certificate.senderDeviceId,
+        unsealed.deliveryKey
       );
+      return message;
     }
-    
+
+    // Ключ незнакомого отправителя закрепляется по его списку устройств из DHT до расшифровки:
+    // иначе первое же сообщение закрепило бы за чужим именем ключ настоящего отправителя
+    if (
+      encrypted.preKeyMessage &&
+      this.deviceRegistry &&
+      !this.signalProtocol.getTrustedIdentity(encrypted.senderId)
+    ) {
+      await this.deviceRegistry.getDevices(encrypted.senderId);
+    }
+
     // Расшифровка через Signal Protocol
-    const decryptedString = await this.signalProtocol.decryptMessage(
-      encrypted.senderId,
-      {
-        ...encrypted,
-        ciphertext: decryptedData,
-      }
-    );
+    const plaintext = await this.signalProtocol.decryptMessage(encrypted.senderId, encrypted);
     
     // Десериализация сообщения
-    return this.deserializeMessage(decryptedString);
+    const message = WireCodec.decodeContent(plaintext);
+
+    // Отправитель в содержимом должен совпадать с владельцем сессии, которой оно расшифровано,
+    // иначе участник может выдать своё сообщение за чужое и обойти проверки ролей
+    if (message.senderId !== encrypted.senderId) {
+      throw new Error('Message sender mismatch');
+    }
+    return message;
+  }
+
+  // Методы для работы с группами
+
+  // Публикация и пополнение key packages; вызывается при запуске и после присоединения к группе
+  async publishKeyPackages(): Promise<void> {
+    if (!this.keyPackageDirectory) {
+      throw new Error('Key package directory not configured');
+    }
+    await this.keyPackageDirectory.replenish();
+  }
+
+  async createGroup(
+    groupId: string,
+    memberIds: string[],
+    options?: GroupCreateOptions
+  ): Promise<GroupSession> {
+    for (const memberId of memberIds) {
+      if (memberId !== this.userId) await this.ensureKeyPackage(memberId);
+    }
+    return this.mlsService.createGroup(groupId, memberIds, options);
+  }
+
+  async addGroupMember(groupId: string, userId: string): Promise<void> {
+    await this.ensureKeyPackage(userId);
+    await this.mlsService.addMember(groupId, userId);
   }
 
-  async encryptGroupMessage(message: Message, groupId: string): Promise<EncryptedMessage> {
-    const messageData = this.serializeMessage(message);
+  async joinGroup(welcome: Uint8Array): Promise<GroupSession> {
+    const group = await this.mlsService.processWelcome(welcome);
+    await this.keyPackageDirectory?.replenish();
+    return group;
+  }
+
+  async encryptGroupMessage(
+    message: Message,
+    groupId: string,
+    options: MessageSendOptions = {}
+  ): Promise<EncryptedMessage> {
+    const messageData = WireCodec.encodeContent(message);
     
     // Шифрование через MLS
     const encrypted = await this.mlsService.encryptGroupMessage(
       groupId,
       messageData
     );
+
+    // PrivateMessage MLS уже шифрует данные отправителя, достаточно не передавать его открыто
+    if (options.sealedSender) {
+      encrypted.senderId = '';
+    }
     
     return encrypted;
   }
@@ -94,92 +204,177 @@ export class MessageEncryptionService implements IMessageEncryptionService {
     groupId: string
   ): Promise<Message> {
     // Расшифровка через MLS
-    const decryptedString = await this.mlsService.decryptGroupMessage(
+    const { senderId, applicationData } = await this.mlsService.decryptGroupMessage(
       groupId,
       encrypted
     );
     
-    return this.deserializeMessage(decryptedString);
+    // Отправитель подтверждён подписью его листа в дереве группы
+    const message = WireCodec.decodeContent(applicationData);
+    if (message.senderId !== senderId) {
+      throw new Error('Message sender mismatch');
+    }
+    return message;
   }
 
   // Методы для работы с эфемерными сообщениями
+
+  // Срок хранения копий отслеживает MessageExpiryService на каждой стороне
   async encryptEphemeralMessage(
     message: Message, 
     recipientId: string, 
-    ttl: number
-  ): Promise<EncryptedMessage> {
-    // Добавление метаданных об истечении
-    const ephemeralMessage = {
-      ...message,
-      ephemeral: true,
-      ephemeralTimeout: ttl,
-      expiresAt: new Date(Date.now() + ttl),
-    };
-    
-    const encrypted = await this.encryptMessage(ephemeralMessage, recipientId);
-    
-    // Планирование удаления
-    this.scheduleMessageDeletion(message.id, ttl);
-    
-    return encrypted;
+    ttl: number,
+    options: MessageSendOptions = {}
+  ): Promise<EncryptedMessage[]> {
+    return this.encryptMessage(
+      { ...message, ephemeral: true, ephemeralTimeout: ttl },
+      recipientId,
+      options
+    );
+  }
+
+  // Разрешить конверты sealed sender без delivery token от незнакомых отправителей
+  setSealedSenderUnrestricted(allow: boolean): void {
+    this.sealedSender.setUnrestricted(allow);
+  }
+
+  // Методы для редактирования и удаления у всех
+
+  // Возвращает подписанное управляющее сообщение, которое отправляется как обычное
+  editMessage(original: Message, content: string): Message {
+    return this.messageEdits.createEdit(original, content);
+  }
+
+  deleteMessageForEveryone(original: Message): Message {
+    return this.messageEdits.createDeletion(original);
+  }
+
+  // Применение полученной правки или удаления к локальной копии исходного сообщения;
+  // receivedAt - время получения, если правка применяется позже (например, из очереди)
+  async applyMessageControl(
+    original: Message,
+    control: Message,
+    receivedAt?: Date
+  ): Promise<Message> {
+    return this.messageEdits.apply(original, control, receivedAt);
+  }
+
+  setEditTimeLimit(limit: number): void {
+    this.messageEdits.setEditTimeLimit(limit);
+  }
+
+  // Методы для работы с устройствами
+
+  async publishDevice(name: string, peerId?: string): Promise<void> {
+    await this.requireDeviceRegistry().publishDevice(name, peerId);
+  }
+
+  getDeviceId(): number {
+    return this.signalProtocol.getDeviceId();
+  }
+
+  async getDevices(userId: string = this.userId): Promise<DeviceList | null> {
+    return this.requireDeviceRegistry().getDevices(userId);
+  }
+
+  async createDeviceLinkRequest(deviceName: string): Promise<DeviceLinkRequest> {
+    return this.requireDeviceRegistry().createLinkRequest(deviceName);
+  }
+
+  async approveDeviceLink(request: DeviceLinkRequest): Promise<number> {
+    return this.requireDeviceRegistry().approveLinkRequest(request);
+  }
+
+  async completeDeviceLink(linkId: string): Promise<number> {
+    const provisioning = await this.requireDeviceRegistry().completeLink(linkId);
+    return provisioning.deviceId;
+  }
+
+  async removeDevice(deviceId: number): Promise<void> {
+    await this.requireDeviceRegistry().removeDevice(deviceId);
   }
 
   // Вспомогательные методы
 
-  private serializeMessage(message: Message): string {
-    return JSON.stringify({
-      ...message,
-      timestamp: message.timestamp.toISOString(),
-    });
+  private requireDeviceRegistry(): DeviceRegistryService {
+    if (!this.deviceRegistry) {
+      throw new Error('Device registry not configured');
+    }
+    return this.deviceRegistry;
   }
 
-  private deserializeMessage(data: string): Message {
-    const parsed = JSON.parse(data);
-    return {
-      ...parsed,
-      timestamp: new Date(parsed.timestamp),
-      readReceipts: parsed.readReceipts?.map((r: any) => ({
-        ...r,
-        timestamp: new Date(r.timestamp),
-      })) || [],
-      reactions: parsed.reactions?.map((r: any) => ({
-        ...r,
-        timestamp: new Date(r.timestamp),
-      })) || [],
-    };
+  private async resolveDeviceIds(userId: string): Promise<number[]> {
+    const list = this.deviceRegistry ? await this.deviceRegistry.getDevices(userId) : null;
+    if (list) {
+      return list.devices.map(device => device.deviceId);
+    }
+
+    const known = this.signalProtocol.getSessionDeviceIds(userId);
+    if (known.length > 0 || userId === this.userId) {
+      return known;
+    }
+    return [1];
   }
 
-  private scheduleMessageDeletion(messageId: string, ttl: number): void {
-    setTimeout(() => {
-      // Эмитирование события удаления
-      this.deleteMessage(messageId);
-    }, ttl);
+  private async ensureSession(userId: string, deviceId: number): Promise<void> {
+    if (this.signalProtocol.hasSession(userId, deviceId) || !this.deviceRegistry) return;
+
+    const bundle = await this.deviceRegistry.getPreKeyBundle(userId, deviceId);
+    await this.signalProtocol.initializeSession(userId, bundle);
+  }
+
+  // Без DHT используются key packages, переданные в MLSService напрямую
+  private async ensureKeyPackage(userId: string): Promise<void> {
+    if (!this.keyPackageDirectory) return;
+    await this.keyPackageDirectory.fetchKeyPackage(userId);
   }
 
-  private async deleteMessage(messageId: string): Promise<void> {
-    // Безопасное удаление из локального хранилища
-    console.log(`Deleting ephemeral message: ${messageId}`);
+  // Сессия установлена в гибридном режиме PQXDH (значок "quantum-safe" в UI)
+  isQuantumSafe(recipientId: string, deviceId: number = 1): boolean {
+    return this.signalProtocol.isSessionQuantumSafe(recipientId, deviceId);
   }
 
   // Методы для end-to-end верификации
 
-  async generateSecurityCode(sessionId: string): Promise<string> {
-    // Генерация кода безопасности для верификации сессии
-    const sessionData = new TextEncoder().encode(sessionId);
-    const hash = await crypto.subtle.digest('SHA-256', sessionData);
-    const hashArray = Array.from(new Uint8Array(hash));
-    
-    // Конвертация в читаемый код
-    const code = hashArray
-      .slice(0, 6)
-      .map(byte => (byte % 10).toString())
-      .join('');
-    
-    return code;
+  async generateSafetyNumber(contactId: string): Promise<SafetyNumber> {
+    const trusted = this.signalProtocol.getTrustedIdentity(contactId);
+    if (!trusted) {
+      throw new Error('Unknown identity');
+    }
+
+    return this.safetyNumbers.generate(
+      this.userId,
+      this.signalProtocol.getIdentityKey(),
+      contactId,
+      trusted.identityKey
+    );
+  }
+
+  // Сканирование QR-кода собеседника: при совпадении контакт помечается проверенным
+  async verifySafetyNumber(contactId: string, scanned: Uint8Array): Promise<boolean> {
+    const ours = await this.generateSafetyNumber(contactId);
+    const matches = this.safetyNumbers.compareScannable(ours, scanned);
+
+    if (matches) {
+      await this.signalProtocol.setIdentityVerified(contactId, true);
+    }
+    return matches;
+  }
+
+  // Ручная сверка 60-значного кода
+  async setContactVerified(contactId: string, verified: boolean): Promise<void> {
+    await this.signalProtocol.setIdentityVerified(contactId, verified);
+  }
+
+  isContactVerified(contactId: string): boolean {
+    return this.signalProtocol.getTrustedIdentity(contactId)?.verified ?? false;
+  }
+
+  async acknowledgeIdentityChange(contactId: string): Promise<void> {
+    await this.signalProtocol.acknowledgeIdentityChange(contactId);
   }
 
-  async verifySecurityCode(sessionId: string, code: string): Promise<boolean> {
-    const expectedCode = await this.generateSecurityCode(sessionId);
-    return expectedCode === code;
+  onIdentityChange(handler: (event: IdentityChangeEvent) => void): void {
+    this.signalProtocol.on('identityChanged', handler);
   }
 }
@@ -0,0 +1,133 @@
+import type { MessageRepository } from '@messa/local-db';
+import { InMemoryExpiryStore } from './ExpiryStore';
+import type { AttachmentService } from './AttachmentService';
+import type { IExpiryStore, Message, MessageExpiration } from '../types';
+
+const MAX_TIMER_DELAY = 2 ** 31 - 1; // Предел setTimeout, около 24 дней
+const RETRY_DELAY = 60 * 1000;
+
+// Исчезающие сообщения: сроки хранятся в базе, поэтому переживают перезапуск, а просроченные
+// за время простоя удаляются при запуске. Таймер лишь будит сервис к ближайшему сроку.
+// Строки истории удаляются из переданного MessageRepository, записи поиска - обработчиком
+// onExpire MessageSearchService; срок снимается только после успешной работы всех
+// обработчиков, иначе удаление повторится
+export class MessageExpiryService {
+  private store: IExpiryStore;
+  private attachments: AttachmentService | null;
+  private handlers: Array<(expired: MessageExpiration[]) => Promise<void>> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private purging: Promise<number> | null = null;
+
+  constructor(
+    store: IExpiryStore = new InMemoryExpiryStore(),
+    attachments?: AttachmentService,
+    messages?: MessageRepository<Message>
+  ) {
+    this.store = store;
+    this.attachments = attachments ?? null;
+    if (messages) {
+      this.onExpire(expired =>
+        messages.deleteMessages(expired.map(expiration => expiration.messageId))
+      );
+    }
+  }
+
+  async initialize(): Promise<void> {
+    await this.purgeExpired();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  onExpire(handler: (expired: MessageExpiration[]) => Promise<void>): void {
+    this.handlers.push(handler);
+  }
+
+  // Отправленное сообщение исчезает через ephemeralTimeout после отправки, полученное - после прочтения
+  async track(message: Message, received: boolean): Promise<void> {
+    if (!message.ephemeral || !message.ephemeralTimeout) return;
+
+    await this.store.storeExpiration({
+      messageId: message.id,
+      conversationId: message.conversationId,
+      timeout: message.ephemeralTimeout,
+      expiresAt: received
+        ? undefined
+        : new Date(message.timestamp.getTime() + message.ephemeralTimeout),
+      attachment: message.attachment,
+    });
+    await this.schedule();
+  }
+
+  async markRead(messageId: string, readAt: Date = new Date()): Promise<void> {
+    const expiration = await this.store.getExpiration(messageId);
+    if (!expiration || expiration.expiresAt) return;
+
+    await this.store.storeExpiration({
+      ...expiration,
+      expiresAt: new Date(readAt.getTime() + expiration.timeout),
+    });
+    await this.schedule();
+  }
+
+  // Сообщение удалено раньше срока (например, удалено у всех)
+  async forget(messageId: string): Promise<void> {
+    await this.store.deleteExpirations([messageId]);
+  }
+
+  async getExpiration(messageId: string): Promise<MessageExpiration | null> {
+    return this.store.getExpiration(messageId);
+  }
+
+  // Возвращает количество удалённых сообщений; параллельные вызовы ждут текущую очистку
+  async purgeExpired(): Promise<number> {
+    if (!this.purging) {
+      this.purging = this.purge().finally(() => {
+        this.purging = null;
+      });
+    }
+    const count = await this.purging;
+    await this.schedule();
+    return count;
+  }
+
+  // Вспомогательные методы
+
+  private async purge(): Promise<number> {
+    const expired = await this.store.getDueExpirations(new Date());
+    if (expired.length === 0) return 0;
+
+    for (const handler of this.handlers) {
+      await handler(expired);
+    }
+    for (const { attachment } of expired) {
+      if (attachment) await this.attachments?.remove(attachment);
+    }
+
+    await this.store.deleteExpirations(expired.map(expiration => expiration.messageId));
+    return expired.length;
+  }
+
+  private async schedule(): Promise<void> {
+    this.stop();
+
+    const next = await this.store.getNextExpiry();
+    if (!next) return;
+
+    this.startTimer(Math.min(Math.max(next.getTime() - Date.now(), 0), MAX_TIMER_DELAY));
+  }
+
+  private startTimer(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.purgeExpired().catch(error => {
+        console.error('Failed to delete expired messages:', error);
+        this.startTimer(RETRY_DELAY);
+      });
+    }, delay);
+  }
+}
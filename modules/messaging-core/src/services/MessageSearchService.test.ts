@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import { DatabaseService } from '@messa/local-db';
+import { MessageSearchService } from './MessageSearchService';
+import { MessageExpiryService } from './MessageExpiryService';
+import { MessageModel } from '../models/Message';
+
+describe('MessageSearchService', () => {
+  let db: DatabaseService;
+  let expiry: MessageExpiryService;
+  let search: MessageSearchService;
+
+  beforeEach(async () => {
+    await sodium.ready;
+    db = new DatabaseService();
+    await db.initialize({ inMemory: true, encryptionKey: sodium.randombytes_buf(32) });
+    expiry = new MessageExpiryService();
+    search = new MessageSearchService(db, expiry);
+  });
+
+  afterEach(async () => {
+    expiry.stop();
+    await db.close();
+  });
+
+  it('removes a message deleted for everyone from the index', async () => {
+    const message = MessageModel.create({
+      conversationId: 'c1',
+      senderId: 'bob',
+      content: 'secret plan',
+    });
+    await search.indexMessage(message);
+    expect((await search.search({ query: 'plan' })).map(result => result.id)).toEqual([message.id]);
+
+    await search.indexMessage({ ...message, deleted: true });
+    expect(await search.search({ query: 'plan' })).toEqual([]);
+  });
+
+  it('removes an expired disappearing message from the index', async () => {
+    const message = {
+      ...MessageModel.create({ conversationId: 'c1', senderId: 'alice', content: 'secret plan' }),
+      ephemeral: true,
+      ephemeralTimeout: 1000,
+      timestamp: new Date(Date.now() - 2000),
+    };
+    const kept = MessageModel.create({ conversationId: 'c1', senderId: 'alice', content: 'plan' });
+    await search.indexMessage(message);
+    await search.indexMessage(kept);
+
+    await expiry.track(message, false);
+    expect(await expiry.purgeExpired()).toBe(1);
+    expect((await search.search({ query: 'plan' })).map(result => result.id)).toEqual([kept.id]);
+  });
+});
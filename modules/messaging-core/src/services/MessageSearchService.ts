@@ -0,0 +1,55 @@
+import { MessageModel } from '../models/Message';
+import type { DatabaseService, SearchIndex, SearchQuery, SearchResult } from '@messa/local-db';
+import type { MessageExpiryService } from './MessageExpiryService';
+import type { Message } from '../types';
+
+// Локальный поиск по расшифрованной истории. Индекс живёт в зашифрованной базе local-db;
+// сообщение индексируется после получения, отправки или правки и удаляется из индекса
+// при удалении у всех и по истечении срока исчезающего сообщения
+export class MessageSearchService {
+  private index: SearchIndex;
+
+  constructor(db: DatabaseService, expiry?: MessageExpiryService) {
+    this.index = db.getSearchIndex();
+    expiry?.onExpire(expired => this.remove(expired.map(expiration => expiration.messageId)));
+  }
+
+  // Управляющие сообщения не индексируются, удалённое сообщение убирается из индекса
+  async indexMessage(message: Message): Promise<void> {
+    if (MessageModel.isControl(message)) return;
+    if (message.deleted) {
+      await this.remove([message.id]);
+      return;
+    }
+
+    const text = [message.content, message.attachment?.fileName]
+      .filter((part): part is string => !!part)
+      .join('\n');
+    if (!text) {
+      await this.remove([message.id]);
+      return;
+    }
+
+    await this.index.indexDocument({
+      id: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      type: message.type,
+      timestamp: message.timestamp,
+      text,
+    });
+  }
+
+  async remove(messageIds: string[]): Promise<void> {
+    await this.index.removeDocuments(messageIds);
+  }
+
+  // Переписка удалена или очищена
+  async removeConversation(conversationId: string): Promise<void> {
+    await this.index.removeConversation(conversationId);
+  }
+
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    return this.index.search(query);
+  }
+}
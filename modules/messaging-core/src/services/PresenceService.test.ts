@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import type { DHTRecord, IDHTService, IP2PService, PeerInfo } from '@messa/p2p-network';
+import { PresenceService } from './PresenceService';
+import { MessageEncryptionService } from './MessageEncryptionService';
+import { ConversationModel } from '../models/Conversation';
+
+type MessageHandler = (data: Uint8Array, from: string) => void;
+
+// Сеть в памяти: сообщения доставляются сразу, все узлы соединены, DHT общая
+class MemoryNetwork implements IDHTService {
+  records: Map<string, Uint8Array> = new Map();
+  handlers: Map<string, Map<string, MessageHandler>> = new Map();
+
+  async put(key: string, value: Uint8Array): Promise<void> {
+    this.records.set(key, value.slice());
+  }
+
+  async get(key: string): Promise<DHTRecord | null> {
+    const value = this.records.get(key);
+    if (!value) return null;
+    return { key, value, timestamp: new Date(), signature: new Uint8Array(0), author: '' };
+  }
+
+  async findPeer(): Promise<PeerInfo | null> {
+    return null;
+  }
+
+  async provide(): Promise<void> {}
+
+  async findProviders(): Promise<PeerInfo[]> {
+    return [];
+  }
+
+  async findClosestPeers(): Promise<PeerInfo[]> {
+    return [];
+  }
+}
+
+class MemoryNode implements IP2PService {
+  constructor(
+    private network: MemoryNetwork,
+    private peerId: string
+  ) {}
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async send(peerId: string, protocol: string, data: Uint8Array): Promise<void> {
+    this.network.handlers.get(peerId)?.get(protocol)?.(data.slice(), this.peerId);
+  }
+
+  async broadcast(): Promise<void> {}
+
+  async getPeers(): Promise<PeerInfo[]> {
+    return Array.from(this.network.handlers.keys()).map(id => ({
+      id,
+      addresses: [],
+      protocols: [],
+      metadata: new Map(),
+      lastSeen: new Date(),
+    }));
+  }
+
+  getNodeId(): string {
+    return this.peerId;
+  }
+
+  onMessage(protocol: string, handler: MessageHandler): void {
+    const handlers = this.network.handlers.get(this.peerId) ?? new Map<string, MessageHandler>();
+    handlers.set(protocol, handler);
+    this.network.handlers.set(this.peerId, handlers);
+  }
+
+  async request(): Promise<Uint8Array> {
+    throw new Error('Not supported');
+  }
+
+  onRequest(): void {}
+
+  setProtocolLimits(): void {}
+
+  async publishPresence(): Promise<void> {}
+}
+
+async function createUser(
+  network: MemoryNetwork,
+  userId: string,
+  participants: Record<string, string[]>
+): Promise<PresenceService> {
+  const peerId = `${userId}-peer`;
+  const encryption = new MessageEncryptionService(userId, undefined, network);
+  await encryption.initialize();
+  await encryption.publishDevice(userId, peerId);
+
+  const presence = new PresenceService(userId, new MemoryNode(network, peerId), encryption, {
+    getParticipants: conversationId => Promise.resolve(participants[conversationId] ?? []),
+  });
+  await presence.start();
+  return presence;
+}
+
+describe('PresenceService', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  it('shows typing only in conversations the sender belongs to', async () => {
+    const network = new MemoryNetwork();
+    const participants = { shared: ['alice', 'bob'], private: ['alice', 'carol'] };
+    const alice = await createUser(network, 'alice', participants);
+    const bob = await createUser(network, 'bob', participants);
+
+    try {
+      const conversation = ConversationModel.create({
+        type: 'group',
+        participants: ['alice', 'bob'],
+      });
+      await bob.setTyping({ ...conversation, id: 'shared' }, true);
+      await vi.waitFor(() => expect(alice.getTypingUsers('shared')).toEqual(['bob']));
+
+      // Bob подставляет id чужой переписки Alice
+      await bob.setTyping({ ...conversation, id: 'private' }, true);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(alice.getTypingUsers('private')).toEqual([]);
+    } finally {
+      await Promise.all([alice.stop(), bob.stop()]);
+    }
+  });
+});
@@ -0,0 +1,405 @@
+import type { IP2PService } from '@messa/p2p-network';
+import { MessageModel } from '../models/Message';
+import { WireCodec } from './WireCodec';
+import type { MessageEncryptionService } from './MessageEncryptionService';
+import type { Conversation } from '../models/Conversation';
+import type { LastSeenPrivacy, Message, PresenceConfig, PresenceStatus } from '../types';
+
+export const PRESENCE_PROTOCOL = '/messa/presence/1.0.0';
+
+// Эфемерные сигналы между собеседниками: набор текста и онлайн-статус. Сигналы шифруются
+// сессиями Signal и отправляются напрямую на peer ID устройств из подписанного списка устройств.
+// В очередь они не ставятся: устройство без адреса или недоступное просто пропускает сигнал,
+// причём шифруется сигнал только после соединения с устройством.
+// Онлайн-статус подтверждается раз в heartbeatInterval вместе с записью присутствия в DHT
+// и у получателя истекает без подтверждений
+export class PresenceService {
+  private userId: string;
+  private p2p: IP2PService;
+  private encryption: MessageEncryptionService;
+  private heartbeatInterval: number;
+  private typingTimeout: number;
+  private typingInterval: number;
+  private lastSeenPrivacy: LastSeenPrivacy;
+  private getParticipants: ((conversationId: string) => Promise<string[]>) | null;
+  private contacts: Set<string> = new Set();
+  private watchers: Set<string> = new Set(); // Запросившие наш статус
+  private statuses: Map<string, PresenceStatus> = new Map();
+  private statusTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  // Ключ - id переписки, значение - набирающие пользователи и таймеры истечения
+  private typingUsers: Map<string, Map<string, ReturnType<typeof setTimeout>>> = new Map();
+  private ownTyping: Map<string, { sentAt: number; timer: ReturnType<typeof setTimeout> }> =
+    new Map();
+  private probeReplies: Map<string, number> = new Map(); // Время последнего ответа на запрос статуса
+  private presenceHandlers: Map<string, Set<(status: PresenceStatus) => void>> = new Map();
+  private typingHandlers: Map<string, Set<(userIds: string[]) => void>> = new Map();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private listening: boolean = false;
+  private online: boolean = false;
+
+  constructor(
+    userId: string,
+    p2p: IP2PService,
+    encryption: MessageEncryptionService,
+    config: PresenceConfig = {}
+  ) {
+    this.userId = userId;
+    this.p2p = p2p;
+    this.encryption = encryption;
+    this.heartbeatInterval = config.heartbeatInterval ?? 60 * 1000;
+    this.typingTimeout = config.typingTimeout ?? 5000;
+    this.typingInterval = config.typingInterval ?? 3000;
+    this.lastSeenPrivacy = config.lastSeenPrivacy ?? 'contacts';
+    this.getParticipants = config.getParticipants ?? null;
+  }
+
+  async start(): Promise<void> {
+    if (!this.listening) {
+      this.p2p.onMessage(PRESENCE_PROTOCOL, (data, from) => {
+        this.handleSignal(data).catch(error => {
+          console.error(`Failed to handle presence signal from ${from}:`, error);
+        });
+      });
+      this.listening = true;
+    }
+
+    this.online = true;
+    await this.sendHeartbeat();
+
+    if (!this.heartbeat) {
+      this.heartbeat = setInterval(() => {
+        this.sendHeartbeat().catch(error => {
+          console.error('Failed to send presence heartbeat:', error);
+        });
+      }, this.heartbeatInterval);
+    }
+  }
+
+  // Уход из сети: собеседники сразу видят время последнего визита, не дожидаясь истечения статуса
+  async stop(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+
+    for (const { timer } of this.ownTyping.values()) {
+      clearTimeout(timer);
+    }
+    this.ownTyping.clear();
+
+    if (this.online) {
+      this.online = false;
+      await this.announce();
+    }
+
+    for (const timer of this.statusTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.statusTimers.clear();
+    for (const users of this.typingUsers.values()) {
+      for (const timer of users.values()) {
+        clearTimeout(timer);
+      }
+    }
+    this.typingUsers.clear();
+  }
+
+  setContacts(userIds: string[]): void {
+    this.contacts = new Set(userIds);
+  }
+
+  // Как и с квитанциями, скрывший время последнего визита не видит его и у других
+  async setLastSeenPrivacy(privacy: LastSeenPrivacy): Promise<void> {
+    this.lastSeenPrivacy = privacy;
+    if (this.online) {
+      await this.announce();
+    }
+  }
+
+  getLastSeenPrivacy(): LastSeenPrivacy {
+    return this.lastSeenPrivacy;
+  }
+
+  // Запрос статуса: собеседник ответит и будет присылать обновления, если его настройки это разрешают
+  async watch(userId: string): Promise<void> {
+    await this.sendSignal(
+      userId,
+      MessageModel.createPresence(this.userId, { online: false, probe: true })
+    );
+  }
+
+  getPresence(userId: string): PresenceStatus | null {
+    const status = this.statuses.get(userId);
+    return status ? { ...status } : null;
+  }
+
+  getTypingUsers(conversationId: string): string[] {
+    return Array.from(this.typingUsers.get(conversationId)?.keys() ?? []);
+  }
+
+  // Подписка сразу получает известный статус; возвращает функцию отписки
+  subscribePresence(userId: string, handler: (status: PresenceStatus) => void): () => void {
+    const unsubscribe = this.subscribe(this.presenceHandlers, userId, handler);
+    const status = this.getPresence(userId);
+    if (status) handler(status);
+    return unsubscribe;
+  }
+
+  subscribeTyping(conversationId: string, handler: (userIds: string[]) => void): () => void {
+    const unsubscribe = this.subscribe(this.typingHandlers, conversationId, handler);
+    handler(this.getTypingUsers(conversationId));
+    return unsubscribe;
+  }
+
+  // Вызывается на каждое нажатие клавиши: повторный сигнал уходит не чаще typingInterval,
+  // а без ввода в течение typingTimeout набор останавливается сам
+  async setTyping(conversation: Conversation, typing: boolean): Promise<void> {
+    if (conversation.type === 'channel') return;
+
+    const state = this.ownTyping.get(conversation.id);
+    if (state) clearTimeout(state.timer);
+
+    if (!typing) {
+      if (!state) return;
+      this.ownTyping.delete(conversation.id);
+      await this.sendTyping(conversation, false);
+      return;
+    }
+
+    const now = Date.now();
+    const resend = !state || now - state.sentAt >= this.typingInterval;
+    this.ownTyping.set(conversation.id, {
+      sentAt: state && !resend ? state.sentAt : now,
+      timer: setTimeout(() => {
+        this.setTyping(conversation, false).catch(error => {
+          console.error('Failed to send typing indicator:', error);
+        });
+      }, this.typingTimeout),
+    });
+
+    if (resend) {
+      await this.sendTyping(conversation, true);
+    }
+  }
+
+  // Вспомогательные методы
+
+  private async sendHeartbeat(): Promise<void> {
+    try {
+      await this.p2p.publishPresence();
+    } catch (error) {
+      console.error('Failed to publish presence:', error);
+    }
+    await this.announce();
+  }
+
+  private async announce(): Promise<void> {
+    const audience = new Set([...this.contacts, ...this.watchers]);
+    await Promise.allSettled(
+      Array.from(audience)
+        .filter(userId => this.canSeePresence(userId))
+        .map(userId => this.sendSignal(userId, this.createOwnPresence()))
+    );
+  }
+
+  // Группа: сигнал отдельно каждому участнику через его сессии Signal
+  private async sendTyping(conversation: Conversation, typing: boolean): Promise<void> {
+    const signal = MessageModel.createTyping(conversation.id, this.userId, typing);
+    await Promise.allSettled(
+      conversation.participants
+        .filter(userId => userId !== this.userId)
+        .map(userId => this.sendSignal(userId, signal))
+    );
+  }
+
+  // Сигнал шифруется только для устройств, до которых удалось достучаться: каждое шифрование
+  // сдвигает цепочку ключей, и сигналы недоступным устройствам копили бы у них пропущенные
+  // ключи, пока сессия не упрётся в лимит пропуска
+  private async sendSignal(recipientId: string, signal: Message): Promise<void> {
+    const devices = await this.encryption.getDevices(recipientId);
+    const connected = new Set((await this.p2p.getPeers()).map(peer => peer.id));
+    const peers = new Map<number, string>();
+    for (const device of devices?.devices ?? []) {
+      if (device.peerId && (await this.isReachable(device.peerId, connected))) {
+        peers.set(device.deviceId, device.peerId);
+      }
+    }
+    if (peers.size === 0) return;
+
+    const envelopes = await this.encryption.encryptMessage(signal, recipientId, {
+      recipientOnly: true,
+      deviceIds: Array.from(peers.keys()),
+    });
+    for (const envelope of envelopes) {
+      const peerId = peers.get(envelope.recipientDeviceId ?? 1);
+      if (!peerId) continue;
+
+      try {
+        await this.p2p.send(peerId, PRESENCE_PROTOCOL, WireCodec.encodeEnvelope(envelope));
+      } catch (error) {
+        // Устройство пропало между соединением и отправкой: теряется один ключ цепочки
+        console.error(`Failed to send presence signal to ${peerId}:`, error);
+      }
+    }
+  }
+
+  private async isReachable(peerId: string, connected: Set<string>): Promise<boolean> {
+    if (connected.has(peerId)) return true;
+
+    try {
+      await this.p2p.connect(peerId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async handleSignal(data: Uint8Array): Promise<void> {
+    const envelope = WireCodec.decodeEnvelope(data);
+    const signal = await this.encryption.decryptMessage(envelope);
+
+    // Отправитель в содержимом должен совпадать с владельцем сессии, которой расшифрован сигнал
+    if (signal.senderId !== envelope.senderId || signal.senderId === this.userId) return;
+
+    if (signal.type === 'typing') {
+      if (await this.isParticipant(signal.conversationId, signal.senderId)) {
+        this.receiveTyping(signal);
+      }
+    } else if (signal.type === 'presence' && signal.presence) {
+      await this.receivePresence(signal.senderId, signal.presence);
+    }
+  }
+
+  // id переписки в сигнале задаёт сам отправитель, поэтому набор показывается только
+  // в переписке, участником которой он является
+  private async isParticipant(conversationId: string, userId: string): Promise<boolean> {
+    if (!this.getParticipants) return false;
+    const participants = await this.getParticipants(conversationId);
+    return participants.includes(userId);
+  }
+
+  // Отправитель повторяет сигнал не реже typingInterval, пока набирает
+  private receiveTyping(signal: Message): void {
+    const users =
+      this.typingUsers.get(signal.conversationId) ??
+      new Map<string, ReturnType<typeof setTimeout>>();
+    const existing = users.get(signal.senderId);
+    if (existing) clearTimeout(existing);
+
+    if (signal.typing) {
+      users.set(
+        signal.senderId,
+        setTimeout(
+          () => this.removeTyping(signal.conversationId, signal.senderId),
+          this.typingTimeout + this.typingInterval
+        )
+      );
+      this.typingUsers.set(signal.conversationId, users);
+      if (!existing) this.emitTyping(signal.conversationId);
+    } else if (existing) {
+      this.removeTyping(signal.conversationId, signal.senderId);
+    }
+  }
+
+  private removeTyping(conversationId: string, userId: string): void {
+    const users = this.typingUsers.get(conversationId);
+    if (!users?.delete(userId)) return;
+
+    if (users.size === 0) this.typingUsers.delete(conversationId);
+    this.emitTyping(conversationId);
+  }
+
+  private async receivePresence(
+    senderId: string,
+    presence: NonNullable<Message['presence']>
+  ): Promise<void> {
+    if (presence.probe) {
+      this.watchers.add(senderId);
+      await this.replyToProbe(senderId);
+      return;
+    }
+
+    this.setStatus({
+      userId: senderId,
+      online: presence.online,
+      lastSeen: this.lastSeenPrivacy === 'nobody' ? undefined : presence.lastSeen,
+    });
+  }
+
+  // Не чаще heartbeatInterval на пользователя, чтобы запросами нельзя было заставить рассылать статус
+  private async replyToProbe(userId: string): Promise<void> {
+    if (!this.online || !this.canSeePresence(userId)) return;
+
+    const now = Date.now();
+    if (now - (this.probeReplies.get(userId) ?? 0) < this.heartbeatInterval) return;
+    this.probeReplies.set(userId, now);
+
+    await this.sendSignal(userId, this.createOwnPresence());
+  }
+
+  // Без подтверждения за два интервала собеседник считается ушедшим
+  private setStatus(status: PresenceStatus): void {
+    const timer = this.statusTimers.get(status.userId);
+    if (timer) clearTimeout(timer);
+    this.statusTimers.delete(status.userId);
+
+    if (status.online) {
+      this.statusTimers.set(
+        status.userId,
+        setTimeout(() => {
+          this.statusTimers.delete(status.userId);
+          this.setStatus({ ...status, online: false });
+        }, this.heartbeatInterval * 2)
+      );
+    }
+
+    // Подтверждения онлайн-статуса подписчикам не пересылаются
+    const previous = this.statuses.get(status.userId);
+    this.statuses.set(status.userId, status);
+    if (
+      previous?.online !== status.online ||
+      (!status.online && previous.lastSeen?.getTime() !== status.lastSeen?.getTime())
+    ) {
+      for (const handler of this.presenceHandlers.get(status.userId) ?? []) {
+        handler({ ...status });
+      }
+    }
+  }
+
+  private emitTyping(conversationId: string): void {
+    const userIds = this.getTypingUsers(conversationId);
+    for (const handler of this.typingHandlers.get(conversationId) ?? []) {
+      handler(userIds);
+    }
+  }
+
+  private createOwnPresence(): Message {
+    return MessageModel.createPresence(this.userId, { online: this.online, lastSeen: new Date() });
+  }
+
+  private canSeePresence(userId: string): boolean {
+    switch (this.lastSeenPrivacy) {
+      case 'everyone':
+        return true;
+      case 'contacts':
+        return this.contacts.has(userId);
+      case 'nobody':
+        return false;
+    }
+  }
+
+  private subscribe<T>(
+    handlers: Map<string, Set<(value: T) => void>>,
+    key: string,
+    handler: (value: T) => void
+  ): () => void {
+    const set = handlers.get(key) ?? new Set();
+    set.add(handler);
+    handlers.set(key, set);
+
+    return () => {
+      set.delete(handler);
+      if (set.size === 0 && handlers.get(key) === set) handlers.delete(key);
+    };
+  }
+}
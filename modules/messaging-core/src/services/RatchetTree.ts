@@ -0,0 +1,292 @@
+import { MLSCodec, TLSWriter } from './MLSCodec';
+import type { MLSCipherSuite } from './MLSCipherSuite';
+import type { LeafNode, ParentNode, TreeNode } from '../types';
+
+// Ratchet tree (RFC 9420, раздел 7) в виде массива: листья на чётных индексах,
+// число листьев всегда степень двойки. Листья адресуются leaf index, узлы - node index
+export class RatchetTree {
+  private nodes: Array<TreeNode | null>;
+  private suite: MLSCipherSuite;
+
+  constructor(suite: MLSCipherSuite, nodes: Array<TreeNode | null>) {
+    this.suite = suite;
+    this.nodes = nodes;
+  }
+
+  static create(suite: MLSCipherSuite, leaf: LeafNode): RatchetTree {
+    return new RatchetTree(suite, [{ type: 'leaf', leaf }]);
+  }
+
+  // Расширение ratchet_tree: optional<Node> для каждого узла, пустой хвост отбрасывается
+  static decode(suite: MLSCipherSuite, data: Uint8Array): RatchetTree {
+    const nodes = MLSCodec.decode(data, reader =>
+      reader.vectorOf(r => r.optional(MLSCodec.readNode) ?? null)
+    );
+    if (nodes.length === 0 || nodes[nodes.length - 1] === null) {
+      throw new Error('Malformed ratchet tree');
+    }
+
+    let width = 1;
+    while (width < nodes.length) {
+      width = width * 2 + 1;
+    }
+    while (nodes.length < width) {
+      nodes.push(null);
+    }
+
+    nodes.forEach((node, index) => {
+      if (node && (node.type === 'leaf') !== (index % 2 === 0)) {
+        throw new Error('Malformed ratchet tree');
+      }
+    });
+
+    return new RatchetTree(suite, nodes);
+  }
+
+  encode(): Uint8Array {
+    let last = this.nodes.length;
+    while (last > 0 && this.nodes[last - 1] === null) {
+      last--;
+    }
+
+    return MLSCodec.encode(this.nodes.slice(0, last), (writer, nodes) => {
+      writer.vectorOf(nodes, (w, node) => {
+        w.optional(node ?? undefined, MLSCodec.writeNode);
+      });
+    });
+  }
+
+  clone(): RatchetTree {
+    return new RatchetTree(
+      this.suite,
+      this.nodes.map(node => {
+        if (!node || node.type === 'leaf') return node;
+        return {
+          type: 'parent',
+          parent: { ...node.parent, unmergedLeaves: [...node.parent.unmergedLeaves] },
+        };
+      })
+    );
+  }
+
+  get leafCount(): number {
+    return (this.nodes.length + 1) / 2;
+  }
+
+  getNode(nodeIndex: number): TreeNode | null {
+    return this.nodes[nodeIndex] ?? null;
+  }
+
+  getLeaf(leafIndex: number): LeafNode | null {
+    const node = this.nodes[leafIndex * 2];
+    return node?.type === 'leaf' ? node.leaf : null;
+  }
+
+  getEncryptionKey(nodeIndex: number): Uint8Array {
+    const node = this.nodes[nodeIndex];
+    if (!node) {
+      throw new Error('Blank node has no encryption key');
+    }
+    return node.type === 'leaf' ? node.leaf.encryptionKey : node.parent.encryptionKey;
+  }
+
+  leaves(): Array<{ leafIndex: number; leaf: LeafNode }> {
+    const result: Array<{ leafIndex: number; leaf: LeafNode }> = [];
+    for (let leafIndex = 0; leafIndex < this.leafCount; leafIndex++) {
+      const leaf = this.getLeaf(leafIndex);
+      if (leaf) result.push({ leafIndex, leaf });
+    }
+    return result;
+  }
+
+  setLeaf(leafIndex: number, leaf: LeafNode): void {
+    this.nodes[leafIndex * 2] = { type: 'leaf', leaf };
+  }
+
+  setParent(nodeIndex: number, parent: ParentNode | null): void {
+    this.nodes[nodeIndex] = parent ? { type: 'parent', parent } : null;
+  }
+
+  // Новый участник занимает самый левый пустой лист, иначе дерево удваивается
+  addLeaf(leaf: LeafNode): number {
+    let leafIndex = 0;
+    while (leafIndex < this.leafCount && this.getLeaf(leafIndex)) {
+      leafIndex++;
+    }
+
+    if (leafIndex === this.leafCount) {
+      this.nodes = [...this.nodes, null, ...new Array(this.nodes.length).fill(null)];
+    }
+
+    this.setLeaf(leafIndex, leaf);
+
+    // Родители, ещё не знающие ключ нового листа
+    for (const nodeIndex of this.directPath(leafIndex)) {
+      const node = this.nodes[nodeIndex];
+      if (node?.type === 'parent') {
+        node.parent.unmergedLeaves = [...node.parent.unmergedLeaves, leafIndex].sort(
+          (a, b) => a - b
+        );
+      }
+    }
+
+    return leafIndex;
+  }
+
+  updateLeaf(leafIndex: number, leaf: LeafNode): void {
+    this.setLeaf(leafIndex, leaf);
+    this.blankDirectPath(leafIndex);
+  }
+
+  removeLeaf(leafIndex: number): void {
+    this.nodes[leafIndex * 2] = null;
+    this.blankDirectPath(leafIndex);
+
+    // Отбрасывание пустой правой половины дерева
+    while (this.leafCount > 1) {
+      const root = RatchetTree.root(this.leafCount);
+      if (this.nodes.slice(root + 1).some(node => node !== null)) break;
+      this.nodes = this.nodes.slice(0, root);
+    }
+  }
+
+  blankDirectPath(leafIndex: number): void {
+    for (const nodeIndex of this.directPath(leafIndex)) {
+      this.nodes[nodeIndex] = null;
+    }
+  }
+
+  // Математика дерева (RFC 9420, приложение C)
+
+  static level(nodeIndex: number): number {
+    let level = 0;
+    while ((nodeIndex >> level) & 1) {
+      level++;
+    }
+    return level;
+  }
+
+  static root(leafCount: number): number {
+    return leafCount - 1;
+  }
+
+  static left(nodeIndex: number): number {
+    const level = RatchetTree.level(nodeIndex);
+    return nodeIndex ^ (1 << (level - 1));
+  }
+
+  static right(nodeIndex: number): number {
+    const level = RatchetTree.level(nodeIndex);
+    return nodeIndex ^ (3 << (level - 1));
+  }
+
+  static parent(nodeIndex: number): number {
+    const level = RatchetTree.level(nodeIndex);
+    const bit = (nodeIndex >> (level + 1)) & 1;
+    return (nodeIndex | (1 << level)) ^ (bit << (level + 1));
+  }
+
+  static sibling(nodeIndex: number): number {
+    const parent = RatchetTree.parent(nodeIndex);
+    return nodeIndex < parent ? RatchetTree.right(parent) : RatchetTree.left(parent);
+  }
+
+  directPath(leafIndex: number): number[] {
+    const root = RatchetTree.root(this.leafCount);
+    const path: number[] = [];
+
+    let nodeIndex = leafIndex * 2;
+    while (nodeIndex !== root) {
+      nodeIndex = RatchetTree.parent(nodeIndex);
+      path.push(nodeIndex);
+    }
+    return path;
+  }
+
+  // Узлы прямого пути, у которых со стороны copath есть кому шифровать
+  filteredDirectPath(leafIndex: number): Array<{ nodeIndex: number; copathChild: number }> {
+    const result: Array<{ nodeIndex: number; copathChild: number }> = [];
+
+    let child = leafIndex * 2;
+    for (const nodeIndex of this.directPath(leafIndex)) {
+      const copathChild = RatchetTree.sibling(child);
+      if (this.resolution(copathChild).length > 0) {
+        result.push({ nodeIndex, copathChild });
+      }
+      child = nodeIndex;
+    }
+    return result;
+  }
+
+  resolution(nodeIndex: number, excludeLeaves: Set<number> = new Set()): number[] {
+    const node = this.nodes[nodeIndex];
+
+    if (nodeIndex % 2 === 0) {
+      return node && !excludeLeaves.has(nodeIndex / 2) ? [nodeIndex] : [];
+    }
+    if (!node) {
+      return [
+        ...this.resolution(RatchetTree.left(nodeIndex), excludeLeaves),
+        ...this.resolution(RatchetTree.right(nodeIndex), excludeLeaves),
+      ];
+    }
+
+    const parent = (node as { type: 'parent'; parent: ParentNode }).parent;
+    return [
+      nodeIndex,
+      ...parent.unmergedLeaves.filter(leaf => !excludeLeaves.has(leaf)).map(leaf => leaf * 2),
+    ];
+  }
+
+  isAncestor(nodeIndex: number, leafIndex: number): boolean {
+    return this.directPath(leafIndex).includes(nodeIndex);
+  }
+
+  // Хеши (RFC 9420, 7.8-7.9)
+
+  treeHash(): Uint8Array {
+    return this.hashNode(RatchetTree.root(this.leafCount));
+  }
+
+  // Parent hash по отфильтрованному пути сверху вниз; возвращает значение для листа
+  computeParentHashes(leafIndex: number): Uint8Array {
+    const path = this.filteredDirectPath(leafIndex);
+    let parentHash: Uint8Array = new Uint8Array(0);
+
+    for (let i = path.length - 1; i >= 0; i--) {
+      const { nodeIndex, copathChild } = path[i]!;
+      const node = this.nodes[nodeIndex];
+      if (node?.type !== 'parent') {
+        throw new Error('Update path node is blank');
+      }
+
+      node.parent.parentHash = parentHash;
+      parentHash = this.suite.hash(
+        new TLSWriter()
+          .vector(node.parent.encryptionKey)
+          .vector(node.parent.parentHash)
+          .vector(this.hashNode(copathChild))
+          .finish()
+      );
+    }
+
+    return parentHash;
+  }
+
+  private hashNode(nodeIndex: number): Uint8Array {
+    const node = this.nodes[nodeIndex];
+    const writer = new TLSWriter();
+
+    if (nodeIndex % 2 === 0) {
+      writer.uint8(1).uint32(nodeIndex / 2);
+      writer.optional(node?.type === 'leaf' ? node.leaf : undefined, MLSCodec.writeLeafNode);
+    } else {
+      writer.uint8(2);
+      writer.optional(node?.type === 'parent' ? node.parent : undefined, MLSCodec.writeParentNode);
+      writer.vector(this.hashNode(RatchetTree.left(nodeIndex)));
+      writer.vector(this.hashNode(RatchetTree.right(nodeIndex)));
+    }
+
+    return this.suite.hash(writer.finish());
+  }
+}
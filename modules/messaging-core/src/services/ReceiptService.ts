@@ -0,0 +1,173 @@
+import { MessageModel } from '../models/Message';
+import type { Message, ReceiptConfig, ReceiptStatus } from '../types';
+
+// Квитанции о доставке, прочтении и прослушивании. Квитанции копятся batchDelay и уходят
+// отправителю исходных сообщений одним управляющим сообщением type: 'receipt' через тот же
+// зашифрованный канал (send шифрует и отправляет). Как в Signal, отключивший квитанции
+// о прочтении не видит и чужих: они учитываются только как доставка
+export class ReceiptService {
+  private userId: string;
+  private send: (recipientId: string, receipt: Message) => Promise<void>;
+  private batchDelay: number;
+  private sendReadReceipts: boolean;
+  // Ключ - получатель квитанций и переписка, значение - id сообщений по статусам
+  private pending: Map<string, Map<ReceiptStatus, Set<string>>> = new Map();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    userId: string,
+    send: (recipientId: string, receipt: Message) => Promise<void>,
+    config: ReceiptConfig = {}
+  ) {
+    this.userId = userId;
+    this.send = send;
+    this.batchDelay = config.batchDelay ?? 1000;
+    this.sendReadReceipts = config.sendReadReceipts ?? true;
+  }
+
+  setReadReceiptsEnabled(enabled: boolean): void {
+    this.sendReadReceipts = enabled;
+  }
+
+  isReadReceiptsEnabled(): boolean {
+    return this.sendReadReceipts;
+  }
+
+  messageDelivered(message: Message): void {
+    this.enqueue(message, 'delivered');
+  }
+
+  messageRead(message: Message): void {
+    if (this.sendReadReceipts) this.enqueue(message, 'read');
+  }
+
+  // Голосовые сообщения и видео: прослушано или просмотрено
+  messagePlayed(message: Message): void {
+    if (!MessageModel.isPlayable(message)) return;
+    if (this.sendReadReceipts) this.enqueue(message, 'played');
+  }
+
+  // Неотправленные квитанции возвращаются в очередь до следующей попытки
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batches = this.pending;
+    this.pending = new Map();
+
+    for (const [key, statuses] of batches) {
+      const [recipientId, conversationId] = this.fromKey(key);
+      for (const [status, messageIds] of statuses) {
+        const receipt = MessageModel.createReceipt(
+          conversationId,
+          this.userId,
+          status,
+          Array.from(messageIds)
+        );
+        try {
+          await this.send(recipientId, receipt);
+        } catch (error) {
+          console.error('Failed to send receipts:', error);
+          for (const messageId of messageIds) {
+            this.add(key, status, messageId);
+          }
+          this.scheduleFlush();
+        }
+      }
+    }
+  }
+
+  // Возвращает изменённые сообщения. Прочтение последнего сообщения означает прочтение
+  // и всех более ранних наших сообщений этой переписки (markAsRead отправляет квитанцию
+  // только на последнее непрочитанное сообщение отправителя)
+  applyReceipt(receipt: Message, messages: Message[]): Message[] {
+    if (receipt.type !== 'receipt' || !receipt.receipt) {
+      throw new Error('Not a receipt message');
+    }
+
+    const status: ReceiptStatus =
+      this.sendReadReceipts || receipt.receipt.status === 'delivered'
+        ? receipt.receipt.status
+        : 'delivered';
+
+    const ownMessages = messages.filter(
+      message => message.senderId === this.userId && message.senderId !== receipt.senderId
+    );
+    const referenced = ownMessages.filter(message =>
+      receipt.receipt!.messageIds.includes(message.id)
+    );
+
+    const covered = new Set(referenced);
+    if (status === 'read') {
+      for (const latest of referenced) {
+        for (const message of ownMessages) {
+          if (
+            message.conversationId === latest.conversationId &&
+            message.timestamp.getTime() <= latest.timestamp.getTime()
+          ) {
+            covered.add(message);
+          }
+        }
+      }
+    }
+
+    const updated: Message[] = [];
+    for (const message of covered) {
+      const next = MessageModel.addReceipt(message, receipt.senderId, status, receipt.timestamp);
+      if (next !== message) updated.push(next);
+    }
+    return updated;
+  }
+
+  // Вспомогательные методы
+
+  // Квитанции на свои и управляющие сообщения не отправляются
+  private enqueue(message: Message, status: ReceiptStatus): void {
+    if (message.senderId === this.userId || MessageModel.isControl(message)) return;
+
+    const key = this.toKey(message.senderId, message.conversationId);
+    // Прочтение подразумевает доставку, отдельная квитанция о доставке уже не нужна
+    if (status !== 'delivered') {
+      this.pending.get(key)?.get('delivered')?.delete(message.id);
+    }
+    this.add(key, status, message.id);
+    this.scheduleFlush();
+  }
+
+  private add(key: string, status: ReceiptStatus, messageId: string): void {
+    let statuses = this.pending.get(key);
+    if (!statuses) {
+      statuses = new Map();
+      this.pending.set(key, statuses);
+    }
+
+    let messageIds = statuses.get(status);
+    if (!messageIds) {
+      messageIds = new Set();
+      statuses.set(status, messageIds);
+    }
+    messageIds.add(messageId);
+  }
+
+  private scheduleFlush(): void {
+    if (this.timer) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(error => {
+        console.error('Failed to send receipts:', error);
+      });
+    }, this.batchDelay);
+  }
+
+  private toKey(recipientId: string, conversationId: string): string {
+    return `${recipientId}\n${conversationId}`;
+  }
+
+  private fromKey(key: string): [string, string] {
+    const separator = key.indexOf('\n');
+    return [key.slice(0, separator), key.slice(separator + 1)];
+  }
+}
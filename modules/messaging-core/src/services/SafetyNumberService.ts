@@ -0,0 +1,85 @@
+import sodium from 'libsodium-wrappers';
+import type { SafetyNumber } from '../types';
+
+// Safety numbers по схеме Signal (NumericFingerprint v1): у каждой стороны 30 цифр
+// из итерированного SHA-512 от identity key и user id, общая строка - обе половины
+// в отсортированном порядке, поэтому у собеседников она совпадает
+export class SafetyNumberService {
+  private version: number = 0;
+  private iterations: number = 5200; // Замедляет подбор ключа с похожим отпечатком
+  private fingerprintLength: number = 32;
+
+  async generate(
+    localUserId: string,
+    localIdentityKey: Uint8Array,
+    remoteUserId: string,
+    remoteIdentityKey: Uint8Array
+  ): Promise<SafetyNumber> {
+    await sodium.ready;
+
+    const localFingerprint = this.fingerprint(localUserId, localIdentityKey);
+    const remoteFingerprint = this.fingerprint(remoteUserId, remoteIdentityKey);
+
+    const localDigits = this.toDigits(localFingerprint);
+    const remoteDigits = this.toDigits(remoteFingerprint);
+    const displayString =
+      localDigits <= remoteDigits ? localDigits + remoteDigits : remoteDigits + localDigits;
+
+    // QR: версия ‖ отпечаток владельца кода ‖ отпечаток собеседника
+    const scannable = new Uint8Array(1 + this.fingerprintLength * 2);
+    scannable[0] = this.version;
+    scannable.set(localFingerprint, 1);
+    scannable.set(remoteFingerprint, 1 + this.fingerprintLength);
+
+    return { displayString, scannable };
+  }
+
+  // Код собеседника содержит те же отпечатки в обратном порядке
+  compareScannable(ours: SafetyNumber, scanned: Uint8Array): boolean {
+    if (scanned.length !== 1 + this.fingerprintLength * 2) {
+      throw new Error('Invalid safety number payload');
+    }
+    if (scanned[0] !== this.version) {
+      throw new Error('Unsupported safety number version');
+    }
+
+    const ourLocal = ours.scannable.slice(1, 1 + this.fingerprintLength);
+    const ourRemote = ours.scannable.slice(1 + this.fingerprintLength);
+    const theirLocal = scanned.slice(1, 1 + this.fingerprintLength);
+    const theirRemote = scanned.slice(1 + this.fingerprintLength);
+
+    return sodium.memcmp(ourLocal, theirRemote) && sodium.memcmp(ourRemote, theirLocal);
+  }
+
+  private fingerprint(userId: string, identityKey: Uint8Array): Uint8Array {
+    const stableId = new TextEncoder().encode(userId);
+
+    const input = new Uint8Array(2 + identityKey.length + stableId.length);
+    input.set([0, this.version], 0);
+    input.set(identityKey, 2);
+    input.set(stableId, 2 + identityKey.length);
+
+    let hash = input;
+    for (let i = 0; i < this.iterations; i++) {
+      const round = new Uint8Array(hash.length + identityKey.length);
+      round.set(hash);
+      round.set(identityKey, hash.length);
+      hash = sodium.crypto_hash(round); // SHA-512
+    }
+
+    return hash.slice(0, this.fingerprintLength);
+  }
+
+  // 30 байт -> 6 блоков по 5 байт -> 6 групп по 5 цифр
+  private toDigits(fingerprint: Uint8Array): string {
+    let digits = '';
+    for (let offset = 0; offset < 30; offset += 5) {
+      let chunk = 0;
+      for (let i = 0; i < 5; i++) {
+        chunk = chunk * 256 + fingerprint[offset + i]!;
+      }
+      digits += (chunk % 100000).toString().padStart(5, '0');
+    }
+    return digits;
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import { SealedSenderService } from './SealedSenderService';
+import { SignalProtocolService } from './SignalProtocolService';
+import { InMemorySessionStore } from './SessionStore';
+import type { ISessionStore } from '../types';
+
+async function createUser(
+  userId: string,
+  store: ISessionStore = new InMemorySessionStore()
+): Promise<{ signal: SignalProtocolService; sealedSender: SealedSenderService }> {
+  const signal = new SignalProtocolService(store);
+  await signal.initialize();
+  const sealedSender = new SealedSenderService(userId, signal, {}, store);
+  await sealedSender.initialize();
+  return { signal, sealedSender };
+}
+
+describe('SealedSenderService', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  it('rejects a sealed first message from a stranger without a delivery token', async () => {
+    const mallory = await createUser('mallory');
+    const bob = await createUser('bob');
+
+    // Бандл Bob публичен, поэтому X3DH заголовок может приложить кто угодно
+    await mallory.signal.initializeSession('bob', await bob.signal.generatePreKeyBundle());
+    const encrypted = await mallory.signal.encryptMessage('bob', sodium.from_string('spam'));
+    expect(encrypted.preKeyMessage).toBeDefined();
+    expect(mallory.sealedSender.canSeal(encrypted)).toBe(false);
+
+    const sealed = await mallory.sealedSender.seal(encrypted);
+    await expect(bob.sealedSender.unseal(sealed)).rejects.toThrow(
+      'Unsolicited sealed sender message rejected'
+    );
+
+    bob.sealedSender.setUnrestricted(true);
+    const unsealed = await bob.sealedSender.unseal(sealed);
+    expect(unsealed.certificate.senderId).toBe('mallory');
+  });
+
+  it('accepts a first message from a stranger that carries the delivery token', async () => {
+    const alice = await createUser('alice');
+    const bobStore = new InMemorySessionStore();
+    const bob = await createUser('bob', bobStore);
+
+    // Delivery key Bob известен Alice из прошлой сессии, сброшенной с тех пор
+    const { deliveryKey } = await bobStore.loadSealedSenderState();
+    await alice.sealedSender.saveDeliveryKey('bob', 1, deliveryKey!);
+
+    await alice.signal.initializeSession('bob', await bob.signal.generatePreKeyBundle());
+    const encrypted = await alice.signal.encryptMessage('bob', sodium.from_string('hi'));
+    expect(alice.sealedSender.canSeal(encrypted)).toBe(true);
+
+    const sealed = await alice.sealedSender.seal(encrypted);
+    expect(sealed.deliveryToken).toBeDefined();
+    const unsealed = await bob.sealedSender.unseal(sealed);
+    expect(unsealed.certificate.senderId).toBe('alice');
+  });
+});
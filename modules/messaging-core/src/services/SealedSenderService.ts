@@ -0,0 +1,301 @@
+import sodium from 'libsodium-wrappers';
+import { v4 as uuidv4 } from 'uuid';
+import { WireCodec, MESSAGE_KINDS } from './WireCodec';
+import { InMemorySessionStore } from './SessionStore';
+import type { SignalProtocolService } from './SignalProtocolService';
+import type {
+  EncryptedMessage,
+  ISessionStore,
+  SealedSenderConfig,
+  SenderCertificate,
+  UnsealedMessage,
+} from '../types';
+
+// Sealed sender: сертификат отправителя и сообщение Signal шифруются эфемерным X25519 ключом
+// для identity key устройства получателя, поэтому ретрансляторы и узлы DHT видят только адресата.
+// Delivery token выводится из delivery key получателя, который он передаёт собеседникам внутри
+// своих конвертов. Конверт без действительного token принимается только от уже известного
+// отправителя или при allowUnrestricted, чтобы незнакомцы не могли рассылать спам, скрывая себя.
+// Pre-key бандлы публичны, поэтому первое сообщение новой сессии исключением не является: оно
+// уходит открытым, пока у отправителя нет token, как в Signal. Свой delivery key и ключи
+// собеседников сохраняются в ISessionStore: после перезапуска выданные token остаются действительными
+export class SealedSenderService {
+  private userId: string;
+  private signal: SignalProtocolService;
+  private store: ISessionStore;
+  private deliveryKey: Uint8Array | null = null;
+  private deliveryKeys: Map<string, Uint8Array> = new Map(); // Ключ - адрес устройства userId.deviceId
+  private certificate: SenderCertificate | null = null;
+  private certificateLifetime: number;
+  private allowUnrestricted: boolean;
+  private tokenLength: number = 16;
+
+  constructor(
+    userId: string,
+    signal: SignalProtocolService,
+    config: SealedSenderConfig = {},
+    store: ISessionStore = new InMemorySessionStore()
+  ) {
+    this.userId = userId;
+    this.signal = signal;
+    this.store = store;
+    this.certificateLifetime = config.certificateLifetime ?? 24 * 60 * 60 * 1000; // 1 день
+    this.allowUnrestricted = config.allowUnrestricted ?? false;
+  }
+
+  async initialize(): Promise<void> {
+    await sodium.ready;
+
+    const state = await this.store.loadSealedSenderState();
+    this.deliveryKeys = state.deliveryKeys;
+    this.deliveryKey = state.deliveryKey;
+    if (!this.deliveryKey) {
+      this.deliveryKey = sodium.randombytes_buf(32);
+      await this.store.storeDeliveryKey(this.deliveryKey);
+    }
+  }
+
+  setUnrestricted(allow: boolean): void {
+    this.allowUnrestricted = allow;
+  }
+
+  // Delivery key собеседника запоминается только после успешной расшифровки его сообщения
+  async saveDeliveryKey(userId: string, deviceId: number, deliveryKey: Uint8Array): Promise<void> {
+    const address = this.toAddress(userId, deviceId);
+    const current = this.deliveryKeys.get(address);
+    if (current && this.equals(current, deliveryKey)) return;
+
+    this.deliveryKeys.set(address, deliveryKey);
+    await this.store.storePeerDeliveryKey(address, deliveryKey);
+  }
+
+  // Получатель примет конверт, если для его устройства есть token или он уже знает нас: ответил
+  // в этой сессии, поэтому в сообщении больше нет X3DH заголовка. Разрешает ли он конверты
+  // без token от незнакомцев, отправителю неизвестно
+  canSeal(encrypted: EncryptedMessage): boolean {
+    const recipientId = encrypted.recipientId;
+    if (!recipientId) return false;
+    if (recipientId === this.userId || !encrypted.preKeyMessage) return true;
+    return this.deliveryKeys.has(this.toAddress(recipientId, encrypted.recipientDeviceId ?? 1));
+  }
+
+  async seal(encrypted: EncryptedMessage): Promise<EncryptedMessage> {
+    await sodium.ready;
+
+    const recipientId = encrypted.recipientId;
+    const recipientDeviceId = encrypted.recipientDeviceId ?? 1;
+    if (!recipientId) {
+      throw new Error('Sealed sender requires a recipient');
+    }
+
+    const recipientIdentityKey =
+      recipientId === this.userId
+        ? this.signal.getIdentityKey()
+        : this.signal.getTrustedIdentity(recipientId)?.identityKey;
+    if (!recipientIdentityKey) {
+      throw new Error('Unknown recipient identity');
+    }
+
+    // Отправитель внутреннего конверта задаётся только сертификатом
+    const content = WireCodec.encodeSealedContent(
+      this.getCertificate(),
+      this.requireDeliveryKey(),
+      { ...encrypted, senderId: '', senderDeviceId: undefined, recipientDeviceId }
+    );
+
+    const ephemeral = sodium.crypto_box_keypair();
+    const recipientKey = sodium.crypto_sign_ed25519_pk_to_curve25519(recipientIdentityKey);
+    const sharedSecret = sodium.crypto_scalarmult(ephemeral.privateKey, recipientKey);
+    const key = this.deriveKey(sharedSecret, ephemeral.publicKey, recipientKey);
+
+    const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+    const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+      content,
+      ephemeral.publicKey,
+      null,
+      nonce,
+      key
+    );
+
+    sodium.memzero(ephemeral.privateKey);
+    sodium.memzero(sharedSecret);
+    sodium.memzero(key);
+
+    const deliveryKey = this.deliveryKeys.get(this.toAddress(recipientId, recipientDeviceId));
+
+    return {
+      id: uuidv4(),
+      conversationId: '',
+      senderId: '',
+      recipientId,
+      recipientDeviceId,
+      ciphertext: this.concat(nonce, ciphertext),
+      ephemeralPublicKey: ephemeral.publicKey,
+      deliveryToken: deliveryKey ? this.deriveToken(deliveryKey) : undefined,
+      timestamp: new Date(),
+      messageType: MESSAGE_KINDS.sealed_sender,
+      sealed: true,
+    };
+  }
+
+  // Вскрытие конверта и проверка сертификата; само сообщение Signal расшифровывает вызывающий
+  async unseal(envelope: EncryptedMessage): Promise<UnsealedMessage> {
+    await sodium.ready;
+
+    if (!envelope.sealed || !envelope.ephemeralPublicKey) {
+      throw new Error('Not a sealed sender message');
+    }
+
+    const hasDeliveryToken =
+      envelope.deliveryToken !== undefined &&
+      this.equals(envelope.deliveryToken, this.deriveToken(this.requireDeliveryKey()));
+
+    const recipientKey = sodium.crypto_sign_ed25519_pk_to_curve25519(this.signal.getIdentityKey());
+    const sharedSecret = await this.signal.calculateIdentityAgreement(envelope.ephemeralPublicKey);
+    const key = this.deriveKey(sharedSecret, envelope.ephemeralPublicKey, recipientKey);
+
+    const nonceLength = sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES;
+    let content: Uint8Array;
+    try {
+      content = sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+        null,
+        envelope.ciphertext.slice(nonceLength),
+        envelope.ephemeralPublicKey,
+        envelope.ciphertext.slice(0, nonceLength),
+        key
+      );
+    } catch {
+      throw new Error('Invalid sealed sender message');
+    } finally {
+      sodium.memzero(sharedSecret);
+      sodium.memzero(key);
+    }
+
+    const { certificate, deliveryKey, message } = WireCodec.decodeSealedContent(content);
+    message.senderId = certificate.senderId;
+    message.senderDeviceId = certificate.senderDeviceId;
+
+    this.verifyCertificate(certificate, message);
+
+    if (!hasDeliveryToken && !this.allowUnrestricted && !this.isKnownSender(certificate)) {
+      throw new Error('Unsolicited sealed sender message rejected');
+    }
+
+    return { certificate, deliveryKey, message };
+  }
+
+  // Вспомогательные методы
+
+  // Сертификат переиздаётся заранее, чтобы не истёк, пока конверт идёт через офлайн-узлы
+  private getCertificate(): SenderCertificate {
+    const identityKey = this.signal.getIdentityKey();
+    const isFresh =
+      this.certificate !== null &&
+      this.certificate.expires.getTime() - Date.now() > this.certificateLifetime / 2 &&
+      this.certificate.senderDeviceId === this.signal.getDeviceId() &&
+      this.equals(this.certificate.identityKey, identityKey);
+    if (isFresh) return this.certificate!;
+
+    const unsigned = {
+      senderId: this.userId,
+      senderDeviceId: this.signal.getDeviceId(),
+      identityKey,
+      expires: new Date(Date.now() + this.certificateLifetime),
+    };
+    this.certificate = {
+      ...unsigned,
+      signature: this.signal.signWithIdentityKey(WireCodec.encodeSenderCertificate(unsigned)),
+    };
+    return this.certificate;
+  }
+
+  private verifyCertificate(certificate: SenderCertificate, message: EncryptedMessage): void {
+    if (
+      !sodium.crypto_sign_verify_detached(
+        certificate.signature,
+        WireCodec.encodeSenderCertificate({ ...certificate, signature: undefined }),
+        certificate.identityKey
+      )
+    ) {
+      throw new Error('Invalid sender certificate signature');
+    }
+    if (certificate.expires.getTime() <= Date.now()) {
+      throw new Error('Sender certificate expired');
+    }
+
+    // Новая сессия несёт identity key в X3DH заголовке, он должен совпадать с сертификатом;
+    // смену ключа дальше обрабатывает SignalProtocolService
+    if (message.preKeyMessage) {
+      if (!this.equals(message.preKeyMessage.identityKey, certificate.identityKey)) {
+        throw new Error('Sender certificate identity key mismatch');
+      }
+      return;
+    }
+
+    const expected =
+      certificate.senderId === this.userId
+        ? this.signal.getIdentityKey()
+        : this.signal.getTrustedIdentity(certificate.senderId)?.identityKey;
+    if (expected && !this.equals(expected, certificate.identityKey)) {
+      throw new Error('Sender certificate identity key mismatch');
+    }
+  }
+
+  private isKnownSender(certificate: SenderCertificate): boolean {
+    if (certificate.senderId === this.userId) {
+      return this.equals(this.signal.getIdentityKey(), certificate.identityKey);
+    }
+
+    const trusted = this.signal.getTrustedIdentity(certificate.senderId);
+    return (
+      trusted !== null &&
+      !trusted.pendingChange &&
+      this.equals(trusted.identityKey, certificate.identityKey)
+    );
+  }
+
+  private requireDeliveryKey(): Uint8Array {
+    if (!this.deliveryKey) {
+      throw new Error('Sealed sender not initialized');
+    }
+    return this.deliveryKey;
+  }
+
+  private deriveKey(
+    sharedSecret: Uint8Array,
+    ephemeralPublicKey: Uint8Array,
+    recipientKey: Uint8Array
+  ): Uint8Array {
+    return sodium.crypto_generichash(
+      32,
+      this.concat(sharedSecret, ephemeralPublicKey, recipientKey),
+      new TextEncoder().encode('MessaSealedSender')
+    );
+  }
+
+  private deriveToken(deliveryKey: Uint8Array): Uint8Array {
+    return sodium.crypto_generichash(
+      this.tokenLength,
+      new TextEncoder().encode('MessaDeliveryToken'),
+      deliveryKey
+    );
+  }
+
+  private toAddress(userId: string, deviceId: number): string {
+    return `${userId}.${deviceId}`;
+  }
+
+  private equals(a: Uint8Array, b: Uint8Array): boolean {
+    return a.length === b.length && sodium.memcmp(a, b);
+  }
+
+  private concat(...parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+}
@@ -0,0 +1,194 @@
+import sodium from 'libsodium-wrappers';
+import { TLSWriter, type TLSReader } from './MLSCodec';
+import { RatchetTree } from './RatchetTree';
+import type { MLSCipherSuite } from './MLSCipherSuite';
+
+interface SenderRatchet {
+  secret: Uint8Array;
+  generation: number;
+  skipped: Map<number, { key: Uint8Array; nonce: Uint8Array }>;
+}
+
+// Secret tree (RFC 9420, раздел 9): из encryption_secret эпохи выводится отдельный
+// ratchet для каждого отправителя. Использованные секреты сразу уничтожаются
+export class SecretTree {
+  private suite: MLSCipherSuite;
+  private leafCount: number;
+  private nodeSecrets: Map<number, Uint8Array> = new Map();
+  private ratchets: Map<number, SenderRatchet> = new Map(); // Только application ratchet
+  private maxForwardDistance: number = 1000; // Максимум пропущенных сообщений одного отправителя
+  private maxSkippedKeys: number = 1000;
+
+  constructor(suite: MLSCipherSuite, encryptionSecret: Uint8Array, leafCount: number) {
+    this.suite = suite;
+    this.leafCount = leafCount;
+    this.nodeSecrets.set(RatchetTree.root(leafCount), encryptionSecret.slice());
+  }
+
+  // Ключ для отправки следующего сообщения
+  nextKey(leafIndex: number): { generation: number; key: Uint8Array; nonce: Uint8Array } {
+    const ratchet = this.getRatchet(leafIndex);
+    const generation = ratchet.generation;
+    const { key, nonce } = this.advance(ratchet);
+    return { generation, key, nonce };
+  }
+
+  // Ключ для входящего сообщения; каждый ключ выдаётся только один раз
+  getKey(leafIndex: number, generation: number): { key: Uint8Array; nonce: Uint8Array } {
+    const ratchet = this.getRatchet(leafIndex);
+
+    if (generation < ratchet.generation) {
+      const skipped = ratchet.skipped.get(generation);
+      if (!skipped) {
+        throw new Error('Message key not found: duplicate or expired message');
+      }
+      ratchet.skipped.delete(generation);
+      return skipped;
+    }
+
+    if (generation - ratchet.generation > this.maxForwardDistance) {
+      throw new Error('Too many skipped messages');
+    }
+
+    while (ratchet.generation < generation) {
+      const skippedGeneration = ratchet.generation;
+      ratchet.skipped.set(skippedGeneration, this.advance(ratchet));
+    }
+
+    // Самые старые пропущенные ключи вытесняются первыми
+    while (ratchet.skipped.size > this.maxSkippedKeys) {
+      const oldest = ratchet.skipped.keys().next().value as number;
+      const evicted = ratchet.skipped.get(oldest)!;
+      sodium.memzero(evicted.key);
+      ratchet.skipped.delete(oldest);
+    }
+
+    return this.advance(ratchet);
+  }
+
+  // Состояние для сохранения между запусками: после перезапуска поколения отправки
+  // продолжаются, а не начинаются заново (иначе повторились бы ключ и nonce)
+  encode(writer: TLSWriter): void {
+    writer
+      .uint32(this.leafCount)
+      .vectorOf(Array.from(this.nodeSecrets), (w, [nodeIndex, secret]) => {
+        w.uint32(nodeIndex).vector(secret);
+      })
+      .vectorOf(Array.from(this.ratchets), (w, [leafIndex, ratchet]) => {
+        w.uint32(leafIndex)
+          .vector(ratchet.secret)
+          .uint32(ratchet.generation)
+          .vectorOf(Array.from(ratchet.skipped), (sw, [generation, { key, nonce }]) => {
+            sw.uint32(generation).vector(key).vector(nonce);
+          });
+      });
+  }
+
+  static decode(suite: MLSCipherSuite, reader: TLSReader): SecretTree {
+    const tree = new SecretTree(suite, new Uint8Array(0), reader.uint32());
+    tree.nodeSecrets.clear();
+
+    for (const [nodeIndex, secret] of reader.vectorOf(r => [r.uint32(), r.vector()] as const)) {
+      tree.nodeSecrets.set(nodeIndex, secret);
+    }
+    for (const ratchet of reader.vectorOf(r => ({
+      leafIndex: r.uint32(),
+      secret: r.vector(),
+      generation: r.uint32(),
+      skipped: r.vectorOf(sr => [sr.uint32(), { key: sr.vector(), nonce: sr.vector() }] as const),
+    }))) {
+      tree.ratchets.set(ratchet.leafIndex, {
+        secret: ratchet.secret,
+        generation: ratchet.generation,
+        skipped: new Map(ratchet.skipped),
+      });
+    }
+    return tree;
+  }
+
+  destroy(): void {
+    for (const secret of this.nodeSecrets.values()) {
+      sodium.memzero(secret);
+    }
+    for (const ratchet of this.ratchets.values()) {
+      sodium.memzero(ratchet.secret);
+      for (const { key } of ratchet.skipped.values()) {
+        sodium.memzero(key);
+      }
+    }
+    this.nodeSecrets.clear();
+    this.ratchets.clear();
+  }
+
+  private getRatchet(leafIndex: number): SenderRatchet {
+    if (leafIndex >= this.leafCount) {
+      throw new Error('Unknown sender');
+    }
+
+    const existing = this.ratchets.get(leafIndex);
+    if (existing) return existing;
+
+    const leafSecret = this.deriveLeafSecret(leafIndex * 2);
+    const ratchet: SenderRatchet = {
+      secret: this.suite.expandWithLabel(
+        leafSecret,
+        'application',
+        new Uint8Array(0),
+        this.suite.Nh
+      ),
+      generation: 0,
+      skipped: new Map(),
+    };
+    sodium.memzero(leafSecret);
+
+    this.ratchets.set(leafIndex, ratchet);
+    return ratchet;
+  }
+
+  // Спуск от ближайшего известного предка; секрет родителя удаляется после вывода детей
+  private deriveLeafSecret(nodeIndex: number): Uint8Array {
+    const path = [nodeIndex];
+    while (!this.nodeSecrets.has(path[path.length - 1]!)) {
+      const current = path[path.length - 1]!;
+      if (current === RatchetTree.root(this.leafCount)) {
+        throw new Error('Leaf secret already consumed');
+      }
+      path.push(RatchetTree.parent(current));
+    }
+
+    for (let i = path.length - 1; i > 0; i--) {
+      const parent = path[i]!;
+      const secret = this.nodeSecrets.get(parent)!;
+
+      this.nodeSecrets.set(
+        RatchetTree.left(parent),
+        this.suite.expandWithLabel(secret, 'tree', new TextEncoder().encode('left'), this.suite.Nh)
+      );
+      this.nodeSecrets.set(
+        RatchetTree.right(parent),
+        this.suite.expandWithLabel(secret, 'tree', new TextEncoder().encode('right'), this.suite.Nh)
+      );
+
+      sodium.memzero(secret);
+      this.nodeSecrets.delete(parent);
+    }
+
+    const leafSecret = this.nodeSecrets.get(nodeIndex)!;
+    this.nodeSecrets.delete(nodeIndex);
+    return leafSecret;
+  }
+
+  private advance(ratchet: SenderRatchet): { key: Uint8Array; nonce: Uint8Array } {
+    const generation = new TLSWriter().uint32(ratchet.generation).finish();
+
+    const key = this.suite.expandWithLabel(ratchet.secret, 'key', generation, this.suite.Nk);
+    const nonce = this.suite.expandWithLabel(ratchet.secret, 'nonce', generation, this.suite.Nn);
+    const next = this.suite.expandWithLabel(ratchet.secret, 'secret', generation, this.suite.Nh);
+
+    sodium.memzero(ratchet.secret);
+    ratchet.secret = next;
+    ratchet.generation++;
+
+    return { key, nonce };
+  }
+}
@@ -0,0 +1,721 @@
+import sodium from 'libsodium-wrappers';
+import type { DatabaseService, Migration } from '@messa/local-db';
+import type {
+  ISessionStore,
+  IdentityRecord,
+  Session,
+  ChainKey,
+  KeyPair,
+  MLSStateRecord,
+  PreKeyKind,
+  PreKeyMessage,
+  PreKeyRecord,
+  PreKeyRef,
+  SealedSenderStateRecord,
+  TrustedIdentity,
+} from '../types';
+
+// Версии 100-199 зарезервированы за хранилищем Signal сессий
+export const SESSION_STORE_MIGRATIONS: Migration[] = [
+  {
+    version: 100,
+    up: `
+      CREATE TABLE IF NOT EXISTS signal_identity (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS signal_sessions (
+        address TEXT PRIMARY KEY,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS signal_pre_keys (
+        kind TEXT NOT NULL,
+        key_id INTEGER NOT NULL,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (kind, key_id)
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS signal_pre_keys;
+      DROP TABLE IF EXISTS signal_sessions;
+      DROP TABLE IF EXISTS signal_identity;
+    `,
+  },
+  {
+    version: 101,
+    up: `
+      CREATE TABLE IF NOT EXISTS signal_trusted_identities (
+        user_id TEXT PRIMARY KEY,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS signal_trusted_identities;
+    `,
+  },
+  {
+    version: 102,
+    up: `
+      CREATE TABLE IF NOT EXISTS mls_signature_key (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS mls_key_packages (
+        ref TEXT PRIMARY KEY,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS mls_groups (
+        group_id TEXT PRIMARY KEY,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS mls_groups;
+      DROP TABLE IF EXISTS mls_key_packages;
+      DROP TABLE IF EXISTS mls_signature_key;
+    `,
+  },
+  {
+    version: 103,
+    up: `
+      CREATE TABLE IF NOT EXISTS sealed_sender_key (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS sealed_sender_delivery_keys (
+        address TEXT PRIMARY KEY,
+        record BLOB NOT NULL,
+        nonce BLOB NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS sealed_sender_delivery_keys;
+      DROP TABLE IF EXISTS sealed_sender_key;
+    `,
+  },
+  {
+    version: 104,
+    up: `
+      CREATE TABLE IF NOT EXISTS device_list_versions (
+        user_id TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS device_list_versions;
+    `,
+  },
+];
+
+// Хранилище по умолчанию: состояние живёт только до перезапуска
+export class InMemorySessionStore implements ISessionStore {
+  private identity: IdentityRecord | null = null;
+  private sessions: Map<string, Session> = new Map();
+  private preKeys: Map<string, PreKeyRecord> = new Map();
+  private trustedIdentities: Map<string, TrustedIdentity> = new Map();
+  private mlsSignatureKey: KeyPair | null = null;
+  private mlsKeyPackages: Map<string, Uint8Array> = new Map();
+  private mlsGroups: Map<string, Uint8Array> = new Map();
+  private deliveryKey: Uint8Array | null = null;
+  private deliveryKeys: Map<string, Uint8Array> = new Map();
+  private deviceListVersions: Map<string, number> = new Map();
+
+  async loadIdentity(): Promise<IdentityRecord | null> {
+    return this.identity;
+  }
+
+  async storeIdentity(identity: IdentityRecord): Promise<void> {
+    this.identity = identity;
+  }
+
+  async loadSession(address: string): Promise<Session | null> {
+    return this.sessions.get(address) ?? null;
+  }
+
+  async loadSessions(): Promise<Map<string, Session>> {
+    return new Map(this.sessions);
+  }
+
+  async storeSession(
+    address: string,
+    session: Session,
+    consumedPreKeys: PreKeyRef[] = []
+  ): Promise<void> {
+    this.sessions.set(address, session);
+    await this.removePreKeys(consumedPreKeys);
+  }
+
+  async deleteSession(address: string): Promise<void> {
+    this.sessions.delete(address);
+  }
+
+  async loadPreKeys(): Promise<PreKeyRecord[]> {
+    return Array.from(this.preKeys.values());
+  }
+
+  async storePreKeys(records: PreKeyRecord[]): Promise<void> {
+    for (const record of records) {
+      this.preKeys.set(`${record.kind}:${record.keyId}`, record);
+    }
+  }
+
+  async removePreKeys(refs: PreKeyRef[]): Promise<void> {
+    for (const ref of refs) {
+      this.preKeys.delete(`${ref.kind}:${ref.keyId}`);
+    }
+  }
+
+  async loadTrustedIdentities(): Promise<TrustedIdentity[]> {
+    return Array.from(this.trustedIdentities.values());
+  }
+
+  async storeTrustedIdentity(identity: TrustedIdentity): Promise<void> {
+    this.trustedIdentities.set(identity.userId, identity);
+  }
+
+  async loadMLSState(): Promise<MLSStateRecord> {
+    return {
+      signatureKeyPair: this.mlsSignatureKey,
+      keyPackages: new Map(this.mlsKeyPackages),
+      groups: new Map(this.mlsGroups),
+    };
+  }
+
+  async storeMLSSignatureKey(keyPair: KeyPair): Promise<void> {
+    this.mlsSignatureKey = keyPair;
+  }
+
+  async storeMLSKeyPackage(ref: string, data: Uint8Array): Promise<void> {
+    this.mlsKeyPackages.set(ref, data);
+  }
+
+  async deleteMLSKeyPackage(ref: string): Promise<void> {
+    this.mlsKeyPackages.delete(ref);
+  }
+
+  async storeMLSGroup(groupId: string, data: Uint8Array): Promise<void> {
+    this.mlsGroups.set(groupId, data);
+  }
+
+  async deleteMLSGroup(groupId: string): Promise<void> {
+    this.mlsGroups.delete(groupId);
+  }
+
+  async loadSealedSenderState(): Promise<SealedSenderStateRecord> {
+    return { deliveryKey: this.deliveryKey, deliveryKeys: new Map(this.deliveryKeys) };
+  }
+
+  async storeDeliveryKey(deliveryKey: Uint8Array): Promise<void> {
+    this.deliveryKey = deliveryKey;
+  }
+
+  async storePeerDeliveryKey(address: string, deliveryKey: Uint8Array): Promise<void> {
+    this.deliveryKeys.set(address, deliveryKey);
+  }
+
+  async loadDeviceListVersions(): Promise<Map<string, number>> {
+    return new Map(this.deviceListVersions);
+  }
+
+  async storeDeviceListVersion(userId: string, version: number): Promise<void> {
+    this.deviceListVersions.set(userId, version);
+  }
+}
+
+// Зашифрованные записи local-db: бинарные поля в hex, даты в ISO
+interface SerializedKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+interface SerializedChain {
+  key: string;
+  index: number;
+  messageKeys: Array<[number, string]>;
+}
+
+interface SerializedPreKeyMessage extends Omit<
+  PreKeyMessage,
+  'baseKey' | 'identityKey' | 'kyberCiphertext'
+> {
+  baseKey: string;
+  identityKey: string;
+  kyberCiphertext?: string;
+}
+
+interface SerializedSession {
+  sessionId: string;
+  remoteIdentityKey: string;
+  rootKey: string;
+  ratchetKeyPair: SerializedKeyPair;
+  remoteRatchetKey?: string;
+  sendingChain: SerializedChain;
+  receivingChains: Array<[string, SerializedChain]>;
+  previousCounter: number;
+  remoteRegistrationId: number;
+  associatedData?: string;
+  baseKey?: string;
+  pendingPreKey?: SerializedPreKeyMessage;
+  quantumSafe?: boolean;
+}
+
+interface SerializedIdentity {
+  identityKeyPair: SerializedKeyPair;
+  registrationId: number;
+  deviceId?: number;
+}
+
+interface SerializedPreKey {
+  kind: PreKeyKind;
+  keyId: number;
+  keyPair: SerializedKeyPair;
+  signature?: string;
+  issued: boolean;
+  createdAt: number;
+}
+
+interface SerializedTrustedIdentity {
+  userId: string;
+  identityKey: string;
+  verified: boolean;
+  pendingChange: boolean;
+  pendingIdentityKey?: string;
+  previousIdentityKey?: string;
+  firstSeen: string;
+  changedAt?: string;
+}
+
+// Хранилище поверх local-db: каждая запись шифруется ключом базы
+export class LocalDbSessionStore implements ISessionStore {
+  private db: DatabaseService;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+  }
+
+  async initialize(): Promise<void> {
+    await sodium.ready;
+    await this.db.migrate(SESSION_STORE_MIGRATIONS);
+  }
+
+  async loadIdentity(): Promise<IdentityRecord | null> {
+    const row = this.db.get<{ record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT record, nonce FROM signal_identity WHERE id = 1'
+    );
+    if (!row) return null;
+
+    const data = this.db.getEncryptedStorage().open<SerializedIdentity>(row.record, row.nonce);
+    return {
+      identityKeyPair: this.deserializeKeyPair(data.identityKeyPair),
+      registrationId: data.registrationId,
+      deviceId: data.deviceId ?? 1,
+    };
+  }
+
+  async storeIdentity(identity: IdentityRecord): Promise<void> {
+    const record: SerializedIdentity = {
+      identityKeyPair: this.serializeKeyPair(identity.identityKeyPair),
+      registrationId: identity.registrationId,
+      deviceId: identity.deviceId,
+    };
+    const { value, nonce } = this.db.getEncryptedStorage().seal(record);
+
+    this.db.execute(
+      'INSERT OR REPLACE INTO signal_identity (id, record, nonce, updated_at) VALUES (1, ?, ?, ?)',
+      [value, nonce, new Date().toISOString()]
+    );
+  }
+
+  async loadSession(address: string): Promise<Session | null> {
+    const row = this.db.get<{ record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT record, nonce FROM signal_sessions WHERE address = ?',
+      [address]
+    );
+    if (!row) return null;
+
+    return this.deserializeSession(
+      this.db.getEncryptedStorage().open<SerializedSession>(row.record, row.nonce)
+    );
+  }
+
+  async loadSessions(): Promise<Map<string, Session>> {
+    const rows = this.db.query<{ address: string; record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT address, record, nonce FROM signal_sessions'
+    );
+
+    const sessions = new Map<string, Session>();
+    for (const row of rows) {
+      sessions.set(
+        row.address,
+        this.deserializeSession(
+          this.db.getEncryptedStorage().open<SerializedSession>(row.record, row.nonce)
+        )
+      );
+    }
+    return sessions;
+  }
+
+  async storeSession(
+    address: string,
+    session: Session,
+    consumedPreKeys: PreKeyRef[] = []
+  ): Promise<void> {
+    const { value, nonce } = this.db.getEncryptedStorage().seal(this.serializeSession(session));
+
+    this.db.transaction(() => {
+      this.db.execute(
+        'INSERT OR REPLACE INTO signal_sessions (address, record, nonce, updated_at) VALUES (?, ?, ?, ?)',
+        [address, value, nonce, new Date().toISOString()]
+      );
+      this.deletePreKeyRows(consumedPreKeys);
+    });
+  }
+
+  async deleteSession(address: string): Promise<void> {
+    this.db.execute('DELETE FROM signal_sessions WHERE address = ?', [address]);
+  }
+
+  async loadPreKeys(): Promise<PreKeyRecord[]> {
+    const rows = this.db.query<{ record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT record, nonce FROM signal_pre_keys ORDER BY kind, key_id'
+    );
+
+    return rows.map(row => {
+      const data = this.db.getEncryptedStorage().open<SerializedPreKey>(row.record, row.nonce);
+      return {
+        kind: data.kind,
+        keyId: data.keyId,
+        keyPair: this.deserializeKeyPair(data.keyPair),
+        signature: data.signature ? sodium.from_hex(data.signature) : undefined,
+        issued: data.issued,
+        createdAt: data.createdAt,
+      };
+    });
+  }
+
+  async storePreKeys(records: PreKeyRecord[]): Promise<void> {
+    const storage = this.db.getEncryptedStorage();
+
+    this.db.transaction(() => {
+      for (const record of records) {
+        const serialized: SerializedPreKey = {
+          kind: record.kind,
+          keyId: record.keyId,
+          keyPair: this.serializeKeyPair(record.keyPair),
+          signature: record.signature ? sodium.to_hex(record.signature) : undefined,
+          issued: record.issued,
+          createdAt: record.createdAt,
+        };
+        const { value, nonce } = storage.seal(serialized);
+
+        this.db.execute(
+          `INSERT OR REPLACE INTO signal_pre_keys (kind, key_id, record, nonce, created_at)
+           VALUES (?, ?, ?, ?, ?)`,
+          [record.kind, record.keyId, value, nonce, new Date(record.createdAt).toISOString()]
+        );
+      }
+    });
+  }
+
+  async removePreKeys(refs: PreKeyRef[]): Promise<void> {
+    this.db.transaction(() => this.deletePreKeyRows(refs));
+  }
+
+  async loadTrustedIdentities(): Promise<TrustedIdentity[]> {
+    const rows = this.db.query<{ record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT record, nonce FROM signal_trusted_identities'
+    );
+
+    return rows.map(row => {
+      const data = this.db
+        .getEncryptedStorage()
+        .open<SerializedTrustedIdentity>(row.record, row.nonce);
+      return {
+        userId: data.userId,
+        identityKey: sodium.from_hex(data.identityKey),
+        verified: data.verified,
+        pendingChange: data.pendingChange,
+        pendingIdentityKey: data.pendingIdentityKey
+          ? sodium.from_hex(data.pendingIdentityKey)
+          : undefined,
+        previousIdentityKey: data.previousIdentityKey
+          ? sodium.from_hex(data.previousIdentityKey)
+          : undefined,
+        firstSeen: new Date(data.firstSeen),
+        changedAt: data.changedAt ? new Date(data.changedAt) : undefined,
+      };
+    });
+  }
+
+  async storeTrustedIdentity(identity: TrustedIdentity): Promise<void> {
+    const record: SerializedTrustedIdentity = {
+      userId: identity.userId,
+      identityKey: sodium.to_hex(identity.identityKey),
+      verified: identity.verified,
+      pendingChange: identity.pendingChange,
+      pendingIdentityKey: identity.pendingIdentityKey
+        ? sodium.to_hex(identity.pendingIdentityKey)
+        : undefined,
+      previousIdentityKey: identity.previousIdentityKey
+        ? sodium.to_hex(identity.previousIdentityKey)
+        : undefined,
+      firstSeen: identity.firstSeen.toISOString(),
+      changedAt: identity.changedAt?.toISOString(),
+    };
+    const { value, nonce } = this.db.getEncryptedStorage().seal(record);
+
+    this.db.execute(
+      `INSERT OR REPLACE INTO signal_trusted_identities (user_id, record, nonce, updated_at)
+       VALUES (?, ?, ?, ?)`,
+      [identity.userId, value, nonce, new Date().toISOString()]
+    );
+  }
+
+  async loadMLSState(): Promise<MLSStateRecord> {
+    const storage = this.db.getEncryptedStorage();
+
+    const signatureRow = this.db.get<{ record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT record, nonce FROM mls_signature_key WHERE id = 1'
+    );
+    const keyPackageRows = this.db.query<{ ref: string; record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT ref, record, nonce FROM mls_key_packages'
+    );
+    const groupRows = this.db.query<{ group_id: string; record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT group_id, record, nonce FROM mls_groups'
+    );
+
+    const openBytes = (row: { record: Uint8Array; nonce: Uint8Array }) =>
+      sodium.from_hex(storage.open<{ data: string }>(row.record, row.nonce).data);
+
+    return {
+      signatureKeyPair: signatureRow
+        ? this.deserializeKeyPair(
+            storage.open<SerializedKeyPair>(signatureRow.record, signatureRow.nonce)
+          )
+        : null,
+      keyPackages: new Map(keyPackageRows.map(row => [row.ref, openBytes(row)])),
+      groups: new Map(groupRows.map(row => [row.group_id, openBytes(row)])),
+    };
+  }
+
+  async storeMLSSignatureKey(keyPair: KeyPair): Promise<void> {
+    const { value, nonce } = this.db.getEncryptedStorage().seal(this.serializeKeyPair(keyPair));
+
+    this.db.execute(
+      'INSERT OR REPLACE INTO mls_signature_key (id, record, nonce, updated_at) VALUES (1, ?, ?, ?)',
+      [value, nonce, new Date().toISOString()]
+    );
+  }
+
+  async storeMLSKeyPackage(ref: string, data: Uint8Array): Promise<void> {
+    const { value, nonce } = this.db.getEncryptedStorage().seal({ data: sodium.to_hex(data) });
+
+    this.db.execute(
+      'INSERT OR REPLACE INTO mls_key_packages (ref, record, nonce, created_at) VALUES (?, ?, ?, ?)',
+      [ref, value, nonce, new Date().toISOString()]
+    );
+  }
+
+  async deleteMLSKeyPackage(ref: string): Promise<void> {
+    this.db.execute('DELETE FROM mls_key_packages WHERE ref = ?', [ref]);
+  }
+
+  async storeMLSGroup(groupId: string, data: Uint8Array): Promise<void> {
+    const { value, nonce } = this.db.getEncryptedStorage().seal({ data: sodium.to_hex(data) });
+
+    this.db.execute(
+      'INSERT OR REPLACE INTO mls_groups (group_id, record, nonce, updated_at) VALUES (?, ?, ?, ?)',
+      [groupId, value, nonce, new Date().toISOString()]
+    );
+  }
+
+  async deleteMLSGroup(groupId: string): Promise<void> {
+    this.db.execute('DELETE FROM mls_groups WHERE group_id = ?', [groupId]);
+  }
+
+  async loadSealedSenderState(): Promise<SealedSenderStateRecord> {
+    const storage = this.db.getEncryptedStorage();
+
+    const keyRow = this.db.get<{ record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT record, nonce FROM sealed_sender_key WHERE id = 1'
+    );
+    const peerRows = this.db.query<{ address: string; record: Uint8Array; nonce: Uint8Array }>(
+      'SELECT address, record, nonce FROM sealed_sender_delivery_keys'
+    );
+
+    const openBytes = (row: { record: Uint8Array; nonce: Uint8Array }) =>
+      sodium.from_hex(storage.open<{ data: string }>(row.record, row.nonce).data);
+
+    return {
+      deliveryKey: keyRow ? openBytes(keyRow) : null,
+      deliveryKeys: new Map(peerRows.map(row => [row.address, openBytes(row)])),
+    };
+  }
+
+  async storeDeliveryKey(deliveryKey: Uint8Array): Promise<void> {
+    const { value, nonce } = this.db
+      .getEncryptedStorage()
+      .seal({ data: sodium.to_hex(deliveryKey) });
+
+    this.db.execute(
+      'INSERT OR REPLACE INTO sealed_sender_key (id, record, nonce, created_at) VALUES (1, ?, ?, ?)',
+      [value, nonce, new Date().toISOString()]
+    );
+  }
+
+  async storePeerDeliveryKey(address: string, deliveryKey: Uint8Array): Promise<void> {
+    const { value, nonce } = this.db
+      .getEncryptedStorage()
+      .seal({ data: sodium.to_hex(deliveryKey) });
+
+    this.db.execute(
+      `INSERT OR REPLACE INTO sealed_sender_delivery_keys (address, record, nonce, updated_at)
+       VALUES (?, ?, ?, ?)`,
+      [address, value, nonce, new Date().toISOString()]
+    );
+  }
+
+  async loadDeviceListVersions(): Promise<Map<string, number>> {
+    const rows = this.db.query<{ user_id: string; version: number }>(
+      'SELECT user_id, version FROM device_list_versions'
+    );
+    return new Map(rows.map(row => [row.user_id, row.version]));
+  }
+
+  async storeDeviceListVersion(userId: string, version: number): Promise<void> {
+    this.db.execute(
+      `INSERT OR REPLACE INTO device_list_versions (user_id, version, updated_at)
+       VALUES (?, ?, ?)`,
+      [userId, version, new Date().toISOString()]
+    );
+  }
+
+  private deletePreKeyRows(refs: PreKeyRef[]): void {
+    for (const ref of refs) {
+      this.db.execute('DELETE FROM signal_pre_keys WHERE kind = ? AND key_id = ?', [
+        ref.kind,
+        ref.keyId,
+      ]);
+    }
+  }
+
+  // Сериализация: бинарные поля в hex, Map в массивы пар
+
+  private serializeSession(session: Session): SerializedSession {
+    return {
+      sessionId: session.sessionId,
+      remoteIdentityKey: sodium.to_hex(session.remoteIdentityKey),
+      rootKey: sodium.to_hex(session.rootKey),
+      ratchetKeyPair: this.serializeKeyPair(session.ratchetKeyPair),
+      remoteRatchetKey: session.remoteRatchetKey
+        ? sodium.to_hex(session.remoteRatchetKey)
+        : undefined,
+      sendingChain: this.serializeChain(session.sendingChain),
+      receivingChains: Array.from(session.receivingChains, ([chainId, chain]) => [
+        chainId,
+        this.serializeChain(chain),
+      ]),
+      previousCounter: session.previousCounter,
+      remoteRegistrationId: session.remoteRegistrationId,
+      associatedData: session.associatedData ? sodium.to_hex(session.associatedData) : undefined,
+      baseKey: session.baseKey ? sodium.to_hex(session.baseKey) : undefined,
+      pendingPreKey: session.pendingPreKey
+        ? this.serializePreKeyMessage(session.pendingPreKey)
+        : undefined,
+      quantumSafe: session.quantumSafe,
+    };
+  }
+
+  private deserializeSession(data: SerializedSession): Session {
+    return {
+      sessionId: data.sessionId,
+      remoteIdentityKey: sodium.from_hex(data.remoteIdentityKey),
+      rootKey: sodium.from_hex(data.rootKey),
+      ratchetKeyPair: this.deserializeKeyPair(data.ratchetKeyPair),
+      remoteRatchetKey: data.remoteRatchetKey ? sodium.from_hex(data.remoteRatchetKey) : undefined,
+      sendingChain: this.deserializeChain(data.sendingChain),
+      receivingChains: new Map(
+        data.receivingChains.map(([chainId, chain]) => [chainId, this.deserializeChain(chain)])
+      ),
+      previousCounter: data.previousCounter,
+      remoteRegistrationId: data.remoteRegistrationId,
+      associatedData: data.associatedData ? sodium.from_hex(data.associatedData) : undefined,
+      baseKey: data.baseKey ? sodium.from_hex(data.baseKey) : undefined,
+      pendingPreKey: data.pendingPreKey
+        ? this.deserializePreKeyMessage(data.pendingPreKey)
+        : undefined,
+      quantumSafe: data.quantumSafe,
+    };
+  }
+
+  private serializeChain(chain: ChainKey): SerializedChain {
+    return {
+      key: sodium.to_hex(chain.key),
+      index: chain.index,
+      messageKeys: Array.from(chain.messageKeys, ([index, key]) => [index, sodium.to_hex(key)]),
+    };
+  }
+
+  private deserializeChain(data: SerializedChain): ChainKey {
+    return {
+      key: sodium.from_hex(data.key),
+      index: data.index,
+      messageKeys: new Map(data.messageKeys.map(([index, key]) => [index, sodium.from_hex(key)])),
+    };
+  }
+
+  private serializePreKeyMessage(message: PreKeyMessage): SerializedPreKeyMessage {
+    return {
+      ...message,
+      baseKey: sodium.to_hex(message.baseKey),
+      identityKey: sodium.to_hex(message.identityKey),
+      kyberCiphertext: message.kyberCiphertext ? sodium.to_hex(message.kyberCiphertext) : undefined,
+    };
+  }
+
+  private deserializePreKeyMessage(data: SerializedPreKeyMessage): PreKeyMessage {
+    return {
+      ...data,
+      baseKey: sodium.from_hex(data.baseKey),
+      identityKey: sodium.from_hex(data.identityKey),
+      kyberCiphertext: data.kyberCiphertext ? sodium.from_hex(data.kyberCiphertext) : undefined,
+    };
+  }
+
+  private serializeKeyPair(keyPair: KeyPair): SerializedKeyPair {
+    return {
+      publicKey: sodium.to_hex(keyPair.publicKey),
+      privateKey: sodium.to_hex(keyPair.privateKey),
+    };
+  }
+
+  private deserializeKeyPair(data: SerializedKeyPair): KeyPair {
+    return {
+      publicKey: sodium.from_hex(data.publicKey),
+      privateKey: sodium.from_hex(data.privateKey),
+    };
+  }
+}
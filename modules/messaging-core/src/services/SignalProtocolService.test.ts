@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import { SignalProtocolService } from './SignalProtocolService';
+import type { EncryptedMessage, IdentityChangeEvent } from '../types';
+
+// Детерминированный генератор, чтобы упавший прогон можно было повторить
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j]!, items[i]!];
+  }
+  return items;
+}
+
+async function createPair(): Promise<{ alice: SignalProtocolService; bob: SignalProtocolService }> {
+  const alice = new SignalProtocolService();
+  const bob = new SignalProtocolService();
+  await alice.initialize();
+  await bob.initialize();
+
+  await alice.initializeSession('bob', await bob.generatePreKeyBundle());
+  return { alice, bob };
+}
+
+describe('SignalProtocolService', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  it('rejects a bundle with an invalid signed pre-key signature', async () => {
+    const alice = new SignalProtocolService();
+    const bob = new SignalProtocolService();
+    await alice.initialize();
+    await bob.initialize();
+
+    const bundle = await bob.generatePreKeyBundle();
+    await expect(
+      alice.initializeSession('bob', { ...bundle, signedPreKeySignature: new Uint8Array(64) })
+    ).rejects.toThrow('Invalid signed pre-key signature');
+  });
+
+  it('decrypts thousands of shuffled messages in both directions', async () => {
+    const { alice, bob } = await createPair();
+    const random = createRandom(20240601);
+    const encode = (text: string) => sodium.from_string(text);
+
+    // Первое сообщение создаёт сессию на стороне получателя
+    const first = await alice.encryptMessage('bob', encode('hello'));
+    expect(sodium.to_string(await bob.decryptMessage('alice', first))).toBe('hello');
+
+    const toBob: Array<[string, EncryptedMessage]> = [];
+    const toAlice: Array<[string, EncryptedMessage]> = [];
+    let delivered = 0;
+    let dropped = 0;
+
+    const deliver = async (
+      queue: Array<[string, EncryptedMessage]>,
+      recipient: SignalProtocolService,
+      senderId: string,
+      lossy: boolean
+    ) => {
+      for (const [text, message] of shuffle(queue.splice(0), random)) {
+        // Часть сообщений теряется навсегда - их ключи остаются пропущенными
+        if (lossy && random() < 0.02) {
+          dropped++;
+          continue;
+        }
+        expect(sodium.to_string(await recipient.decryptMessage(senderId, message))).toBe(text);
+        delivered++;
+      }
+    };
+
+    for (let round = 0; round < 3000; round++) {
+      if (random() < 0.5) {
+        const text = `alice-${round}`;
+        toBob.push([text, await alice.encryptMessage('bob', encode(text))]);
+      } else {
+        const text = `bob-${round}`;
+        toAlice.push([text, await bob.encryptMessage('alice', encode(text))]);
+      }
+
+      if (random() < 0.1) {
+        await deliver(toBob, bob, 'alice', true);
+        await deliver(toAlice, alice, 'bob', true);
+      }
+    }
+
+    await deliver(toBob, bob, 'alice', false);
+    await deliver(toAlice, alice, 'bob', false);
+
+    expect(delivered + dropped).toBe(3000);
+    expect(delivered).toBeGreaterThan(2800);
+  });
+
+  it('rejects a replayed message', async () => {
+    const { alice, bob } = await createPair();
+
+    const message = await alice.encryptMessage('bob', sodium.from_string('once'));
+    await bob.decryptMessage('alice', message);
+
+    await expect(bob.decryptMessage('alice', message)).rejects.toThrow('Message key not found');
+  });
+
+  describe('PQXDH', () => {
+    it('agrees on a quantum-safe session through a one-time Kyber pre-key', async () => {
+      const alice = new SignalProtocolService();
+      const bob = new SignalProtocolService();
+      await alice.initialize();
+      await bob.initialize();
+
+      const bundle = await bob.generatePreKeyBundle();
+      expect(bundle.kyberPreKey).toBeDefined();
+      await alice.initializeSession('bob', bundle);
+
+      const message = await alice.encryptMessage('bob', sodium.from_string('post-quantum'));
+      expect(message.preKeyMessage?.kyberPreKeyId).toBe(bundle.kyberPreKeyId);
+      expect(message.preKeyMessage?.kyberCiphertext).toBeDefined();
+
+      expect(sodium.to_string(await bob.decryptMessage('alice', message))).toBe('post-quantum');
+      expect(alice.isSessionQuantumSafe('bob')).toBe(true);
+      expect(bob.isSessionQuantumSafe('alice')).toBe(true);
+
+      const reply = await bob.encryptMessage('alice', sodium.from_string('reply'));
+      expect(sodium.to_string(await alice.decryptMessage('bob', reply))).toBe('reply');
+    });
+
+    it('falls back to the last-resort Kyber key for published bundles', async () => {
+      const alice = new SignalProtocolService();
+      const carol = new SignalProtocolService();
+      const bob = new SignalProtocolService();
+      await Promise.all([alice.initialize(), carol.initialize(), bob.initialize()]);
+
+      // Общий бандл из каталога получают многие отправители
+      const bundle = await bob.generatePreKeyBundle(false);
+      expect(bundle.preKey).toBeUndefined();
+
+      for (const [sender, senderId] of [
+        [alice, 'alice'],
+        [carol, 'carol'],
+      ] as const) {
+        await sender.initializeSession('bob', bundle);
+        const message = await sender.encryptMessage('bob', sodium.from_string(senderId));
+        expect(sodium.to_string(await bob.decryptMessage(senderId, message))).toBe(senderId);
+        expect(bob.isSessionQuantumSafe(senderId)).toBe(true);
+      }
+    });
+
+    it('rejects a Kyber pre-key that is not signed by the identity key', async () => {
+      const alice = new SignalProtocolService();
+      const bob = new SignalProtocolService();
+      await alice.initialize();
+      await bob.initialize();
+
+      const bundle = await bob.generatePreKeyBundle();
+      const forged = bundle.kyberPreKey!.slice();
+      forged[0] = forged[0]! ^ 1;
+
+      await expect(
+        alice.initializeSession('bob', { ...bundle, kyberPreKey: forged })
+      ).rejects.toThrow('Invalid Kyber pre-key signature');
+    });
+
+    it('fails the handshake when the Kyber ciphertext is tampered with', async () => {
+      const alice = new SignalProtocolService();
+      const bob = new SignalProtocolService();
+      await alice.initialize();
+      await bob.initialize();
+
+      await alice.initializeSession('bob', await bob.generatePreKeyBundle());
+      const message = await alice.encryptMessage('bob', sodium.from_string('secret'));
+      const kyberCiphertext = message.preKeyMessage!.kyberCiphertext!.slice();
+      kyberCiphertext[0] = kyberCiphertext[0]! ^ 1;
+
+      await expect(
+        bob.decryptMessage('alice', {
+          ...message,
+          preKeyMessage: { ...message.preKeyMessage!, kyberCiphertext },
+        })
+      ).rejects.toThrow();
+      expect(bob.hasSession('alice')).toBe(false);
+    });
+  });
+
+  describe('identity changes', () => {
+    it('keeps the pinned key and sessions until the change is acknowledged', async () => {
+      const { alice, bob } = await createPair();
+      await bob.decryptMessage('alice', await alice.encryptMessage('bob', sodium.from_string('hi')));
+      const pinned = bob.getTrustedIdentity('alice')!.identityKey;
+
+      const events: IdentityChangeEvent[] = [];
+      bob.on('identityChanged', (event: IdentityChangeEvent) => events.push(event));
+
+      // Alice переустановила приложение: новый identity key
+      const reinstalled = new SignalProtocolService();
+      await reinstalled.initialize();
+      await reinstalled.initializeSession('bob', await bob.generatePreKeyBundle());
+      const message = await reinstalled.encryptMessage('bob', sodium.from_string('new key'));
+
+      await expect(bob.decryptMessage('alice', message)).rejects.toThrow(
+        'Identity key changed: acknowledgement required'
+      );
+      expect(events).toHaveLength(1);
+
+      const trusted = bob.getTrustedIdentity('alice')!;
+      expect(trusted.pendingChange).toBe(true);
+      expect(sodium.compare(trusted.identityKey, pinned)).toBe(0);
+      expect(sodium.compare(trusted.pendingIdentityKey!, reinstalled.getIdentityKey())).toBe(0);
+
+      // Старая сессия цела: сообщения прежнего устройства ещё расшифровываются
+      const late = await alice.encryptMessage('bob', sodium.from_string('late'));
+      expect(sodium.to_string(await bob.decryptMessage('alice', late))).toBe('late');
+      await expect(bob.encryptMessage('alice', sodium.from_string('blocked'))).rejects.toThrow(
+        'acknowledgement required'
+      );
+
+      // Повтор того же сообщения не порождает новых предупреждений
+      await expect(bob.decryptMessage('alice', message)).rejects.toThrow();
+      expect(events).toHaveLength(1);
+
+      await bob.acknowledgeIdentityChange('alice');
+      const acknowledged = bob.getTrustedIdentity('alice')!;
+      expect(acknowledged.pendingChange).toBe(false);
+      expect(sodium.compare(acknowledged.identityKey, reinstalled.getIdentityKey())).toBe(0);
+      expect(sodium.compare(acknowledged.previousIdentityKey!, pinned)).toBe(0);
+      expect(bob.hasSession('alice')).toBe(false);
+
+      // Отклонённое сообщение расшифровывается после подтверждения
+      expect(sodium.to_string(await bob.decryptMessage('alice', message))).toBe('new key');
+      const reply = await bob.encryptMessage('alice', sodium.from_string('welcome back'));
+      expect(sodium.to_string(await reinstalled.decryptMessage('bob', reply))).toBe('welcome back');
+    });
+
+    it('does not start a session from a bundle with an unacknowledged key', async () => {
+      const { alice } = await createPair();
+
+      const reinstalled = new SignalProtocolService();
+      await reinstalled.initialize();
+
+      await expect(
+        alice.initializeSession('bob', await reinstalled.generatePreKeyBundle())
+      ).rejects.toThrow('Identity key changed: acknowledgement required');
+      expect(alice.hasSession('bob')).toBe(true);
+      expect(alice.getTrustedIdentity('bob')!.pendingChange).toBe(true);
+
+      await alice.acknowledgeIdentityChange('bob');
+      expect(alice.hasSession('bob')).toBe(false);
+
+      await alice.initializeSession('bob', await reinstalled.generatePreKeyBundle());
+      const message = await alice.encryptMessage('bob', sodium.from_string('again'));
+      expect(sodium.to_string(await reinstalled.decryptMessage('alice', message))).toBe('again');
+    });
+  });
+});
@@ -1,41 +1,163 @@
 import sodium from 'libsodium-wrappers';
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import { ed25519 } from '@noble/curves/ed25519';
-import { QuantumResistantCrypto } from '@messa/crypto-layer';
+import { QuantumResistantCrypto, KyberService } from '@messa/crypto-layer';
+import { InMemorySessionStore } from './SessionStore';
 import type { 
   ISignalProtocolService, 
   PreKeyBundle, 
+  PreKeyMessage,
   EncryptedMessage,
   Session,
-  ChainKey 
+  ChainKey,
+  RatchetHeader,
+  KeyPair,
+  SignedPreKeyRecord,
+  ISessionStore,
+  PreKeyKind,
+  PreKeyRecord,
+  PreKeyRef,
+  TrustedIdentity,
+  IdentityChangeEvent
 } from '../types';
 
-export class SignalProtocolService implements ISignalProtocolService {
-  private identityKeyPair: { publicKey: Uint8Array; privateKey: Uint8Array } | null = null;
+// События: 'identityChanged' (IdentityChangeEvent) - собеседник сменил identity key
+export class SignalProtocolService extends EventEmitter implements ISignalProtocolService {
+  private identityKeyPair: KeyPair | null = null;
   private registrationId: number;
-  private sessions: Map<string, Session> = new Map();
-  private preKeys: Map<number, Uint8Array> = new Map();
-  private signedPreKey: { keyId: number; keyPair: any; signature: Uint8Array } | null = null;
+  private deviceId: number = 1;
+  private sessions: Map<string, Session> = new Map(); // Ключ - адрес устройства userId.deviceId
+  private trustedIdentities: Map<string, TrustedIdentity> = new Map();
+  private preKeys: Map<number, KeyPair> = new Map();
+  private issuedPreKeyIds: Set<number> = new Set();
+  private nextPreKeyId: number = 1;
+  private signedPreKey: SignedPreKeyRecord | null = null;
+  private previousSignedPreKey: SignedPreKeyRecord | null = null;
+  private kyberPreKeys: Map<number, SignedPreKeyRecord> = new Map();
+  private issuedKyberPreKeyIds: Set<number> = new Set();
+  private kyberLastResortKey: SignedPreKeyRecord | null = null;
+  private previousKyberLastResortKey: SignedPreKeyRecord | null = null;
+  private nextKyberPreKeyId: number = 1;
   private qrc: QuantumResistantCrypto;
+  private kyber: KyberService;
+  private store: ISessionStore;
+  private maxSkip: number = 2000; // Максимум пропущенных сообщений в одной цепочке
+  private maxSkippedKeys: number = 5000; // Общий лимит хранимых пропущенных ключей
+  private maxReceivingChains: number = 5;
+  private maxIssuedPreKeys: number = 100; // Выданные, но ещё не использованные pre-keys
+  private kyberPreKeyPoolSize: number = 20; // Kyber-1024 ключи заметно больше X25519
 
-  constructor() {
+  constructor(store: ISessionStore = new InMemorySessionStore()) {
+    super();
     this.registrationId = Math.floor(Math.random() * 16383) + 1;
     this.qrc = new QuantumResistantCrypto();
+    this.kyber = new KyberService();
+    this.store = store;
   }
 
   async initialize(): Promise<void> {
     await sodium.ready;
     await this.qrc.initialize();
+    await this.kyber.initialize();
+
+    for (const trusted of await this.store.loadTrustedIdentities()) {
+      this.trustedIdentities.set(trusted.userId, trusted);
+    }
+
+    // Восстановление состояния после перезапуска
+    const identity = await this.store.loadIdentity();
+    if (identity) {
+      this.identityKeyPair = identity.identityKeyPair;
+      this.registrationId = identity.registrationId;
+      this.deviceId = identity.deviceId;
+      this.sessions = await this.store.loadSessions();
+      this.restorePreKeys(await this.store.loadPreKeys());
+      return;
+    }
     
-    // Генерация identity key pair
-    this.identityKeyPair = {
-      publicKey: ed25519.utils.randomPrivateKey(),
-      privateKey: ed25519.utils.randomPrivateKey(),
+    // Генерация identity key pair (Ed25519: подпись pre-keys, для DH конвертируется в X25519)
+    const identityKeyPair = sodium.crypto_sign_keypair();
+    await this.setupIdentity(
+      {
+        publicKey: identityKeyPair.publicKey,
+        privateKey: identityKeyPair.privateKey,
+      },
+      1
+    );
+  }
+
+  // Привязка нового устройства: identity key аккаунта приходит с уже привязанного устройства,
+  // а pre-keys и registration id у каждого устройства свои
+  async linkIdentity(identityKeyPair: KeyPair, deviceId: number): Promise<void> {
+    await sodium.ready;
+    await this.kyber.initialize();
+
+    // Сессии и pre-keys прежней identity больше недействительны
+    for (const address of (await this.store.loadSessions()).keys()) {
+      await this.store.deleteSession(address);
+    }
+    await this.store.removePreKeys(
+      (await this.store.loadPreKeys()).map(record => ({ kind: record.kind, keyId: record.keyId }))
+    );
+
+    this.sessions = new Map();
+    this.preKeys = new Map();
+    this.issuedPreKeyIds = new Set();
+    this.kyberPreKeys = new Map();
+    this.issuedKyberPreKeyIds = new Set();
+    this.previousSignedPreKey = null;
+    this.previousKyberLastResortKey = null;
+    this.registrationId = Math.floor(Math.random() * 16383) + 1;
+
+    await this.setupIdentity(identityKeyPair, deviceId);
+  }
+
+  getIdentityKey(): Uint8Array {
+    if (!this.identityKeyPair) {
+      throw new Error('Identity not initialized');
+    }
+    return this.identityKeyPair.publicKey;
+  }
+
+  getDeviceId(): number {
+    return this.deviceId;
+  }
+
+  // Экспорт identity key допустим только для передачи на привязываемое устройство
+  exportIdentityKeyPair(): KeyPair {
+    if (!this.identityKeyPair) {
+      throw new Error('Identity not initialized');
+    }
+    return {
+      publicKey: this.identityKeyPair.publicKey.slice(),
+      privateKey: this.identityKeyPair.privateKey.slice(),
     };
-    
-    // Генерация pre-keys
-    await this.generatePreKeys();
-    await this.generateSignedPreKey();
+  }
+
+  signWithIdentityKey(data: Uint8Array): Uint8Array {
+    if (!this.identityKeyPair) {
+      throw new Error('Identity not initialized');
+    }
+    return sodium.crypto_sign_detached(data, this.identityKeyPair.privateKey);
+  }
+
+  // ECDH identity key с эфемерным ключом отправителя, для вскрытия sealed sender конверта
+  async calculateIdentityAgreement(publicKey: Uint8Array): Promise<Uint8Array> {
+    if (!this.identityKeyPair) {
+      throw new Error('Identity not initialized');
+    }
+    return this.calculateDH(this.getIdentityDHPrivateKey(), publicKey);
+  }
+
+  hasSession(userId: string, deviceId: number = 1): boolean {
+    return this.sessions.has(this.toAddress(userId, deviceId));
+  }
+
+  getSessionDeviceIds(userId: string): number[] {
+    const prefix = `${userId}.`;
+    return Array.from(this.sessions.keys())
+      .filter(address => address.startsWith(prefix))
+      .map(address => Number(address.slice(prefix.length)));
   }
 
   async initializeSession(userId: string, preKeyBundle: PreKeyBundle): Promise<void> {
@@ -43,15 +165,42 @@ export class SignalProtocolService implements ISignalProtocolService {
       await this.initialize();
     }
 
+    // Signed pre-key должен быть подписан identity key собеседника
+    const isSignatureValid = sodium.crypto_sign_verify_detached(
+      preKeyBundle.signedPreKeySignature,
+      preKeyBundle.signedPreKey,
+      preKeyBundle.identityKey
+    );
+    if (!isSignatureValid) {
+      throw new Error('Invalid signed pre-key signature');
+    }
+
+    // PQXDH: Kyber pre-key также должен быть подписан identity key
+    if (preKeyBundle.kyberPreKey) {
+      const isKyberSignatureValid =
+        preKeyBundle.kyberPreKeySignature !== undefined &&
+        sodium.crypto_sign_verify_detached(
+          preKeyBundle.kyberPreKeySignature,
+          preKeyBundle.kyberPreKey,
+          preKeyBundle.identityKey
+        );
+      if (!isKyberSignatureValid) {
+        throw new Error('Invalid Kyber pre-key signature');
+      }
+    }
+
+    // Бандл с новым identity key не заменяет сессии со старым до подтверждения смены
+    if (await this.saveIdentity(userId, preKeyBundle.identityKey)) {
+      throw new Error('Identity key changed: acknowledgement required');
+    }
+
     // Создание эфемерного ключа
-    const ephemeralKeyPair = {
-      publicKey: ed25519.utils.randomPrivateKey(),
-      privateKey: ed25519.utils.randomPrivateKey(),
-    };
+    const ephemeralKeyPair = this.generateKeyPair();
+    const remoteIdentityKey = sodium.crypto_sign_ed25519_pk_to_curve25519(preKeyBundle.identityKey);
 
     // X3DH key agreement
-    const dh1 = await this.calculateDH(this.identityKeyPair!.privateKey, preKeyBundle.signedPreKey);
-    const dh2 = await this.calculateDH(ephemeralKeyPair.privateKey, preKeyBundle.identityKey);
+    const dh1 = await this.calculateDH(this.getIdentityDHPrivateKey(), preKeyBundle.signedPreKey);
+    const dh2 = await this.calculateDH(ephemeralKeyPair.privateKey, remoteIdentityKey);
     const dh3 = await this.calculateDH(ephemeralKeyPair.privateKey, preKeyBundle.signedPreKey);
 
     let dh4: Uint8Array | undefined;
@@ -59,18 +208,38 @@ export class SignalProtocolService implements ISignalProtocolService {
       dh4 = await this.calculateDH(ephemeralKeyPair.privateKey, preKeyBundle.preKey);
     }
 
+    // Инкапсуляция общего секрета против Kyber pre-key собеседника
+    const encapsulation = preKeyBundle.kyberPreKey
+      ? await this.kyber.encapsulate(preKeyBundle.kyberPreKey)
+      : undefined;
+
     // Создание master secret
-    const masterSecret = await this.deriveMasterSecret(dh1, dh2, dh3, dh4);
+    const masterSecret = await this.deriveMasterSecret(
+      dh1,
+      dh2,
+      dh3,
+      dh4,
+      encapsulation?.sharedSecret
+    );
     
-    // Инициализация root key и chain keys
+    // Инициализация root key
     const rootKey = await this.deriveRootKey(masterSecret);
-    const chainKey = await this.deriveChainKey(rootKey);
+
+    // Инициатор сразу выполняет DH ratchet шаг против signed pre-key собеседника,
+    // который служит его начальным ratchet ключом
+    const ratchetKeyPair = this.generateKeyPair();
+    const { rootKey: nextRootKey, chainKey } = await this.kdfRootKey(
+      rootKey,
+      await this.calculateDH(ratchetKeyPair.privateKey, preKeyBundle.signedPreKey)
+    );
 
     // Создание сессии
     const session: Session = {
       sessionId: uuidv4(),
       remoteIdentityKey: preKeyBundle.identityKey,
-      rootKey,
+      rootKey: nextRootKey,
+      ratchetKeyPair,
+      remoteRatchetKey: preKeyBundle.signedPreKey,
       sendingChain: {
         key: chainKey,
         index: 0,
@@ -79,172 +248,667 @@ export class SignalProtocolService implements ISignalProtocolService {
       receivingChains: new Map(),
       previousCounter: 0,
       remoteRegistrationId: preKeyBundle.registrationId,
+      associatedData: this.concat(this.identityKeyPair!.publicKey, preKeyBundle.identityKey),
+      // X3DH заголовок прикладывается к сообщениям, пока собеседник не ответит
+      pendingPreKey: {
+        registrationId: this.registrationId,
+        preKeyId: preKeyBundle.preKey ? preKeyBundle.preKeyId : undefined,
+        signedPreKeyId: preKeyBundle.signedPreKeyId,
+        baseKey: ephemeralKeyPair.publicKey,
+        identityKey: this.identityKeyPair!.publicKey,
+        kyberPreKeyId: encapsulation ? preKeyBundle.kyberPreKeyId : undefined,
+        kyberCiphertext: encapsulation?.ciphertext,
+      },
+      quantumSafe: encapsulation !== undefined,
     };
 
-    this.sessions.set(userId, session);
+    sodium.memzero(ephemeralKeyPair.privateKey);
+    sodium.memzero(masterSecret);
+    if (encapsulation) {
+      sodium.memzero(encapsulation.sharedSecret);
+    }
+
+    const address = this.toAddress(userId, preKeyBundle.deviceId);
+    await this.store.storeSession(address, session);
+    this.sessions.set(address, session);
   }
 
-  async encryptMessage(recipientId: string, message: string): Promise<EncryptedMessage> {
-    const session = this.sessions.get(recipientId);
+  async encryptMessage(
+    recipientId: string,
+    message: Uint8Array,
+    deviceId: number = 1
+  ): Promise<EncryptedMessage> {
+    if (this.trustedIdentities.get(recipientId)?.pendingChange) {
+      throw new Error('Identity key changed: acknowledgement required');
+    }
+
+    const address = this.toAddress(recipientId, deviceId);
+    const session = this.sessions.get(address);
     if (!session) {
       throw new Error('No session found for recipient');
     }
 
-    // Получение или создание message key
-    const messageKey = await this.deriveMessageKey(session.sendingChain.key);
-    
-    // Шифрование сообщения
-    const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
-    const messageBytes = new TextEncoder().encode(message);
-    const ciphertext = sodium.crypto_secretbox_easy(messageBytes, nonce, messageKey);
+    if (session.sendingChain.key.length === 0) {
+      throw new Error('Session has no sending chain yet');
+    }
 
-    // Объединение nonce и ciphertext
-    const encryptedData = new Uint8Array(nonce.length + ciphertext.length);
-    encryptedData.set(nonce);
-    encryptedData.set(ciphertext, nonce.length);
+    // Заголовок передаёт текущий ratchet ключ, номер сообщения и длину предыдущей цепочки
+    const header: RatchetHeader = {
+      ratchetKey: session.ratchetKeyPair.publicKey,
+      counter: session.sendingChain.index,
+      previousCounter: session.previousCounter,
+    };
 
-    // Обновление chain key
+    const messageKey = await this.deriveMessageKey(session.sendingChain.key);
+    const encryptedData = this.sealMessage(
+      messageKey,
+      message,
+      this.buildAssociatedData(session, header)
+    );
+
+    // Обновление chain key; ключ сообщения сразу уничтожается
     session.sendingChain.key = await this.advanceChainKey(session.sendingChain.key);
     session.sendingChain.index++;
+    sodium.memzero(messageKey);
 
-    // Сохранение message key для возможной повторной отправки
-    session.sendingChain.messageKeys.set(session.sendingChain.index - 1, messageKey);
+    await this.store.storeSession(address, session);
 
     return {
       id: uuidv4(),
       conversationId: recipientId,
       senderId: 'self',
+      senderDeviceId: this.deviceId,
+      recipientId,
+      recipientDeviceId: deviceId,
       ciphertext: encryptedData,
+      header,
+      preKeyMessage: session.pendingPreKey,
       timestamp: new Date(),
       messageType: 1, // Text message
     };
   }
 
-  async decryptMessage(senderId: string, encrypted: EncryptedMessage): Promise<string> {
-    const session = this.sessions.get(senderId);
+  async decryptMessage(senderId: string, encrypted: EncryptedMessage): Promise<Uint8Array> {
+    const header = encrypted.header;
+    if (!header) {
+      throw new Error('Missing ratchet header');
+    }
+
+    const address = this.toAddress(senderId, encrypted.senderDeviceId ?? 1);
+    let session = this.sessions.get(address);
+
+    // Первое сообщение новой сессии несёт X3DH заголовок инициатора
+    const preKeyMessage = encrypted.preKeyMessage;
+    const isNewSession =
+      preKeyMessage !== undefined &&
+      !(session?.baseKey && sodium.memcmp(session.baseKey, preKeyMessage.baseKey));
+
+    if (isNewSession) {
+      session = await this.createResponderSession(preKeyMessage!);
+    }
+
     if (!session) {
       throw new Error('No session found for sender');
     }
 
-    // Извлечение nonce и ciphertext
-    const nonceLength = sodium.crypto_secretbox_NONCEBYTES;
-    const nonce = encrypted.ciphertext.slice(0, nonceLength);
-    const ciphertext = encrypted.ciphertext.slice(nonceLength);
+    const associatedData = this.buildAssociatedData(session, header);
+    const chainId = sodium.to_hex(header.ratchetKey);
 
-    // Поиск подходящего receiving chain
-    let messageKey: Uint8Array | undefined;
-    
-    // Попытка найти message key в существующих chains
-    for (const [chainId, chain] of session.receivingChains) {
-      if (chain.messageKeys.has(encrypted.messageType)) {
-        messageKey = chain.messageKeys.get(encrypted.messageType);
-        break;
+    // Сообщение, пропущенное ранее: ключ уже лежит в хранилище пропущенных ключей
+    const skippedKey = session.receivingChains.get(chainId)?.messageKeys.get(header.counter);
+    if (skippedKey) {
+      const plaintext = this.openMessage(skippedKey, encrypted.ciphertext, associatedData);
+      session.receivingChains.get(chainId)!.messageKeys.delete(header.counter);
+      session.pendingPreKey = undefined;
+      sodium.memzero(skippedKey);
+      await this.store.storeSession(address, session);
+      return plaintext;
+    }
+
+    // Все изменения состояния выполняются на копии и применяются только
+    // после успешной расшифровки, чтобы поддельное сообщение не сломало сессию
+    const working = this.cloneSession(session);
+
+    const isCurrentChain =
+      working.remoteRatchetKey !== undefined &&
+      sodium.memcmp(working.remoteRatchetKey, header.ratchetKey);
+
+    if (!isCurrentChain) {
+      if (working.receivingChains.has(chainId)) {
+        throw new Error('Message key not found: duplicate or expired message');
       }
+
+      // Сохранение ключей оставшихся сообщений текущей цепочки
+      const currentChain = working.remoteRatchetKey
+        ? working.receivingChains.get(sodium.to_hex(working.remoteRatchetKey))
+        : undefined;
+      if (currentChain) {
+        await this.skipMessageKeys(working, currentChain, header.previousCounter);
+      }
+
+      await this.performDHRatchet(working, header.ratchetKey);
+    }
+
+    const chain = working.receivingChains.get(chainId)!;
+    if (header.counter < chain.index) {
+      throw new Error('Message key not found: duplicate or expired message');
+    }
+
+    await this.skipMessageKeys(working, chain, header.counter);
+
+    const messageKey = await this.deriveMessageKey(chain.key);
+    const plaintext = this.openMessage(messageKey, encrypted.ciphertext, associatedData);
+
+    chain.key = await this.advanceChainKey(chain.key);
+    chain.index++;
+    sodium.memzero(messageKey);
+
+    // Собеседник ответил - значит, его сторона сессии уже создана
+    working.pendingPreKey = undefined;
+
+    // Identity key из X3DH заголовка учитывается только после успешной расшифровки.
+    // Сообщение от нового ключа отклоняется без сохранения сессии и расхода pre-keys:
+    // после подтверждения смены его можно расшифровать повторно
+    if (isNewSession && (await this.saveIdentity(senderId, preKeyMessage!.identityKey))) {
+      throw new Error('Identity key changed: acknowledgement required');
+    }
+
+    // One-time pre-keys удаляются только после успешной расшифровки первого сообщения,
+    // в одной транзакции с сохранением сессии
+    const consumedPreKeys: PreKeyRef[] = [];
+    if (isNewSession && preKeyMessage!.preKeyId !== undefined) {
+      consumedPreKeys.push({ kind: 'one-time', keyId: preKeyMessage!.preKeyId });
+    }
+    if (isNewSession && this.kyberPreKeys.has(preKeyMessage!.kyberPreKeyId ?? -1)) {
+      consumedPreKeys.push({ kind: 'kyber', keyId: preKeyMessage!.kyberPreKeyId! });
     }
 
-    if (!messageKey) {
-      // Если не найден, возможно нужно создать новый receiving chain
-      // Это упрощенная версия, в реальной реализации здесь происходит ratchet
-      const newChain = await this.createReceivingChain(session, encrypted.ephemeralPublicKey!);
-      messageKey = await this.deriveMessageKey(newChain.key);
+    await this.store.storeSession(address, working, consumedPreKeys);
+    this.sessions.set(address, working);
+
+    for (const ref of consumedPreKeys) {
+      if (ref.kind === 'one-time') {
+        this.consumePreKey(ref.keyId);
+      } else {
+        this.consumeKyberPreKey(ref.keyId);
+      }
     }
 
-    // Расшифровка сообщения
-    const decrypted = sodium.crypto_secretbox_open_easy(ciphertext, nonce, messageKey);
-    return new TextDecoder().decode(decrypted);
+    return plaintext;
   }
 
-  async generatePreKeyBundle(): Promise<PreKeyBundle> {
+  // Бандл для публикации в общем каталоге (oneTime = false) не содержит one-time pre-keys:
+  // его могут получить многие отправители, а one-time ключ годится только для одного
+  async generatePreKeyBundle(oneTime: boolean = true): Promise<PreKeyBundle> {
     if (!this.identityKeyPair || !this.signedPreKey) {
       await this.initialize();
     }
 
-    // Выбор случайного one-time pre-key
-    const preKeyIds = Array.from(this.preKeys.keys());
-    const randomPreKeyId = preKeyIds[Math.floor(Math.random() * preKeyIds.length)];
-    const preKey = this.preKeys.get(randomPreKeyId);
+    const issuedRecords: PreKeyRecord[] = [];
+
+    // Выдача следующего ещё не выданного one-time pre-key
+    let preKeyId: number | undefined;
+    if (oneTime) {
+      preKeyId = this.findUnissuedPreKeyId();
+      if (preKeyId === undefined) {
+        await this.generatePreKeys();
+        preKeyId = this.findUnissuedPreKeyId()!;
+      }
+
+      this.issuedPreKeyIds.add(preKeyId);
+      issuedRecords.push(
+        this.toPreKeyRecord('one-time', { keyId: preKeyId, keyPair: this.preKeys.get(preKeyId)! })
+      );
+    }
+
+    // Kyber pre-key: one-time, а когда они закончились - last-resort ключ
+    let kyberPreKey = oneTime ? this.findUnissuedKyberPreKey() : undefined;
+    if (kyberPreKey) {
+      this.issuedKyberPreKeyIds.add(kyberPreKey.keyId);
+      issuedRecords.push(this.toPreKeyRecord('kyber', kyberPreKey));
+    } else {
+      kyberPreKey = this.kyberLastResortKey!;
+    }
+
+    await this.store.storePreKeys(issuedRecords);
 
     return {
       registrationId: this.registrationId,
-      deviceId: 1,
-      preKeyId: randomPreKeyId,
-      preKey: preKey!,
+      deviceId: this.deviceId,
+      preKeyId,
+      preKey: preKeyId !== undefined ? this.preKeys.get(preKeyId)!.publicKey : undefined,
       signedPreKeyId: this.signedPreKey!.keyId,
       signedPreKey: this.signedPreKey!.keyPair.publicKey,
       signedPreKeySignature: this.signedPreKey!.signature,
       identityKey: this.identityKeyPair!.publicKey,
+      kyberPreKeyId: kyberPreKey.keyId,
+      kyberPreKey: kyberPreKey.keyPair.publicKey,
+      kyberPreKeySignature: kyberPreKey.signature,
     };
   }
 
+  // Закрепление identity key собеседника; возвращает true, если ключ отличается от
+  // закреплённого. Новый ключ только запоминается: закреплённый ключ и сессии с ним
+  // остаются, пока пользователь не подтвердит смену
+  async saveIdentity(userId: string, identityKey: Uint8Array): Promise<boolean> {
+    const existing = this.trustedIdentities.get(userId);
+    if (existing && sodium.memcmp(existing.identityKey, identityKey)) {
+      return false;
+    }
+
+    if (!existing) {
+      const trusted: TrustedIdentity = {
+        userId,
+        identityKey,
+        verified: false,
+        pendingChange: false,
+        firstSeen: new Date(),
+      };
+      await this.store.storeTrustedIdentity(trusted);
+      this.trustedIdentities.set(userId, trusted);
+      return false;
+    }
+
+    if (existing.pendingIdentityKey && sodium.memcmp(existing.pendingIdentityKey, identityKey)) {
+      return true;
+    }
+
+    const trusted: TrustedIdentity = {
+      ...existing,
+      pendingChange: true,
+      pendingIdentityKey: identityKey,
+      changedAt: new Date(),
+    };
+    await this.store.storeTrustedIdentity(trusted);
+    this.trustedIdentities.set(userId, trusted);
+
+    const event: IdentityChangeEvent = {
+      userId,
+      previousIdentityKey: existing.identityKey,
+      identityKey,
+      wasVerified: existing.verified,
+    };
+    this.emit('identityChanged', event);
+    return true;
+  }
+
+  getTrustedIdentity(userId: string): TrustedIdentity | null {
+    return this.trustedIdentities.get(userId) ?? null;
+  }
+
+  async setIdentityVerified(userId: string, verified: boolean): Promise<void> {
+    const trusted = this.trustedIdentities.get(userId);
+    if (!trusted) {
+      throw new Error('Unknown identity');
+    }
+
+    trusted.verified = verified;
+    await this.store.storeTrustedIdentity(trusted);
+  }
+
+  // Пользователь увидел предупреждение о смене ключа: новый ключ закрепляется,
+  // сессии со старым удаляются, и отправка снова разрешена
+  async acknowledgeIdentityChange(userId: string): Promise<void> {
+    const trusted = this.trustedIdentities.get(userId);
+    if (!trusted) {
+      throw new Error('Unknown identity');
+    }
+
+    const identityKey = trusted.pendingIdentityKey;
+    if (identityKey) {
+      trusted.previousIdentityKey = trusted.identityKey;
+      trusted.identityKey = identityKey;
+      trusted.pendingIdentityKey = undefined;
+      trusted.verified = false;
+    }
+    trusted.pendingChange = false;
+    await this.store.storeTrustedIdentity(trusted);
+
+    // Другая сторона сессии со старым ключом уже не расшифрует
+    for (const deviceId of this.getSessionDeviceIds(userId)) {
+      const address = this.toAddress(userId, deviceId);
+      if (!sodium.memcmp(this.sessions.get(address)!.remoteIdentityKey, trusted.identityKey)) {
+        await this.store.deleteSession(address);
+        this.sessions.delete(address);
+      }
+    }
+  }
+
+  isSessionQuantumSafe(userId: string, deviceId: number = 1): boolean {
+    return this.sessions.get(this.toAddress(userId, deviceId))?.quantumSafe ?? false;
+  }
+
   async rotateSignedPreKey(): Promise<void> {
+    const removedPreKeys: PreKeyRef[] = [];
+
+    // Предыдущий signed pre-key сохраняется для сообщений, отправленных до ротации
+    if (this.previousSignedPreKey) {
+      removedPreKeys.push({ kind: 'signed', keyId: this.previousSignedPreKey.keyId });
+      sodium.memzero(this.previousSignedPreKey.keyPair.privateKey);
+    }
+    this.previousSignedPreKey = this.signedPreKey;
+
     await this.generateSignedPreKey();
     
-    // Очистка старых pre-keys
-    if (this.preKeys.size > 100) {
-      const keysToDelete = Array.from(this.preKeys.keys()).slice(0, 50);
-      keysToDelete.forEach(keyId => this.preKeys.delete(keyId));
+    // Очистка выданных, но так и не использованных pre-keys
+    const issuedPreKeyIds = Array.from(this.issuedPreKeyIds);
+    const staleCount = issuedPreKeyIds.length - this.maxIssuedPreKeys;
+    for (const keyId of issuedPreKeyIds.slice(0, Math.max(0, staleCount))) {
+      removedPreKeys.push({ kind: 'one-time', keyId });
+      this.consumePreKey(keyId);
+    }
+
+    // Ротация last-resort Kyber ключа и пополнение one-time Kyber pre-keys
+    if (this.previousKyberLastResortKey) {
+      removedPreKeys.push({ kind: 'kyber-last-resort', keyId: this.previousKyberLastResortKey.keyId });
+      sodium.memzero(this.previousKyberLastResortKey.keyPair.privateKey);
     }
+    this.previousKyberLastResortKey = this.kyberLastResortKey;
+    await this.generateKyberLastResortKey();
+
+    await this.store.removePreKeys(removedPreKeys);
+
+    const availableKyberPreKeys = this.kyberPreKeys.size - this.issuedKyberPreKeyIds.size;
+    await this.generateKyberPreKeys(Math.max(0, this.kyberPreKeyPoolSize - availableKyberPreKeys));
   }
 
-  private async generatePreKeys(): Promise<void> {
-    // Генерация 100 one-time pre-keys
-    for (let i = 1; i <= 100; i++) {
-      const keyPair = {
-        publicKey: ed25519.utils.randomPrivateKey(),
-        privateKey: ed25519.utils.randomPrivateKey(),
-      };
-      this.preKeys.set(i, keyPair.publicKey);
+  private async createResponderSession(preKeyMessage: PreKeyMessage): Promise<Session> {
+    if (!this.identityKeyPair) {
+      await this.initialize();
     }
+
+    const signedPreKey = [this.signedPreKey, this.previousSignedPreKey].find(
+      record => record?.keyId === preKeyMessage.signedPreKeyId
+    );
+    if (!signedPreKey) {
+      throw new Error('Unknown signed pre-key');
+    }
+
+    let oneTimePreKey: KeyPair | undefined;
+    if (preKeyMessage.preKeyId !== undefined) {
+      oneTimePreKey = this.preKeys.get(preKeyMessage.preKeyId);
+      if (!oneTimePreKey) {
+        throw new Error('One-time pre-key already used or unknown');
+      }
+    }
+
+    const remoteIdentityKey = sodium.crypto_sign_ed25519_pk_to_curve25519(preKeyMessage.identityKey);
+
+    // X3DH со стороны получателя: те же DH, что у инициатора, в зеркальном порядке
+    const dh1 = await this.calculateDH(signedPreKey.keyPair.privateKey, remoteIdentityKey);
+    const dh2 = await this.calculateDH(this.getIdentityDHPrivateKey(), preKeyMessage.baseKey);
+    const dh3 = await this.calculateDH(signedPreKey.keyPair.privateKey, preKeyMessage.baseKey);
+
+    let dh4: Uint8Array | undefined;
+    if (oneTimePreKey) {
+      dh4 = await this.calculateDH(oneTimePreKey.privateKey, preKeyMessage.baseKey);
+    }
+
+    // PQXDH: декапсуляция секрета Kyber, если инициатор использовал гибридный режим
+    let kemSharedSecret: Uint8Array | undefined;
+    if (preKeyMessage.kyberPreKeyId !== undefined) {
+      const kyberPreKey = this.findKyberPreKey(preKeyMessage.kyberPreKeyId);
+      if (!kyberPreKey || !preKeyMessage.kyberCiphertext) {
+        throw new Error('Kyber pre-key already used or unknown');
+      }
+
+      kemSharedSecret = await this.kyber.decapsulate(
+        preKeyMessage.kyberCiphertext,
+        kyberPreKey.keyPair.privateKey
+      );
+    }
+
+    const masterSecret = await this.deriveMasterSecret(dh1, dh2, dh3, dh4, kemSharedSecret);
+    const rootKey = await this.deriveRootKey(masterSecret);
+    sodium.memzero(masterSecret);
+    if (kemSharedSecret) {
+      sodium.memzero(kemSharedSecret);
+    }
+
+    // Signed pre-key служит начальной ratchet парой; sending chain появится
+    // после первого DH ratchet шага при расшифровке
+    return {
+      sessionId: uuidv4(),
+      remoteIdentityKey: preKeyMessage.identityKey,
+      rootKey,
+      ratchetKeyPair: {
+        publicKey: signedPreKey.keyPair.publicKey.slice(),
+        privateKey: signedPreKey.keyPair.privateKey.slice(),
+      },
+      sendingChain: {
+        key: new Uint8Array(0),
+        index: 0,
+        messageKeys: new Map(),
+      },
+      receivingChains: new Map(),
+      previousCounter: 0,
+      remoteRegistrationId: preKeyMessage.registrationId,
+      associatedData: this.concat(preKeyMessage.identityKey, this.identityKeyPair!.publicKey),
+      baseKey: preKeyMessage.baseKey,
+      quantumSafe: kemSharedSecret !== undefined,
+    };
   }
 
-  private async generateSignedPreKey(): Promise<void> {
-    const keyPair = {
-      publicKey: ed25519.utils.randomPrivateKey(),
-      privateKey: ed25519.utils.randomPrivateKey(),
+  private async setupIdentity(identityKeyPair: KeyPair, deviceId: number): Promise<void> {
+    this.identityKeyPair = identityKeyPair;
+    this.deviceId = deviceId;
+
+    await this.store.storeIdentity({
+      identityKeyPair,
+      registrationId: this.registrationId,
+      deviceId,
+    });
+    
+    // Генерация pre-keys
+    await this.generatePreKeys();
+    await this.generateSignedPreKey();
+    await this.generateKyberPreKeys(this.kyberPreKeyPoolSize);
+    await this.generateKyberLastResortKey();
+  }
+
+  private toAddress(userId: string, deviceId: number): string {
+    return `${userId}.${deviceId}`;
+  }
+
+  private async generatePreKeys(count: number = 100): Promise<void> {
+    // Генерация one-time pre-keys
+    const records: PreKeyRecord[] = [];
+    for (let i = 0; i < count; i++) {
+      const keyId = this.nextPreKeyId++;
+      const keyPair = this.generateKeyPair();
+
+      this.preKeys.set(keyId, keyPair);
+      records.push(this.toPreKeyRecord('one-time', { keyId, keyPair }));
+    }
+
+    await this.store.storePreKeys(records);
+  }
+
+  private findUnissuedPreKeyId(): number | undefined {
+    for (const keyId of this.preKeys.keys()) {
+      if (!this.issuedPreKeyIds.has(keyId)) {
+        return keyId;
+      }
+    }
+    return undefined;
+  }
+
+  private consumePreKey(keyId: number): void {
+    const keyPair = this.preKeys.get(keyId);
+    if (keyPair) {
+      sodium.memzero(keyPair.privateKey);
+    }
+
+    this.preKeys.delete(keyId);
+    this.issuedPreKeyIds.delete(keyId);
+  }
+
+  private async generateKyberPreKeys(count: number): Promise<void> {
+    const records: PreKeyRecord[] = [];
+    for (let i = 0; i < count; i++) {
+      const record = await this.generateKyberPreKey();
+      this.kyberPreKeys.set(record.keyId, record);
+      records.push(this.toPreKeyRecord('kyber', record));
+    }
+
+    await this.store.storePreKeys(records);
+  }
+
+  private async generateKyberLastResortKey(): Promise<void> {
+    this.kyberLastResortKey = await this.generateKyberPreKey();
+    await this.store.storePreKeys([this.toPreKeyRecord('kyber-last-resort', this.kyberLastResortKey)]);
+  }
+
+  private async generateKyberPreKey(): Promise<SignedPreKeyRecord> {
+    const keyPair = await this.kyber.generateKeyPair();
+
+    return {
+      keyId: this.nextKyberPreKeyId++,
+      keyPair,
+      signature: sodium.crypto_sign_detached(keyPair.publicKey, this.identityKeyPair!.privateKey),
     };
+  }
+
+  private findUnissuedKyberPreKey(): SignedPreKeyRecord | undefined {
+    for (const record of this.kyberPreKeys.values()) {
+      if (!this.issuedKyberPreKeyIds.has(record.keyId)) {
+        return record;
+      }
+    }
+    return undefined;
+  }
+
+  private findKyberPreKey(keyId: number): SignedPreKeyRecord | undefined {
+    return (
+      this.kyberPreKeys.get(keyId) ??
+      [this.kyberLastResortKey, this.previousKyberLastResortKey].find(
+        record => record?.keyId === keyId
+      ) ??
+      undefined
+    );
+  }
+
+  private consumeKyberPreKey(keyId: number): void {
+    // Last-resort ключ не удаляется - он переиспользуется до ротации
+    const record = this.kyberPreKeys.get(keyId);
+    if (record) {
+      this.kyber.secureDelete(record.keyPair.privateKey);
+    }
+
+    this.kyberPreKeys.delete(keyId);
+    this.issuedKyberPreKeyIds.delete(keyId);
+  }
+
+  private async generateSignedPreKey(): Promise<void> {
+    const keyPair = this.generateKeyPair();
 
     // Подпись публичного ключа identity key
-    const signature = ed25519.sign(keyPair.publicKey, this.identityKeyPair!.privateKey);
+    const signature = sodium.crypto_sign_detached(keyPair.publicKey, this.identityKeyPair!.privateKey);
 
     this.signedPreKey = {
       keyId: Date.now() % 0xFFFFFF,
       keyPair,
       signature,
     };
+    await this.store.storePreKeys([this.toPreKeyRecord('signed', this.signedPreKey)]);
+  }
+
+  private toPreKeyRecord(
+    kind: PreKeyKind,
+    record: { keyId: number; keyPair: KeyPair; signature?: Uint8Array }
+  ): PreKeyRecord {
+    const issued =
+      (kind === 'one-time' && this.issuedPreKeyIds.has(record.keyId)) ||
+      (kind === 'kyber' && this.issuedKyberPreKeyIds.has(record.keyId));
+
+    return {
+      kind,
+      keyId: record.keyId,
+      keyPair: record.keyPair,
+      signature: record.signature,
+      issued,
+      createdAt: Date.now(),
+    };
+  }
+
+  private restorePreKeys(records: PreKeyRecord[]): void {
+    const signedPreKeys: PreKeyRecord[] = [];
+    const kyberLastResortKeys: PreKeyRecord[] = [];
+
+    for (const record of records) {
+      switch (record.kind) {
+        case 'one-time':
+          this.preKeys.set(record.keyId, record.keyPair);
+          if (record.issued) this.issuedPreKeyIds.add(record.keyId);
+          this.nextPreKeyId = Math.max(this.nextPreKeyId, record.keyId + 1);
+          break;
+
+        case 'kyber':
+          this.kyberPreKeys.set(record.keyId, {
+            keyId: record.keyId,
+            keyPair: record.keyPair,
+            signature: record.signature!,
+          });
+          if (record.issued) this.issuedKyberPreKeyIds.add(record.keyId);
+          this.nextKyberPreKeyId = Math.max(this.nextKyberPreKeyId, record.keyId + 1);
+          break;
+
+        case 'signed':
+          signedPreKeys.push(record);
+          break;
+
+        case 'kyber-last-resort':
+          kyberLastResortKeys.push(record);
+          this.nextKyberPreKeyId = Math.max(this.nextKyberPreKeyId, record.keyId + 1);
+          break;
+      }
+    }
+
+    // Самый новый ключ - текущий, следующий за ним - предыдущий
+    const toSigned = (record?: PreKeyRecord): SignedPreKeyRecord | null =>
+      record ? { keyId: record.keyId, keyPair: record.keyPair, signature: record.signature! } : null;
+
+    signedPreKeys.sort((a, b) => b.createdAt - a.createdAt);
+    kyberLastResortKeys.sort((a, b) => b.createdAt - a.createdAt);
+
+    this.signedPreKey = toSigned(signedPreKeys[0]);
+    this.previousSignedPreKey = toSigned(signedPreKeys[1]);
+    this.kyberLastResortKey = toSigned(kyberLastResortKeys[0]);
+    this.previousKyberLastResortKey = toSigned(kyberLastResortKeys[1]);
+  }
+
+  private getIdentityDHPrivateKey(): Uint8Array {
+    return sodium.crypto_sign_ed25519_sk_to_curve25519(this.identityKeyPair!.privateKey);
   }
 
   private async calculateDH(privateKey: Uint8Array, publicKey: Uint8Array): Promise<Uint8Array> {
     // ECDH на curve25519
-    const shared = ed25519.getSharedSecret(privateKey, publicKey);
-    return new Uint8Array(shared);
+    return sodium.crypto_scalarmult(privateKey, publicKey);
   }
 
   private async deriveMasterSecret(
     dh1: Uint8Array,
     dh2: Uint8Array,
     dh3: Uint8Array,
-    dh4?: Uint8Array
+    dh4?: Uint8Array,
+    kemSharedSecret?: Uint8Array
   ): Promise<Uint8Array> {
-    // Конкатенация DH результатов
-    const dhConcat = new Uint8Array(
-      dh1.length + dh2.length + dh3.length + (dh4?.length || 0)
+    // Конкатенация DH результатов и, в гибридном режиме, секрета Kyber
+    const parts = [dh1, dh2, dh3, dh4, kemSharedSecret].filter(
+      (part): part is Uint8Array => part !== undefined
     );
+    const dhConcat = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
     
     let offset = 0;
-    dhConcat.set(dh1, offset);
-    offset += dh1.length;
-    dhConcat.set(dh2, offset);
-    offset += dh2.length;
-    dhConcat.set(dh3, offset);
-    offset += dh3.length;
-    
-    if (dh4) {
-      dhConcat.set(dh4, offset);
+    for (const part of parts) {
+      dhConcat.set(part, offset);
+      offset += part.length;
     }
 
-    // HKDF для вывода master secret
+    // HKDF для вывода master secret. Контекст crypto_kdf должен быть ровно 8 байт:
+    // с более коротким libsodium дочитывает память за строкой, и ключи сторон расходятся
     const salt = new TextEncoder().encode('Signal_MessageKeys_MasterSecret');
-    return sodium.crypto_kdf_derive_from_key(32, 1, 'MASTER', 
+    return sodium.crypto_kdf_derive_from_key(32, 1, 'MASTERSK', 
       sodium.crypto_generichash(32, dhConcat, salt)
     );
   }
@@ -253,12 +917,20 @@ export class SignalProtocolService implements ISignalProtocolService {
     return sodium.crypto_kdf_derive_from_key(32, 1, 'ROOT_KEY', masterSecret);
   }
 
-  private async deriveChainKey(rootKey: Uint8Array): Promise<Uint8Array> {
-    return sodium.crypto_kdf_derive_from_key(32, 1, 'CHAIN_KY', rootKey);
+  // KDF_RK: новый root key и chain key из текущего root key и результата DH
+  private async kdfRootKey(
+    rootKey: Uint8Array,
+    dhOutput: Uint8Array
+  ): Promise<{ rootKey: Uint8Array; chainKey: Uint8Array }> {
+    const output = sodium.crypto_generichash(64, dhOutput, rootKey);
+    return {
+      rootKey: output.slice(0, 32),
+      chainKey: output.slice(32),
+    };
   }
 
   private async deriveMessageKey(chainKey: Uint8Array): Promise<Uint8Array> {
-    return sodium.crypto_kdf_derive_from_key(32, 1, 'MSG_KEY', chainKey);
+    return sodium.crypto_kdf_derive_from_key(32, 1, 'MSG_KEY_', chainKey);
   }
 
   private async advanceChainKey(chainKey: Uint8Array): Promise<Uint8Array> {
@@ -266,33 +938,171 @@ export class SignalProtocolService implements ISignalProtocolService {
     return sodium.crypto_auth(input, chainKey);
   }
 
-  private async createReceivingChain(
-    session: Session,
-    theirEphemeralPublicKey: Uint8Array
-  ): Promise<ChainKey> {
-    // Double Ratchet: создание нового receiving chain
-    const ourEphemeralKeyPair = {
-      publicKey: ed25519.utils.randomPrivateKey(),
-      privateKey: ed25519.utils.randomPrivateKey(),
+  private generateKeyPair(): KeyPair {
+    const keyPair = sodium.crypto_box_keypair();
+    return {
+      publicKey: keyPair.publicKey,
+      privateKey: keyPair.privateKey,
     };
+  }
+
+  private async performDHRatchet(session: Session, remoteRatchetKey: Uint8Array): Promise<void> {
+    // Double Ratchet: новый receiving chain для ключа собеседника...
+    session.previousCounter = session.sendingChain.index;
+    session.remoteRatchetKey = remoteRatchetKey;
 
-    const sharedSecret = await this.calculateDH(
-      ourEphemeralKeyPair.privateKey,
-      theirEphemeralPublicKey
+    const receiving = await this.kdfRootKey(
+      session.rootKey,
+      await this.calculateDH(session.ratchetKeyPair.privateKey, remoteRatchetKey)
     );
 
-    const newRootKey = await this.deriveRootKey(sharedSecret);
-    const newChainKey = await this.deriveChainKey(newRootKey);
+    session.receivingChains.set(sodium.to_hex(remoteRatchetKey), {
+      key: receiving.chainKey,
+      index: 0,
+      messageKeys: new Map(),
+    });
 
-    const chain: ChainKey = {
-      key: newChainKey,
+    // ...и новый sending chain со свежей ratchet парой
+    session.ratchetKeyPair = this.generateKeyPair();
+
+    const sending = await this.kdfRootKey(
+      receiving.rootKey,
+      await this.calculateDH(session.ratchetKeyPair.privateKey, remoteRatchetKey)
+    );
+
+    session.rootKey = sending.rootKey;
+    session.sendingChain = {
+      key: sending.chainKey,
       index: 0,
       messageKeys: new Map(),
     };
 
-    session.receivingChains.set(sodium.to_hex(theirEphemeralPublicKey), chain);
-    session.rootKey = newRootKey;
+    this.pruneReceivingChains(session);
+  }
+
+  private async skipMessageKeys(session: Session, chain: ChainKey, until: number): Promise<void> {
+    if (until - chain.index > this.maxSkip) {
+      throw new Error('Too many skipped messages');
+    }
+
+    while (chain.index < until) {
+      chain.messageKeys.set(chain.index, await this.deriveMessageKey(chain.key));
+      chain.key = await this.advanceChainKey(chain.key);
+      chain.index++;
+    }
+
+    this.evictSkippedKeys(session);
+  }
+
+  private evictSkippedKeys(session: Session): void {
+    // Ограничение общего числа пропущенных ключей: удаляем самые старые
+    let total = 0;
+    for (const chain of session.receivingChains.values()) {
+      total += chain.messageKeys.size;
+    }
+
+    for (const chain of session.receivingChains.values()) {
+      for (const index of chain.messageKeys.keys()) {
+        if (total <= this.maxSkippedKeys) return;
+        chain.messageKeys.delete(index);
+        total--;
+      }
+    }
+  }
+
+  private pruneReceivingChains(session: Session): void {
+    // Держим ограниченное число receiving chains (Map хранит порядок вставки)
+    const chainIds = Array.from(session.receivingChains.keys());
+    const currentChainId = session.remoteRatchetKey ? sodium.to_hex(session.remoteRatchetKey) : '';
+
+    for (const chainId of chainIds) {
+      const chain = session.receivingChains.get(chainId)!;
+
+      if (chainId !== currentChainId) {
+        // Ключ старой цепочки больше не нужен - пропущенные ключи уже выведены
+        chain.key = new Uint8Array(0);
+      }
+
+      if (session.receivingChains.size > this.maxReceivingChains && chainId !== currentChainId) {
+        session.receivingChains.delete(chainId);
+      }
+    }
+  }
+
+  private cloneSession(session: Session): Session {
+    const receivingChains = new Map<string, ChainKey>();
+    for (const [chainId, chain] of session.receivingChains) {
+      receivingChains.set(chainId, { ...chain, messageKeys: new Map(chain.messageKeys) });
+    }
+
+    return {
+      ...session,
+      sendingChain: { ...session.sendingChain, messageKeys: new Map(session.sendingChain.messageKeys) },
+      receivingChains,
+    };
+  }
+
+  private encodeHeader(header: RatchetHeader): Uint8Array {
+    // [ratchetKey][counter (4 bytes)][previousCounter (4 bytes)]
+    const encoded = new Uint8Array(header.ratchetKey.length + 8);
+    const view = new DataView(encoded.buffer);
 
-    return chain;
+    encoded.set(header.ratchetKey);
+    view.setUint32(header.ratchetKey.length, header.counter, false);
+    view.setUint32(header.ratchetKey.length + 4, header.previousCounter, false);
+
+    return encoded;
+  }
+
+  private buildAssociatedData(session: Session, header: RatchetHeader): Uint8Array {
+    // AD = identity key инициатора || identity key получателя || заголовок
+    return this.concat(session.associatedData ?? new Uint8Array(0), this.encodeHeader(header));
+  }
+
+  private concat(first: Uint8Array, second: Uint8Array): Uint8Array {
+    const result = new Uint8Array(first.length + second.length);
+    result.set(first);
+    result.set(second, first.length);
+    return result;
+  }
+
+  private sealMessage(
+    messageKey: Uint8Array,
+    plaintext: Uint8Array,
+    associatedData: Uint8Array
+  ): Uint8Array {
+    const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+    const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+      plaintext,
+      associatedData,
+      null,
+      nonce,
+      messageKey
+    );
+
+    // Объединение nonce и ciphertext
+    const encryptedData = new Uint8Array(nonce.length + ciphertext.length);
+    encryptedData.set(nonce);
+    encryptedData.set(ciphertext, nonce.length);
+
+    return encryptedData;
+  }
+
+  private openMessage(
+    messageKey: Uint8Array,
+    encryptedData: Uint8Array,
+    associatedData: Uint8Array
+  ): Uint8Array {
+    const nonceLength = sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES;
+    const nonce = encryptedData.slice(0, nonceLength);
+    const ciphertext = encryptedData.slice(nonceLength);
+
+    return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null,
+      ciphertext,
+      associatedData,
+      nonce,
+      messageKey
+    );
   }
 }
@@ -0,0 +1,337 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import sodium from 'libsodium-wrappers';
+import { CIPHER_SUITES, MESSAGE_KINDS, ProtoWriter, WireCodec } from './WireCodec';
+import type { EncryptedMessage, Message, TextEntity } from '../types';
+
+const DECODE_ERRORS = [
+  'Malformed wire message',
+  'Unsupported wire format version',
+  'Unsupported message kind',
+  'Unsupported cipher suite',
+];
+
+// Детерминированный генератор, чтобы упавший прогон можно было повторить
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+class Generator {
+  constructor(private random: () => number) {}
+
+  int(max: number): number {
+    return Math.floor(this.random() * max);
+  }
+
+  bool(): boolean {
+    return this.random() < 0.5;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)]!;
+  }
+
+  maybe<T>(create: () => T): T | undefined {
+    return this.bool() ? create() : undefined;
+  }
+
+  list<T>(max: number, create: () => T): T[] {
+    return Array.from({ length: this.int(max + 1) }, create);
+  }
+
+  // Латиница, кириллица, эмодзи и суррогатные пары
+  string(maxLength: number, minLength = 0): string {
+    const alphabet = ['a', 'Z', '7', ' ', 'ж', 'Ё', '€', '😀', '𝄞', '\n', '"'];
+    const length = minLength + this.int(maxLength - minLength + 1);
+    return Array.from({ length }, () => this.pick(alphabet)).join('');
+  }
+
+  bytes(maxLength: number, minLength = 0): Uint8Array {
+    const length = minLength + this.int(maxLength - minLength + 1);
+    return Uint8Array.from({ length }, () => this.int(256));
+  }
+
+  date(): Date {
+    return new Date(1 + this.int(2 ** 42));
+  }
+
+  message(): Message {
+    const ephemeral = this.bool();
+    return {
+      id: this.string(36, 1),
+      conversationId: this.string(36),
+      senderId: this.string(24),
+      recipientId: this.maybe(() => this.string(24, 1)),
+      content: this.string(this.pick([0, 10, 500])),
+      timestamp: this.date(),
+      type: this.pick(['text', 'image', 'file', 'edit', 'reaction', 'voice'] as const),
+      encrypted: this.bool(),
+      ephemeral,
+      ephemeralTimeout: ephemeral ? 1 + this.int(10 ** 9) : undefined,
+      entities: this.list(3, () => this.entity()),
+      readReceipts: this.list(3, () => ({
+        userId: this.string(12, 1),
+        timestamp: this.date(),
+        status: this.pick(['delivered', 'read', 'played'] as const),
+      })),
+      reactions: this.list(3, () => ({
+        userId: this.string(12, 1),
+        emoji: this.pick(['👍', '❤️', '😂']),
+        timestamp: this.date(),
+        removed: this.bool(),
+      })),
+      replyTo: this.maybe(() => ({
+        messageId: this.string(36, 1),
+        senderId: this.string(12, 1),
+        snippet: this.string(40, 1),
+      })),
+      threadId: this.maybe(() => this.string(36, 1)),
+      forwarded: this.bool(),
+      forwardCount: this.int(5),
+      signature: this.maybe(() => this.bytes(64, 1)),
+      editHistory: [],
+      deleted: false,
+    };
+  }
+
+  entity(): TextEntity {
+    const type = this.pick(['bold', 'italic', 'code', 'spoiler', 'mention'] as const);
+    return {
+      type,
+      offset: this.int(100),
+      length: 1 + this.int(20),
+      ...(type === 'mention' && { userId: this.string(12, 1) }),
+    };
+  }
+
+  envelope(): EncryptedMessage {
+    if (this.bool()) {
+      return {
+        id: this.string(36, 1),
+        conversationId: '',
+        senderId: '',
+        recipientId: this.string(24, 1),
+        recipientDeviceId: 1 + this.int(5),
+        ciphertext: this.bytes(2048, 1),
+        ephemeralPublicKey: this.bytes(32, 32),
+        deliveryToken: this.maybe(() => this.bytes(16, 16)),
+        timestamp: this.date(),
+        messageType: MESSAGE_KINDS.sealed_sender,
+        cipherSuite: CIPHER_SUITES.sealed_sender_x25519_xchacha20poly1305,
+        sealed: true,
+      };
+    }
+
+    return {
+      id: this.string(36, 1),
+      conversationId: this.string(36),
+      senderId: this.string(24, 1),
+      senderDeviceId: this.maybe(() => 1 + this.int(5)),
+      recipientId: this.maybe(() => this.string(24, 1)),
+      recipientDeviceId: this.maybe(() => 1 + this.int(5)),
+      ciphertext: this.bytes(2048, 1),
+      header: {
+        ratchetKey: this.bytes(32, 32),
+        counter: this.int(10000),
+        previousCounter: this.int(10000),
+      },
+      preKeyMessage: this.maybe(() => ({
+        registrationId: 1 + this.int(16380),
+        preKeyId: this.maybe(() => this.int(100)),
+        signedPreKeyId: this.int(100),
+        baseKey: this.bytes(32, 32),
+        identityKey: this.bytes(32, 32),
+        kyberPreKeyId: this.maybe(() => this.int(100)),
+        kyberCiphertext: this.maybe(() => this.bytes(1568, 1568)),
+      })),
+      timestamp: this.date(),
+      messageType: MESSAGE_KINDS.signal,
+      cipherSuite: CIPHER_SUITES.signal_xchacha20poly1305,
+    };
+  }
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// Ключ поля protobuf как varint: для полей от 16 он занимает два байта
+function tag(field: number, wireType: number): Uint8Array {
+  const key = field * 8 + wireType;
+  return key < 0x80 ? new Uint8Array([key]) : new Uint8Array([(key % 0x80) | 0x80, key >> 7]);
+}
+
+// Повреждённые данные либо разбираются, либо отклоняются ошибкой формата - но не падают иначе
+function expectDecodeOrReject(decode: () => unknown): void {
+  try {
+    decode();
+  } catch (error) {
+    expect(DECODE_ERRORS).toContain((error as Error).message);
+  }
+}
+
+describe('WireCodec', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  describe('round trip', () => {
+    it('decodes random message contents unchanged', () => {
+      const generate = new Generator(createRandom(20240611));
+      for (let i = 0; i < 500; i++) {
+        const message = generate.message();
+        const encoded = WireCodec.encodeContent(message);
+        expect(encoded.length % 160).toBe(0);
+        expect(WireCodec.decodeContent(encoded)).toEqual(message);
+      }
+    });
+
+    it('decodes random envelopes unchanged with and without padding', () => {
+      const generate = new Generator(createRandom(20240612));
+      for (let i = 0; i < 500; i++) {
+        const envelope = generate.envelope();
+        const blockSize = generate.pick([0, 160, 1024]);
+        const encoded = WireCodec.encodeEnvelope(envelope, blockSize);
+        if (blockSize > 0) expect(encoded.length % blockSize).toBe(0);
+        expect(WireCodec.decodeEnvelope(encoded)).toEqual(envelope);
+      }
+    });
+
+    it('skips fields from newer schema versions', () => {
+      const generate = new Generator(createRandom(20240613));
+      const envelope = generate.envelope();
+      const extended = concat(
+        WireCodec.encodeEnvelope(envelope),
+        new ProtoWriter()
+          .uint(40, 7)
+          .bytes(41, new Uint8Array([1, 2, 3]))
+          .finish(),
+        tag(42, 1),
+        new Uint8Array(8),
+        tag(43, 5),
+        new Uint8Array(4)
+      );
+      expect(WireCodec.decodeEnvelope(extended)).toEqual(envelope);
+    });
+  });
+
+  describe('malformed input', () => {
+    const generate = new Generator(createRandom(20240614));
+    const envelope = generate.envelope();
+    const valid = WireCodec.encodeEnvelope({
+      ...envelope,
+      senderId: 'alice',
+      messageType: MESSAGE_KINDS.signal,
+      cipherSuite: undefined,
+      header: { ratchetKey: new Uint8Array(32), counter: 1, previousCounter: 0 },
+      sealed: undefined,
+      ephemeralPublicKey: undefined,
+      deliveryToken: undefined,
+    });
+    const append = (writer: ProtoWriter) => concat(valid, writer.finish());
+
+    it('rejects unsupported versions, kinds and cipher suites', () => {
+      expect(() => WireCodec.decodeEnvelope(append(new ProtoWriter().uint(1, 2)))).toThrow(
+        'Unsupported wire format version'
+      );
+      expect(() => WireCodec.decodeEnvelope(append(new ProtoWriter().uint(3, 9)))).toThrow(
+        'Unsupported message kind'
+      );
+      // Бывший гибридный набор шифров больше не принимается
+      expect(() => WireCodec.decodeEnvelope(append(new ProtoWriter().uint(2, 2)))).toThrow(
+        'Unsupported cipher suite'
+      );
+    });
+
+    it('rejects envelopes missing required parts', () => {
+      expect(() =>
+        WireCodec.decodeEnvelope(new ProtoWriter().uint(1, 1).uint(2, 1).uint(3, 1).finish())
+      ).toThrow('Malformed wire message');
+      expect(() =>
+        WireCodec.decodeEnvelope(
+          new ProtoWriter()
+            .uint(1, 1)
+            .uint(2, CIPHER_SUITES.signal_xchacha20poly1305)
+            .uint(3, MESSAGE_KINDS.signal)
+            .string(4, 'id')
+            .bytes(15, new Uint8Array([1]))
+            .finish()
+        )
+      ).toThrow('Malformed wire message');
+
+      // Sealed sender конверт не может раскрывать отправителя
+      const sealed = WireCodec.encodeEnvelope({
+        ...envelope,
+        senderId: 'alice',
+        messageType: MESSAGE_KINDS.sealed_sender,
+        cipherSuite: undefined,
+        ephemeralPublicKey: new Uint8Array(32),
+      });
+      expect(() => WireCodec.decodeEnvelope(sealed)).toThrow('Malformed wire message');
+    });
+
+    it('rejects wrong wire types, invalid UTF-8 and bad varints', () => {
+      const cases = [
+        append(new ProtoWriter().uint(4, 5)), // id как varint
+        append(new ProtoWriter().bytes(4, new Uint8Array([0xc3, 0x28]))),
+        concat(valid, new Uint8Array([0x08, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 1])),
+        concat(valid, new Uint8Array([0x00, 0x01])), // поле 0
+        concat(valid, tag(44, 3)), // неизвестный тип поля
+        concat(valid, tag(15, 2), new Uint8Array([0x10, 1, 2])), // длина за концом данных
+      ];
+      for (const data of cases) {
+        expect(() => WireCodec.decodeEnvelope(data)).toThrow('Malformed wire message');
+      }
+
+      const content = WireCodec.encodeContent(generate.message());
+      const badBool = concat(content, new ProtoWriter().uint(8, 2).finish());
+      expect(() => WireCodec.decodeContent(badBool)).toThrow('Malformed wire message');
+    });
+
+    it('rejects oversized input before parsing', () => {
+      const oversized = new Uint8Array(1024 * 1024 + 1);
+      expect(() => WireCodec.decodeEnvelope(oversized)).toThrow('Message too large');
+      expect(() => WireCodec.decodeContent(oversized)).toThrow('Message too large');
+    });
+
+    it('survives truncation and random corruption', () => {
+      const random = createRandom(20240615);
+      const corrupt = new Generator(random);
+
+      for (let i = 0; i < 100; i++) {
+        const encodings = [
+          [
+            WireCodec.encodeEnvelope(corrupt.envelope(), 160),
+            (data: Uint8Array) => WireCodec.decodeEnvelope(data),
+          ],
+          [
+            WireCodec.encodeContent(corrupt.message()),
+            (data: Uint8Array) => WireCodec.decodeContent(data),
+          ],
+        ] as const;
+
+        for (const [data, decode] of encodings) {
+          for (let length = 0; length < data.length; length += 1 + corrupt.int(16)) {
+            expectDecodeOrReject(() => decode(data.slice(0, length)));
+          }
+          for (let flips = 0; flips < 20; flips++) {
+            const damaged = data.slice();
+            damaged[corrupt.int(damaged.length)] ^= 1 << corrupt.int(8);
+            expectDecodeOrReject(() => decode(damaged));
+          }
+          expectDecodeOrReject(() => decode(corrupt.bytes(512)));
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,1122 @@
+import type {
+  Attachment,
+  EncryptedMessage,
+  LinkPreview,
+  Message,
+  PreKeyMessage,
+  RatchetHeader,
+  ReceiptStatus,
+  SenderCertificate,
+  TextEntity,
+} from '../types';
+
+// Версия формата конверта; более новую версию собеседника отклоняем, неизвестные поля пропускаем
+export const WIRE_FORMAT_VERSION = 1;
+
+// Вид сообщения, совпадает с EncryptedMessage.messageType
+export const MESSAGE_KINDS = {
+  signal: 1,
+  mls: 2,
+  sealed_sender: 3,
+} as const;
+
+export const CIPHER_SUITES = {
+  signal_xchacha20poly1305: 1, // Double Ratchet после X3DH/PQXDH
+  // 2 - бывший гибридный слой поверх Signal для медиа, больше не принимается
+  mls: 3, // MLSMessage, набор шифров группы задан в GroupContext
+  sealed_sender_x25519_xchacha20poly1305: 4,
+} as const;
+
+const DEFAULT_CIPHER_SUITES: Record<number, number> = {
+  [MESSAGE_KINDS.signal]: CIPHER_SUITES.signal_xchacha20poly1305,
+  [MESSAGE_KINDS.mls]: CIPHER_SUITES.mls,
+  [MESSAGE_KINDS.sealed_sender]: CIPHER_SUITES.sealed_sender_x25519_xchacha20poly1305,
+};
+
+const MESSAGE_TYPES: Message['type'][] = [
+  'text',
+  'image',
+  'video',
+  'audio',
+  'file',
+  'edit',
+  'delete',
+  'timer',
+  'receipt',
+  'typing',
+  'presence',
+  'reaction',
+  'voice',
+];
+
+const RECEIPT_STATUSES: ReceiptStatus[] = ['delivered', 'read', 'played'];
+
+const TEXT_ENTITY_TYPES: TextEntity['type'][] = ['bold', 'italic', 'code', 'spoiler', 'mention'];
+
+const MAX_MESSAGE_SIZE = 1024 * 1024;
+const CONTENT_BLOCK_SIZE = 160; // Открытый текст дополняется до кратного размера, как в Signal
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+// Запись в формате protobuf: поля пишутся по возрастанию номеров, пустые значения пропускаются
+export class ProtoWriter {
+  private buffer: Uint8Array = new Uint8Array(256);
+  private length: number = 0;
+
+  uint(field: number, value: number | undefined): this {
+    if (value === undefined || value === 0) return this;
+    return this.tag(field, WIRE_VARINT).varint(value);
+  }
+
+  bool(field: number, value: boolean | undefined): this {
+    return this.uint(field, value ? 1 : 0);
+  }
+
+  bytes(field: number, value: Uint8Array | undefined): this {
+    if (value === undefined || value.length === 0) return this;
+    return this.tag(field, WIRE_BYTES).varint(value.length).raw(value);
+  }
+
+  string(field: number, value: string | undefined): this {
+    return this.bytes(field, value ? new TextEncoder().encode(value) : undefined);
+  }
+
+  message<T>(
+    field: number,
+    value: T | undefined,
+    write: (writer: ProtoWriter, item: T) => void
+  ): this {
+    if (value === undefined) return this;
+    const inner = new ProtoWriter();
+    write(inner, value);
+    return this.tag(field, WIRE_BYTES).varint(inner.length).raw(inner.finish());
+  }
+
+  repeated<T>(field: number, items: T[], write: (writer: ProtoWriter, item: T) => void): this {
+    for (const item of items) {
+      this.message(field, item, write);
+    }
+    return this;
+  }
+
+  size(): number {
+    return this.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private tag(field: number, wireType: number): this {
+    return this.varint(field * 8 + wireType);
+  }
+
+  // Значения ограничены 2^53, поэтому деление вместо битовых операций
+  private varint(value: number): this {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new Error('Invalid wire value');
+    }
+    this.reserve(10);
+    while (value >= 0x80) {
+      this.buffer[this.length++] = (value % 0x80) | 0x80;
+      value = Math.floor(value / 0x80);
+    }
+    this.buffer[this.length++] = value;
+    return this;
+  }
+
+  private raw(bytes: Uint8Array): this {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+    return this;
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + size));
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+}
+
+// Чтение с проверкой границ и типов полей: любое нарушение формата - единая ошибка
+export class ProtoReader {
+  private data: Uint8Array;
+  private offset: number = 0;
+  private wireType: number = -1;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  isDone(): boolean {
+    return this.offset === this.data.length;
+  }
+
+  // Номер следующего поля
+  next(): number {
+    const tag = this.varint();
+    const field = Math.floor(tag / 8);
+    this.wireType = tag % 8;
+    if (field === 0) {
+      throw new Error('Malformed wire message');
+    }
+    return field;
+  }
+
+  uint(): number {
+    this.expect(WIRE_VARINT);
+    return this.varint();
+  }
+
+  bool(): boolean {
+    const value = this.uint();
+    if (value > 1) {
+      throw new Error('Malformed wire message');
+    }
+    return value === 1;
+  }
+
+  bytes(): Uint8Array {
+    this.expect(WIRE_BYTES);
+    const length = this.varint();
+    this.require(length);
+    const bytes = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  string(): string {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(this.bytes());
+    } catch {
+      throw new Error('Malformed wire message');
+    }
+  }
+
+  message<T>(read: (reader: ProtoReader) => T): T {
+    return read(new ProtoReader(this.bytes()));
+  }
+
+  // Поля из более новых версий схемы пропускаются
+  skip(): void {
+    switch (this.wireType) {
+      case WIRE_VARINT:
+        this.varint();
+        return;
+      case WIRE_FIXED64:
+        this.advance(8);
+        return;
+      case WIRE_BYTES:
+        this.bytes();
+        return;
+      case WIRE_FIXED32:
+        this.advance(4);
+        return;
+      default:
+        throw new Error('Malformed wire message');
+    }
+  }
+
+  private expect(wireType: number): void {
+    if (this.wireType !== wireType) {
+      throw new Error('Malformed wire message');
+    }
+  }
+
+  private varint(): number {
+    let value = 0;
+    let multiplier = 1;
+    for (let i = 0; i < 8; i++) {
+      this.require(1);
+      const byte = this.data[this.offset++]!;
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) {
+        if (!Number.isSafeInteger(value)) break;
+        return value;
+      }
+      multiplier *= 0x80;
+    }
+    throw new Error('Malformed wire message');
+  }
+
+  private advance(length: number): void {
+    this.require(length);
+    this.offset += length;
+  }
+
+  private require(length: number): void {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Malformed wire message');
+    }
+  }
+}
+
+// Единый формат передачи сообщений (protobuf):
+//   Envelope      - EncryptedMessage в сети и внутри sealed sender конверта
+//   Content       - открытый текст Message до шифрования, с дополнением длины
+//   SealedContent - содержимое sealed sender конверта
+// Номера полей не меняются между версиями, новые поля получают новые номера
+export class WireCodec {
+  // message Envelope {
+  //   uint32 version = 1; uint32 cipher_suite = 2; uint32 kind = 3;
+  //   string id = 4; string conversation_id = 5;
+  //   string sender_id = 6; uint32 sender_device_id = 7;
+  //   string recipient_id = 8; uint32 recipient_device_id = 9;
+  //   uint64 timestamp = 10; RatchetHeader header = 11; PreKeyMessage pre_key_message = 12;
+  //   bytes ephemeral_public_key = 13; bytes delivery_token = 14; bytes ciphertext = 15;
+  //   bytes padding = 16;
+  // }
+  static encodeEnvelope(message: EncryptedMessage, blockSize: number = 0): Uint8Array {
+    const writer = new ProtoWriter()
+      .uint(1, WIRE_FORMAT_VERSION)
+      .uint(2, message.cipherSuite ?? DEFAULT_CIPHER_SUITES[message.messageType])
+      .uint(3, message.messageType)
+      .string(4, message.id)
+      .string(5, message.conversationId)
+      .string(6, message.senderId)
+      .uint(7, message.senderDeviceId)
+      .string(8, message.recipientId)
+      .uint(9, message.recipientDeviceId)
+      .uint(10, message.timestamp.getTime())
+      .message(11, message.header, WireCodec.writeRatchetHeader)
+      .message(12, message.preKeyMessage, WireCodec.writePreKeyMessage)
+      .bytes(13, message.ephemeralPublicKey)
+      .bytes(14, message.deliveryToken)
+      .bytes(15, message.ciphertext);
+
+    return WireCodec.finish(writer, 16, blockSize);
+  }
+
+  static decodeEnvelope(data: Uint8Array): EncryptedMessage {
+    const reader = WireCodec.reader(data);
+    let version = 0;
+    let cipherSuite = 0;
+    let kind = 0;
+    let id = '';
+    let conversationId = '';
+    let senderId = '';
+    let senderDeviceId: number | undefined;
+    let recipientId: string | undefined;
+    let recipientDeviceId: number | undefined;
+    let timestamp = 0;
+    let header: RatchetHeader | undefined;
+    let preKeyMessage: PreKeyMessage | undefined;
+    let ephemeralPublicKey: Uint8Array | undefined;
+    let deliveryToken: Uint8Array | undefined;
+    let ciphertext = new Uint8Array(0);
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          version = reader.uint();
+          break;
+        case 2:
+          cipherSuite = reader.uint();
+          break;
+        case 3:
+          kind = reader.uint();
+          break;
+        case 4:
+          id = reader.string();
+          break;
+        case 5:
+          conversationId = reader.string();
+          break;
+        case 6:
+          senderId = reader.string();
+          break;
+        case 7:
+          senderDeviceId = reader.uint();
+          break;
+        case 8:
+          recipientId = reader.string();
+          break;
+        case 9:
+          recipientDeviceId = reader.uint();
+          break;
+        case 10:
+          timestamp = reader.uint();
+          break;
+        case 11:
+          header = reader.message(WireCodec.readRatchetHeader);
+          break;
+        case 12:
+          preKeyMessage = reader.message(WireCodec.readPreKeyMessage);
+          break;
+        case 13:
+          ephemeralPublicKey = reader.bytes();
+          break;
+        case 14:
+          deliveryToken = reader.bytes();
+          break;
+        case 15:
+          ciphertext = reader.bytes();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    if (version === 0 || version > WIRE_FORMAT_VERSION) {
+      throw new Error('Unsupported wire format version');
+    }
+    if (!(Object.values(MESSAGE_KINDS) as number[]).includes(kind)) {
+      throw new Error('Unsupported message kind');
+    }
+    if (!(Object.values(CIPHER_SUITES) as number[]).includes(cipherSuite)) {
+      throw new Error('Unsupported cipher suite');
+    }
+    if (!id || ciphertext.length === 0) {
+      throw new Error('Malformed wire message');
+    }
+
+    const isSealed = kind === MESSAGE_KINDS.sealed_sender;
+    if (isSealed && (!ephemeralPublicKey || senderId)) {
+      throw new Error('Malformed wire message');
+    }
+    if (kind === MESSAGE_KINDS.signal && !header) {
+      throw new Error('Malformed wire message');
+    }
+
+    return {
+      id,
+      conversationId,
+      senderId,
+      senderDeviceId,
+      recipientId,
+      recipientDeviceId,
+      ciphertext,
+      ephemeralPublicKey,
+      header,
+      preKeyMessage,
+      timestamp: new Date(timestamp),
+      messageType: kind,
+      cipherSuite,
+      ...(isSealed && { sealed: true, deliveryToken }),
+    };
+  }
+
+  // message Content {
+  //   string id = 1; string conversation_id = 2; string sender_id = 3; string recipient_id = 4;
+  //   string content = 5; uint64 timestamp = 6; uint32 type = 7; bool encrypted = 8;
+  //   bool ephemeral = 9; uint64 ephemeral_timeout = 10;
+  //   repeated Receipt read_receipts = 11; repeated Reaction reactions = 12;
+  //   string target_message_id = 13; bytes signature = 14; bytes padding = 15;
+  //   MessageReference reply_to = 16; string thread_id = 17; bool forwarded = 18; uint32 forward_count = 19;
+  //   Attachment attachment = 20; ReceiptBatch receipt = 21; bool typing = 22; Presence presence = 23;
+  //   ReactionUpdate reaction = 24; repeated TextEntity entities = 25; LinkPreview link_preview = 26;
+  // }
+  // message Receipt { string user_id = 1; uint64 timestamp = 2; uint32 status = 3; }
+  // message Reaction { string user_id = 1; string emoji = 2; uint64 timestamp = 3; bool removed = 4; }
+  // message ReactionUpdate { string emoji = 1; bool removed = 2; }
+  // message ReceiptBatch { uint32 status = 1; repeated string message_ids = 2; }
+  // message Presence { bool online = 1; uint64 last_seen = 2; bool probe = 3; }
+  // message MessageReference { string message_id = 1; string sender_id = 2; string snippet = 3; }
+  // message LinkPreview {
+  //   string url = 1; string title = 2; string description = 3; string site_name = 4;
+  //   bytes thumbnail = 5;
+  // }
+  static encodeContent(message: Message): Uint8Array {
+    const writer = new ProtoWriter()
+      .string(1, message.id)
+      .string(2, message.conversationId)
+      .string(3, message.senderId)
+      .string(4, message.recipientId)
+      .string(5, message.content)
+      .uint(6, message.timestamp.getTime())
+      .uint(7, MESSAGE_TYPES.indexOf(message.type) + 1)
+      .bool(8, message.encrypted)
+      .bool(9, message.ephemeral)
+      .uint(10, message.ephemeralTimeout)
+      .repeated(11, message.readReceipts, (inner, receipt) =>
+        inner
+          .string(1, receipt.userId)
+          .uint(2, receipt.timestamp.getTime())
+          .uint(3, RECEIPT_STATUSES.indexOf(receipt.status) + 1)
+      )
+      .repeated(12, message.reactions, (inner, reaction) =>
+        inner
+          .string(1, reaction.userId)
+          .string(2, reaction.emoji)
+          .uint(3, reaction.timestamp.getTime())
+          .bool(4, reaction.removed)
+      )
+      .string(13, message.targetMessageId)
+      .bytes(14, message.signature)
+      .message(16, message.replyTo, (inner, reference) =>
+        inner
+          .string(1, reference.messageId)
+          .string(2, reference.senderId)
+          .string(3, reference.snippet)
+      )
+      .string(17, message.threadId)
+      .bool(18, message.forwarded)
+      .uint(19, message.forwardCount)
+      .message(20, message.attachment, WireCodec.writeAttachment)
+      .message(21, message.receipt, (inner, receipt) => {
+        inner.uint(1, RECEIPT_STATUSES.indexOf(receipt.status) + 1);
+        for (const messageId of receipt.messageIds) {
+          inner.string(2, messageId);
+        }
+      })
+      .bool(22, message.typing)
+      .message(23, message.presence, (inner, presence) =>
+        inner
+          .bool(1, presence.online)
+          .uint(2, presence.lastSeen?.getTime())
+          .bool(3, presence.probe)
+      )
+      .message(24, message.reaction, (inner, reaction) =>
+        inner.string(1, reaction.emoji).bool(2, reaction.removed)
+      )
+      .repeated(25, message.entities, WireCodec.writeTextEntity)
+      .message(26, message.linkPreview, (inner, preview) =>
+        inner
+          .string(1, preview.url)
+          .string(2, preview.title)
+          .string(3, preview.description)
+          .string(4, preview.siteName)
+          .bytes(5, preview.thumbnail)
+      );
+
+    return WireCodec.finish(writer, 15, CONTENT_BLOCK_SIZE);
+  }
+
+  static decodeContent(data: Uint8Array): Message {
+    const reader = WireCodec.reader(data);
+    const message: Message = {
+      id: '',
+      conversationId: '',
+      senderId: '',
+      content: '',
+      timestamp: new Date(0),
+      type: 'text',
+      encrypted: false,
+      entities: [],
+      ephemeral: false,
+      readReceipts: [],
+      reactions: [],
+      forwarded: false,
+      forwardCount: 0,
+      editHistory: [],
+      deleted: false,
+    };
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          message.id = reader.string();
+          break;
+        case 2:
+          message.conversationId = reader.string();
+          break;
+        case 3:
+          message.senderId = reader.string();
+          break;
+        case 4:
+          message.recipientId = reader.string();
+          break;
+        case 5:
+          message.content = reader.string();
+          break;
+        case 6:
+          message.timestamp = new Date(reader.uint());
+          break;
+        case 7: {
+          const type = MESSAGE_TYPES[reader.uint() - 1];
+          if (!type) {
+            throw new Error('Malformed wire message');
+          }
+          message.type = type;
+          break;
+        }
+        case 8:
+          message.encrypted = reader.bool();
+          break;
+        case 9:
+          message.ephemeral = reader.bool();
+          break;
+        case 10:
+          message.ephemeralTimeout = reader.uint();
+          break;
+        case 11:
+          message.readReceipts.push(
+            reader.message(inner => {
+              const receipt = {
+                userId: '',
+                timestamp: new Date(0),
+                status: 'read' as ReceiptStatus,
+              };
+              while (!inner.isDone()) {
+                switch (inner.next()) {
+                  case 1:
+                    receipt.userId = inner.string();
+                    break;
+                  case 2:
+                    receipt.timestamp = new Date(inner.uint());
+                    break;
+                  case 3:
+                    receipt.status = WireCodec.readReceiptStatus(inner);
+                    break;
+                  default:
+                    inner.skip();
+                }
+              }
+              return receipt;
+            })
+          );
+          break;
+        case 12:
+          message.reactions.push(
+            reader.message(inner => {
+              const reaction = { userId: '', emoji: '', timestamp: new Date(0), removed: false };
+              while (!inner.isDone()) {
+                switch (inner.next()) {
+                  case 1:
+                    reaction.userId = inner.string();
+                    break;
+                  case 2:
+                    reaction.emoji = inner.string();
+                    break;
+                  case 3:
+                    reaction.timestamp = new Date(inner.uint());
+                    break;
+                  case 4:
+                    reaction.removed = inner.bool();
+                    break;
+                  default:
+                    inner.skip();
+                }
+              }
+              return reaction;
+            })
+          );
+          break;
+        case 13:
+          message.targetMessageId = reader.string();
+          break;
+        case 14:
+          message.signature = reader.bytes();
+          break;
+        case 16:
+          message.replyTo = reader.message(inner => {
+            const reference = { messageId: '', senderId: '', snippet: '' };
+            while (!inner.isDone()) {
+              switch (inner.next()) {
+                case 1:
+                  reference.messageId = inner.string();
+                  break;
+                case 2:
+                  reference.senderId = inner.string();
+                  break;
+                case 3:
+                  reference.snippet = inner.string();
+                  break;
+                default:
+                  inner.skip();
+              }
+            }
+            if (!reference.messageId) {
+              throw new Error('Malformed wire message');
+            }
+            return reference;
+          });
+          break;
+        case 17:
+          message.threadId = reader.string();
+          break;
+        case 18:
+          message.forwarded = reader.bool();
+          break;
+        case 19:
+          message.forwardCount = reader.uint();
+          break;
+        case 20:
+          message.attachment = reader.message(WireCodec.readAttachment);
+          break;
+        case 21:
+          message.receipt = reader.message(inner => {
+            const receipt = { status: 'delivered' as ReceiptStatus, messageIds: [] as string[] };
+            while (!inner.isDone()) {
+              switch (inner.next()) {
+                case 1:
+                  receipt.status = WireCodec.readReceiptStatus(inner);
+                  break;
+                case 2:
+                  receipt.messageIds.push(inner.string());
+                  break;
+                default:
+                  inner.skip();
+              }
+            }
+            return receipt;
+          });
+          break;
+        case 22:
+          message.typing = reader.bool();
+          break;
+        case 23:
+          message.presence = reader.message(inner => {
+            const presence = { online: false, lastSeen: undefined as Date | undefined, probe: false };
+            while (!inner.isDone()) {
+              switch (inner.next()) {
+                case 1:
+                  presence.online = inner.bool();
+                  break;
+                case 2:
+                  presence.lastSeen = new Date(inner.uint());
+                  break;
+                case 3:
+                  presence.probe = inner.bool();
+                  break;
+                default:
+                  inner.skip();
+              }
+            }
+            return presence;
+          });
+          break;
+        case 24:
+          message.reaction = reader.message(inner => {
+            const reaction = { emoji: '', removed: false };
+            while (!inner.isDone()) {
+              switch (inner.next()) {
+                case 1:
+                  reaction.emoji = inner.string();
+                  break;
+                case 2:
+                  reaction.removed = inner.bool();
+                  break;
+                default:
+                  inner.skip();
+              }
+            }
+            return reaction;
+          });
+          break;
+        case 25: {
+          // Разметку новых видов от более новой версии пропускаем, текст показывается без неё
+          const entity = reader.message(WireCodec.readTextEntity);
+          if (entity) message.entities.push(entity);
+          break;
+        }
+        case 26:
+          message.linkPreview = reader.message(inner => {
+            const preview: LinkPreview = { url: '' };
+            while (!inner.isDone()) {
+              switch (inner.next()) {
+                case 1:
+                  preview.url = inner.string();
+                  break;
+                case 2:
+                  preview.title = inner.string();
+                  break;
+                case 3:
+                  preview.description = inner.string();
+                  break;
+                case 4:
+                  preview.siteName = inner.string();
+                  break;
+                case 5:
+                  preview.thumbnail = inner.bytes();
+                  break;
+                default:
+                  inner.skip();
+              }
+            }
+            return preview;
+          });
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    if (!message.id) {
+      throw new Error('Malformed wire message');
+    }
+    return message;
+  }
+
+  // message SealedContent { SenderCertificate certificate = 1; bytes delivery_key = 2; Envelope message = 3; }
+  static encodeSealedContent(
+    certificate: SenderCertificate,
+    deliveryKey: Uint8Array,
+    message: EncryptedMessage
+  ): Uint8Array {
+    return new ProtoWriter()
+      .bytes(1, WireCodec.encodeSenderCertificate(certificate))
+      .bytes(2, deliveryKey)
+      .bytes(3, WireCodec.encodeEnvelope(message))
+      .finish();
+  }
+
+  static decodeSealedContent(data: Uint8Array): {
+    certificate: SenderCertificate;
+    deliveryKey: Uint8Array;
+    message: EncryptedMessage;
+  } {
+    const reader = WireCodec.reader(data);
+    let certificate: SenderCertificate | undefined;
+    let deliveryKey: Uint8Array | undefined;
+    let message: EncryptedMessage | undefined;
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          certificate = WireCodec.decodeSenderCertificate(reader.bytes());
+          break;
+        case 2:
+          deliveryKey = reader.bytes();
+          break;
+        case 3:
+          message = WireCodec.decodeEnvelope(reader.bytes());
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    if (!certificate || !deliveryKey || !message || message.sealed) {
+      throw new Error('Malformed wire message');
+    }
+    return { certificate, deliveryKey, message };
+  }
+
+  // message SenderCertificate {
+  //   string sender_id = 1; uint32 sender_device_id = 2; bytes identity_key = 3;
+  //   uint64 expires = 4; bytes signature = 5;
+  // }
+  // Без подписи - подписываемые данные сертификата
+  static encodeSenderCertificate(
+    certificate: Omit<SenderCertificate, 'signature'> & { signature?: Uint8Array }
+  ): Uint8Array {
+    return new ProtoWriter()
+      .string(1, certificate.senderId)
+      .uint(2, certificate.senderDeviceId)
+      .bytes(3, certificate.identityKey)
+      .uint(4, certificate.expires.getTime())
+      .bytes(5, certificate.signature)
+      .finish();
+  }
+
+  static decodeSenderCertificate(data: Uint8Array): SenderCertificate {
+    const reader = WireCodec.reader(data);
+    const certificate: SenderCertificate = {
+      senderId: '',
+      senderDeviceId: 0,
+      identityKey: new Uint8Array(0),
+      expires: new Date(0),
+      signature: new Uint8Array(0),
+    };
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          certificate.senderId = reader.string();
+          break;
+        case 2:
+          certificate.senderDeviceId = reader.uint();
+          break;
+        case 3:
+          certificate.identityKey = reader.bytes();
+          break;
+        case 4:
+          certificate.expires = new Date(reader.uint());
+          break;
+        case 5:
+          certificate.signature = reader.bytes();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    if (!certificate.senderId || certificate.identityKey.length === 0) {
+      throw new Error('Malformed wire message');
+    }
+    return certificate;
+  }
+
+  // Вспомогательные методы
+
+  // message RatchetHeader { bytes ratchet_key = 1; uint32 counter = 2; uint32 previous_counter = 3; }
+  private static writeRatchetHeader(writer: ProtoWriter, header: RatchetHeader): void {
+    writer.bytes(1, header.ratchetKey).uint(2, header.counter).uint(3, header.previousCounter);
+  }
+
+  private static readRatchetHeader(reader: ProtoReader): RatchetHeader {
+    const header: RatchetHeader = { ratchetKey: new Uint8Array(0), counter: 0, previousCounter: 0 };
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          header.ratchetKey = reader.bytes();
+          break;
+        case 2:
+          header.counter = reader.uint();
+          break;
+        case 3:
+          header.previousCounter = reader.uint();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    if (header.ratchetKey.length === 0) {
+      throw new Error('Malformed wire message');
+    }
+    return header;
+  }
+
+  // message PreKeyMessage {
+  //   uint32 registration_id = 1; optional uint32 pre_key_id = 2; uint32 signed_pre_key_id = 3;
+  //   bytes base_key = 4; bytes identity_key = 5;
+  //   optional uint32 kyber_pre_key_id = 6; bytes kyber_ciphertext = 7;
+  // }
+  // Идентификаторы pre-keys могут быть нулевыми, поэтому передаются со смещением на 1
+  private static writePreKeyMessage(writer: ProtoWriter, preKeyMessage: PreKeyMessage): void {
+    writer
+      .uint(1, preKeyMessage.registrationId)
+      .uint(2, WireCodec.optionalId(preKeyMessage.preKeyId))
+      .uint(3, preKeyMessage.signedPreKeyId + 1)
+      .bytes(4, preKeyMessage.baseKey)
+      .bytes(5, preKeyMessage.identityKey)
+      .uint(6, WireCodec.optionalId(preKeyMessage.kyberPreKeyId))
+      .bytes(7, preKeyMessage.kyberCiphertext);
+  }
+
+  private static readPreKeyMessage(reader: ProtoReader): PreKeyMessage {
+    const preKeyMessage: PreKeyMessage = {
+      registrationId: 0,
+      signedPreKeyId: -1,
+      baseKey: new Uint8Array(0),
+      identityKey: new Uint8Array(0),
+    };
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          preKeyMessage.registrationId = reader.uint();
+          break;
+        case 2:
+          preKeyMessage.preKeyId = reader.uint() - 1;
+          break;
+        case 3:
+          preKeyMessage.signedPreKeyId = reader.uint() - 1;
+          break;
+        case 4:
+          preKeyMessage.baseKey = reader.bytes();
+          break;
+        case 5:
+          preKeyMessage.identityKey = reader.bytes();
+          break;
+        case 6:
+          preKeyMessage.kyberPreKeyId = reader.uint() - 1;
+          break;
+        case 7:
+          preKeyMessage.kyberCiphertext = reader.bytes();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    const isValid =
+      preKeyMessage.signedPreKeyId >= 0 &&
+      (preKeyMessage.preKeyId ?? 0) >= 0 &&
+      (preKeyMessage.kyberPreKeyId ?? 0) >= 0 &&
+      preKeyMessage.baseKey.length > 0 &&
+      preKeyMessage.identityKey.length > 0;
+    if (!isValid) {
+      throw new Error('Malformed wire message');
+    }
+    return preKeyMessage;
+  }
+
+  // message Attachment {
+  //   string id = 1; bytes key = 2; bytes digest = 3; uint64 size = 4; string mime_type = 5;
+  //   string file_name = 6; bytes thumbnail = 7; string blurhash = 8; uint32 width = 9;
+  //   uint32 height = 10; uint64 duration = 11; string source = 12; bytes waveform = 13;
+  //   string codec = 14; uint32 sample_rate = 15;
+  // }
+  private static writeAttachment(writer: ProtoWriter, attachment: Attachment): void {
+    writer
+      .string(1, attachment.id)
+      .bytes(2, attachment.key)
+      .bytes(3, attachment.digest)
+      .uint(4, attachment.size)
+      .string(5, attachment.mimeType)
+      .string(6, attachment.fileName)
+      .bytes(7, attachment.thumbnail)
+      .string(8, attachment.blurhash)
+      .uint(9, attachment.width)
+      .uint(10, attachment.height)
+      .uint(11, attachment.duration)
+      .string(12, attachment.source)
+      .bytes(13, attachment.waveform)
+      .string(14, attachment.codec)
+      .uint(15, attachment.sampleRate);
+  }
+
+  private static readAttachment(reader: ProtoReader): Attachment {
+    const attachment: Attachment = {
+      id: '',
+      key: new Uint8Array(0),
+      digest: new Uint8Array(0),
+      size: 0,
+      mimeType: '',
+    };
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          attachment.id = reader.string();
+          break;
+        case 2:
+          attachment.key = reader.bytes();
+          break;
+        case 3:
+          attachment.digest = reader.bytes();
+          break;
+        case 4:
+          attachment.size = reader.uint();
+          break;
+        case 5:
+          attachment.mimeType = reader.string();
+          break;
+        case 6:
+          attachment.fileName = reader.string();
+          break;
+        case 7:
+          attachment.thumbnail = reader.bytes();
+          break;
+        case 8:
+          attachment.blurhash = reader.string();
+          break;
+        case 9:
+          attachment.width = reader.uint();
+          break;
+        case 10:
+          attachment.height = reader.uint();
+          break;
+        case 11:
+          attachment.duration = reader.uint();
+          break;
+        case 12:
+          attachment.source = reader.string();
+          break;
+        case 13:
+          attachment.waveform = reader.bytes();
+          break;
+        case 14:
+          attachment.codec = reader.string();
+          break;
+        case 15:
+          attachment.sampleRate = reader.uint();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    if (!attachment.id || attachment.key.length !== 32 || attachment.digest.length !== 32) {
+      throw new Error('Malformed wire message');
+    }
+    return attachment;
+  }
+
+  // message TextEntity { uint32 type = 1; uint32 offset = 2; uint32 length = 3; string user_id = 4; }
+  // Открыт для подписи правок в MessageEditService
+  static writeTextEntity(writer: ProtoWriter, entity: TextEntity): void {
+    writer
+      .uint(1, TEXT_ENTITY_TYPES.indexOf(entity.type) + 1)
+      .uint(2, entity.offset)
+      .uint(3, entity.length)
+      .string(4, entity.userId);
+  }
+
+  private static readTextEntity(reader: ProtoReader): TextEntity | undefined {
+    let type: TextEntity['type'] | undefined;
+    const entity = { offset: 0, length: 0, userId: undefined as string | undefined };
+
+    while (!reader.isDone()) {
+      switch (reader.next()) {
+        case 1:
+          type = TEXT_ENTITY_TYPES[reader.uint() - 1];
+          break;
+        case 2:
+          entity.offset = reader.uint();
+          break;
+        case 3:
+          entity.length = reader.uint();
+          break;
+        case 4:
+          entity.userId = reader.string();
+          break;
+        default:
+          reader.skip();
+      }
+    }
+
+    if (!type || entity.length === 0) return undefined;
+    return entity.userId
+      ? { type, ...entity }
+      : { type, offset: entity.offset, length: entity.length };
+  }
+
+  private static readReceiptStatus(reader: ProtoReader): ReceiptStatus {
+    const status = RECEIPT_STATUSES[reader.uint() - 1];
+    if (!status) {
+      throw new Error('Malformed wire message');
+    }
+    return status;
+  }
+
+  private static optionalId(id: number | undefined): number | undefined {
+    return id === undefined ? undefined : id + 1;
+  }
+
+  // Поле дополнения подбирается так, чтобы итоговая длина была кратна blockSize
+  private static finish(writer: ProtoWriter, paddingField: number, blockSize: number): Uint8Array {
+    if (blockSize > 0) {
+      const tagSize = paddingField < 16 ? 1 : 2;
+      let target = Math.ceil((writer.size() + tagSize + 2) / blockSize) * blockSize;
+
+      // Длина поля занимает 1 или 2 байта; если ни один вариант не даёт точной длины,
+      // дополняем до следующего блока
+      for (;;) {
+        const short = target - writer.size() - tagSize - 1;
+        if (short >= 1 && short < 0x80) {
+          writer.bytes(paddingField, new Uint8Array(short));
+          break;
+        }
+        const long = target - writer.size() - tagSize - 2;
+        if (long >= 0x80 && long < 0x4000) {
+          writer.bytes(paddingField, new Uint8Array(long));
+          break;
+        }
+        target += blockSize;
+      }
+    }
+
+    const data = writer.finish();
+    if (data.length > MAX_MESSAGE_SIZE) {
+      throw new Error('Message too large');
+    }
+    return data;
+  }
+
+  private static reader(data: Uint8Array): ProtoReader {
+    if (data.length > MAX_MESSAGE_SIZE) {
+      throw new Error('Message too large');
+    }
+    return new ProtoReader(data);
+  }
+}
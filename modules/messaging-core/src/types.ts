@@ -1,37 +1,381 @@
 import { z } from 'zod';
 
+export const ReceiptStatusSchema = z.enum(['delivered', 'read', 'played']);
+export type ReceiptStatus = z.infer<typeof ReceiptStatusSchema>;
+
+// Указатель на зашифрованное вложение: ключ и хеш передаются только внутри сообщения
+export const AttachmentSchema = z.object({
+  id: z.string(), // Адрес зашифрованного манифеста (BLAKE2b-256, hex)
+  key: z.instanceof(Uint8Array),
+  digest: z.instanceof(Uint8Array), // BLAKE2b-256 открытого содержимого
+  size: z.number().int().nonnegative(),
+  mimeType: z.string(),
+  fileName: z.string().optional(),
+  thumbnail: z.instanceof(Uint8Array).optional(),
+  blurhash: z.string().optional(),
+  width: z.number().int().optional(),
+  height: z.number().int().optional(),
+  duration: z.number().int().optional(), // мс, для видео и аудио
+  source: z.string().optional(), // Peer ID отправителя, раздающего вложение
+  // Для голосовых сообщений: огибающая громкости (0-255) для показа до скачивания и кодек
+  waveform: z.instanceof(Uint8Array).optional(),
+  codec: z.string().optional(), // Например, opus
+  sampleRate: z.number().int().optional(), // Гц
+});
+
+export type Attachment = z.infer<typeof AttachmentSchema>;
+
+// Разметка текста диапазонами вместо HTML: текст остаётся простым, смещения и длины -
+// в единицах UTF-16, как индексы строк JS. Упоминание ссылается на DID пользователя
+export const TextEntitySchema = z.object({
+  type: z.enum(['bold', 'italic', 'code', 'spoiler', 'mention']),
+  offset: z.number().int().nonnegative(),
+  length: z.number().int().positive(),
+  userId: z.string().optional(), // Только для mention
+});
+
+export type TextEntity = z.infer<typeof TextEntitySchema>;
+
+// Превью ссылки собирает отправитель и передаёт внутри зашифрованного сообщения,
+// поэтому получатель никогда не обращается к серверу ссылки
+export const LinkPreviewSchema = z.object({
+  url: z.string(), // Должен встречаться в тексте сообщения
+  title: z.string().optional(),
+  description: z.string().optional(),
+  siteName: z.string().optional(),
+  thumbnail: z.instanceof(Uint8Array).optional(),
+});
+
+export type LinkPreview = z.infer<typeof LinkPreviewSchema>;
+
 export const MessageSchema = z.object({
   id: z.string().uuid(),
   conversationId: z.string(),
   senderId: z.string(),
   recipientId: z.string().optional(),
-  content: z.string(),
+  content: z.string(), // Для вложений - подпись
+  entities: z.array(TextEntitySchema).default([]),
   timestamp: z.date(),
-  type: z.enum(['text', 'image', 'video', 'audio', 'file']),
+  attachment: AttachmentSchema.optional(),
+  linkPreview: LinkPreviewSchema.optional(),
+  // edit и delete - управляющие сообщения отправителя, ссылающиеся на исходное через targetMessageId;
+  // timer задаёт ephemeralTimeout для всей переписки; receipt - пачка квитанций отправителю;
+  // typing и presence - эфемерные сигналы, которые не сохраняются в истории;
+  // reaction ставит или снимает реакцию на сообщение targetMessageId;
+  // voice - голосовое сообщение, запись во вложении с длительностью и огибающей
+  type: z.enum([
+    'text', 'image', 'video', 'audio', 'file', 'edit', 'delete', 'timer', 'receipt', 'typing', 'presence',
+    'reaction', 'voice',
+  ]),
   encrypted: z.boolean(),
   ephemeral: z.boolean().default(false),
   ephemeralTimeout: z.number().optional(),
+  targetMessageId: z.string().optional(),
+  // Ответ хранит цитату, чтобы она пережила удаление или истечение исходного сообщения
+  replyTo: z.object({
+    messageId: z.string(),
+    senderId: z.string(),
+    snippet: z.string(),
+  }).optional(),
+  threadId: z.string().optional(), // id корневого сообщения ветки
+  forwarded: z.boolean().default(false),
+  forwardCount: z.number().int().nonnegative().default(0), // Сколько раз сообщение уже пересылали
+  receipt: z.object({
+    status: ReceiptStatusSchema,
+    messageIds: z.array(z.string()),
+  }).optional(),
+  typing: z.boolean().optional(), // true - начал набирать, false или не задан - перестал
+  reaction: z.object({
+    emoji: z.string(),
+    removed: z.boolean().default(false),
+  }).optional(),
+  // Статус probe-сигнала не учитывается: это запрос статуса получателя
+  presence: z.object({
+    online: z.boolean(),
+    lastSeen: z.date().optional(), // Не задан, если отправитель скрывает время последнего визита
+    probe: z.boolean().default(false),
+  }).optional(),
+  signature: z.instanceof(Uint8Array).optional(), // Подпись управляющего сообщения identity key отправителя
+  // Локальное состояние: предыдущие версии текста и надгробие "удалено у всех"
+  editedAt: z.date().optional(),
+  editHistory: z.array(z.object({
+    content: z.string(),
+    entities: z.array(TextEntitySchema).default([]),
+    timestamp: z.date(),
+  })).default([]),
+  deleted: z.boolean().default(false),
+  // По одной записи на участника с наивысшим полученным статусом
   readReceipts: z.array(z.object({
     userId: z.string(),
     timestamp: z.date(),
+    status: ReceiptStatusSchema.default('read'),
   })).default([]),
+  // LWW-множество: по одной записи на пару пользователь-реакция, снятая реакция остаётся
+  // с отметкой removed, чтобы запоздавшая постановка не вернула её
   reactions: z.array(z.object({
     userId: z.string(),
     emoji: z.string(),
     timestamp: z.date(),
+    removed: z.boolean().default(false),
   })).default([]),
 });
 
 export type Message = z.infer<typeof MessageSchema>;
 
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+export interface ReplyTreeNode {
+  message: Message;
+  replies: ReplyTreeNode[];
+}
+
+export interface RichTextSegment {
+  text: string;
+  styles: Array<Exclude<TextEntity['type'], 'mention'>>;
+  mention?: string; // DID упомянутого пользователя
+}
+
 export interface EncryptedMessage {
   id: string;
   conversationId: string;
   senderId: string;
+  senderDeviceId?: number;
+  recipientId?: string;
+  recipientDeviceId?: number;
   ciphertext: Uint8Array;
   ephemeralPublicKey?: Uint8Array;
+  header?: RatchetHeader;
+  preKeyMessage?: PreKeyMessage;
   timestamp: Date;
   messageType: number;
+  cipherSuite?: number; // По умолчанию определяется видом сообщения (см. WireCodec)
+  // Sealed sender: отправитель и сертификат зашифрованы в ciphertext для identity key получателя
+  sealed?: boolean;
+  deliveryToken?: Uint8Array;
+}
+
+export type AttachmentUploadParams = Omit<
+  Attachment,
+  'id' | 'key' | 'digest' | 'size' | 'source'
+>;
+
+export interface AttachmentConfig {
+  chunkSize?: number; // Размер открытого фрагмента, байт
+  maxSize?: number;
+  provideDownloads?: boolean; // Раздавать скачанные вложения другим участникам через DHT
+}
+
+export interface LinkPreviewConfig {
+  fetch?: typeof fetch; // Для прокси или Tor; по умолчанию глобальный fetch
+  timeout?: number; // мс на страницу и на картинку
+  maxPageSize?: number; // Читается только начало страницы с метатегами, байт
+  maxThumbnailSize?: number; // Картинка крупнее не передаётся, байт
+}
+
+export interface AttachmentDownloadProgress {
+  attachmentId: string;
+  receivedChunks: number;
+  totalChunks: number;
+}
+
+// Зашифрованные блоки по их адресу; недокачанные вложения продолжаются с сохранённых блоков
+export interface IAttachmentStore {
+  getBlock(hash: string): Promise<Uint8Array | null>;
+  putBlock(hash: string, block: Uint8Array): Promise<void>;
+  deleteBlocks(hashes: string[]): Promise<void>;
+}
+
+// Срок исчезающего сообщения: у полученных отсчёт начинается с момента прочтения
+export interface MessageExpiration {
+  messageId: string;
+  conversationId: string;
+  timeout: number;
+  expiresAt?: Date; // Не задан, пока полученное сообщение не прочитано
+  attachment?: Attachment;
+}
+
+export interface IExpiryStore {
+  getExpiration(messageId: string): Promise<MessageExpiration | null>;
+  getDueExpirations(now: Date): Promise<MessageExpiration[]>;
+  getNextExpiry(): Promise<Date | null>;
+  storeExpiration(expiration: MessageExpiration): Promise<void>;
+  deleteExpirations(messageIds: string[]): Promise<void>;
+}
+
+// Конверт в очереди отправки: повторяется с растущей паузой, пока не будет доставлен
+// напрямую или оставлен в почтовых ящиках получателя
+export interface OutboxEntry {
+  id: string; // id конверта и адрес устройства получателя
+  recipientId: string;
+  recipientDeviceId: number;
+  envelope: Uint8Array;
+  attempts: number;
+  nextAttemptAt: Date;
+  expiresAt: Date;
+}
+
+export interface IOutboxStore {
+  getDueEntries(now: Date): Promise<OutboxEntry[]>;
+  getNextAttempt(): Promise<Date | null>;
+  storeEntry(entry: OutboxEntry): Promise<void>;
+  deleteEntries(ids: string[]): Promise<void>;
+  // id полученных конвертов: копии из других почтовых ящиков подтверждаются без обработки
+  hasReceived(envelopeId: string): Promise<boolean>;
+  storeReceived(envelopeId: string, expiresAt: Date): Promise<void>;
+  deleteExpiredReceived(now: Date): Promise<void>;
+}
+
+// Конверт, принятый на хранение для получателя, который был недоступен
+export interface MailboxEntry {
+  id: string; // Хеш конверта: повторная доставка того же конверта не занимает квоту
+  address: string; // userId.deviceId получателя
+  envelope: Uint8Array;
+  expiresAt: Date;
+}
+
+export interface IMailboxStore {
+  getEntries(address: string, limit: number): Promise<MailboxEntry[]>;
+  getUsage(address: string): Promise<{ count: number; size: number }>;
+  getTotalSize(): Promise<number>;
+  storeEntry(entry: MailboxEntry): Promise<void>;
+  deleteEntries(address: string, ids: string[]): Promise<void>;
+  deleteExpired(now: Date): Promise<void>;
+}
+
+export interface DeliveryConfig {
+  retryDelay?: number; // мс до первого повтора, дальше пауза удваивается
+  maxRetryDelay?: number;
+  messageLifetime?: number; // мс, после которых недоставленный конверт отбрасывается
+  mailboxPeers?: string[]; // Назначенные почтовые узлы для входящих
+  mailboxReplicas?: number; // На сколько почтовых узлов кладётся конверт
+  mailboxPollInterval?: number; // мс между проверками почтовых ящиков
+  serveMailbox?: boolean; // Хранить конверты для других пользователей
+  mailboxRetention?: number; // мс хранения чужого конверта
+  mailboxQuota?: number; // Конвертов на одно устройство получателя
+  mailboxMaxSize?: number; // Байт на все чужие конверты
+}
+
+// Описание канала подписывает владелец; публиковать могут владелец и publishers
+export interface ChannelDescriptor {
+  id: string;
+  name: string;
+  description?: string;
+  ownerId: string;
+  publishers: string[];
+  version: number; // Растёт с каждым изменением, более старое описание не принимается
+  updatedAt: Date;
+  signature: Uint8Array;
+}
+
+export interface ChannelSubscription {
+  descriptor: ChannelDescriptor;
+  key?: Uint8Array; // Ключ закрытого канала из приглашения; посты открытого канала не шифруются
+  syncedUntil?: ChannelCursor; // До какого поста догружена история
+}
+
+export interface ChannelCursor {
+  timestamp: Date;
+  id: string;
+}
+
+// Пост в том виде, в котором его пересылают и хранят подписчики: подпись издателя покрывает
+// все поля, поэтому пост можно получить от любого подписчика
+export interface ChannelPost {
+  channelId: string;
+  id: string;
+  senderId: string;
+  timestamp: Date;
+  content: Uint8Array; // WireCodec.encodeContent; в закрытом канале - nonce и secretbox
+  signature: Uint8Array;
+}
+
+export interface IChannelStore {
+  getSubscription(channelId: string): Promise<ChannelSubscription | null>;
+  getSubscriptions(): Promise<ChannelSubscription[]>;
+  storeSubscription(subscription: ChannelSubscription): Promise<void>;
+  // Вместе с подпиской удаляются посты и просмотры канала
+  deleteSubscription(channelId: string): Promise<void>;
+  // Посты строго после курсора в порядке времени
+  getPosts(channelId: string, after: ChannelCursor | null, limit: number): Promise<ChannelPost[]>;
+  hasPost(channelId: string, postId: string): Promise<boolean>;
+  storePost(post: ChannelPost): Promise<void>;
+  // Анонимные отметки просмотров; relayId - peer ID узла, передавшего отметку.
+  // Возвращает число просмотров поста
+  addView(channelId: string, postId: string, token: string, relayId: string): Promise<number>;
+  getViewCount(channelId: string, postId: string): Promise<number>;
+  getRelayedViewCount(channelId: string, postId: string, relayId: string): Promise<number>;
+}
+
+export interface ChannelConfig {
+  fanout?: number; // Скольким подписчикам пересылается новый пост
+  pollInterval?: number; // мс между догрузками истории и описаний каналов
+  historyLimit?: number; // Постов в одном ответе на запрос истории
+  maxViewsPerRelay?: number; // Отметок просмотра одного поста, принимаемых от одного узла
+}
+
+export interface ReceiptConfig {
+  batchDelay?: number; // мс, квитанции за это время уходят одним сообщением
+  sendReadReceipts?: boolean; // Отключение скрывает и чужие квитанции о прочтении
+}
+
+export type LastSeenPrivacy = 'nobody' | 'contacts' | 'everyone';
+
+export interface PresenceStatus {
+  userId: string;
+  online: boolean;
+  lastSeen?: Date;
+}
+
+export interface PresenceConfig {
+  heartbeatInterval?: number; // мс между подтверждениями онлайн-статуса
+  typingTimeout?: number; // мс без ввода, после которых набор считается остановленным
+  typingInterval?: number; // мс, не чаще одного сигнала о наборе на переписку
+  lastSeenPrivacy?: LastSeenPrivacy; // Кому видны онлайн-статус и время последнего визита
+  // Участники переписки по её id; без него сигналы о наборе текста не принимаются
+  getParticipants?: (conversationId: string) => Promise<string[]>;
+}
+
+export interface MessageEditConfig {
+  editTimeLimit?: number; // мс с момента отправки исходного сообщения по часам отправителя
+}
+
+export interface MessageSendOptions {
+  // Скрыть отправителя от ретрансляторов и узлов DHT; первое сообщение новой сессии без
+  // delivery token получателя отправляется открытым
+  sealedSender?: boolean;
+  recipientOnly?: boolean; // Не копировать на остальные свои устройства (эфемерные сигналы)
+  deviceIds?: number[]; // Только эти устройства получателя, например доступные сейчас
+}
+
+export interface RatchetHeader {
+  ratchetKey: Uint8Array;
+  counter: number;
+  previousCounter: number;
+}
+
+export interface KeyPair {
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+}
+
+export interface PreKeyMessage {
+  registrationId: number;
+  preKeyId?: number;
+  signedPreKeyId: number;
+  baseKey: Uint8Array;
+  identityKey: Uint8Array;
+  kyberPreKeyId?: number;
+  kyberCiphertext?: Uint8Array;
+}
+
+export interface SignedPreKeyRecord {
+  keyId: number;
+  keyPair: KeyPair;
+  signature: Uint8Array;
 }
 
 export interface ConversationKeys {
@@ -44,10 +388,16 @@ export interface Session {
   sessionId: string;
   remoteIdentityKey: Uint8Array;
   rootKey: Uint8Array;
+  ratchetKeyPair: KeyPair;
+  remoteRatchetKey?: Uint8Array;
   sendingChain: ChainKey;
   receivingChains: Map<string, ChainKey>;
   previousCounter: number;
   remoteRegistrationId: number;
+  associatedData?: Uint8Array;
+  baseKey?: Uint8Array;
+  pendingPreKey?: PreKeyMessage;
+  quantumSafe?: boolean;
 }
 
 export interface ChainKey {
@@ -59,12 +409,91 @@ export interface ChainKey {
 export interface PreKeyBundle {
   registrationId: number;
   deviceId: number;
-  preKeyId: number;
-  preKey: Uint8Array;
+  preKeyId?: number;
+  preKey?: Uint8Array;
   signedPreKeyId: number;
   signedPreKey: Uint8Array;
   signedPreKeySignature: Uint8Array;
   identityKey: Uint8Array;
+  kyberPreKeyId?: number;
+  kyberPreKey?: Uint8Array;
+  kyberPreKeySignature?: Uint8Array;
+}
+
+export interface IdentityRecord {
+  identityKeyPair: KeyPair;
+  registrationId: number;
+  deviceId: number;
+}
+
+// Identity key собеседника, закреплённый при первом контакте (TOFU)
+export interface TrustedIdentity {
+  userId: string;
+  identityKey: Uint8Array;
+  verified: boolean;
+  pendingChange: boolean; // Отправка заблокирована до подтверждения смены ключа
+  pendingIdentityKey?: Uint8Array; // Новый ключ; закрепляется только после подтверждения
+  previousIdentityKey?: Uint8Array;
+  firstSeen: Date;
+  changedAt?: Date;
+}
+
+export interface IdentityChangeEvent {
+  userId: string;
+  previousIdentityKey: Uint8Array;
+  identityKey: Uint8Array;
+  wasVerified: boolean;
+}
+
+export interface SafetyNumber {
+  displayString: string; // 60 цифр, 12 групп по 5
+  scannable: Uint8Array; // Содержимое QR-кода
+}
+
+export interface DeviceInfo {
+  deviceId: number;
+  name: string;
+  addedAt: Date;
+  linkedBy?: number;
+  peerId?: string; // Текущий адрес устройства в P2P-сети для эфемерных сигналов
+}
+
+export interface DeviceList {
+  userId: string;
+  identityKey: Uint8Array;
+  version: number;
+  devices: DeviceInfo[];
+  nextDeviceId: number; // Только растёт: id удалённого устройства не выдаётся повторно
+  signature: Uint8Array;
+}
+
+export interface DeviceLinkRequest {
+  linkId: string;
+  deviceName: string;
+  publicKey: Uint8Array;
+  createdAt: Date;
+}
+
+export interface DeviceProvisioning {
+  userId: string;
+  deviceId: number;
+  identityKeyPair: KeyPair;
+}
+
+export type PreKeyKind = 'one-time' | 'signed' | 'kyber' | 'kyber-last-resort';
+
+export interface PreKeyRecord {
+  kind: PreKeyKind;
+  keyId: number;
+  keyPair: KeyPair;
+  signature?: Uint8Array;
+  issued: boolean;
+  createdAt: number;
+}
+
+export interface PreKeyRef {
+  kind: PreKeyKind;
+  keyId: number;
 }
 
 export interface GroupSession {
@@ -73,46 +502,350 @@ export interface GroupSession {
   treeHash: Uint8Array;
   members: GroupMember[];
   pendingProposals: Proposal[];
+  administration: GroupAdministration | null; // null - группа без ролей, всем разрешено всё
 }
 
 export interface GroupMember {
   userId: string;
-  keyPackage: Uint8Array;
+  leafIndex: number;
+  keyPackage: Uint8Array; // Закодированный LeafNode участника
   credential: Uint8Array;
+  role: GroupRole;
   addedBy: string;
   addedAt: Date;
 }
 
+export type GroupRole = 'owner' | 'admin' | 'member';
+
+export type GroupAction =
+  | 'add_member'
+  | 'remove_member'
+  | 'rename'
+  | 'change_settings'
+  | 'change_roles';
+
+// Минимальная роль для каждого действия; менять сами права может только владелец
+export type GroupPermissions = Record<GroupAction, GroupRole>;
+
+export interface GroupSettings {
+  description?: string;
+  avatar?: string;
+  ephemeralTimeout?: number;
+  allowedReactions?: string[]; // Не задан - разрешены любые
+  multipleReactions?: boolean; // Несколько реакций от одного участника на сообщение
+}
+
+export interface GroupCreateOptions {
+  name?: string;
+  settings?: GroupSettings;
+  permissions?: Partial<GroupPermissions>;
+}
+
+// Содержимое расширения GroupContext: общее состояние группы, согласованное всеми участниками
+export interface GroupAdministration {
+  name?: string;
+  settings: GroupSettings;
+  permissions: GroupPermissions;
+  roles: Record<string, GroupRole>; // Только owner и admin, остальные - member
+}
+
 export interface Proposal {
-  id: string;
-  type: 'add' | 'remove' | 'update';
+  id: string; // ProposalRef в hex
+  type: 'add' | 'remove' | 'update' | 'group_context_extensions';
   proposer: string;
   target?: string;
   data?: Uint8Array;
   timestamp: Date;
 }
 
+// MLS (RFC 9420): структуры протокола, кодируются в TLS presentation language
+
+export interface MLSExtension {
+  extensionType: number;
+  extensionData: Uint8Array;
+}
+
+export interface MLSCapabilities {
+  versions: number[];
+  cipherSuites: number[];
+  extensions: number[];
+  proposals: number[];
+  credentials: number[];
+}
+
+export type LeafNodeSource = 'key_package' | 'update' | 'commit';
+
+export interface LeafNode {
+  encryptionKey: Uint8Array;
+  signatureKey: Uint8Array;
+  identity: Uint8Array; // BasicCredential
+  capabilities: MLSCapabilities;
+  leafNodeSource: LeafNodeSource;
+  lifetime?: { notBefore: number; notAfter: number }; // Секунды, только для key_package
+  parentHash?: Uint8Array; // Только для commit
+  extensions: MLSExtension[];
+  signature: Uint8Array;
+}
+
+export interface ParentNode {
+  encryptionKey: Uint8Array;
+  parentHash: Uint8Array;
+  unmergedLeaves: number[];
+}
+
+export type TreeNode = { type: 'leaf'; leaf: LeafNode } | { type: 'parent'; parent: ParentNode };
+
+export interface KeyPackage {
+  version: number;
+  cipherSuite: number;
+  initKey: Uint8Array;
+  leafNode: LeafNode;
+  extensions: MLSExtension[];
+  signature: Uint8Array;
+}
+
+export interface GroupContext {
+  version: number;
+  cipherSuite: number;
+  groupId: Uint8Array;
+  epoch: number;
+  treeHash: Uint8Array;
+  confirmedTranscriptHash: Uint8Array;
+  extensions: MLSExtension[];
+}
+
+export interface HPKECiphertext {
+  kemOutput: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+export type MLSProposal =
+  | { type: 'add'; keyPackage: KeyPackage }
+  | { type: 'update'; leafNode: LeafNode }
+  | { type: 'remove'; removed: number }
+  | { type: 'group_context_extensions'; extensions: MLSExtension[] };
+
+export type ProposalOrRef =
+  | { type: 'proposal'; proposal: MLSProposal }
+  | { type: 'reference'; reference: Uint8Array };
+
+export interface UpdatePathNode {
+  encryptionKey: Uint8Array;
+  encryptedPathSecret: HPKECiphertext[];
+}
+
+export interface UpdatePath {
+  leafNode: LeafNode;
+  nodes: UpdatePathNode[];
+}
+
+export interface Commit {
+  proposals: ProposalOrRef[];
+  path?: UpdatePath;
+}
+
+export type FramedContentBody =
+  | { contentType: 'application'; applicationData: Uint8Array }
+  | { contentType: 'proposal'; proposal: MLSProposal }
+  | { contentType: 'commit'; commit: Commit };
+
+export type FramedContent = {
+  groupId: Uint8Array;
+  epoch: number;
+  sender: number; // Leaf index участника
+  authenticatedData: Uint8Array;
+} & FramedContentBody;
+
+export interface PublicMessage {
+  content: FramedContent;
+  signature: Uint8Array;
+  confirmationTag?: Uint8Array;
+  membershipTag: Uint8Array;
+}
+
+export interface PrivateMessage {
+  groupId: Uint8Array;
+  epoch: number;
+  contentType: FramedContentBody['contentType'];
+  authenticatedData: Uint8Array;
+  encryptedSenderData: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+export interface EncryptedGroupSecrets {
+  newMember: Uint8Array; // KeyPackageRef
+  encryptedGroupSecrets: HPKECiphertext;
+}
+
+export interface Welcome {
+  cipherSuite: number;
+  secrets: EncryptedGroupSecrets[];
+  encryptedGroupInfo: Uint8Array;
+}
+
+export interface GroupInfo {
+  groupContext: GroupContext;
+  extensions: MLSExtension[];
+  confirmationTag: Uint8Array;
+  signer: number;
+  signature: Uint8Array;
+}
+
+export type MLSMessage =
+  | { wireFormat: 'public'; message: PublicMessage }
+  | { wireFormat: 'private'; message: PrivateMessage }
+  | { wireFormat: 'welcome'; message: Welcome }
+  | { wireFormat: 'group_info'; message: GroupInfo }
+  | { wireFormat: 'key_package'; message: KeyPackage };
+
+export interface MLSHandshakeEvent {
+  groupId: string;
+  epoch: number; // Эпоха, в которой сообщение должно быть обработано
+  message: Uint8Array;
+}
+
+export interface MLSWelcomeEvent {
+  groupId: string;
+  recipients: string[];
+  message: Uint8Array;
+}
+
+// Сохранённое состояние MLS клиента. Группы и секреты key packages сериализует MLSService,
+// хранилище только шифрует байты
+export interface MLSStateRecord {
+  signatureKeyPair: KeyPair | null;
+  keyPackages: Map<string, Uint8Array>; // Ключ - KeyPackageRef в hex
+  groups: Map<string, Uint8Array>;
+}
+
+export interface MLSConfig {
+  epochRetention?: number; // Число прошлых эпох, сообщения которых ещё расшифровываются
+  epochRetentionTime?: number; // Время хранения секретов прошлой эпохи, мс
+}
+
+export interface KeyPackageInfo {
+  ref: string; // KeyPackageRef в hex
+  userId: string;
+  signatureKey: Uint8Array;
+  notAfter: Date;
+  lastResort: boolean;
+}
+
+export interface KeyPackageEntry {
+  ref: string;
+  notAfter: Date;
+}
+
+// Каталог key packages пользователя в DHT, подписан его identity key
+export interface KeyPackageDirectory {
+  userId: string;
+  identityKey: Uint8Array;
+  signatureKey: Uint8Array; // Ключ подписи MLS, которым подписаны key packages
+  version: number;
+  keyPackages: KeyPackageEntry[];
+  lastResort: KeyPackageEntry;
+  signature: Uint8Array;
+}
+
+// Сертификат отправителя внутри sealed sender конверта, подписан его identity key
+export interface SenderCertificate {
+  senderId: string;
+  senderDeviceId: number;
+  identityKey: Uint8Array;
+  expires: Date;
+  signature: Uint8Array;
+}
+
+export interface SealedSenderConfig {
+  certificateLifetime?: number; // Срок действия сертификата отправителя, мс
+  allowUnrestricted?: boolean; // Принимать конверты без delivery token от незнакомых отправителей
+}
+
+// Сохранённые delivery keys: свой, которым проверяются входящие token, и полученные от собеседников
+export interface SealedSenderStateRecord {
+  deliveryKey: Uint8Array | null;
+  deliveryKeys: Map<string, Uint8Array>; // Ключ - адрес устройства userId.deviceId
+}
+
+export interface UnsealedMessage {
+  certificate: SenderCertificate;
+  deliveryKey: Uint8Array; // Delivery key отправителя для ответа в режиме sealed sender
+  message: EncryptedMessage;
+}
+
 export interface ISignalProtocolService {
   initializeSession(userId: string, preKeyBundle: PreKeyBundle): Promise<void>;
-  encryptMessage(recipientId: string, message: string): Promise<EncryptedMessage>;
-  decryptMessage(senderId: string, encrypted: EncryptedMessage): Promise<string>;
-  generatePreKeyBundle(): Promise<PreKeyBundle>;
+  encryptMessage(
+    recipientId: string,
+    message: Uint8Array,
+    deviceId?: number
+  ): Promise<EncryptedMessage>;
+  decryptMessage(senderId: string, encrypted: EncryptedMessage): Promise<Uint8Array>;
+  generatePreKeyBundle(oneTime?: boolean): Promise<PreKeyBundle>;
   rotateSignedPreKey(): Promise<void>;
 }
 
+export interface ISessionStore {
+  loadIdentity(): Promise<IdentityRecord | null>;
+  storeIdentity(identity: IdentityRecord): Promise<void>;
+  loadSession(address: string): Promise<Session | null>;
+  loadSessions(): Promise<Map<string, Session>>;
+  // Сессия и удаление использованных pre-keys сохраняются атомарно
+  storeSession(address: string, session: Session, consumedPreKeys?: PreKeyRef[]): Promise<void>;
+  deleteSession(address: string): Promise<void>;
+  loadPreKeys(): Promise<PreKeyRecord[]>;
+  storePreKeys(records: PreKeyRecord[]): Promise<void>;
+  removePreKeys(refs: PreKeyRef[]): Promise<void>;
+  loadTrustedIdentities(): Promise<TrustedIdentity[]>;
+  storeTrustedIdentity(identity: TrustedIdentity): Promise<void>;
+  loadMLSState(): Promise<MLSStateRecord>;
+  storeMLSSignatureKey(keyPair: KeyPair): Promise<void>;
+  storeMLSKeyPackage(ref: string, data: Uint8Array): Promise<void>;
+  deleteMLSKeyPackage(ref: string): Promise<void>;
+  storeMLSGroup(groupId: string, data: Uint8Array): Promise<void>;
+  deleteMLSGroup(groupId: string): Promise<void>;
+  loadSealedSenderState(): Promise<SealedSenderStateRecord>;
+  storeDeliveryKey(deliveryKey: Uint8Array): Promise<void>;
+  storePeerDeliveryKey(address: string, deliveryKey: Uint8Array): Promise<void>;
+  // Последние принятые версии списков устройств, защита от отката после перезапуска
+  loadDeviceListVersions(): Promise<Map<string, number>>;
+  storeDeviceListVersion(userId: string, version: number): Promise<void>;
+}
+
+// Расшифрованное сообщение группы; отправитель взят из листа дерева, ключом которого
+// подписано сообщение, а не из заголовков
+export interface GroupPlaintext {
+  senderId: string;
+  applicationData: Uint8Array;
+}
+
 export interface IMLSService {
-  createGroup(groupId: string, members: string[]): Promise<GroupSession>;
+  createGroup(
+    groupId: string,
+    members: string[],
+    options?: GroupCreateOptions
+  ): Promise<GroupSession>;
   addMember(groupId: string, userId: string): Promise<void>;
   removeMember(groupId: string, userId: string): Promise<void>;
-  encryptGroupMessage(groupId: string, message: string): Promise<EncryptedMessage>;
-  decryptGroupMessage(groupId: string, encrypted: EncryptedMessage): Promise<string>;
-  processProposal(groupId: string, proposal: Proposal): Promise<void>;
+  updateKeys(groupId: string): Promise<void>;
+  encryptGroupMessage(groupId: string, message: Uint8Array): Promise<EncryptedMessage>;
+  decryptGroupMessage(groupId: string, encrypted: EncryptedMessage): Promise<GroupPlaintext>;
+  processHandshakeMessage(groupId: string, message: Uint8Array): Promise<void>;
+  processWelcome(welcome: Uint8Array): Promise<GroupSession>;
 }
 
 export interface IMessageEncryptionService {
-  encryptMessage(message: Message, recipientId: string): Promise<EncryptedMessage>;
+  encryptMessage(
+    message: Message,
+    recipientId: string,
+    options?: MessageSendOptions
+  ): Promise<EncryptedMessage[]>;
   decryptMessage(encrypted: EncryptedMessage): Promise<Message>;
-  encryptGroupMessage(message: Message, groupId: string): Promise<EncryptedMessage>;
+  encryptGroupMessage(
+    message: Message,
+    groupId: string,
+    options?: MessageSendOptions
+  ): Promise<EncryptedMessage>;
   decryptGroupMessage(encrypted: EncryptedMessage, groupId: string): Promise<Message>;
 }
 
@@ -263,7 +263,8 @@ export class DHTService implements IDHTService {
     }
   }
 
-  private async findClosestPeers(key: string, count: number): Promise<PeerInfo[]> {
+  // Ближайшие к ключу узлы по метрике Kademlia, например для хранения данных о пользователе
+  async findClosestPeers(key: string, count: number): Promise<PeerInfo[]> {
     if (!this.node) return [];
 
     const keyHash = this.hashKey(key);
@@ -12,14 +12,24 @@ import { circuitRelayTransport } from '@libp2p/circuit-relay-v2';
 import { createEd25519PeerId } from '@libp2p/peer-id-factory';
 import { pipe } from 'it-pipe';
 import { fromString, toString } from 'uint8arrays';
-import type { IP2PService, P2PConfig, PeerInfo } from '../types';
+import type { Stream } from '@libp2p/interface';
+import type { IP2PService, P2PConfig, PeerInfo, ProtocolLimits } from '../types';
 import { DHTService } from './DHTService';
 import { CoverTrafficService } from './CoverTrafficService';
 
+const DEFAULT_PROTOCOL_LIMITS: Required<ProtocolLimits> = {
+  maxRequestSize: 1024 * 1024,
+  maxResponseSize: 1024 * 1024,
+  timeout: 30 * 1000, // 30 секунд
+};
+
 export class P2PService implements IP2PService {
   private node: Libp2p | null = null;
   private config: P2PConfig;
   private handlers: Map<string, (data: Uint8Array, from: string) => void> = new Map();
+  private requestHandlers: Map<string, (data: Uint8Array, from: string) => Promise<Uint8Array>> =
+    new Map();
+  private protocolLimits: Map<string, ProtocolLimits> = new Map();
   private dht: DHTService;
   private coverTraffic: CoverTrafficService;
   private peerId: any = null;
@@ -158,6 +168,37 @@ export class P2PService implements IP2PService {
     );
   }
 
+  // Запрос-ответ в одном потоке: запрос закрывает запись, ответ читается до конца потока.
+  // Слишком длинный или медленный ответ прерывает поток
+  async request(peerId: string, protocol: string, data: Uint8Array): Promise<Uint8Array> {
+    if (!this.node) {
+      throw new Error('P2P node not started');
+    }
+
+    const limits = this.getProtocolLimits(protocol);
+    if (data.length > limits.maxRequestSize) {
+      throw new Error('Request too large');
+    }
+
+    const controller = new AbortController();
+    let stream: Stream | null = null;
+    const timer = setTimeout(() => {
+      const error = new Error('Request timed out');
+      controller.abort(error);
+      stream?.abort(error);
+    }, limits.timeout);
+
+    try {
+      stream = await this.node.dialProtocol(peerId, protocol, { signal: controller.signal });
+      return await pipe([data], stream, source => this.readAll(source, limits.maxResponseSize));
+    } catch (error) {
+      stream?.abort(error as Error);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   async broadcast(protocol: string, data: Uint8Array): Promise<void> {
     if (!this.node) {
       throw new Error('P2P node not started');
@@ -206,31 +247,100 @@ export class P2PService implements IP2PService {
     }
   }
 
+  onRequest(
+    protocol: string,
+    handler: (data: Uint8Array, from: string) => Promise<Uint8Array>
+  ): void {
+    this.requestHandlers.set(protocol, handler);
+
+    if (this.node) {
+      this.setupRequestHandler(protocol);
+    }
+  }
+
+  // Задаётся обеими сторонами протокола: и для входящих запросов, и для ответов на наши
+  setProtocolLimits(protocol: string, limits: ProtocolLimits): void {
+    this.protocolLimits.set(protocol, limits);
+  }
+
   private setupProtocolHandlers(): void {
     if (!this.node) return;
 
     for (const [protocol, handler] of this.handlers) {
       this.setupProtocolHandler(protocol);
     }
+
+    for (const protocol of this.requestHandlers.keys()) {
+      this.setupRequestHandler(protocol);
+    }
+  }
+
+  private setupRequestHandler(protocol: string): void {
+    if (!this.node) return;
+
+    this.node.handle(protocol, async ({ stream, connection }) => {
+      const limits = this.getProtocolLimits(protocol);
+      const timer = setTimeout(() => stream.abort(new Error('Request timed out')), limits.timeout);
+
+      try {
+        const request = await this.readAll(stream.source, limits.maxRequestSize);
+        const handler = this.requestHandlers.get(protocol);
+        const response = handler
+          ? await handler(request, connection.remotePeer.toString())
+          : new Uint8Array(0);
+
+        await stream.sink([response]);
+      } catch (error) {
+        console.error('Error handling request:', protocol, error);
+        stream.abort(error as Error);
+      } finally {
+        clearTimeout(timer);
+      }
+    });
+  }
+
+  private getProtocolLimits(protocol: string): Required<ProtocolLimits> {
+    return {
+      ...DEFAULT_PROTOCOL_LIMITS,
+      ...this.config.protocolLimits,
+      ...this.protocolLimits.get(protocol),
+    };
+  }
+
+  // Читает не больше maxSize байт: длинное сообщение не накапливается в памяти целиком
+  private async readAll(
+    source: AsyncIterable<{ subarray(): Uint8Array }>,
+    maxSize: number
+  ): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for await (const chunk of source) {
+      const bytes = chunk.subarray();
+      size += bytes.length;
+      if (size > maxSize) {
+        throw new Error('Message too large');
+      }
+      chunks.push(bytes);
+    }
+
+    const data = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return data;
   }
 
   private setupProtocolHandler(protocol: string): void {
     if (!this.node) return;
 
     this.node.handle(protocol, async ({ stream, connection }) => {
+      const limits = this.getProtocolLimits(protocol);
+      const timer = setTimeout(() => stream.abort(new Error('Message timed out')), limits.timeout);
+
       try {
-        const chunks: Uint8Array[] = [];
-        
-        for await (const chunk of stream.source) {
-          chunks.push(chunk.subarray());
-        }
-        
-        const data = new Uint8Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0));
-        let offset = 0;
-        for (const chunk of chunks) {
-          data.set(chunk, offset);
-          offset += chunk.length;
-        }
+        const data = await this.readAll(stream.source, limits.maxRequestSize);
 
         // Распаковка из cover traffic если нужно
         let payload = data;
@@ -254,6 +364,9 @@ export class P2PService implements IP2PService {
         }
       } catch (error) {
         console.error('Error handling protocol:', protocol, error);
+        stream.abort(error as Error);
+      } finally {
+        clearTimeout(timer);
       }
     });
   }
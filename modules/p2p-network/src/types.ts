@@ -9,6 +9,15 @@ export interface P2PConfig {
   coverTrafficInterval?: number;
   maxPeers?: number;
   port?: number;
+  protocolLimits?: ProtocolLimits; // Ограничения по умолчанию для протоколов без своих
+}
+
+// Ограничения протокола: размеры в байтах, время всего обмена в мс. Входящее сообщение
+// или запрос проверяется по maxRequestSize, ответ на наш запрос - по maxResponseSize
+export interface ProtocolLimits {
+  maxRequestSize?: number;
+  maxResponseSize?: number;
+  timeout?: number;
 }
 
 export interface PeerInfo {
@@ -53,6 +62,10 @@ export interface IP2PService {
   getPeers(): Promise<PeerInfo[]>;
   getNodeId(): string;
   onMessage(protocol: string, handler: (data: Uint8Array, from: string) => void): void;
+  request(peerId: string, protocol: string, data: Uint8Array): Promise<Uint8Array>;
+  onRequest(protocol: string, handler: (data: Uint8Array, from: string) => Promise<Uint8Array>): void;
+  setProtocolLimits(protocol: string, limits: ProtocolLimits): void;
+  publishPresence(): Promise<void>;
 }
 
 export interface IDHTService {
@@ -61,6 +74,7 @@ export interface IDHTService {
   findPeer(peerId: string): Promise<PeerInfo | null>;
   provide(key: string): Promise<void>;
   findProviders(key: string): Promise<PeerInfo[]>;
+  findClosestPeers(key: string, count: number): Promise<PeerInfo[]>;
 }
 
 export interface ITorService {